@@ -27,6 +27,8 @@ import ClientRatings from './pages/ClientRatings';
 import Unauthorized from './pages/Unauthorized';
 import SuperAdminDashboard from './pages/SuperAdminDashboard';
 import VendorOrdersNotifications from './pages/VendorOrdersNotifications';
+import RunSheet from './pages/RunSheet';
+import KitchenPrep from './pages/KitchenPrep';
 
 // Components
 import Navigation from './components/Navigation';
@@ -124,6 +126,16 @@ const AppContent: React.FC = () => {
               <VendorOrdersNotifications />
             </ProtectedRoute>
           } />
+          <Route path="/vendor-run-sheet" element={
+            <ProtectedRoute requiredUserType="VENDOR">
+              <RunSheet />
+            </ProtectedRoute>
+          } />
+          <Route path="/vendor-kitchen-prep" element={
+            <ProtectedRoute requiredUserType="VENDOR">
+              <KitchenPrep />
+            </ProtectedRoute>
+          } />
           <Route path="/users" element={
             <ProtectedRoute requiredRole="ADMIN">
               <UserManagement />
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Box, FormControl, InputLabel, MenuItem, Select, TextField } from '@mui/material';
+import { DateRange } from '../types/analytics';
+import { ANALYTICS_RANGE_PRESETS, getRecentRange } from '../utils/salesAnalyticsUtils';
+
+interface AnalyticsRangePickerProps {
+  range: DateRange;
+  onChange: (range: DateRange) => void;
+  initialPreset?: number | 'custom';
+}
+
+// Preset periods ending today, or any from/to dates
+const AnalyticsRangePicker: React.FC<AnalyticsRangePickerProps> = ({ range, onChange, initialPreset = 'custom' }) => {
+  const [preset, setPreset] = useState<number | 'custom'>(initialPreset);
+
+  const handlePresetChange = (value: number | 'custom') => {
+    setPreset(value);
+    if (value !== 'custom') onChange(getRecentRange(value));
+  };
+
+  return (
+    <Box display="flex" gap={2} flexWrap="wrap">
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <InputLabel>Period</InputLabel>
+        <Select
+          value={preset}
+          label="Period"
+          onChange={(e) => handlePresetChange(e.target.value as number | 'custom')}
+        >
+          {ANALYTICS_RANGE_PRESETS.map(days => (
+            <MenuItem key={days} value={days}>
+              Last {days} days
+            </MenuItem>
+          ))}
+          <MenuItem value="custom">Custom</MenuItem>
+        </Select>
+      </FormControl>
+      <TextField
+        label="From"
+        type="date"
+        size="small"
+        value={range.from}
+        onChange={(e) => {
+          setPreset('custom');
+          onChange({ ...range, from: e.target.value });
+        }}
+        InputLabelProps={{ shrink: true }}
+      />
+      <TextField
+        label="To"
+        type="date"
+        size="small"
+        value={range.to}
+        onChange={(e) => {
+          setPreset('custom');
+          onChange({ ...range, to: e.target.value });
+        }}
+        InputLabelProps={{ shrink: true }}
+      />
+    </Box>
+  );
+};
+
+export default AnalyticsRangePicker;
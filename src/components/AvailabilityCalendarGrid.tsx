@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  Popover,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { addMonths, eachDayOfInterval, endOfMonth, format, startOfMonth } from 'date-fns';
+import { Business } from '../types';
+import { Order } from '../types/cart';
+import { Availability, AvailabilityCell, AvailabilityItem, AvailabilityLevel } from '../types/availability';
+import availabilityService from '../services/availabilityService';
+import orderService from '../services/orderService';
+import {
+  buildAvailabilityCells,
+  getAvailabilityKey,
+  getBookedQuantities,
+  getItemKey,
+  getSelectedCells,
+} from '../utils/availabilityCalendarUtils';
+
+const LEVEL_COLORS: Record<AvailabilityLevel, string> = {
+  unset: 'grey.100',
+  closed: 'grey.400',
+  open: 'success.light',
+  filling: 'warning.light',
+  full: 'error.light',
+};
+
+const LEVEL_LABELS: Record<AvailabilityLevel, string> = {
+  unset: 'Not set',
+  closed: 'Unavailable',
+  open: 'Open',
+  filling: 'Half booked or more',
+  full: 'Fully booked',
+};
+
+interface CellPosition {
+  row: number;
+  column: number;
+}
+
+interface AvailabilityCalendarGridProps {
+  business: Business;
+  items: AvailabilityItem[];
+}
+
+// Every item of a business against the days of a month; drag across cells to set them together
+const AvailabilityCalendarGrid: React.FC<AvailabilityCalendarGridProps> = ({ business, items }) => {
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const [availabilities, setAvailabilities] = useState<Availability[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragStart, setDragStart] = useState<CellPosition | null>(null);
+  const [dragEnd, setDragEnd] = useState<CellPosition | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [editorPosition, setEditorPosition] = useState<{ top: number; left: number } | null>(null);
+  const [quantity, setQuantity] = useState(0);
+  const [isAvailable, setIsAvailable] = useState(true);
+  const [priceOverride, setPriceOverride] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const dates = useMemo(
+    () => eachDayOfInterval({ start: month, end: endOfMonth(month) }).map(day => format(day, 'yyyy-MM-dd')),
+    [month]
+  );
+
+  useEffect(() => {
+    const loadCalendar = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [businessAvailabilities, businessOrders] = await Promise.all([
+          availabilityService.getAvailabilitiesForBusiness(business.businessId),
+          orderService.getOrdersByBusinessId(business.businessId),
+        ]);
+        setAvailabilities(businessAvailabilities);
+        setOrders(Array.isArray(businessOrders) ? businessOrders : []);
+      } catch (err: any) {
+        setError('Failed to load availability: ' + err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadCalendar();
+  }, [business.businessId]);
+
+  const booked = useMemo(() => getBookedQuantities(orders, business.businessId), [orders, business.businessId]);
+  const cells = useMemo(
+    () => buildAvailabilityCells(items, dates, availabilities, booked),
+    [items, dates, availabilities, booked]
+  );
+
+  const selectedCells = useMemo(
+    () => (dragStart && dragEnd ? getSelectedCells(cells, dragStart, dragEnd).filter(cell => cell.date >= today) : []),
+    [cells, dragStart, dragEnd, today]
+  );
+  const selectedKeys = useMemo(
+    () => new Set(selectedCells.map(cell => getAvailabilityKey(cell.item.type, cell.item.id, cell.date))),
+    [selectedCells]
+  );
+
+  // Finish a drag wherever the mouse is released, even outside the grid
+  useEffect(() => {
+    if (!dragging) return;
+    const handleMouseUp = (event: MouseEvent) => {
+      setDragging(false);
+      setEditorPosition({ top: event.clientY, left: event.clientX });
+    };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [dragging]);
+
+  useEffect(() => {
+    if (editorPosition && selectedCells.length > 0) {
+      const first = selectedCells[0].availability;
+      setQuantity(first?.availableQuantity ?? 0);
+      setIsAvailable(first?.isAvailable ?? true);
+      setPriceOverride(first?.priceOverride?.toString() || '');
+    }
+  }, [editorPosition]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleMouseDown = (cell: AvailabilityCell, position: CellPosition) => (event: React.MouseEvent) => {
+    if (cell.date < today || event.button !== 0) return;
+    event.preventDefault();
+    setDragStart(position);
+    setDragEnd(position);
+    setDragging(true);
+  };
+
+  const closeEditor = () => {
+    setEditorPosition(null);
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const handleSave = async () => {
+    if (selectedCells.length === 0) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await availabilityService.bulkCreateOrUpdateAvailability(
+        selectedCells.map(cell => ({
+          itemId: cell.item.id,
+          itemType: cell.item.type,
+          businessId: business.businessId,
+          availabilityDate: cell.date,
+          availableQuantity: quantity,
+          isAvailable,
+          priceOverride: priceOverride ? parseFloat(priceOverride) : undefined,
+        }))
+      );
+
+      // Reload only the items that changed, for the days shown
+      const changedItems = Array.from(new Map(selectedCells.map(cell => [getItemKey(cell.item.type, cell.item.id), cell.item])).values());
+      const reloaded = await Promise.all(
+        changedItems.map(item =>
+          availabilityService.getAvailabilitiesInRange(item.id, item.type, dates[0], dates[dates.length - 1])
+        )
+      );
+      const changedKeys = new Set(changedItems.map(item => getItemKey(item.type, item.id)));
+      setAvailabilities(current => [
+        ...current.filter(
+          availability =>
+            !changedKeys.has(getItemKey(availability.itemType, availability.itemId)) ||
+            availability.availabilityDate < dates[0] ||
+            availability.availabilityDate > dates[dates.length - 1]
+        ),
+        ...reloaded.flat(),
+      ]);
+      closeEditor();
+    } catch (err: any) {
+      setError('Failed to save availability: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeCell = (cell: AvailabilityCell) =>
+    `${cell.item.name} · ${format(new Date(`${cell.date}T00:00:00`), 'EEE d MMM')}\n` +
+    (cell.availability
+      ? `${LEVEL_LABELS[cell.level]} · set ${cell.availability.availableQuantity}, booked ${cell.booked}, left ${cell.remaining}` +
+        (cell.availability.priceOverride ? ` · ₹${cell.availability.priceOverride}` : '')
+      : `Not set · booked ${cell.booked}`);
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Button onClick={() => setMonth(addMonths(month, -1))}>Previous Month</Button>
+        <Typography variant="h6">{format(month, 'MMMM yyyy')}</Typography>
+        <Button onClick={() => setMonth(addMonths(month, 1))}>Next Month</Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={2} flexWrap="wrap" mb={2}>
+        {(Object.keys(LEVEL_LABELS) as AvailabilityLevel[]).map(level => (
+          <Box key={level} display="flex" alignItems="center" gap={0.5}>
+            <Box sx={{ width: 14, height: 14, borderRadius: 0.5, bgcolor: LEVEL_COLORS[level] }} />
+            <Typography variant="caption">{LEVEL_LABELS[level]}</Typography>
+          </Box>
+        ))}
+        <Typography variant="caption" color="text.secondary">
+          Cells show quantity left / set. Drag across cells to set several at once.
+        </Typography>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={4}>
+          <CircularProgress />
+        </Box>
+      ) : items.length === 0 ? (
+        <Typography color="text.secondary">This business has no themes, inventory or plates yet.</Typography>
+      ) : (
+        <TableContainer sx={{ maxHeight: 600, userSelect: 'none' }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ position: 'sticky', left: 0, zIndex: 3, bgcolor: 'background.paper', minWidth: 180 }}>
+                  Item
+                </TableCell>
+                {dates.map(date => (
+                  <TableCell key={date} align="center" sx={{ px: 0.5, minWidth: 44 }}>
+                    <Typography variant="caption" display="block">
+                      {format(new Date(`${date}T00:00:00`), 'EEEEE')}
+                    </Typography>
+                    {Number(date.slice(8))}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {cells.map((row, rowIndex) => (
+                <TableRow key={`${row[0]?.item.type}:${row[0]?.item.id}`}>
+                  <TableCell sx={{ position: 'sticky', left: 0, zIndex: 1, bgcolor: 'background.paper' }}>
+                    <Typography variant="body2" noWrap>
+                      {items[rowIndex].name}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ textTransform: 'capitalize' }}>
+                      {items[rowIndex].type}
+                    </Typography>
+                  </TableCell>
+                  {row.map((cell, columnIndex) => {
+                    const isPast = cell.date < today;
+                    const isSelected = selectedKeys.has(getAvailabilityKey(cell.item.type, cell.item.id, cell.date));
+                    return (
+                      <TableCell
+                        key={cell.date}
+                        align="center"
+                        title={describeCell(cell)}
+                        onMouseDown={handleMouseDown(cell, { row: rowIndex, column: columnIndex })}
+                        onMouseEnter={() => dragging && setDragEnd({ row: rowIndex, column: columnIndex })}
+                        sx={{
+                          px: 0.5,
+                          cursor: isPast ? 'default' : 'pointer',
+                          bgcolor: LEVEL_COLORS[cell.level],
+                          opacity: isPast ? 0.5 : 1,
+                          outline: isSelected ? '2px solid' : 'none',
+                          outlineColor: 'primary.main',
+                          outlineOffset: -2,
+                        }}
+                      >
+                        <Typography variant="caption">
+                          {cell.level === 'unset' ? '–' : cell.level === 'closed' ? '✕' : `${cell.remaining}/${cell.availability!.availableQuantity}`}
+                        </Typography>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Popover
+        open={!!editorPosition && selectedCells.length > 0}
+        anchorReference="anchorPosition"
+        anchorPosition={editorPosition || undefined}
+        onClose={closeEditor}
+      >
+        <Box p={2} width={260}>
+          <Typography variant="subtitle2" gutterBottom>
+            {selectedCells.length === 1
+              ? `${selectedCells[0].item.name} · ${format(new Date(`${selectedCells[0].date}T00:00:00`), 'd MMM yyyy')}`
+              : `Set ${selectedCells.length} cells`}
+          </Typography>
+          <ToggleButtonGroup
+            exclusive
+            fullWidth
+            size="small"
+            value={isAvailable}
+            onChange={(_, value) => value !== null && setIsAvailable(value)}
+            sx={{ mb: 2 }}
+          >
+            <ToggleButton value={true} color="success">
+              Available
+            </ToggleButton>
+            <ToggleButton value={false} color="error">
+              Unavailable
+            </ToggleButton>
+          </ToggleButtonGroup>
+          <TextField
+            fullWidth
+            size="small"
+            type="number"
+            label="Available Quantity"
+            value={quantity}
+            onChange={(e) => setQuantity(Math.max(0, parseInt(e.target.value) || 0))}
+            inputProps={{ min: 0 }}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            size="small"
+            type="number"
+            label="Price Override (Optional)"
+            value={priceOverride}
+            onChange={(e) => setPriceOverride(e.target.value)}
+            inputProps={{ min: 0, step: 0.01 }}
+            helperText="Leave empty to use default price"
+          />
+          <Box display="flex" justifyContent="flex-end" gap={1} mt={2}>
+            <Button size="small" onClick={closeEditor} disabled={saving}>
+              Cancel
+            </Button>
+            <Button size="small" variant="contained" onClick={handleSave} disabled={saving}>
+              {saving ? <CircularProgress size={18} /> : 'Save'}
+            </Button>
+          </Box>
+        </Box>
+      </Popover>
+    </Paper>
+  );
+};
+
+export default AvailabilityCalendarGrid;
@@ -0,0 +1,381 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  Chip,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { addMonths, format, parseISO } from 'date-fns';
+import {
+  Availability,
+  AvailabilityDateChange,
+  AvailabilityDateChangeType,
+  AvailabilityRule,
+  AvailabilityRuleKind,
+  AvailabilityRuleRequest,
+} from '../types/availability';
+import availabilityService from '../services/availabilityService';
+import { WEEKDAY_LABELS, previewRule, validateRule } from '../utils/availabilityRuleUtils';
+
+const CHANGE_LABELS: Record<AvailabilityDateChangeType, string> = {
+  create: 'New',
+  update: 'Changed',
+  unchanged: 'Unchanged',
+  blocked: 'Blacked out',
+};
+
+const CHANGE_COLORS: Record<AvailabilityDateChangeType, 'success' | 'warning' | 'default' | 'error'> = {
+  create: 'success',
+  update: 'warning',
+  unchanged: 'default',
+  blocked: 'error',
+};
+
+const describeAvailability = (availability?: Pick<Availability, 'isAvailable' | 'availableQuantity' | 'priceOverride'>) =>
+  !availability
+    ? 'Not set'
+    : !availability.isAvailable
+    ? 'Unavailable'
+    : `Qty ${availability.availableQuantity}${availability.priceOverride ? ` · ₹${availability.priceOverride}` : ''}`;
+
+interface AvailabilityRuleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  itemId: string;
+  itemType: 'theme' | 'inventory' | 'plate';
+  itemName: string;
+  businessId: string;
+  rule: AvailabilityRule | null; // Rule being edited; null for a new rule
+  otherRules: AvailabilityRule[];
+  availabilities: Availability[];
+  onApplied?: () => void;
+}
+
+const AvailabilityRuleDialog: React.FC<AvailabilityRuleDialogProps> = ({
+  open,
+  onClose,
+  itemId,
+  itemType,
+  itemName,
+  businessId,
+  rule,
+  otherRules,
+  availabilities,
+  onApplied,
+}) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AvailabilityRuleKind>('OPEN');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [availableQuantity, setAvailableQuantity] = useState(0);
+  const [priceOverride, setPriceOverride] = useState('');
+  const [exceptions, setExceptions] = useState<string[]>([]);
+  const [exceptionDate, setExceptionDate] = useState('');
+  const [preview, setPreview] = useState<AvailabilityDateChange[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      const today = new Date();
+      setName(rule?.name || '');
+      setKind(rule?.kind || 'OPEN');
+      setStartDate(rule?.startDate || format(today, 'yyyy-MM-dd'));
+      setEndDate(rule?.endDate || format(addMonths(today, 3), 'yyyy-MM-dd'));
+      setWeekdays(rule?.weekdays || []);
+      setAvailableQuantity(rule?.availableQuantity || 0);
+      setPriceOverride(rule?.priceOverride?.toString() || '');
+      setExceptions(rule?.exceptions || []);
+      setExceptionDate('');
+      setPreview(null);
+      setErrors([]);
+    }
+  }, [open, rule?.ruleId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const buildRequest = (): AvailabilityRuleRequest => ({
+    itemId,
+    itemType,
+    businessId,
+    name: name.trim(),
+    kind,
+    startDate,
+    endDate,
+    weekdays: [...weekdays].sort(),
+    availableQuantity: kind === 'OPEN' ? availableQuantity : 0,
+    priceOverride: kind === 'OPEN' && priceOverride ? parseFloat(priceOverride) : undefined,
+    exceptions: [...exceptions].sort(),
+  });
+
+  const handlePreview = () => {
+    const request = buildRequest();
+    const problems = validateRule(request);
+    setErrors(problems);
+    if (problems.length === 0) {
+      setPreview(previewRule(request, otherRules, availabilities));
+    }
+  };
+
+  const handleAddException = () => {
+    if (exceptionDate && !exceptions.includes(exceptionDate)) {
+      setExceptions([...exceptions, exceptionDate]);
+      setPreview(null);
+    }
+    setExceptionDate('');
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setSaving(true);
+    setErrors([]);
+    try {
+      const request = buildRequest();
+      if (rule) {
+        await availabilityService.updateRule(rule.ruleId, request);
+      } else {
+        await availabilityService.createRule(request);
+      }
+      await availabilityService.bulkCreateOrUpdateAvailability(
+        preview.filter(change => change.type === 'create' || change.type === 'update').map(change => change.request)
+      );
+      onApplied?.();
+      onClose();
+    } catch (err: any) {
+      setErrors(['Failed to apply rule: ' + err.message]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Any edit invalidates the preview, so the vendor always sees what will actually be applied
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+  };
+
+  const counts = (preview || []).reduce<Partial<Record<AvailabilityDateChangeType, number>>>((totals, change) => {
+    totals[change.type] = (totals[change.type] || 0) + 1;
+    return totals;
+  }, {});
+  const changeCount = (counts.create || 0) + (counts.update || 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {rule ? 'Edit Availability Rule' : 'New Availability Rule'} – {itemName}
+      </DialogTitle>
+      <DialogContent>
+        {errors.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {errors.map(problem => (
+              <div key={problem}>{problem}</div>
+            ))}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              label="Rule Name"
+              placeholder="e.g. Winter weekends"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <ToggleButtonGroup
+              exclusive
+              fullWidth
+              value={kind}
+              onChange={(_, value) => value && edit(setKind)(value)}
+              sx={{ height: '100%' }}
+            >
+              <ToggleButton value="OPEN" color="success">
+                Open
+              </ToggleButton>
+              <ToggleButton value="BLACKOUT" color="error">
+                Blackout
+              </ToggleButton>
+            </ToggleButtonGroup>
+          </Grid>
+          <Grid item xs={6}>
+            <TextField
+              fullWidth
+              label="From"
+              type="date"
+              value={startDate}
+              onChange={(e) => edit(setStartDate)(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              required
+            />
+          </Grid>
+          <Grid item xs={6}>
+            <TextField
+              fullWidth
+              label="To"
+              type="date"
+              value={endDate}
+              onChange={(e) => edit(setEndDate)(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              required
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Days of the week (none selected means every day)
+            </Typography>
+            <ToggleButtonGroup
+              size="small"
+              value={weekdays}
+              onChange={(_, value: number[]) => edit(setWeekdays)(value)}
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleButton key={label} value={day}>
+                  {label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Grid>
+          {kind === 'OPEN' && (
+            <>
+              <Grid item xs={6}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label="Available Quantity"
+                  value={availableQuantity}
+                  onChange={(e) => edit(setAvailableQuantity)(parseInt(e.target.value) || 0)}
+                  inputProps={{ min: 0 }}
+                  required
+                />
+              </Grid>
+              <Grid item xs={6}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label="Price Override (Optional)"
+                  value={priceOverride}
+                  onChange={(e) => edit(setPriceOverride)(e.target.value)}
+                  inputProps={{ min: 0, step: 0.01 }}
+                  helperText="Leave empty to use default price"
+                />
+              </Grid>
+            </>
+          )}
+          <Grid item xs={12}>
+            <Box display="flex" gap={1} alignItems="center">
+              <TextField
+                size="small"
+                label="Except On"
+                type="date"
+                value={exceptionDate}
+                onChange={(e) => setExceptionDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: startDate, max: endDate }}
+              />
+              <Button size="small" onClick={handleAddException} disabled={!exceptionDate}>
+                Add Exception
+              </Button>
+            </Box>
+            <Box display="flex" gap={1} flexWrap="wrap" mt={1}>
+              {[...exceptions].sort().map(date => (
+                <Chip
+                  key={date}
+                  size="small"
+                  label={format(parseISO(date), 'd MMM yyyy')}
+                  onDelete={() => edit(setExceptions)(exceptions.filter(other => other !== date))}
+                />
+              ))}
+            </Box>
+          </Grid>
+        </Grid>
+
+        {preview && (
+          <Box mt={3}>
+            <Typography variant="subtitle1" gutterBottom>
+              Preview
+            </Typography>
+            <Box display="flex" gap={1} flexWrap="wrap" mb={1}>
+              {(Object.keys(CHANGE_LABELS) as AvailabilityDateChangeType[])
+                .filter(type => counts[type])
+                .map(type => (
+                  <Chip key={type} size="small" color={CHANGE_COLORS[type]} label={`${CHANGE_LABELS[type]}: ${counts[type]}`} />
+                ))}
+            </Box>
+            {preview.length === 0 ? (
+              <Alert severity="info">All of this rule's dates are in the past; nothing will change.</Alert>
+            ) : (
+              <Box sx={{ maxHeight: 280, overflowY: 'auto' }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Now</TableCell>
+                      <TableCell>After</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {preview.map(change => (
+                      <TableRow key={change.date}>
+                        <TableCell>{format(parseISO(change.date), 'EEE d MMM yyyy')}</TableCell>
+                        <TableCell>{describeAvailability(change.current)}</TableCell>
+                        <TableCell>
+                          {change.type === 'blocked' ? describeAvailability(change.current) : describeAvailability({
+                            isAvailable: change.request.isAvailable ?? true,
+                            availableQuantity: change.request.availableQuantity,
+                            priceOverride: change.request.priceOverride,
+                          })}
+                        </TableCell>
+                        <TableCell>
+                          <Chip size="small" color={CHANGE_COLORS[change.type]} label={CHANGE_LABELS[change.type]} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        {preview ? (
+          <Button
+            variant="contained"
+            onClick={handleApply}
+            disabled={saving}
+            startIcon={saving ? <CircularProgress size={20} /> : null}
+          >
+            {saving ? 'Applying...' : changeCount > 0 ? `Save & Apply to ${changeCount} Dates` : 'Save Rule'}
+          </Button>
+        ) : (
+          <Button variant="contained" onClick={handlePreview}>
+            Preview
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AvailabilityRuleDialog;
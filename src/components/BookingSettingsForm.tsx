@@ -0,0 +1,321 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  CircularProgress,
+  Box,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { Business } from '../types';
+import { BookingConstraints, BookingSettings, ItemBookingConstraints } from '../types/availability';
+import availabilityService from '../services/availabilityService';
+
+interface BookingItemOption {
+  id: string;
+  type: ItemBookingConstraints['itemType'];
+  name: string;
+}
+
+interface BookingSettingsFormProps {
+  open: boolean;
+  onClose: () => void;
+  business: Business;
+  // Items of the business that can get their own constraints
+  items: BookingItemOption[];
+  onSuccess?: (settings: BookingSettings) => void;
+}
+
+const defaultSettings = (businessId: string): BookingSettings => ({
+  businessId,
+  defaults: {},
+  itemRules: [],
+});
+
+const getItemKey = (item: { type: string; id: string }) => `${item.type}:${item.id}`;
+
+// Empty fields leave a limit unset
+const parseLimit = (value: string): number | undefined => (value === '' ? undefined : parseInt(value, 10));
+
+const validateConstraints = (constraints: BookingConstraints, label: string): string | null => {
+  const { leadTimeDays, maxAdvanceDays, minQuantity, maxQuantity } = constraints;
+  if ([leadTimeDays, maxAdvanceDays].some(days => days !== undefined && !(days >= 0))) {
+    return `${label}: days must be zero or more`;
+  }
+  if ([minQuantity, maxQuantity].some(quantity => quantity !== undefined && !(quantity >= 1))) {
+    return `${label}: quantities must be at least 1`;
+  }
+  if (minQuantity !== undefined && maxQuantity !== undefined && minQuantity > maxQuantity) {
+    return `${label}: the minimum quantity cannot be more than the maximum`;
+  }
+  if (leadTimeDays !== undefined && maxAdvanceDays !== undefined && leadTimeDays > maxAdvanceDays) {
+    return `${label}: the notice needed cannot be longer than the booking window`;
+  }
+  return null;
+};
+
+interface ConstraintFieldsProps {
+  constraints: BookingConstraints;
+  onChange: (changes: BookingConstraints) => void;
+  size?: 'small' | 'medium';
+  placeholder?: string; // Shown in empty fields, e.g. that the default applies
+}
+
+const ConstraintFields: React.FC<ConstraintFieldsProps> = ({ constraints, onChange, size = 'medium', placeholder }) => {
+  const numberField = (key: Exclude<keyof BookingConstraints, 'sameDayCutoff'>, label: string) => (
+    <TextField
+      fullWidth
+      size={size}
+      label={label}
+      type="number"
+      value={constraints[key] ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => onChange({ [key]: parseLimit(e.target.value) })}
+      InputLabelProps={{ shrink: true }}
+      inputProps={{ min: 0 }}
+    />
+  );
+
+  return (
+    <>
+      <Grid item xs={6} sm={2.4}>
+        {numberField('leadTimeDays', 'Notice (days)')}
+      </Grid>
+      <Grid item xs={6} sm={2.4}>
+        {numberField('maxAdvanceDays', 'Book Ahead (days)')}
+      </Grid>
+      <Grid item xs={6} sm={2.4}>
+        {numberField('minQuantity', 'Min Quantity')}
+      </Grid>
+      <Grid item xs={6} sm={2.4}>
+        {numberField('maxQuantity', 'Max Quantity')}
+      </Grid>
+      <Grid item xs={12} sm={2.4}>
+        <TextField
+          fullWidth
+          size={size}
+          label="Order Cutoff"
+          type="time"
+          value={constraints.sameDayCutoff ?? ''}
+          onChange={(e) => onChange({ sameDayCutoff: e.target.value || undefined })}
+          InputLabelProps={{ shrink: true }}
+        />
+      </Grid>
+    </>
+  );
+};
+
+const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({ open, onClose, business, items, onSuccess }) => {
+  const [settings, setSettings] = useState<BookingSettings>(defaultSettings(business.businessId));
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadSettings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const saved = await availabilityService.getBookingSettings(business.businessId);
+        setSettings(
+          saved
+            ? { ...saved, defaults: saved.defaults || {}, itemRules: saved.itemRules || [] }
+            : defaultSettings(business.businessId)
+        );
+      } catch (err: any) {
+        console.error('Error loading booking settings:', err);
+        setError(err.message || 'Failed to load booking settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [open, business.businessId]);
+
+  const handleAddItemRule = () => {
+    const usedKeys = new Set(settings.itemRules.map(rule => getItemKey({ type: rule.itemType, id: rule.itemId })));
+    const item = items.find(option => !usedKeys.has(getItemKey(option)));
+    if (!item) return;
+    setSettings(prev => ({
+      ...prev,
+      itemRules: [...prev.itemRules, { itemId: item.id, itemType: item.type, itemName: item.name }],
+    }));
+  };
+
+  const handleItemRuleChange = (index: number, changes: Partial<ItemBookingConstraints>) => {
+    setSettings(prev => ({
+      ...prev,
+      itemRules: prev.itemRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const handleItemChange = (index: number, itemKey: string) => {
+    const item = items.find(option => getItemKey(option) === itemKey);
+    if (item) {
+      handleItemRuleChange(index, { itemId: item.id, itemType: item.type, itemName: item.name });
+    }
+  };
+
+  const handleRemoveItemRule = (index: number) => {
+    setSettings(prev => ({
+      ...prev,
+      itemRules: prev.itemRules.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const errors = [
+      validateConstraints(settings.defaults, 'Defaults'),
+      // An item's limits are checked together with the defaults they fall back to
+      ...settings.itemRules.map(rule =>
+        validateConstraints(
+          {
+            leadTimeDays: rule.leadTimeDays ?? settings.defaults.leadTimeDays,
+            maxAdvanceDays: rule.maxAdvanceDays ?? settings.defaults.maxAdvanceDays,
+            minQuantity: rule.minQuantity ?? settings.defaults.minQuantity,
+            maxQuantity: rule.maxQuantity ?? settings.defaults.maxQuantity,
+          },
+          rule.itemName
+        )
+      ),
+    ].filter((message): message is string => !!message);
+    if (errors.length > 0) {
+      setError(errors[0]);
+      return;
+    }
+    const itemKeys = settings.itemRules.map(rule => getItemKey({ type: rule.itemType, id: rule.itemId }));
+    if (new Set(itemKeys).size !== itemKeys.length) {
+      setError('Each item can only have one set of booking rules');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = await availabilityService.saveBookingSettings(settings);
+      onSuccess?.(saved);
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving booking settings:', err);
+      setError(err.message || 'Failed to save booking settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Booking Rules</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2, mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ mt: 1 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Customers cannot pick dates or quantities outside these limits. Leave a field empty for no limit.
+              Orders placed after the cutoff time need a day more notice.
+            </Typography>
+            <Grid container spacing={2}>
+              <ConstraintFields
+                constraints={settings.defaults}
+                onChange={(changes) => setSettings(prev => ({ ...prev, defaults: { ...prev.defaults, ...changes } }))}
+              />
+            </Grid>
+
+            <Divider sx={{ my: 3 }} />
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+              <Box>
+                <Typography variant="h6">Item Rules</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Override the defaults for specific items. Empty fields use the default.
+                </Typography>
+              </Box>
+              <Button
+                startIcon={<AddIcon />}
+                onClick={handleAddItemRule}
+                disabled={settings.itemRules.length >= items.length}
+              >
+                Add Item
+              </Button>
+            </Box>
+            {settings.itemRules.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                All items use the defaults.
+              </Typography>
+            ) : (
+              settings.itemRules.map((rule, index) => (
+                <Grid container spacing={2} key={index} sx={{ mb: 2 }}>
+                  <Grid item xs={10} sm={11}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>Item</InputLabel>
+                      <Select
+                        value={getItemKey({ type: rule.itemType, id: rule.itemId })}
+                        label="Item"
+                        onChange={(e) => handleItemChange(index, e.target.value)}
+                      >
+                        {items.map(item => (
+                          <MenuItem key={getItemKey(item)} value={getItemKey(item)}>
+                            {item.name}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                  <Grid item xs={2} sm={1}>
+                    <IconButton color="error" onClick={() => handleRemoveItemRule(index)}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </Grid>
+                  <ConstraintFields
+                    size="small"
+                    placeholder="Default"
+                    constraints={rule}
+                    onChange={(changes) => handleItemRuleChange(index, changes)}
+                  />
+                </Grid>
+              ))
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={saving || loading}
+          startIcon={saving ? <CircularProgress size={20} /> : null}
+        >
+          {saving ? 'Saving...' : 'Save Rules'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BookingSettingsForm;
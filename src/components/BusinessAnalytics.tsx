@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CircularProgress,
+  Alert,
+  Grid,
+  LinearProgress,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { Business } from '../types';
+import { Order, OrderStatusValue } from '../types/cart';
+import { RatingStats } from '../types/rating';
+import { DateRange } from '../types/analytics';
+import orderService from '../services/orderService';
+import { ratingService } from '../services/ratingService';
+import MetricCard from './MetricCard';
+import RevenueChart from './RevenueChart';
+import AnalyticsRangePicker from './AnalyticsRangePicker';
+import { ORDER_STATUS_LABELS } from '../utils/orderStatusUtils';
+import { formatIndianNumber } from '../utils/orderExportUtils';
+import { buildSalesAnalytics, getChange, getRatingTrend, getRecentRange } from '../utils/salesAnalyticsUtils';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatCurrency = (value: number) => `₹${formatIndianNumber(value, 0)}`;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+interface BookingHeatMapProps {
+  range: DateRange;
+  bookings: Record<string, number>;
+}
+
+// Weekdays down, weeks across; darker cells have more orders booked for that day
+const BookingHeatMap: React.FC<BookingHeatMapProps> = ({ range, bookings }) => {
+  const max = Math.max(1, ...Object.values(bookings));
+  const weeks: Date[] = [];
+  const end = parseISO(range.to);
+  for (let week = startOfWeek(parseISO(range.from), { weekStartsOn: 1 }); week <= end; week = addDays(week, 7)) {
+    weeks.push(week);
+  }
+
+  return (
+    <Box display="flex" gap={0.5} sx={{ overflowX: 'auto' }}>
+      <Box display="flex" flexDirection="column" gap={0.5}>
+        {WEEKDAYS.map(day => (
+          <Typography key={day} variant="caption" color="text.secondary" sx={{ height: 14, lineHeight: '14px' }}>
+            {day}
+          </Typography>
+        ))}
+      </Box>
+      {weeks.map(week => (
+        <Box key={week.toISOString()} display="flex" flexDirection="column" gap={0.5}>
+          {WEEKDAYS.map((_, index) => {
+            const date = format(addDays(week, index), 'yyyy-MM-dd');
+            const inRange = date >= range.from && date <= range.to;
+            const count = bookings[date] || 0;
+            return (
+              <Tooltip key={date} title={inRange ? `${format(parseISO(date), 'EEE d MMM yyyy')}: ${count} booked` : ''}>
+                <Box
+                  sx={{
+                    width: 14,
+                    height: 14,
+                    borderRadius: 0.5,
+                    bgcolor: !inRange ? 'transparent' : count === 0 ? 'grey.200' : 'primary.main',
+                    opacity: inRange && count > 0 ? 0.25 + 0.75 * (count / max) : 1,
+                  }}
+                />
+              </Tooltip>
+            );
+          })}
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+interface BusinessAnalyticsProps {
+  business: Business;
+}
+
+const BusinessAnalytics: React.FC<BusinessAnalyticsProps> = ({ business }) => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [ratingStats, setRatingStats] = useState<RatingStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<DateRange>(getRecentRange(30));
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [businessOrders, stats] = await Promise.all([
+          orderService.getOrdersByBusinessId(business.businessId),
+          // Ratings are a nice-to-have; sales still show without them
+          ratingService.getBusinessRatingStats(business.businessId).catch(() => null),
+        ]);
+        setOrders(Array.isArray(businessOrders) ? businessOrders : []);
+        setRatingStats(stats);
+      } catch (err) {
+        console.error('Error loading business analytics:', err);
+        setError('Failed to load analytics');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadAnalytics();
+  }, [business.businessId]);
+
+  const analytics = useMemo(
+    () => (range.from <= range.to ? buildSalesAnalytics(orders, business.businessId, range) : null),
+    [orders, business.businessId, range]
+  );
+  const ratingTrend = useMemo(() => getRatingTrend(ratingStats?.recentRatings || []), [ratingStats]);
+
+  const itemTypes = analytics ? Object.keys(analytics.topItems).sort() : [];
+  const statusCounts = analytics
+    ? (Object.keys(ORDER_STATUS_LABELS) as OrderStatusValue[])
+        .map(status => ({ status, count: analytics.ordersByStatus[status] || 0 }))
+        .filter(entry => entry.count > 0)
+    : [];
+
+  return (
+    <Card sx={{ mt: 4 }}>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2} mb={3}>
+          <Typography variant="h6">Sales Analytics</Typography>
+          <AnalyticsRangePicker range={range} onChange={setRange} initialPreset={30} />
+        </Box>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : !analytics ? (
+          <Alert severity="warning">The start date must be on or before the end date.</Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              Compared with {format(parseISO(analytics.previousRange.from), 'd MMM yyyy')} –{' '}
+              {format(parseISO(analytics.previousRange.to), 'd MMM yyyy')}
+            </Typography>
+
+            <Grid container spacing={2} mb={3}>
+              <Grid item xs={6} md={2}>
+                <MetricCard
+                  label="Revenue"
+                  value={formatCurrency(analytics.summary.revenue)}
+                  change={getChange(analytics.summary.revenue, analytics.previousSummary.revenue)}
+                />
+              </Grid>
+              <Grid item xs={6} md={2}>
+                <MetricCard
+                  label="Orders"
+                  value={String(analytics.summary.orderCount)}
+                  change={getChange(analytics.summary.orderCount, analytics.previousSummary.orderCount)}
+                />
+              </Grid>
+              <Grid item xs={6} md={2}>
+                <MetricCard
+                  label="Average Order Value"
+                  value={formatCurrency(analytics.summary.averageOrderValue)}
+                  change={getChange(analytics.summary.averageOrderValue, analytics.previousSummary.averageOrderValue)}
+                />
+              </Grid>
+              <Grid item xs={6} md={2}>
+                <MetricCard
+                  label="Cancellation Rate"
+                  value={formatPercent(analytics.summary.cancellationRate)}
+                  change={getChange(analytics.summary.cancellationRate, analytics.previousSummary.cancellationRate)}
+                  lowerIsBetter
+                />
+              </Grid>
+              <Grid item xs={6} md={2}>
+                <MetricCard
+                  label="Customers"
+                  value={String(analytics.summary.customerCount)}
+                  change={getChange(analytics.summary.customerCount, analytics.previousSummary.customerCount)}
+                />
+              </Grid>
+              <Grid item xs={6} md={2}>
+                <MetricCard
+                  label="Repeat Customers"
+                  value={formatPercent(analytics.summary.repeatCustomerShare)}
+                  change={getChange(analytics.summary.repeatCustomerShare, analytics.previousSummary.repeatCustomerShare)}
+                />
+              </Grid>
+            </Grid>
+
+            <Grid container spacing={3}>
+              <Grid item xs={12} md={8}>
+                <Typography variant="subtitle1" gutterBottom>
+                  Revenue Over Time
+                </Typography>
+                <RevenueChart current={analytics.revenueSeries} previous={analytics.previousRevenueSeries} />
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Typography variant="subtitle1" gutterBottom>
+                  Orders by Status
+                </Typography>
+                {statusCounts.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No orders in this period
+                  </Typography>
+                ) : (
+                  statusCounts.map(({ status, count }) => (
+                    <Box key={status} mb={1}>
+                      <Box display="flex" justifyContent="space-between">
+                        <Typography variant="body2">{ORDER_STATUS_LABELS[status]}</Typography>
+                        <Typography variant="body2">{count}</Typography>
+                      </Box>
+                      <LinearProgress
+                        variant="determinate"
+                        value={(count / analytics.summary.orderCount) * 100}
+                        color={status === 'CANCELLED' ? 'error' : 'primary'}
+                      />
+                    </Box>
+                  ))
+                )}
+              </Grid>
+
+              <Grid item xs={12}>
+                <Typography variant="subtitle1" gutterBottom>
+                  Top Sellers
+                </Typography>
+                {itemTypes.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Nothing sold in this period
+                  </Typography>
+                ) : (
+                  <Grid container spacing={2}>
+                    {itemTypes.map(type => (
+                      <Grid item xs={12} sm={6} md={3} key={type}>
+                        <Typography variant="body2" fontWeight="bold" sx={{ textTransform: 'capitalize' }} gutterBottom>
+                          {type === 'inventory' ? 'Inventory' : `${type}s`}
+                        </Typography>
+                        {analytics.topItems[type].map(item => (
+                          <Box key={item.itemId} display="flex" justifyContent="space-between" gap={1}>
+                            <Typography variant="body2" noWrap>
+                              {item.itemName} × {item.quantity}
+                            </Typography>
+                            <Typography variant="body2" color="text.secondary">
+                              {formatCurrency(item.revenue)}
+                            </Typography>
+                          </Box>
+                        ))}
+                      </Grid>
+                    ))}
+                  </Grid>
+                )}
+              </Grid>
+
+              <Grid item xs={12} md={8}>
+                <Typography variant="subtitle1" gutterBottom>
+                  Bookings by Date
+                </Typography>
+                <BookingHeatMap range={analytics.range} bookings={analytics.bookingsByDate} />
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Typography variant="subtitle1" gutterBottom>
+                  Ratings Trend
+                </Typography>
+                {ratingStats && ratingStats.totalRatings > 0 && (
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    {ratingStats.averageRating.toFixed(1)} ★ overall from {ratingStats.totalRatings} ratings
+                  </Typography>
+                )}
+                {ratingTrend.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No recent ratings
+                  </Typography>
+                ) : (
+                  ratingTrend.map(point => (
+                    <Box key={point.month} display="flex" justifyContent="space-between">
+                      <Typography variant="body2">{format(parseISO(`${point.month}-01`), 'MMM yyyy')}</Typography>
+                      <Typography variant="body2">
+                        {point.averageRating.toFixed(1)} ★ ({point.ratingCount})
+                      </Typography>
+                    </Box>
+                  ))
+                )}
+              </Grid>
+            </Grid>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessAnalytics;
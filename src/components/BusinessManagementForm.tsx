@@ -164,7 +164,7 @@ const BusinessManagementForm: React.FC<BusinessManagementFormProps> = ({
       onSuccess(updatedBusiness);
       onClose();
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to save business details');
+      setError(err.message || 'Failed to save business details');
       console.error('Error saving business:', err);
     } finally {
       setLoading(false);
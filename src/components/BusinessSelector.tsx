@@ -29,6 +29,7 @@ import {
 } from '@mui/icons-material';
 import { Business } from '../types';
 import BusinessService from '../services/businessService';
+import { NotFoundError } from '../services/apiErrors';
 import BusinessManagementForm from './BusinessManagementForm';
 
 interface BusinessSelectorProps {
@@ -69,7 +70,7 @@ const BusinessSelector: React.FC<BusinessSelectorProps> = ({
         onBusinessSelect(businessesData[0]);
       }
     } catch (err: any) {
-      if (err.response?.status === 404) {
+      if (err instanceof NotFoundError) {
         // No businesses found - this is normal for new vendors
         setBusinesses([]);
         onBusinessesChange([]);
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Button, CircularProgress } from '@mui/material';
+import { Event as EventIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { Business } from '../types';
+import orderService from '../services/orderService';
+import { buildBookingCalendar, downloadCalendar, getCalendarBookings } from '../utils/icalUtils';
+import { toFileNamePart } from '../utils/csvUtils';
+
+interface CalendarExportButtonProps {
+  business: Business;
+}
+
+// Downloads the business's confirmed bookings as an .ics file for Google Calendar or Outlook
+const CalendarExportButton: React.FC<CalendarExportButtonProps> = ({ business }) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const orders = await orderService.getOrdersByBusinessId(business.businessId);
+      const bookings = getCalendarBookings(orders, business.businessId);
+      if (bookings.length === 0) {
+        alert('There are no confirmed bookings to export.');
+        return;
+      }
+      downloadCalendar(
+        buildBookingCalendar(bookings, business),
+        `${toFileNamePart(business.businessName)}-bookings-${format(new Date(), 'yyyy-MM-dd')}.ics`
+      );
+    } catch (err: any) {
+      console.error('Error exporting calendar:', err);
+      alert(err.message || 'Failed to export calendar');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outlined"
+      startIcon={exporting ? <CircularProgress size={16} /> : <EventIcon />}
+      onClick={handleExport}
+      disabled={exporting}
+    >
+      {exporting ? 'Exporting...' : 'Calendar (.ics)'}
+    </Button>
+  );
+};
+
+export default CalendarExportButton;
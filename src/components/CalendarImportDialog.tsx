@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { UploadFile as UploadIcon } from '@mui/icons-material';
+import { format, parseISO } from 'date-fns';
+import { Availability, AvailabilityItem } from '../types/availability';
+import { CalendarBusyDate, CalendarEvent } from '../types/calendar';
+import availabilityService from '../services/availabilityService';
+import { getBusyDates, parseCalendar, previewBlackoutDates } from '../utils/icalUtils';
+
+interface CalendarImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  item: AvailabilityItem;
+  businessId: string;
+  availabilities: Availability[];
+  onImported?: () => void;
+}
+
+// Blacks out an item on the days an .ics file (e.g. exported from Google Calendar or Outlook) marks busy
+const CalendarImportDialog: React.FC<CalendarImportDialogProps> = ({
+  open,
+  onClose,
+  item,
+  businessId,
+  availabilities,
+  onImported,
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [events, setEvents] = useState<CalendarEvent[] | null>(null);
+  const [busyDates, setBusyDates] = useState<CalendarBusyDate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFileName('');
+      setEvents(null);
+      setBusyDates([]);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setError(null);
+    try {
+      const parsed = parseCalendar(await file.text());
+      if (parsed.length === 0) {
+        setEvents(null);
+        setBusyDates([]);
+        setError('No events were found in this file. Choose an .ics file exported from your calendar.');
+        return;
+      }
+      setEvents(parsed);
+      setBusyDates(getBusyDates(parsed));
+    } catch (err: any) {
+      setEvents(null);
+      setBusyDates([]);
+      setError('Failed to read calendar: ' + err.message);
+    }
+  };
+
+  const preview = previewBlackoutDates(busyDates, item, businessId, availabilities);
+  const changes = preview.filter(change => change.type !== 'unchanged');
+  const summaries = new Map(busyDates.map(busyDate => [busyDate.date, busyDate.summaries]));
+  const freeCount = (events || []).filter(calendarEvent => !calendarEvent.busy).length;
+  const recurringCount = (events || []).filter(calendarEvent => calendarEvent.busy && calendarEvent.recurring).length;
+
+  const handleImport = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await availabilityService.bulkCreateOrUpdateAvailability(changes.map(change => change.request));
+      onImported?.();
+      onClose();
+    } catch (err: any) {
+      setError('Failed to import calendar: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Busy Dates – {item.name}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Days with busy events in the calendar file become unavailable for this item. Past days are skipped.
+        </Typography>
+        <Box display="flex" alignItems="center" gap={2} my={2}>
+          <Button variant="outlined" component="label" startIcon={<UploadIcon />}>
+            Choose .ics File
+            <input hidden type="file" accept=".ics,text/calendar" onChange={handleFileChange} />
+          </Button>
+          {fileName && <Typography variant="body2">{fileName}</Typography>}
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {events && (
+          <>
+            {(freeCount > 0 || recurringCount > 0) && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                {freeCount > 0 && <div>{freeCount} event(s) marked free were skipped.</div>}
+                {recurringCount > 0 && (
+                  <div>{recurringCount} repeating event(s) found; only their first occurrence is imported.</div>
+                )}
+              </Alert>
+            )}
+            {preview.length === 0 ? (
+              <Alert severity="info">The calendar has no upcoming busy days.</Alert>
+            ) : (
+              <>
+                <Box display="flex" gap={1} flexWrap="wrap" mb={1}>
+                  <Chip size="small" color="error" label={`To black out: ${changes.length}`} />
+                  {preview.length > changes.length && (
+                    <Chip size="small" label={`Already unavailable: ${preview.length - changes.length}`} />
+                  )}
+                </Box>
+                <Box sx={{ maxHeight: 320, overflowY: 'auto' }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Date</TableCell>
+                        <TableCell>Events</TableCell>
+                        <TableCell>Now</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {preview.map(change => (
+                        <TableRow key={change.date}>
+                          <TableCell>{format(parseISO(change.date), 'EEE d MMM yyyy')}</TableCell>
+                          <TableCell>{(summaries.get(change.date) || []).join(', ')}</TableCell>
+                          <TableCell>
+                            {!change.current
+                              ? 'Not set'
+                              : change.current.isAvailable
+                              ? `Qty ${change.current.availableQuantity}`
+                              : 'Unavailable'}
+                          </TableCell>
+                          <TableCell>
+                            <Chip
+                              size="small"
+                              color={change.type === 'unchanged' ? 'default' : 'error'}
+                              label={change.type === 'unchanged' ? 'Unchanged' : 'Black out'}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color="error"
+          onClick={handleImport}
+          disabled={saving || changes.length === 0}
+          startIcon={saving ? <CircularProgress size={20} /> : null}
+        >
+          {saving ? 'Importing...' : `Black Out ${changes.length} Dates`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CalendarImportDialog;
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Order } from '../types/cart';
+import orderService from '../services/orderService';
+import { useAuth } from '../contexts/AuthContext';
+import { CANCELLATION_REASONS, getOrderActor } from '../utils/orderStatusUtils';
+import { summarizePayments } from '../utils/paymentUtils';
+import { getOrderDisplayTitle } from '../utils/orderDisplay';
+
+const OTHER_REASON = 'Other';
+
+interface CancelOrderDialogProps {
+  open: boolean;
+  onClose: () => void;
+  order: Order | null;
+  onCancelled?: (order: Order) => void;
+}
+
+const CancelOrderDialog: React.FC<CancelOrderDialogProps> = ({ open, onClose, order, onCancelled }) => {
+  const { user } = useAuth();
+  const actor = getOrderActor(user);
+  const reasons = CANCELLATION_REASONS[actor.role === 'CLIENT' ? 'CLIENT' : 'VENDOR'];
+  const [selectedReason, setSelectedReason] = useState('');
+  const [otherReason, setOtherReason] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedReason('');
+      setOtherReason('');
+      setError(null);
+    }
+  }, [open]);
+
+  if (!order) {
+    return null;
+  }
+
+  const paymentSummary = summarizePayments(order);
+  const refundAmount = paymentSummary.paid - paymentSummary.refunded;
+  const reason = selectedReason === OTHER_REASON ? otherReason.trim() : selectedReason;
+
+  const handleConfirm = async () => {
+    if (!reason) {
+      setError('Please tell us why the order is being cancelled');
+      return;
+    }
+
+    setCancelling(true);
+    setError(null);
+    try {
+      const cancelledOrder = await orderService.cancelOrder(order, reason, actor);
+      onCancelled?.(cancelledOrder);
+      onClose();
+    } catch (err: any) {
+      console.error('Error cancelling order:', err);
+      setError(err.message || 'Failed to cancel order');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Cancel {getOrderDisplayTitle(order)}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          This action cannot be undone. Why is the order being cancelled?
+        </Typography>
+        <FormControl fullWidth>
+          <RadioGroup value={selectedReason} onChange={(e) => setSelectedReason(e.target.value)}>
+            {[...reasons, OTHER_REASON].map(option => (
+              <FormControlLabel key={option} value={option} control={<Radio />} label={option} />
+            ))}
+          </RadioGroup>
+        </FormControl>
+        {selectedReason === OTHER_REASON && (
+          <TextField
+            fullWidth
+            label="Reason"
+            value={otherReason}
+            onChange={(e) => setOtherReason(e.target.value)}
+            margin="normal"
+            multiline
+            rows={2}
+            required
+          />
+        )}
+        {refundAmount > 0 && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            ₹{refundAmount} paid on this order will be refunded.
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={cancelling}>
+          Keep Order
+        </Button>
+        <Button
+          variant="contained"
+          color="error"
+          onClick={handleConfirm}
+          disabled={cancelling || !reason}
+          startIcon={cancelling ? <CircularProgress size={20} /> : null}
+        >
+          {cancelling ? 'Cancelling...' : 'Cancel Order'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CancelOrderDialog;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Drawer,
   Box,
@@ -6,6 +6,7 @@ import {
   IconButton,
   List,
   ListItem,
+  ListItemText,
   Button,
   Divider,
   Chip,
@@ -28,11 +29,19 @@ import {
 } from '@mui/icons-material';
 import { useCart } from '../contexts/CartContext';
 import { useAuth } from '../contexts/AuthContext';
-import { OrderFormData, CartItem } from '../types/cart';
-import orderService from '../services/orderService';
+import { CartItem, OrderFormData, CartLineIssue, CheckoutSession } from '../types/cart';
+import orderService, { CheckoutError } from '../services/orderService';
+import cartService from '../services/cartService';
+import paymentService from '../services/paymentService';
+import { DepositSettings } from '../types/payment';
+import { buildPaymentPlan, summarizePayments } from '../utils/paymentUtils';
 import DatePickerDialog from './DatePickerDialog';
+import HoldCountdown from './HoldCountdown';
 import { CalendarToday as CalendarIcon } from '@mui/icons-material';
 import { format } from 'date-fns';
+import { getCartItemKey, isCartItemFlagged } from '../utils/cartUtils';
+import { useBookingSettings } from '../hooks/useBookingSettings';
+import { getDateViolation, getItemBookingConstraints, getQuantityViolation } from '../utils/bookingRuleUtils';
 
 interface CartProps {
   open: boolean;
@@ -42,7 +51,22 @@ interface CartProps {
 
 const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
   const cartContext = useCart();
-  const { cart, removeFromCart, updateQuantity, updateBookingDate, clearCart } = cartContext;
+  const {
+    cart,
+    removeFromCart,
+    updateQuantity,
+    updateBookingDate,
+    acceptPriceChange,
+    clearCart,
+    isRestoringCart,
+    appliedPromotions,
+    applyCoupon,
+    removeCoupon,
+    pricing,
+    holds,
+    renewHold,
+  } = cartContext;
+  const flaggedItemCount = cart.items.filter(isCartItemFlagged).length;
   const { user } = useAuth();
   
   // State declarations - must be before useEffect that uses them
@@ -59,6 +83,28 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
   });
   const [orderLoading, setOrderLoading] = useState(false);
   const [orderError, setOrderError] = useState<string | null>(null);
+  // Problems found by the pre-checkout availability/stock check, keyed by cart line
+  const [lineIssues, setLineIssues] = useState<Record<string, CartLineIssue>>({});
+  const [validating, setValidating] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const lineIssueCount = Object.keys(lineIssues).length;
+  const [couponCode, setCouponCode] = useState('');
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  // Result of the last successful checkout, shown until the customer dismisses it
+  const [completedCheckout, setCompletedCheckout] = useState<CheckoutSession | null>(null);
+  // Deposit terms of the vendors in the cart, loaded when checkout starts
+  const [depositSettings, setDepositSettings] = useState<Record<string, DepositSettings | null>>({});
+
+  // Vendors' notice, advance window and order size limits, checked as the cart changes
+  const bookingSettings = useBookingSettings(cart.items.map(item => item.businessId));
+  const getLineConstraints = (item: CartItem) =>
+    getItemBookingConstraints(bookingSettings[item.businessId], item.id, item.type);
+
+  const paymentPlan = useMemo(
+    () => buildPaymentPlan(cart.items, pricing, depositSettings, orderForm.deliveryDate, format(new Date(), 'yyyy-MM-dd')),
+    [cart.items, pricing, depositSettings, orderForm.deliveryDate]
+  );
   
   // Debug: Log cart state when drawer opens or cart changes
   React.useEffect(() => {
@@ -84,7 +130,46 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
     }
   }, [checkoutDialogOpen]);
 
+  const clearLineIssue = (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish') => {
+    setLineIssues(prev => {
+      const key = getCartItemKey({ id: itemId, type: itemType });
+      if (!prev[key]) return prev;
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  /**
+   * Check every line against live availability and stock.
+   * Returns true when the cart can be ordered as-is.
+   */
+  const validateCartLines = async (): Promise<boolean> => {
+    setValidating(true);
+    setValidationError(null);
+    try {
+      const issues = await cartService.validateForCheckout(cart.items);
+      const issuesByLine: Record<string, CartLineIssue> = {};
+      issues.forEach(issue => {
+        issuesByLine[getCartItemKey({ id: issue.itemId, type: issue.itemType })] = issue;
+      });
+      setLineIssues(issuesByLine);
+      return issues.length === 0;
+    } catch (error: any) {
+      console.error('Cart validation error:', error);
+      setValidationError(error.message || 'Could not verify availability. Please try again.');
+      return false;
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleRemoveItem = (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish') => {
+    clearLineIssue(itemId, itemType);
+    removeFromCart(itemId, itemType);
+  };
+
   const handleQuantityChange = (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish', newQuantity: number) => {
+    clearLineIssue(itemId, itemType);
     if (newQuantity <= 0) {
       removeFromCart(itemId, itemType);
     } else {
@@ -99,13 +184,30 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
 
   const handleDateConfirm = (date: string | undefined) => {
     if (selectedItemForDate) {
+      clearLineIssue(selectedItemForDate.id, selectedItemForDate.type);
       updateBookingDate(selectedItemForDate.id, selectedItemForDate.type, date);
     }
     setDatePickerOpen(false);
     setSelectedItemForDate(null);
   };
 
-  const handleCheckout = () => {
+  const handleCheckout = async () => {
+    // Make sure every line can still be served before collecting delivery details
+    const isCartValid = await validateCartLines();
+    if (!isCartValid) {
+      return;
+    }
+
+    try {
+      const businessIds = Array.from(new Set(cart.items.map(item => item.businessId)));
+      const settings = await Promise.all(businessIds.map(businessId => paymentService.getDepositSettings(businessId)));
+      setDepositSettings(Object.fromEntries(businessIds.map((businessId, index) => [businessId, settings[index]])));
+    } catch (error: any) {
+      console.error('Error loading deposit settings:', error);
+      setValidationError('Could not load the payment terms of your vendors. Please try again.');
+      return;
+    }
+
     // Auto-fill form with user details and earliest booking date
     const userFullName = user?.firstName && user?.lastName 
       ? `${user.firstName} ${user.lastName}`.trim()
@@ -152,51 +254,60 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
     console.log('🛒 Order form data:', orderForm);
     console.log('🛒 Cart items:', cart.items);
     
+    if (flaggedItemCount > 0) {
+      setOrderError('Some items in your cart need your attention before ordering. Please review them in the cart.');
+      return;
+    }
+
     if (!orderForm.customerName || !orderForm.customerEmail || !orderForm.customerPhone || !orderForm.deliveryAddress || !orderForm.deliveryDate) {
       console.log('🛒 Validation failed - missing required fields');
       setOrderError('Please fill in all required fields');
       return;
     }
+
+    // Lines without their own date are delivered on the order's date, so it must suit them too
+    const deliveryDateViolation = cart.items
+      .filter(item => !item.bookingDate)
+      .map(item => getDateViolation(getLineConstraints(item), orderForm.deliveryDate, item.name))
+      .find(violation => violation !== null);
+    if (deliveryDateViolation) {
+      setOrderError(deliveryDateViolation.message);
+      return;
+    }
     
     console.log('🛒 All validations passed - proceeding with order creation');
 
     setOrderLoading(true);
     setOrderError(null);
 
-    // Store cart items before order creation for potential rollback
-    const cartItemsBeforeOrder = [...cart.items];
+    // Stock may have moved while the form was being filled in - re-check before creating any order
+    const isCartValid = await validateCartLines();
+    if (!isCartValid) {
+      setOrderLoading(false);
+      setCheckoutDialogOpen(false);
+      return;
+    }
 
     try {
       if (!user?.phoneNumber) {
         throw new Error('User not authenticated');
       }
-      
-      // Group items by vendor to show how many orders will be created
-      const itemsByVendor = new Map<string, CartItem[]>();
-      cart.items.forEach(item => {
-        const businessId = item.businessId;
-        if (!itemsByVendor.has(businessId)) {
-          itemsByVendor.set(businessId, []);
-        }
-        itemsByVendor.get(businessId)!.push(item);
-      });
 
-      console.log(`Creating ${itemsByVendor.size} order(s) for ${cart.items.length} item(s) from ${itemsByVendor.size} vendor(s)`);
       console.log('🛒 Cart items before order:', cart.items.length, cart.items);
-      
-      // Create orders grouped by vendor
-      const orders = await orderService.createOrder(cart.items, orderForm, user.phoneNumber);
-      
-      console.log(`Successfully created ${orders.length} order(s)`);
-      console.log('🛒 Cart items before clearing:', cart.items.length, cart.items);
-      
-      // Clear cart immediately after successful order creation (even if partial success)
-      // This ensures cart is cleared for successfully created orders
-      if (orders.length > 0) {
-        clearCart();
-        console.log('🛒 clearCart() called - cart should be empty now');
-      }
-      
+
+      // All vendor orders are placed together or not at all
+      const checkoutSession = await orderService.checkout(
+        cart.items,
+        orderForm,
+        user.phoneNumber,
+        pricing,
+        paymentPlan
+      );
+
+      console.log(`Checkout ${checkoutSession.checkoutId} created ${checkoutSession.orders.length} order(s)`);
+      clearCart();
+      setCompletedCheckout(checkoutSession);
+
       // Reset order form
       setOrderForm({
         customerName: '',
@@ -222,29 +333,33 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
       }
     } catch (error: any) {
       console.error('Order creation error:', error);
-      // Try to extract a more detailed error message
-      let errorMessage = 'Failed to create order(s). Please try again.';
-      
-      // The error from orderService.createOrder should already have the message
-      if (error.message) {
-        errorMessage = error.message;
+      if (error instanceof CheckoutError) {
+        // Nothing was kept unless listed in uncancelledOrderIds, so the cart stays as it is
+        console.error(`Checkout ${error.checkoutId} failed for:`, error.failedVendors);
       }
-      
-      // Log the full error for debugging
-      console.error('Full error object:', error);
-      console.error('Error message:', errorMessage);
-      
-      // Even if there's an error, check if any orders were created
-      // If orders were created, we should still clear the cart for those items
-      // For now, we'll keep the cart items if there's an error
-      // TODO: Implement partial success handling if needed
-      
-      setOrderError(errorMessage);
+      setOrderError(error.message || 'Failed to create order(s). Please try again.');
     } finally {
       setOrderLoading(false);
     }
   };
 
+  const handleApplyCoupon = async () => {
+    setApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      await applyCoupon(couponCode);
+      setCouponCode('');
+    } catch (error: any) {
+      setCouponError(error.message || 'Could not apply coupon');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const completedPayments = completedCheckout ? completedCheckout.orders.map(summarizePayments) : [];
+  const completedPaid = completedPayments.reduce((sum, summary) => sum + summary.paid, 0);
+  const completedBalance = completedPayments.reduce((sum, summary) => sum + summary.balance, 0);
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -291,6 +406,14 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
             console.log('🛒 Cart render - typeof cart.items:', typeof cart.items, Array.isArray(cart.items));
             return null;
           })()}
+          {isRestoringCart && (
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <CircularProgress size={16} />
+              <Typography variant="body2" color="text.secondary">
+                Restoring your saved cart and checking prices...
+              </Typography>
+            </Box>
+          )}
           {!cart.items || cart.items.length === 0 ? (
             <Box textAlign="center" py={4}>
               <CartIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
@@ -348,6 +471,7 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
                     // Check if this is the first item from this vendor
                     const isFirstItemFromVendor = index === 0 || 
                       sortedItems[index - 1].businessId !== item.businessId;
+                    const constraints = getLineConstraints(item);
                     
                     return (
                     <React.Fragment key={`${item.id}-${item.type}`}>
@@ -425,15 +549,163 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
                                 size="small"
                                 variant="text"
                                 color="error"
-                                onClick={() => updateBookingDate(item.id, item.type, undefined)}
+                                onClick={() => {
+                                  clearLineIssue(item.id, item.type);
+                                  updateBookingDate(item.id, item.type, undefined);
+                                }}
                               >
                                 Clear
                               </Button>
                             )}
                           </Box>
+                          {/* Checkout hold on the booked units */}
+                          {holds[getCartItemKey(item)] && (() => {
+                            const cartHold = holds[getCartItemKey(item)];
+                            switch (cartHold.status) {
+                              case 'placing':
+                                return (
+                                  <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                                    Reserving…
+                                  </Typography>
+                                );
+                              case 'held':
+                                return (
+                                  <Box mt={0.5}>
+                                    <HoldCountdown expiresAt={cartHold.hold!.expiresAt} />
+                                  </Box>
+                                );
+                              default:
+                                return (
+                                  <Box display="flex" alignItems="center" gap={1} mt={0.5}>
+                                    <Typography variant="caption" color="warning.main">
+                                      {cartHold.status === 'expired'
+                                        ? 'Your hold expired; others can book this now'
+                                        : cartHold.message}
+                                    </Typography>
+                                    <Button size="small" onClick={() => renewHold(item.id, item.type)}>
+                                      {cartHold.status === 'expired' ? 'Hold again' : 'Try again'}
+                                    </Button>
+                                  </Box>
+                                );
+                            }
+                          })()}
                         </Box>
                       </Box>
                       
+                      {/* Problems found by the pre-checkout availability check */}
+                      {lineIssues[getCartItemKey(item)] && (() => {
+                        const issue = lineIssues[getCartItemKey(item)];
+                        return (
+                          <Alert
+                            severity="error"
+                            sx={{ mt: 1, width: '100%' }}
+                            action={
+                              issue.maxQuantity ? (
+                                <Button
+                                  color="inherit"
+                                  size="small"
+                                  onClick={() => handleQuantityChange(item.id, item.type, issue.maxQuantity!)}
+                                >
+                                  Adjust to {issue.maxQuantity}
+                                </Button>
+                              ) : issue.minQuantity ? (
+                                <Button
+                                  color="inherit"
+                                  size="small"
+                                  onClick={() => handleQuantityChange(item.id, item.type, issue.minQuantity!)}
+                                >
+                                  Adjust to {issue.minQuantity}
+                                </Button>
+                              ) : issue.code === 'DATE_UNAVAILABLE' || issue.code === 'BOOKING_DATE_NOT_ALLOWED' ? (
+                                <Button color="inherit" size="small" onClick={() => handleDatePickerOpen(item.id, item.type)}>
+                                  Change date
+                                </Button>
+                              ) : (
+                                <Button color="inherit" size="small" onClick={() => handleRemoveItem(item.id, item.type)}>
+                                  Remove
+                                </Button>
+                              )
+                            }
+                          >
+                            {issue.message}
+                          </Alert>
+                        );
+                      })()}
+                      {/* Problems found when the saved cart was re-checked */}
+                      {item.flags?.itemUnavailable && (
+                        <Alert severity="error" sx={{ mt: 1, width: '100%' }}>
+                          This item is no longer available from the vendor. Please remove it.
+                        </Alert>
+                      )}
+                      {item.flags?.priceChanged && (
+                        <Alert
+                          severity="warning"
+                          sx={{ mt: 1, width: '100%' }}
+                          action={
+                            <Button color="inherit" size="small" onClick={() => acceptPriceChange(item.id, item.type)}>
+                              Accept
+                            </Button>
+                          }
+                        >
+                          Price changed from {formatPrice(item.flags.priceChanged.previousPrice)} to{' '}
+                          {formatPrice(item.flags.priceChanged.currentPrice)} since you added this item.
+                        </Alert>
+                      )}
+                      {item.flags?.dateUnavailable && (
+                        <Alert
+                          severity="warning"
+                          sx={{ mt: 1, width: '100%' }}
+                          action={
+                            <Button color="inherit" size="small" onClick={() => handleDatePickerOpen(item.id, item.type)}>
+                              Change date
+                            </Button>
+                          }
+                        >
+                          The selected date is no longer available for this quantity.
+                        </Alert>
+                      )}
+                      {/* Vendor's booking constraints, shown before checkout refuses the line */}
+                      {!lineIssues[getCartItemKey(item)] && (() => {
+                        const dateViolation = item.bookingDate
+                          ? getDateViolation(constraints, item.bookingDate, item.name)
+                          : null;
+                        const quantityViolation = getQuantityViolation(constraints, item.quantity, item.name);
+                        return (
+                          <>
+                            {dateViolation && (
+                              <Alert
+                                severity="warning"
+                                sx={{ mt: 1, width: '100%' }}
+                                action={
+                                  <Button color="inherit" size="small" onClick={() => handleDatePickerOpen(item.id, item.type)}>
+                                    Change date
+                                  </Button>
+                                }
+                              >
+                                {dateViolation.message}
+                              </Alert>
+                            )}
+                            {quantityViolation && (
+                              <Alert
+                                severity="warning"
+                                sx={{ mt: 1, width: '100%' }}
+                                action={
+                                  <Button
+                                    color="inherit"
+                                    size="small"
+                                    onClick={() => handleQuantityChange(item.id, item.type, quantityViolation.quantity!)}
+                                  >
+                                    Adjust to {quantityViolation.quantity}
+                                  </Button>
+                                }
+                              >
+                                {quantityViolation.message}
+                              </Alert>
+                            )}
+                          </>
+                        );
+                      })()}
+                      
                       {/* Quantity and Delete Controls Below */}
                       <Box 
                         display="flex" 
@@ -452,6 +724,8 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
                           <IconButton
                             size="small"
                             onClick={() => handleQuantityChange(item.id, item.type, item.quantity - 1)}
+                            // Below the vendor's minimum the line can only be removed
+                            disabled={(constraints.minQuantity || 0) > 1 && item.quantity <= constraints.minQuantity!}
                             sx={{ 
                               border: '1px solid',
                               borderColor: 'divider',
@@ -478,6 +752,7 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
                           <IconButton
                             size="small"
                             onClick={() => handleQuantityChange(item.id, item.type, item.quantity + 1)}
+                            disabled={!!constraints.maxQuantity && item.quantity >= constraints.maxQuantity!}
                             sx={{ 
                               border: '1px solid',
                               borderColor: 'divider',
@@ -502,7 +777,7 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
                           <IconButton
                             size="medium"
                             color="error"
-                            onClick={() => removeFromCart(item.id, item.type)}
+                            onClick={() => handleRemoveItem(item.id, item.type)}
                             sx={{ 
                               ml: 1,
                               '&:hover': {
@@ -530,21 +805,117 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
                   <Typography variant="h6">Total Items:</Typography>
                   <Typography variant="h6">{cart.totalItems}</Typography>
                 </Box>
+                {/* Coupons */}
+                <Box display="flex" gap={1} mb={1}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    label="Coupon code"
+                    value={couponCode}
+                    onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && couponCode.trim()) {
+                        handleApplyCoupon();
+                      }
+                    }}
+                    disabled={applyingCoupon}
+                  />
+                  <Button
+                    variant="outlined"
+                    onClick={handleApplyCoupon}
+                    disabled={applyingCoupon || !couponCode.trim()}
+                  >
+                    {applyingCoupon ? <CircularProgress size={20} /> : 'Apply'}
+                  </Button>
+                </Box>
+                {couponError && (
+                  <Alert severity="error" sx={{ mb: 1 }} onClose={() => setCouponError(null)}>
+                    {couponError}
+                  </Alert>
+                )}
+                {appliedPromotions.length > 0 && (
+                  <Box display="flex" flexWrap="wrap" gap={1} mb={1}>
+                    {appliedPromotions.map(promotion => (
+                      <Chip
+                        key={promotion.promotionId}
+                        label={promotion.code}
+                        color="success"
+                        size="small"
+                        onDelete={() => removeCoupon(promotion.promotionId)}
+                      />
+                    ))}
+                  </Box>
+                )}
+                {pricing.inapplicable.map(({ promotion, reason }) => (
+                  <Alert key={promotion.promotionId} severity="info" sx={{ mb: 1 }}>
+                    {reason}
+                  </Alert>
+                ))}
+
+                {pricing.discountTotal > 0 && (
+                  <>
+                    <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                      <Typography variant="body1">Subtotal:</Typography>
+                      <Typography variant="body1">{formatPrice(pricing.subtotal)}</Typography>
+                    </Box>
+                    {/* Discount lines per vendor */}
+                    {pricing.vendors
+                      .filter(vendor => vendor.discounts.length > 0)
+                      .map(vendor => (
+                        <Box key={vendor.businessId} mb={1}>
+                          <Typography variant="body2" color="text.secondary">
+                            {vendor.businessName}
+                          </Typography>
+                          {vendor.discounts.map(discount => (
+                            <Box
+                              key={discount.promotionId}
+                              display="flex"
+                              justifyContent="space-between"
+                              sx={{ pl: 1 }}
+                            >
+                              <Typography variant="body2" color="success.main">
+                                {discount.title} ({discount.code})
+                              </Typography>
+                              <Typography variant="body2" color="success.main">
+                                -{formatPrice(discount.amount)}
+                              </Typography>
+                            </Box>
+                          ))}
+                        </Box>
+                      ))}
+                  </>
+                )}
                 <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
                   <Typography variant="h6">Total Price:</Typography>
                   <Typography variant="h6" color="primary" fontWeight="bold">
-                    {formatPrice(cart.totalPrice)}
+                    {formatPrice(pricing.total)}
                   </Typography>
                 </Box>
+                {flaggedItemCount > 0 && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    {flaggedItemCount} item(s) need your attention before you can check out.
+                  </Alert>
+                )}
+                {lineIssueCount > 0 && (
+                  <Alert severity="error" sx={{ mt: 1 }}>
+                    {lineIssueCount} item(s) can no longer be ordered as they are. Adjust or remove them to continue.
+                  </Alert>
+                )}
+                {validationError && (
+                  <Alert severity="error" sx={{ mt: 1 }}>
+                    {validationError}
+                  </Alert>
+                )}
                 <Button
                   fullWidth
                   variant="contained"
                   size="large"
                   startIcon={<CheckoutIcon />}
                   onClick={handleCheckout}
+                  disabled={flaggedItemCount > 0 || lineIssueCount > 0 || isRestoringCart || validating}
                   sx={{ mt: 2 }}
                 >
-                  Proceed to Checkout
+                  {validating ? 'Checking availability...' : 'Proceed to Checkout'}
                 </Button>
               </Box>
             </>
@@ -625,6 +996,30 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
               margin="normal"
             />
           </Box>
+
+          <Divider sx={{ my: 2 }} />
+          <Box display="flex" justifyContent="space-between" mb={1}>
+            <Typography variant="subtitle1" fontWeight="bold">Due now</Typography>
+            <Typography variant="subtitle1" fontWeight="bold" color="primary">
+              {formatPrice(paymentPlan.dueNow)}
+            </Typography>
+          </Box>
+          {paymentPlan.dueBeforeEvent > 0 && (
+            <>
+              <Box display="flex" justifyContent="space-between" mb={1}>
+                <Typography variant="body1">Due before event</Typography>
+                <Typography variant="body1">{formatPrice(paymentPlan.dueBeforeEvent)}</Typography>
+              </Box>
+              {paymentPlan.vendors
+                .filter(vendor => vendor.dueBeforeEvent > 0)
+                .map(vendor => (
+                  <Typography key={vendor.businessId} variant="body2" color="text.secondary" sx={{ pl: 1 }}>
+                    {vendor.businessName}: {formatPrice(vendor.dueBeforeEvent)} by{' '}
+                    {vendor.balanceDueDate ? format(new Date(vendor.balanceDueDate), 'MMM dd, yyyy') : 'the event'}
+                  </Typography>
+                ))}
+            </>
+          )}
         </DialogContent>
         <DialogActions>
           <Button 
@@ -648,7 +1043,70 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
             disabled={orderLoading}
             startIcon={orderLoading ? <CircularProgress size={20} /> : <CheckoutIcon />}
           >
-            {orderLoading ? 'Creating Orders...' : 'Place Order(s)'}
+            {orderLoading ? 'Creating Orders...' : `Pay ${formatPrice(paymentPlan.dueNow)} & Place Order(s)`}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Checkout result */}
+      <Dialog
+        open={!!completedCheckout}
+        onClose={() => setCompletedCheckout(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Order Placed</DialogTitle>
+        <DialogContent>
+          {completedCheckout && (
+            <Box>
+              <Alert severity="success" sx={{ mb: 2 }}>
+                Your order has been placed with {completedCheckout.orders.length} vendor(s).
+              </Alert>
+              <Typography variant="body2" color="text.secondary">
+                Checkout reference
+              </Typography>
+              <Typography variant="h6" fontWeight="bold" sx={{ mb: 2 }}>
+                {completedCheckout.checkoutId}
+              </Typography>
+              <Divider sx={{ mb: 1 }} />
+              <List dense>
+                {completedCheckout.orders.map(order => (
+                  <ListItem key={order.orderId} disableGutters>
+                    <ListItemText
+                      primary={`Order #${order.orderId}`}
+                      secondary={Array.from(new Set(order.orderItems?.map(item => item.businessName) || [])).join(', ')}
+                    />
+                    <Typography variant="body2" fontWeight="bold">
+                      {formatPrice(order.totalAmount)}
+                    </Typography>
+                  </ListItem>
+                ))}
+              </List>
+              <Divider sx={{ mt: 1, mb: 1 }} />
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="subtitle1" fontWeight="bold">
+                  Total
+                </Typography>
+                <Typography variant="subtitle1" fontWeight="bold" color="primary">
+                  {formatPrice(completedCheckout.totalAmount)}
+                </Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2">Paid now</Typography>
+                <Typography variant="body2">{formatPrice(completedPaid)}</Typography>
+              </Box>
+              {completedBalance > 0 && (
+                <Box display="flex" justifyContent="space-between">
+                  <Typography variant="body2">Due before event</Typography>
+                  <Typography variant="body2">{formatPrice(completedBalance)}</Typography>
+                </Box>
+              )}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setCompletedCheckout(null)}>
+            Done
           </Button>
         </DialogActions>
       </Dialog>
@@ -664,6 +1122,12 @@ const Cart: React.FC<CartProps> = ({ open, onClose, onCheckout }) => {
           onConfirm={handleDateConfirm}
           itemId={selectedItemForDate.id}
           itemType={selectedItemForDate.type}
+          itemName={cart.items.find(
+            item => item.id === selectedItemForDate.id && item.type === selectedItemForDate.type
+          )?.name}
+          businessId={cart.items.find(
+            item => item.id === selectedItemForDate.id && item.type === selectedItemForDate.type
+          )?.businessId}
           currentDate={cart.items.find(
             item => item.id === selectedItemForDate.id && item.type === selectedItemForDate.type
           )?.bookingDate}
@@ -15,9 +15,16 @@ import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
 import availabilityService from '../services/availabilityService';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import stockNotificationService from '../services/stockNotificationService';
+import { useBookingSettings } from '../hooks/useBookingSettings';
+import {
+  describeBookingConstraints,
+  getBookableDateRange,
+  getDateViolation,
+  getItemBookingConstraints,
+} from '../utils/bookingRuleUtils';
 
 interface DatePickerDialogProps {
   open: boolean;
@@ -55,7 +62,15 @@ const DatePickerDialog: React.FC<DatePickerDialogProps> = ({
   const [showNotificationDialog, setShowNotificationDialog] = useState(false);
   const [isAlreadySubscribed, setIsAlreadySubscribed] = useState(false);
   const [checkingSubscription, setCheckingSubscription] = useState(false);
-  const [minDate] = useState(new Date()); // Today is minimum date
+  // Vendor's notice and advance window; without any, today is the earliest date.
+  // Item cards keep this dialog mounted, so settings are only loaded once it opens.
+  const bookingSettings = useBookingSettings(open && businessId ? [businessId] : []);
+  const constraints = getItemBookingConstraints(businessId ? bookingSettings[businessId] : null, itemId, itemType);
+  const bookableRange = getBookableDateRange(constraints);
+  const constraintNotes = describeBookingConstraints(constraints);
+  const dateViolation = selectedDate
+    ? getDateViolation(constraints, format(selectedDate, 'yyyy-MM-dd'), itemName || 'This item')
+    : null;
 
   // Debounce availability check to reduce API calls
   useEffect(() => {
@@ -136,6 +151,10 @@ const DatePickerDialog: React.FC<DatePickerDialogProps> = ({
       setError('Please select a booking date.');
       return;
     }
+    if (dateViolation) {
+      setError(dateViolation.message);
+      return;
+    }
 
     // Always allow confirmation - availability is just informational
     // Users can add items to cart regardless of availability
@@ -254,7 +273,8 @@ const DatePickerDialog: React.FC<DatePickerDialogProps> = ({
               label="Select Booking Date *"
               value={selectedDate}
               onChange={handleDateChange}
-              minDate={minDate}
+              minDate={parseISO(bookableRange.earliest)}
+              maxDate={bookableRange.latest ? parseISO(bookableRange.latest) : undefined}
               slotProps={{
                 textField: {
                   fullWidth: true,
@@ -264,9 +284,19 @@ const DatePickerDialog: React.FC<DatePickerDialogProps> = ({
               }}
             />
 
+            {constraintNotes.length > 0 && (
+              <Typography variant="caption" color="text.secondary" display="block">
+                {constraintNotes.join(' · ')}
+              </Typography>
+            )}
+
             {selectedDate && (
               <Box sx={{ mt: 2 }}>
-                {checkingAvailability || checkingSubscription ? (
+                {dateViolation ? (
+                  <Alert severity="error" sx={{ mt: 1 }}>
+                    {dateViolation.message}
+                  </Alert>
+                ) : checkingAvailability || checkingSubscription ? (
                   <Box display="flex" alignItems="center" gap={1}>
                     <CircularProgress size={20} />
                     <Typography variant="body2" color="text.secondary">
@@ -310,7 +340,7 @@ const DatePickerDialog: React.FC<DatePickerDialogProps> = ({
           <Button
             onClick={handleConfirm}
             variant="contained"
-            disabled={!selectedDate || subscribing}
+            disabled={!selectedDate || !!dateViolation || subscribing}
           >
             {subscribing ? 'Subscribing...' : 'Add to Cart'}
           </Button>
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  CircularProgress,
+  Box,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { Business } from '../types';
+import { CartItem } from '../types/cart';
+import { DepositRule, DepositSettings, DepositType, ItemDepositRule } from '../types/payment';
+import paymentService from '../services/paymentService';
+import { useAuth } from '../contexts/AuthContext';
+
+interface DepositItemOption {
+  id: string;
+  type: CartItem['type'];
+  name: string;
+}
+
+interface DepositSettingsFormProps {
+  open: boolean;
+  onClose: () => void;
+  business: Business;
+  // Items of the business that can get their own deposit
+  items: DepositItemOption[];
+  onSuccess?: (settings: DepositSettings) => void;
+}
+
+const defaultSettings = (businessId: string): DepositSettings => ({
+  businessId,
+  defaultRule: null,
+  itemRules: [],
+  balanceDueDays: 7,
+});
+
+const getItemKey = (item: { type: string; id: string }) => `${item.type}:${item.id}`;
+
+const validateRule = (rule: DepositRule, label: string): string | null => {
+  if (!(rule.value > 0)) {
+    return `${label}: the deposit must be greater than zero`;
+  }
+  if (rule.type === 'PERCENTAGE' && rule.value > 100) {
+    return `${label}: the deposit cannot be more than 100%`;
+  }
+  return null;
+};
+
+const DepositSettingsForm: React.FC<DepositSettingsFormProps> = ({ open, onClose, business, items, onSuccess }) => {
+  const [settings, setSettings] = useState<DepositSettings>(defaultSettings(business.businessId));
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadSettings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const saved = await paymentService.getDepositSettings(business.businessId);
+        setSettings(saved ? { ...saved, itemRules: saved.itemRules || [] } : defaultSettings(business.businessId));
+      } catch (err: any) {
+        console.error('Error loading deposit settings:', err);
+        setError(err.message || 'Failed to load deposit settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [open, business.businessId]);
+
+  const handleDefaultTypeChange = (value: DepositType | 'NONE') => {
+    setSettings(prev => ({
+      ...prev,
+      defaultRule: value === 'NONE' ? null : { type: value, value: prev.defaultRule?.value || 0 },
+    }));
+  };
+
+  const handleAddItemRule = () => {
+    const usedKeys = new Set(settings.itemRules.map(rule => getItemKey({ type: rule.itemType, id: rule.itemId })));
+    const item = items.find(option => !usedKeys.has(getItemKey(option)));
+    if (!item) return;
+    setSettings(prev => ({
+      ...prev,
+      itemRules: [
+        ...prev.itemRules,
+        { itemId: item.id, itemType: item.type, itemName: item.name, type: 'PERCENTAGE', value: 0 },
+      ],
+    }));
+  };
+
+  const handleItemRuleChange = (index: number, changes: Partial<ItemDepositRule>) => {
+    setSettings(prev => ({
+      ...prev,
+      itemRules: prev.itemRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const handleItemChange = (index: number, itemKey: string) => {
+    const item = items.find(option => getItemKey(option) === itemKey);
+    if (item) {
+      handleItemRuleChange(index, { itemId: item.id, itemType: item.type, itemName: item.name });
+    }
+  };
+
+  const handleRemoveItemRule = (index: number) => {
+    setSettings(prev => ({
+      ...prev,
+      itemRules: prev.itemRules.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleSubmit = async () => {
+    if (!(settings.balanceDueDays >= 0)) {
+      setError('Days before the event must be zero or more');
+      return;
+    }
+    const errors = [
+      settings.defaultRule ? validateRule(settings.defaultRule, 'Default deposit') : null,
+      ...settings.itemRules.map(rule => validateRule(rule, rule.itemName)),
+    ].filter((message): message is string => !!message);
+    if (errors.length > 0) {
+      setError(errors[0]);
+      return;
+    }
+    const itemKeys = settings.itemRules.map(rule => getItemKey({ type: rule.itemType, id: rule.itemId }));
+    if (new Set(itemKeys).size !== itemKeys.length) {
+      setError('Each item can only have one deposit rule');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = await paymentService.saveDepositSettings(settings, user?.phoneNumber);
+      onSuccess?.(saved);
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving deposit settings:', err);
+      setError(err.message || 'Failed to save deposit settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Deposit Settings</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2, mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ mt: 1 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Customers pay the deposit at checkout and the balance before the event. Without a deposit the
+              full amount is paid at checkout.
+            </Typography>
+            <Grid container spacing={2}>
+              <Grid item xs={12} sm={4}>
+                <FormControl fullWidth>
+                  <InputLabel>Default Deposit</InputLabel>
+                  <Select
+                    value={settings.defaultRule?.type || 'NONE'}
+                    label="Default Deposit"
+                    onChange={(e) => handleDefaultTypeChange(e.target.value as DepositType | 'NONE')}
+                  >
+                    <MenuItem value="NONE">No deposit (full payment)</MenuItem>
+                    <MenuItem value="PERCENTAGE">Percentage of order</MenuItem>
+                    <MenuItem value="FIXED">Fixed amount per order</MenuItem>
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  label={settings.defaultRule?.type === 'FIXED' ? 'Deposit (₹)' : 'Deposit (%)'}
+                  type="number"
+                  value={settings.defaultRule?.value ?? ''}
+                  onChange={(e) =>
+                    setSettings(prev => ({
+                      ...prev,
+                      defaultRule: prev.defaultRule ? { ...prev.defaultRule, value: parseFloat(e.target.value) || 0 } : null,
+                    }))
+                  }
+                  disabled={!settings.defaultRule}
+                  inputProps={{ min: 0 }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  label="Balance Due (days before event)"
+                  type="number"
+                  value={settings.balanceDueDays}
+                  onChange={(e) => setSettings(prev => ({ ...prev, balanceDueDays: parseInt(e.target.value, 10) || 0 }))}
+                  inputProps={{ min: 0 }}
+                />
+              </Grid>
+            </Grid>
+
+            <Divider sx={{ my: 3 }} />
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+              <Box>
+                <Typography variant="h6">Item Deposits</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Override the default for specific items. Fixed amounts are per unit.
+                </Typography>
+              </Box>
+              <Button
+                startIcon={<AddIcon />}
+                onClick={handleAddItemRule}
+                disabled={settings.itemRules.length >= items.length}
+              >
+                Add Item
+              </Button>
+            </Box>
+            {settings.itemRules.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                All items use the default deposit.
+              </Typography>
+            ) : (
+              <Grid container spacing={2}>
+                {settings.itemRules.map((rule, index) => (
+                  <React.Fragment key={index}>
+                    <Grid item xs={12} sm={5}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>Item</InputLabel>
+                        <Select
+                          value={getItemKey({ type: rule.itemType, id: rule.itemId })}
+                          label="Item"
+                          onChange={(e) => handleItemChange(index, e.target.value)}
+                        >
+                          {items.map(item => (
+                            <MenuItem key={getItemKey(item)} value={getItemKey(item)}>
+                              {item.name}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                    <Grid item xs={5} sm={3}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>Type</InputLabel>
+                        <Select
+                          value={rule.type}
+                          label="Type"
+                          onChange={(e) => handleItemRuleChange(index, { type: e.target.value as DepositType })}
+                        >
+                          <MenuItem value="PERCENTAGE">Percentage</MenuItem>
+                          <MenuItem value="FIXED">Fixed per unit</MenuItem>
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                    <Grid item xs={5} sm={3}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        label={rule.type === 'FIXED' ? 'Deposit (₹)' : 'Deposit (%)'}
+                        type="number"
+                        value={rule.value}
+                        onChange={(e) => handleItemRuleChange(index, { value: parseFloat(e.target.value) || 0 })}
+                        inputProps={{ min: 0 }}
+                      />
+                    </Grid>
+                    <Grid item xs={2} sm={1}>
+                      <IconButton color="error" onClick={() => handleRemoveItemRule(index)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Grid>
+                  </React.Fragment>
+                ))}
+              </Grid>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={saving || loading}
+          startIcon={saving ? <CircularProgress size={20} /> : null}
+        >
+          {saving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DepositSettingsForm;
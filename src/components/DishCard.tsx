@@ -22,6 +22,7 @@ import {
 } from '@mui/icons-material';
 import { Dish, Business } from '../types';
 import dishService from '../services/dishService';
+import { SERVER_BASE_URL } from '../services/apiClient';
 import ImageCarousel from './ImageCarousel';
 import { useCart } from '../contexts/CartContext';
 import RatingDisplay from './RatingDisplay';
@@ -143,18 +144,18 @@ const DishCard: React.FC<DishCardProps> = ({
     
     // If it's a relative path starting with /uploads, prepend the backend URL
     if (imagePath.startsWith('/uploads/')) {
-      return `http://localhost:8080${imagePath}`;
+      return `${SERVER_BASE_URL}${imagePath}`;
     }
     
     // If it's just a filename or path without leading slash, construct the full path
     if (imagePath.includes('uploads/') || imagePath.includes('dishes/')) {
       // Handle paths like "uploads/dishes/gulabjamun.jpg" or "dishes/gulabjamun.jpg"
       const normalizedPath = imagePath.startsWith('/') ? imagePath : `/${imagePath}`;
-      return `http://localhost:8080${normalizedPath}`;
+      return `${SERVER_BASE_URL}${normalizedPath}`;
     }
     
     // Default: assume it's a relative path in uploads/dishes
-    return `http://localhost:8080/uploads/dishes/${imagePath}`;
+    return `${SERVER_BASE_URL}/uploads/dishes/${imagePath}`;
   };
 
   return (
@@ -209,14 +209,13 @@ const DishManagementForm: React.FC<DishManagementFormProps> = ({
       onSuccess(updatedDish);
       onClose();
     } catch (err: any) {
-      const errorMessage = err.message || err.response?.data?.error || err.response?.data?.message || 'Failed to save dish';
+      const errorMessage = err.message || 'Failed to save dish';
       setError(errorMessage);
       console.error('Error saving dish:', err);
       console.error('Error details:', {
         message: err.message,
-        response: err.response,
-        status: err.response?.status,
-        data: err.response?.data
+        status: err.status,
+        data: err.data
       });
     } finally {
       setLoading(false);
@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react';
+import { Chip } from '@mui/material';
+import { Timer as TimerIcon } from '@mui/icons-material';
+import { formatHoldCountdown, getHoldSecondsLeft } from '../utils/holdUtils';
+
+// Warn when less than a minute of the hold is left
+const WARNING_SECONDS = 60;
+
+interface HoldCountdownProps {
+  expiresAt: string;
+}
+
+const HoldCountdown: React.FC<HoldCountdownProps> = ({ expiresAt }) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => getHoldSecondsLeft(expiresAt));
+
+  useEffect(() => {
+    setSecondsLeft(getHoldSecondsLeft(expiresAt));
+    const timer = setInterval(() => setSecondsLeft(getHoldSecondsLeft(expiresAt)), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  return (
+    <Chip
+      size="small"
+      variant="outlined"
+      icon={<TimerIcon />}
+      color={secondsLeft < WARNING_SECONDS ? 'warning' : 'success'}
+      label={`Held for ${formatHoldCountdown(secondsLeft)}`}
+    />
+  );
+};
+
+export default HoldCountdown;
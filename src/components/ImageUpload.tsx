@@ -25,6 +25,8 @@ import {
 import { Image, InventoryImage } from '../types';
 import ImageService from '../services/imageService';
 import InventoryService from '../services/inventoryService';
+import FileService from '../services/fileService';
+import { SERVER_BASE_URL } from '../services/apiClient';
 import { useAuth } from '../contexts/AuthContext';
 
 interface ImageUploadProps {
@@ -108,45 +110,18 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
 
     try {
       const uploadPromises = selectedFiles.map(async (file, index) => {
-        // Create FormData for file upload
-        const formData = new FormData();
-        formData.append('file', file);
-        formData.append('category', uploadType === 'inventory' ? 'inventory' : 'themes');
-        formData.append('itemId', themeId);
-
-        // Get authentication token
-        const token = localStorage.getItem('token');
-        const headers: HeadersInit = {};
-        if (token) {
-          headers['Authorization'] = `Bearer ${token}`;
-        }
-
         // Upload file to backend
-        const uploadResponse = await fetch('http://localhost:8080/api/files/upload', {
-          method: 'POST',
-          headers: headers,
-          body: formData,
-        });
-
-        let uploadResult;
-        try {
-          uploadResult = await uploadResponse.json();
-        } catch (parseError) {
-          // If JSON parsing fails, throw a generic error
-          throw new Error(`File upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
-        }
-
-        if (!uploadResponse.ok || !uploadResult.success) {
-          const errorMessage = uploadResult.message || `File upload failed: ${uploadResponse.status}`;
-          console.error('Upload error response:', uploadResult);
-          throw new Error(errorMessage);
-        }
+        const uploadResult = await FileService.uploadFile(
+          file,
+          uploadType === 'inventory' ? 'inventory' : 'themes',
+          themeId
+        );
         
         if (uploadType === 'inventory') {
           const imageData = {
             inventoryId: themeId,
             imageName: file.name,
-            imageUrl: `http://localhost:8080${uploadResult.filePath}`,
+            imageUrl: `${SERVER_BASE_URL}${uploadResult.filePath}`,
             imagePath: uploadResult.filePath,
             imageSize: file.size,
             imageType: file.type,
@@ -158,7 +133,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
           const imageData = {
             themeId,
             imageName: file.name,
-            imageUrl: `http://localhost:8080${uploadResult.filePath}`,
+            imageUrl: `${SERVER_BASE_URL}${uploadResult.filePath}`,
             imagePath: uploadResult.filePath,
             imageSize: file.size,
             imageType: file.type,
@@ -242,7 +242,7 @@ const InventoryManagementForm: React.FC<InventoryManagementFormProps> = ({
       onSuccess();
       handleClose();
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to save inventory');
+      setError(err.message || 'Failed to save inventory');
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+} from '@mui/material';
+import {
+  Print as PrintIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import { Order } from '../types/cart';
+import { Invoice } from '../types/invoice';
+import BusinessService from '../services/businessService';
+import invoiceService from '../services/invoiceService';
+import rentalReturnService from '../services/rentalReturnService';
+import { buildInvoiceDraft, renderInvoiceHtml } from '../utils/gstUtils';
+
+interface InvoiceDialogProps {
+  open: boolean;
+  onClose: () => void;
+  order: Order | null;
+  // Business to invoice for; defaults to the first business in the order
+  businessId?: string;
+}
+
+const InvoiceDialog: React.FC<InvoiceDialogProps> = ({ open, onClose, order, businessId }) => {
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedBusinessId, setSelectedBusinessId] = useState<string>('');
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  // Older orders may contain items from several vendors - each vendor issues its own invoice
+  const orderBusinesses = useMemo(() => {
+    const businesses = new Map<string, string>();
+    order?.orderItems?.forEach(item => businesses.set(item.businessId, item.businessName));
+    return Array.from(businesses.entries()).map(([id, name]) => ({ id, name }));
+  }, [order]);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedBusinessId(businessId || orderBusinesses[0]?.id || '');
+      setInvoice(null);
+      setError(null);
+    }
+  }, [open, businessId, orderBusinesses]);
+
+  useEffect(() => {
+    if (!open || !order || !selectedBusinessId) {
+      return;
+    }
+
+    let cancelled = false;
+    const loadInvoice = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [business, settings, rentalReturns] = await Promise.all([
+          BusinessService.getBusinessById(selectedBusinessId),
+          invoiceService.getTaxSettings(selectedBusinessId),
+          rentalReturnService.getReturnsByOrderId(order.orderId),
+        ]);
+        if (!settings?.gstin) {
+          throw new Error('This vendor has not completed their GST settings yet, so a tax invoice cannot be issued.');
+        }
+        // An invoice issued before a change or damage charge is replaced with one for the order as it is now
+        const issued = await invoiceService.issueCurrentInvoice(buildInvoiceDraft(order, business, settings, rentalReturns));
+        if (!cancelled) {
+          setInvoice(issued);
+        }
+      } catch (err: any) {
+        console.error('Error preparing invoice:', err);
+        if (!cancelled) {
+          setError(err.message || 'Failed to prepare invoice');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadInvoice();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, order, selectedBusinessId]);
+
+  const handlePrint = () => {
+    iframeRef.current?.contentWindow?.print();
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!invoice) return;
+    setDownloading(true);
+    try {
+      const pdf = await invoiceService.getInvoicePdf(invoice.invoiceId);
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoice.invoiceNumber.replace(/[\\/]/g, '-')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Error downloading invoice:', err);
+      setError(err.message || 'Failed to download invoice');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        Tax Invoice{invoice ? ` ${invoice.invoiceNumber}` : ''}
+      </DialogTitle>
+      <DialogContent>
+        {orderBusinesses.length > 1 && !businessId && (
+          <FormControl size="small" sx={{ minWidth: 240, mb: 2, mt: 1 }}>
+            <InputLabel>Vendor</InputLabel>
+            <Select
+              value={selectedBusinessId}
+              label="Vendor"
+              onChange={(e) => setSelectedBusinessId(e.target.value)}
+            >
+              {orderBusinesses.map(business => (
+                <MenuItem key={business.id} value={business.id}>
+                  {business.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" alignItems="center" minHeight="300px">
+            <CircularProgress />
+          </Box>
+        ) : invoice && (
+          <Box
+            component="iframe"
+            ref={iframeRef}
+            title={`Invoice ${invoice.invoiceNumber}`}
+            srcDoc={renderInvoiceHtml(invoice)}
+            sx={{ width: '100%', height: 600, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="outlined"
+          startIcon={<PrintIcon />}
+          onClick={handlePrint}
+          disabled={!invoice}
+        >
+          Print
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={downloading ? <CircularProgress size={20} /> : <PdfIcon />}
+          onClick={handleDownloadPdf}
+          disabled={!invoice || downloading}
+        >
+          Download PDF
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default InvoiceDialog;
@@ -49,7 +49,7 @@ const Login: React.FC = () => {
           : '/explore'
       );
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Login failed. Please try again.');
+      setError(err.message || 'Login failed. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Box, Card, CardContent, Typography } from '@mui/material';
+import { TrendingUp as UpIcon, TrendingDown as DownIcon } from '@mui/icons-material';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+interface MetricCardProps {
+  label: string;
+  value: string;
+  change: number | null; // Fraction of the previous period's value; null when there was nothing to compare with
+  lowerIsBetter?: boolean;
+}
+
+// Headline number with its change on the previous period
+const MetricCard: React.FC<MetricCardProps> = ({ label, value, change, lowerIsBetter = false }) => {
+  const improved = change !== null && (lowerIsBetter ? change < 0 : change > 0);
+  return (
+    <Card variant="outlined" sx={{ height: '100%' }}>
+      <CardContent>
+        <Typography variant="body2" color="text.secondary">
+          {label}
+        </Typography>
+        <Typography variant="h5">{value}</Typography>
+        {change === null ? (
+          <Typography variant="caption" color="text.secondary">
+            Nothing to compare with in the previous period
+          </Typography>
+        ) : change === 0 ? (
+          <Typography variant="caption" color="text.secondary">
+            No change on the previous period
+          </Typography>
+        ) : (
+          <Box display="flex" alignItems="center" gap={0.5} color={improved ? 'success.main' : 'error.main'}>
+            {change > 0 ? <UpIcon fontSize="small" /> : <DownIcon fontSize="small" />}
+            <Typography variant="caption">
+              {formatPercent(Math.abs(change))} on the previous period
+            </Typography>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MetricCard;
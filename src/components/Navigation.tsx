@@ -41,6 +41,7 @@ import {
   CalendarToday as CalendarIcon,
   Restaurant as RestaurantIcon,
   Inventory as InventoryIcon,
+  LocalShipping as RunSheetIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
@@ -272,6 +273,8 @@ const Navigation: React.FC = () => {
       // Dish tab removed for catering businesses
       // { text: 'Inventory', icon: <InventoryIcon />, path: '/vendor-dashboard', activeTab: 2 } - disabled
       { text: 'Availability', icon: <CalendarIcon />, path: '/availability' },
+      { text: 'Run Sheet', icon: <RunSheetIcon />, path: '/vendor-run-sheet' },
+      { text: 'Kitchen Prep', icon: <RestaurantIcon />, path: '/vendor-kitchen-prep' },
     ];
     return baseVendorItems;
   };
@@ -0,0 +1,250 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Checkbox,
+  Chip,
+  Button,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { Business } from '../types';
+import { Order, OrderFilters, OrderStatusValue } from '../types/cart';
+import orderService from '../services/orderService';
+import { useAuth } from '../contexts/AuthContext';
+import { getOrderDisplayTitle } from '../utils/orderDisplay';
+import {
+  ORDER_STATUS_ACTIONS,
+  ORDER_STATUS_LABELS,
+  canTransition,
+  getOrderActor,
+  requiresReason,
+} from '../utils/orderStatusUtils';
+import { filterOrders, getOrderItemTypes } from '../utils/orderFilterUtils';
+import OrderFilterBar from './OrderFilterBar';
+import CancelOrderDialog from './CancelOrderDialog';
+import OrderExportMenu from './OrderExportMenu';
+
+const BOARD_COLUMNS: OrderStatusValue[] = ['PENDING', 'CONFIRMED', 'PREPARING', 'READY', 'SHIPPED', 'DELIVERED', 'CANCELLED'];
+
+// Statuses offered as bulk actions; cancelling needs a reason per order so it stays one at a time
+const BULK_STATUSES: OrderStatusValue[] = ['CONFIRMED', 'PREPARING', 'READY', 'SHIPPED', 'DELIVERED'];
+
+interface OrderBoardProps {
+  orders: Order[];
+  businesses?: Business[];
+  onOrdersChanged: () => void;
+  exportFileName?: string; // Start of the export file name
+}
+
+const OrderBoard: React.FC<OrderBoardProps> = ({ orders, businesses, onOrdersChanged, exportFileName = 'orders' }) => {
+  const { user } = useAuth();
+  const actor = getOrderActor(user);
+  const [filters, setFilters] = useState<OrderFilters>({});
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [draggingOrder, setDraggingOrder] = useState<Order | null>(null);
+  const [dropTarget, setDropTarget] = useState<OrderStatusValue | null>(null);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelOrder, setCancelOrder] = useState<Order | null>(null);
+
+  const filteredOrders = useMemo(() => filterOrders(orders, filters), [orders, filters]);
+  const itemTypes = useMemo(() => getOrderItemTypes(orders), [orders]);
+  const selectedOrders = filteredOrders.filter(order => selectedIds.has(order.orderId));
+
+  const toggleSelected = (orderIds: number[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      orderIds.forEach(orderId => (selected ? next.add(orderId) : next.delete(orderId)));
+      return next;
+    });
+  };
+
+  const handleMove = async (order: Order, status: OrderStatusValue) => {
+    if (!canTransition(order.status, status, actor.role)) {
+      return;
+    }
+    if (requiresReason(status)) {
+      setCancelOrder(order);
+      return;
+    }
+
+    setUpdating(true);
+    setError(null);
+    try {
+      await orderService.updateOrderStatus(order, status, actor);
+      onOrdersChanged();
+    } catch (err: any) {
+      console.error('Error updating order status:', err);
+      setError(err.message || 'Failed to update order status');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleBulkUpdate = async (status: OrderStatusValue) => {
+    setUpdating(true);
+    setError(null);
+    try {
+      const { failed } = await orderService.bulkUpdateOrderStatus(selectedOrders, status, actor);
+      if (failed.length > 0) {
+        setError(failed.map(({ order, error: message }) => `Order #${order.orderId}: ${message}`).join(' '));
+      }
+      setSelectedIds(new Set(failed.map(({ order }) => order.orderId)));
+      onOrdersChanged();
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, status: OrderStatusValue) => {
+    event.preventDefault();
+    setDropTarget(null);
+    if (draggingOrder) {
+      handleMove(draggingOrder, status);
+    }
+    setDraggingOrder(null);
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" gap={2}>
+        <OrderFilterBar filters={filters} onChange={setFilters} businesses={businesses} itemTypes={itemTypes} />
+        <OrderExportMenu
+          getOrders={() => filteredOrders}
+          fileNamePrefix={exportFileName}
+          disabled={filteredOrders.length === 0}
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {selectedOrders.length > 0 && (
+        <Paper variant="outlined" sx={{ p: 1.5, mb: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="body2" fontWeight="bold" sx={{ mr: 1 }}>
+            {selectedOrders.length} selected
+          </Typography>
+          {BULK_STATUSES.map(status => {
+            const count = selectedOrders.filter(order => canTransition(order.status, status, actor.role)).length;
+            return count > 0 ? (
+              <Button
+                key={status}
+                size="small"
+                variant="contained"
+                onClick={() => handleBulkUpdate(status)}
+                disabled={updating}
+              >
+                {ORDER_STATUS_ACTIONS[status]} ({count})
+              </Button>
+            ) : null;
+          })}
+          <Button size="small" onClick={() => setSelectedIds(new Set())} disabled={updating}>
+            Clear Selection
+          </Button>
+          {updating && <CircularProgress size={20} />}
+        </Paper>
+      )}
+
+      <Box display="flex" gap={2} sx={{ overflowX: 'auto', pb: 2 }}>
+        {BOARD_COLUMNS.map(status => {
+          const columnOrders = filteredOrders.filter(order => order.status === status);
+          const canDrop = !!draggingOrder && canTransition(draggingOrder.status, status, actor.role);
+          const allSelected = columnOrders.length > 0 && columnOrders.every(order => selectedIds.has(order.orderId));
+
+          return (
+            <Paper
+              key={status}
+              variant="outlined"
+              onDragOver={(event) => {
+                if (canDrop) {
+                  event.preventDefault();
+                  setDropTarget(status);
+                }
+              }}
+              onDragLeave={() => setDropTarget(prev => (prev === status ? null : prev))}
+              onDrop={(event) => handleDrop(event, status)}
+              sx={{
+                minWidth: 260,
+                width: 260,
+                flexShrink: 0,
+                p: 1,
+                bgcolor: dropTarget === status ? 'action.selected' : 'grey.50',
+                borderColor: canDrop ? 'success.main' : undefined,
+                borderWidth: canDrop ? 2 : 1,
+                opacity: draggingOrder && !canDrop && draggingOrder.status !== status ? 0.5 : 1,
+              }}
+            >
+              <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+                <Box display="flex" alignItems="center">
+                  <Checkbox
+                    size="small"
+                    checked={allSelected}
+                    indeterminate={!allSelected && columnOrders.some(order => selectedIds.has(order.orderId))}
+                    onChange={(e) => toggleSelected(columnOrders.map(order => order.orderId), e.target.checked)}
+                    disabled={columnOrders.length === 0}
+                  />
+                  <Typography variant="subtitle2">{ORDER_STATUS_LABELS[status]}</Typography>
+                </Box>
+                <Chip label={columnOrders.length} size="small" />
+              </Box>
+
+              {columnOrders.map(order => (
+                <Paper
+                  key={order.orderId}
+                  draggable={!updating}
+                  onDragStart={(event) => {
+                    event.dataTransfer.setData('text/plain', order.orderId.toString());
+                    setDraggingOrder(order);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingOrder(null);
+                    setDropTarget(null);
+                  }}
+                  sx={{ p: 1, mb: 1, cursor: 'grab' }}
+                >
+                  <Box display="flex" alignItems="flex-start">
+                    <Checkbox
+                      size="small"
+                      checked={selectedIds.has(order.orderId)}
+                      onChange={(e) => toggleSelected([order.orderId], e.target.checked)}
+                      sx={{ p: 0.5 }}
+                    />
+                    <Box flex={1} minWidth={0}>
+                      <Typography variant="body2" fontWeight="bold" noWrap>
+                        {getOrderDisplayTitle(order)}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" display="block" noWrap>
+                        {order.customerName}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {order.deliveryDate ? new Date(order.deliveryDate).toLocaleDateString() : 'No delivery date'} ·{' '}
+                        {order.orderItems?.length || 0} items
+                      </Typography>
+                      <Typography variant="body2" color="primary" fontWeight="medium">
+                        ₹{order.totalAmount}
+                      </Typography>
+                    </Box>
+                  </Box>
+                </Paper>
+              ))}
+            </Paper>
+          );
+        })}
+      </Box>
+
+      <CancelOrderDialog
+        open={!!cancelOrder}
+        onClose={() => setCancelOrder(null)}
+        order={cancelOrder}
+        onCancelled={() => onOrdersChanged()}
+      />
+    </Box>
+  );
+};
+
+export default OrderBoard;
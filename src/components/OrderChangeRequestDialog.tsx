@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Typography,
+} from '@mui/material';
+import { Restaurant as DishIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { Business, Plate } from '../types';
+import { Order, OrderItemResponse } from '../types/cart';
+import { OrderLineChange, SelectedDish } from '../types/orderChange';
+import orderChangeService from '../services/orderChangeService';
+import plateService from '../services/plateService';
+import { BusinessService } from '../services/businessService';
+import {
+  OrderLineChangeDraft,
+  buildLineChange,
+  formatPriceDifference,
+  parseSelectedDishes,
+} from '../utils/orderChangeUtils';
+import { roundCurrency } from '../utils/promotionUtils';
+import PlateDishSelector from './PlateDishSelector';
+
+interface OrderChangeRequestDialogProps {
+  open: boolean;
+  onClose: () => void;
+  order: Order | null;
+  onSubmitted?: () => void;
+}
+
+const OrderChangeRequestDialog: React.FC<OrderChangeRequestDialogProps> = ({ open, onClose, order, onSubmitted }) => {
+  const [drafts, setDrafts] = useState<Record<number, OrderLineChangeDraft>>({});
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [dishEditor, setDishEditor] = useState<{
+    item: OrderItemResponse;
+    plate: Plate;
+    business: Business;
+    dishes: SelectedDish[];
+  } | null>(null);
+  const [loadingDishEditor, setLoadingDishEditor] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (open && order) {
+      setDrafts(
+        Object.fromEntries(
+          (order.orderItems || []).map(item => [
+            item.orderItemId,
+            { cancelLine: false, bookingDate: item.bookingDate, quantity: item.quantity },
+          ])
+        )
+      );
+      setReason('');
+      setError(null);
+      setProblems([]);
+    }
+  }, [open, order]);
+
+  const changes = useMemo(() => {
+    if (!order) return [];
+    return (order.orderItems || [])
+      .map(item => (drafts[item.orderItemId] ? buildLineChange(item, drafts[item.orderItemId]) : null))
+      .filter((change): change is OrderLineChange => change !== null);
+  }, [order, drafts]);
+
+  const priceDifference = roundCurrency(changes.reduce((sum, change) => sum + change.priceDifference, 0));
+
+  const updateDraft = (orderItemId: number, update: Partial<OrderLineChangeDraft>) => {
+    setDrafts(prev => ({ ...prev, [orderItemId]: { ...prev[orderItemId], ...update } }));
+    setProblems([]);
+  };
+
+  const handleEditDishes = async (item: OrderItemResponse) => {
+    setLoadingDishEditor(item.orderItemId);
+    try {
+      const [plate, business] = await Promise.all([
+        plateService.getPlateById(item.itemId),
+        BusinessService.getBusinessById(item.businessId),
+      ]);
+      setDishEditor({
+        item,
+        plate,
+        business,
+        dishes: drafts[item.orderItemId]?.selectedDishes ?? parseSelectedDishes(item),
+      });
+    } catch (err: any) {
+      console.error('Error loading plate dishes:', err);
+      setError(err.message || 'Failed to load the dishes for this plate');
+    } finally {
+      setLoadingDishEditor(null);
+    }
+  };
+
+  const handleDishesConfirm = (selectedDishes: SelectedDish[]) => {
+    if (dishEditor) {
+      updateDraft(dishEditor.item.orderItemId, { selectedDishes });
+    }
+    setDishEditor(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!order) return;
+
+    if (changes.length === 0) {
+      setError('Change at least one item to send a request');
+      return;
+    }
+    if (changes.filter(change => change.cancelLine).length === order.orderItems.length) {
+      setError('To remove every item, cancel the order instead');
+      return;
+    }
+    const today = format(new Date(), 'yyyy-MM-dd');
+    if (changes.some(change => change.quantity && change.quantity.to < 1)) {
+      setError('Quantities must be at least 1. Tick "Remove" to drop an item.');
+      return;
+    }
+    if (changes.some(change => change.bookingDate && change.bookingDate.to < today)) {
+      setError('New dates cannot be in the past');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const foundProblems = await orderChangeService.validateChanges(order, changes);
+      if (foundProblems.length > 0) {
+        setProblems(foundProblems);
+        return;
+      }
+
+      // Each vendor approves the changes to its own items
+      const changesByBusiness = new Map<string, OrderLineChange[]>();
+      changes.forEach(change => {
+        const businessId = order.orderItems.find(item => item.orderItemId === change.orderItemId)!.businessId;
+        changesByBusiness.set(businessId, [...(changesByBusiness.get(businessId) || []), change]);
+      });
+
+      for (const [businessId, businessChanges] of Array.from(changesByBusiness.entries())) {
+        await orderChangeService.createChangeRequest({
+          orderId: order.orderId,
+          businessId,
+          userId: order.userId,
+          changes: businessChanges,
+          priceDifference: roundCurrency(businessChanges.reduce((sum, change) => sum + change.priceDifference, 0)),
+          reason: reason.trim() || undefined,
+        });
+      }
+
+      onSubmitted?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error requesting order change:', err);
+      setError(err.message || 'Failed to send the change request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+        <DialogTitle>Request Changes{order ? ` to Order #${order.orderId}` : ''}</DialogTitle>
+        <DialogContent>
+          <Alert severity="info" sx={{ mb: 2, mt: 1 }}>
+            The vendor reviews your request. Your order stays as it is until they approve it.
+          </Alert>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          {problems.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {problems.map((problem, index) => (
+                <div key={index}>{problem}</div>
+              ))}
+            </Alert>
+          )}
+
+          {order && (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell><strong>Item</strong></TableCell>
+                    <TableCell><strong>Date</strong></TableCell>
+                    <TableCell><strong>Quantity</strong></TableCell>
+                    <TableCell align="center"><strong>Remove</strong></TableCell>
+                    <TableCell align="right"><strong>Difference</strong></TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {order.orderItems.map(item => {
+                    const draft = drafts[item.orderItemId];
+                    if (!draft) return null;
+                    const change = changes.find(c => c.orderItemId === item.orderItemId);
+                    const isPlate = item.itemType.toLowerCase() === 'plate';
+                    const dishes = draft.selectedDishes ?? parseSelectedDishes(item);
+
+                    return (
+                      <TableRow key={item.orderItemId}>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight="medium">
+                            {item.itemName}
+                          </Typography>
+                          {isPlate && (
+                            <Box>
+                              <Typography variant="caption" color="text.secondary" display="block">
+                                {dishes.length > 0
+                                  ? dishes.map(dish => `${dish.dishName} ×${dish.quantity}`).join(', ')
+                                  : 'No dishes'}
+                              </Typography>
+                              <Button
+                                size="small"
+                                startIcon={loadingDishEditor === item.orderItemId ? <CircularProgress size={14} /> : <DishIcon />}
+                                onClick={() => handleEditDishes(item)}
+                                disabled={draft.cancelLine || loadingDishEditor !== null}
+                              >
+                                Edit Dishes
+                              </Button>
+                            </Box>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {item.bookingDate ? (
+                            <TextField
+                              type="date"
+                              size="small"
+                              value={draft.bookingDate || ''}
+                              onChange={(e) => updateDraft(item.orderItemId, { bookingDate: e.target.value })}
+                              disabled={draft.cancelLine}
+                              inputProps={{ min: format(new Date(), 'yyyy-MM-dd') }}
+                            />
+                          ) : (
+                            <Typography variant="body2" color="text.secondary">-</Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            type="number"
+                            size="small"
+                            value={draft.quantity}
+                            onChange={(e) => updateDraft(item.orderItemId, { quantity: parseInt(e.target.value, 10) || 0 })}
+                            disabled={draft.cancelLine}
+                            inputProps={{ min: 1 }}
+                            sx={{ width: 90 }}
+                          />
+                        </TableCell>
+                        <TableCell align="center">
+                          <Checkbox
+                            checked={draft.cancelLine}
+                            onChange={(e) => updateDraft(item.orderItemId, { cancelLine: e.target.checked })}
+                          />
+                        </TableCell>
+                        <TableCell align="right">
+                          <Typography
+                            variant="body2"
+                            color={change && change.priceDifference < 0 ? 'success.main' : 'text.primary'}
+                          >
+                            {change ? formatPriceDifference(change.priceDifference) : '-'}
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {order && (
+            <Box sx={{ mt: 2 }}>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2">Current total</Typography>
+                <Typography variant="body2">₹{order.totalAmount}</Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2">Difference</Typography>
+                <Typography variant="body2" color={priceDifference < 0 ? 'success.main' : 'text.primary'}>
+                  {formatPriceDifference(priceDifference)}
+                </Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="subtitle1" fontWeight="bold">New total</Typography>
+                <Typography variant="subtitle1" fontWeight="bold" color="primary">
+                  ₹{roundCurrency(order.totalAmount + priceDifference)}
+                </Typography>
+              </Box>
+            </Box>
+          )}
+
+          <TextField
+            fullWidth
+            label="Reason (Optional)"
+            multiline
+            rows={2}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            disabled={submitting || changes.length === 0}
+            startIcon={submitting ? <CircularProgress size={20} /> : null}
+          >
+            {submitting ? 'Checking availability...' : 'Send Request'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {dishEditor && (
+        <PlateDishSelector
+          open={!!dishEditor}
+          onClose={() => setDishEditor(null)}
+          onConfirm={handleDishesConfirm}
+          plate={dishEditor.plate}
+          business={dishEditor.business}
+          initialDishes={dishEditor.dishes}
+          confirmLabel="Update Dishes"
+        />
+      )}
+    </>
+  );
+};
+
+export default OrderChangeRequestDialog;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Box, Chip, Paper, Typography } from '@mui/material';
+import { OrderChangeRequest } from '../types/orderChange';
+import { describeLineChange, formatPriceDifference } from '../utils/orderChangeUtils';
+
+interface OrderChangeRequestSummaryProps {
+  request: OrderChangeRequest;
+  // Buttons shown next to the status, e.g. Approve/Reject for vendors
+  actions?: React.ReactNode;
+}
+
+const getRequestStatusColor = (status: OrderChangeRequest['status']) => {
+  switch (status) {
+    case 'PENDING': return 'warning';
+    case 'APPROVED': return 'success';
+    case 'REJECTED': return 'error';
+    default: return 'default';
+  }
+};
+
+const OrderChangeRequestSummary: React.FC<OrderChangeRequestSummaryProps> = ({ request, actions }) => {
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 1 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" flexWrap="wrap" gap={1} mb={1}>
+        <Box>
+          <Typography variant="subtitle2">
+            Change request · {new Date(request.createdAt).toLocaleString()}
+          </Typography>
+          {request.reason && (
+            <Typography variant="body2" color="text.secondary">
+              Reason: {request.reason}
+            </Typography>
+          )}
+        </Box>
+        <Box display="flex" alignItems="center" gap={1}>
+          <Chip label={request.status} color={getRequestStatusColor(request.status) as any} size="small" />
+          {actions}
+        </Box>
+      </Box>
+
+      {request.changes.map(change => (
+        <Box key={change.orderItemId} display="flex" justifyContent="space-between" mb={0.5}>
+          <Box>
+            <Typography variant="body2" fontWeight="medium">
+              {change.itemName}
+            </Typography>
+            {describeLineChange(change).map((line, index) => (
+              <Typography key={index} variant="caption" color="text.secondary" display="block">
+                {line}
+              </Typography>
+            ))}
+          </Box>
+          <Typography variant="body2" color={change.priceDifference < 0 ? 'success.main' : 'text.primary'}>
+            {formatPriceDifference(change.priceDifference)}
+          </Typography>
+        </Box>
+      ))}
+
+      <Box display="flex" justifyContent="space-between" mt={1}>
+        <Typography variant="body2" fontWeight="bold">
+          Price difference
+        </Typography>
+        <Typography variant="body2" fontWeight="bold" color={request.priceDifference < 0 ? 'success.main' : 'primary'}>
+          {formatPriceDifference(request.priceDifference)}
+        </Typography>
+      </Box>
+      {request.vendorNote && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Vendor note: {request.vendorNote}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default OrderChangeRequestSummary;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Button, CircularProgress, ListItemText, Menu, MenuItem } from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { Order } from '../types/cart';
+import { ExportFormat, ExportGranularity } from '../types/export';
+import { exportOrders } from '../utils/orderExportUtils';
+
+const EXPORT_OPTIONS: Array<{ granularity: ExportGranularity; exportFormat: ExportFormat; label: string; description: string }> = [
+  { granularity: 'order', exportFormat: 'xlsx', label: 'Orders (Excel)', description: 'One row per order' },
+  { granularity: 'order', exportFormat: 'csv', label: 'Orders (CSV)', description: 'One row per order' },
+  { granularity: 'line', exportFormat: 'xlsx', label: 'Order lines (Excel)', description: 'One row per item, with dishes' },
+  { granularity: 'line', exportFormat: 'csv', label: 'Order lines (CSV)', description: 'One row per item, with dishes' },
+];
+
+interface OrderExportMenuProps {
+  getOrders: () => Order[] | Promise<Order[]>; // The orders the current filters show
+  fileNamePrefix: string;
+  disabled?: boolean;
+}
+
+const OrderExportMenu: React.FC<OrderExportMenuProps> = ({ getOrders, fileNamePrefix, disabled = false }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (granularity: ExportGranularity, exportFormat: ExportFormat) => {
+    setAnchorEl(null);
+    setExporting(true);
+    try {
+      const orders = await getOrders();
+      if (orders.length === 0) {
+        alert('There are no orders to export.');
+        return;
+      }
+      exportOrders(orders, granularity, exportFormat, fileNamePrefix);
+    } catch (err: any) {
+      console.error('Error exporting orders:', err);
+      alert(err.message || 'Failed to export orders');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={exporting ? <CircularProgress size={16} /> : <DownloadIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={disabled || exporting}
+      >
+        {exporting ? 'Exporting...' : 'Export'}
+      </Button>
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+        {EXPORT_OPTIONS.map(option => (
+          <MenuItem
+            key={`${option.granularity}-${option.exportFormat}`}
+            onClick={() => handleExport(option.granularity, option.exportFormat)}
+          >
+            <ListItemText primary={option.label} secondary={option.description} />
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default OrderExportMenu;
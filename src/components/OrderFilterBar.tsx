@@ -0,0 +1,94 @@
+import React from 'react';
+import { Box, Button, FormControl, InputLabel, MenuItem, Select, TextField } from '@mui/material';
+import { Business } from '../types';
+import { OrderFilters } from '../types/cart';
+import { hasActiveFilters } from '../utils/orderFilterUtils';
+
+interface OrderFilterBarProps {
+  filters: OrderFilters;
+  onChange: (filters: OrderFilters) => void;
+  businesses?: Business[];
+  itemTypes: string[];
+}
+
+const OrderFilterBar: React.FC<OrderFilterBarProps> = ({ filters, onChange, businesses = [], itemTypes }) => {
+  const update = (change: Partial<OrderFilters>) => onChange({ ...filters, ...change });
+
+  const parseAmount = (value: string) => (value === '' ? undefined : Math.max(0, parseFloat(value) || 0));
+
+  return (
+    <Box display="flex" gap={2} flexWrap="wrap" alignItems="center" mb={2}>
+      <TextField
+        label="Delivery From"
+        type="date"
+        size="small"
+        value={filters.deliveryFrom || ''}
+        onChange={(e) => update({ deliveryFrom: e.target.value || undefined })}
+        InputLabelProps={{ shrink: true }}
+      />
+      <TextField
+        label="Delivery To"
+        type="date"
+        size="small"
+        value={filters.deliveryTo || ''}
+        onChange={(e) => update({ deliveryTo: e.target.value || undefined })}
+        InputLabelProps={{ shrink: true }}
+      />
+      {businesses.length > 1 && (
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel>Business</InputLabel>
+          <Select
+            value={filters.businessId || ''}
+            label="Business"
+            onChange={(e) => update({ businessId: e.target.value || undefined })}
+          >
+            <MenuItem value="">All Businesses</MenuItem>
+            {businesses.map(business => (
+              <MenuItem key={business.businessId} value={business.businessId}>
+                {business.businessName}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <InputLabel>Item Type</InputLabel>
+        <Select
+          value={filters.itemType || ''}
+          label="Item Type"
+          onChange={(e) => update({ itemType: e.target.value || undefined })}
+        >
+          <MenuItem value="">All Types</MenuItem>
+          {itemTypes.map(type => (
+            <MenuItem key={type} value={type} sx={{ textTransform: 'capitalize' }}>
+              {type}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <TextField
+        label="Min Amount"
+        type="number"
+        size="small"
+        value={filters.minAmount ?? ''}
+        onChange={(e) => update({ minAmount: parseAmount(e.target.value) })}
+        sx={{ width: 120 }}
+      />
+      <TextField
+        label="Max Amount"
+        type="number"
+        size="small"
+        value={filters.maxAmount ?? ''}
+        onChange={(e) => update({ maxAmount: parseAmount(e.target.value) })}
+        sx={{ width: 120 }}
+      />
+      {hasActiveFilters(filters) && (
+        <Button size="small" onClick={() => onChange({})}>
+          Clear Filters
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default OrderFilterBar;
@@ -46,32 +46,60 @@ import {
   AccessTime as TimeIcon,
   Star as StarIcon,
   RateReview as RateReviewIcon,
+  EditCalendar as ChangeIcon,
 } from '@mui/icons-material';
-import { Order } from '../types/cart';
+import { Order, OrderStatusChange } from '../types/cart';
 import { getOrderDisplayTitle } from '../utils/orderDisplay';
 import RatingComponent from './RatingComponent';
 import { ratingService } from '../services/ratingService';
 import { Rating } from '../types/rating';
 import { useAuth } from '../contexts/AuthContext';
-import orderService from '../services/orderService';
+import InvoiceDialog from './InvoiceDialog';
+import { canIssueInvoice } from '../utils/gstUtils';
+import { OrderChangeRequest } from '../types/orderChange';
+import orderChangeService from '../services/orderChangeService';
+import OrderChangeRequestDialog from './OrderChangeRequestDialog';
+import OrderChangeRequestSummary from './OrderChangeRequestSummary';
+import CancelOrderDialog from './CancelOrderDialog';
+import OrderItemProgress from './OrderItemProgress';
+import OrderRentalReturns from './OrderRentalReturns';
+import rentalReturnService from '../services/rentalReturnService';
+import { RentalReturn } from '../types/rentalReturn';
+import { isRentalItem } from '../utils/rentalReturnUtils';
+import { getRolledUpOrderStatus } from '../utils/fulfilmentUtils';
+import {
+  ORDER_STATUS_LABELS,
+  canClientCancel,
+  getStatusHistory,
+  getUpcomingStatuses,
+} from '../utils/orderStatusUtils';
 
 interface OrderHistoryProps {
   orders: Order[];
+  totalCount?: number; // All matching orders when `orders` is one page of them
   loading?: boolean;
+  emptyMessage?: string; // Shown instead of the first-order prompt, e.g. when filters match nothing
   onRefresh?: () => void;
   onViewOrder?: (order: Order) => void;
 }
 
 const OrderHistory: React.FC<OrderHistoryProps> = ({
   orders,
+  totalCount,
   loading = false,
+  emptyMessage,
   onRefresh,
   onViewOrder,
 }) => {
   const { user } = useAuth();
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [orderDetailOpen, setOrderDetailOpen] = useState(false);
-  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
+  const [cancelOrder, setCancelOrder] = useState<Order | null>(null);
+  const [invoiceOrder, setInvoiceOrder] = useState<Order | null>(null);
+  const [changeOrder, setChangeOrder] = useState<Order | null>(null);
+  const [changeRequests, setChangeRequests] = useState<OrderChangeRequest[]>([]);
+  const [withdrawingRequestId, setWithdrawingRequestId] = useState<string | null>(null);
+  const [rentalReturns, setRentalReturns] = useState<RentalReturn[]>([]);
   
   // Rating state
   const [ratingDialogOpen, setRatingDialogOpen] = useState(false);
@@ -96,6 +124,39 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
     }
   }, [ordersArray.length]);
 
+  const fetchChangeRequests = async () => {
+    if (!user?.phoneNumber || user.userType !== 'CLIENT') return;
+    try {
+      setChangeRequests(await orderChangeService.getChangeRequestsByUserId(user.phoneNumber));
+    } catch (err) {
+      console.error('Error fetching change requests:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchChangeRequests();
+  }, [user?.phoneNumber, ordersArray.length]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Rentals that went out to the event and are being returned
+  const hasRentalsOut = (order: Order) =>
+    ['SHIPPED', 'DELIVERED'].includes(order.status) && (order.orderItems || []).some(isRentalItem);
+
+  useEffect(() => {
+    const fetchRentalReturns = async () => {
+      const rentalOrders = ordersArray.filter(hasRentalsOut);
+      if (rentalOrders.length === 0) return;
+      try {
+        const returnsByOrder = await Promise.all(
+          rentalOrders.map(order => rentalReturnService.getReturnsByOrderId(order.orderId))
+        );
+        setRentalReturns(returnsByOrder.flat());
+      } catch (err) {
+        console.error('Error fetching rental returns:', err);
+      }
+    };
+    fetchRentalReturns();
+  }, [orders]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Check ratings for delivered orders
   useEffect(() => {
     const checkRatings = async () => {
@@ -152,6 +213,43 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
     setSelectedOrder(null);
   };
 
+  // Subtotal and discount lines shown above the total of an order that used coupons
+  const renderDiscountRows = (order: Order, labelColSpan: number) => {
+    if (!order.discounts || order.discounts.length === 0) {
+      return null;
+    }
+    return (
+      <>
+        <TableRow>
+          <TableCell colSpan={labelColSpan} align="right">
+            <Typography variant="body1" color="text.secondary">
+              Subtotal:
+            </Typography>
+          </TableCell>
+          <TableCell align="right">
+            <Typography variant="body1">
+              ₹{order.subtotalAmount ?? order.totalAmount + (order.discountAmount || 0)}
+            </Typography>
+          </TableCell>
+        </TableRow>
+        {order.discounts.map(discount => (
+          <TableRow key={discount.promotionId}>
+            <TableCell colSpan={labelColSpan} align="right">
+              <Typography variant="body2" color="success.main">
+                {discount.title} ({discount.code})
+              </Typography>
+            </TableCell>
+            <TableCell align="right">
+              <Typography variant="body2" color="success.main">
+                -₹{discount.amount}
+              </Typography>
+            </TableCell>
+          </TableRow>
+        ))}
+      </>
+    );
+  };
+
   const handleRateProduct = (item: any, orderId: number) => {
     setSelectedItemForRating({
       itemId: item.itemId,
@@ -201,6 +299,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
       case 'CONFIRMED': return 'info';
       case 'PREPARING': return 'primary';
       case 'READY': return 'success';
+      case 'SHIPPED': return 'secondary';
       case 'DELIVERED': return 'success';
       case 'CANCELLED': return 'error';
       default: return 'default';
@@ -213,54 +312,44 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
       case 'CONFIRMED': return <CheckCircleIcon />;
       case 'PREPARING': return <RefreshIcon />;
       case 'READY': return <ShippingIcon />;
+      case 'SHIPPED': return <ShippingIcon />;
       case 'DELIVERED': return <CheckCircleIcon />;
       case 'CANCELLED': return <CancelIcon />;
       default: return <ShoppingCartIcon />;
     }
   };
 
+  const describeStatusChange = (change: OrderStatusChange) => {
+    const when = change.changedAt ? new Date(change.changedAt).toLocaleString() : 'Time not recorded';
+    const by = change.changedByName || (change.role === 'SYSTEM' ? 'System' : change.role.toLowerCase());
+    return `${when} by ${by}`;
+  };
+
+  // Steps that happened come from the order's audit timeline, followed by the ones still ahead
   const getOrderSteps = (order: Order) => {
-    const steps = [
-      { 
-        label: 'Order Placed', 
-        completed: true,
-        description: `Order placed on ${new Date(order.orderDate).toLocaleString()}`,
-        icon: <ShoppingCartIcon />
-      },
-      { 
-        label: 'Order Confirmed', 
-        completed: order.status !== 'PENDING',
-        description: order.status !== 'PENDING' ? 'Order confirmed by vendor' : 'Waiting for confirmation',
-        icon: <CheckCircleIcon />
-      },
-      { 
-        label: 'Preparing', 
-        completed: ['PREPARING', 'READY', 'DELIVERED'].includes(order.status),
-        description: ['PREPARING', 'READY', 'DELIVERED'].includes(order.status) ? 'Your order is being prepared' : 'Waiting to start preparation',
-        icon: <RefreshIcon />
-      },
-      { 
-        label: 'Ready for Delivery', 
-        completed: ['READY', 'DELIVERED'].includes(order.status),
-        description: ['READY', 'DELIVERED'].includes(order.status) ? 'Order is ready for delivery' : 'Order is being prepared',
-        icon: <ShippingIcon />
-      },
-      { 
-        label: 'Delivered', 
-        completed: order.status === 'DELIVERED',
-        description: order.status === 'DELIVERED' ? 'Order has been delivered' : 'Order is ready for delivery',
-        icon: <CheckCircleIcon />
-      },
-    ];
-    
-    if (order.status === 'CANCELLED') {
-      return steps.map(step => ({ ...step, completed: false, description: 'Order was cancelled' }));
-    }
-    
-    return steps;
+    const pastSteps = getStatusHistory(order).map(change => ({
+      label: ORDER_STATUS_LABELS[change.toStatus],
+      completed: change.toStatus !== 'CANCELLED',
+      cancelled: change.toStatus === 'CANCELLED',
+      description: describeStatusChange(change),
+      reason: change.reason,
+      icon: getStatusIcon(change.toStatus),
+    }));
+    const upcomingSteps = getUpcomingStatuses(order.status).map(status => ({
+      label: ORDER_STATUS_LABELS[status],
+      completed: false,
+      cancelled: false,
+      description: 'Up next',
+      reason: undefined,
+      icon: getStatusIcon(status),
+    }));
+    return [...pastSteps, ...upcomingSteps];
   };
 
   const getOrderProgress = (order: Order) => {
+    if (order.status === 'CANCELLED') {
+      return 0;
+    }
     const steps = getOrderSteps(order);
     const completedSteps = steps.filter(step => step.completed).length;
     return (completedSteps / steps.length) * 100;
@@ -276,31 +365,38 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
     });
   };
 
-  const handleCancelOrder = async (orderId: string) => {
-    if (!window.confirm('Are you sure you want to cancel this order? This action cannot be undone.')) {
-      return;
+  const handleOrderCancelled = (order: Order) => {
+    if (onRefresh) {
+      onRefresh();
     }
+    // Close order detail dialog if it's open for this order
+    if (selectedOrder?.orderId === order.orderId) {
+      setOrderDetailOpen(false);
+      setSelectedOrder(null);
+    }
+  };
 
-    setCancellingOrderId(orderId);
+  const handleWithdrawChangeRequest = async (requestId: string) => {
+    setWithdrawingRequestId(requestId);
     try {
-      await orderService.cancelOrder(orderId);
-      // Refresh orders list
-      if (onRefresh) {
-        onRefresh();
-      }
-      // Close order detail dialog if it's open for this order
-      if (selectedOrder?.orderId.toString() === orderId) {
-        setOrderDetailOpen(false);
-        setSelectedOrder(null);
-      }
+      await orderChangeService.withdrawChangeRequest(requestId);
+      await fetchChangeRequests();
     } catch (error: any) {
-      console.error('Error cancelling order:', error);
-      alert(`Failed to cancel order: ${error.message || 'Unknown error'}`);
+      console.error('Error withdrawing change request:', error);
+      alert(`Failed to withdraw change request: ${error.message || 'Unknown error'}`);
     } finally {
-      setCancellingOrderId(null);
+      setWithdrawingRequestId(null);
     }
   };
 
+  const getOrderChangeRequests = (orderId: number) =>
+    changeRequests.filter(request => request.orderId === orderId && request.status !== 'WITHDRAWN');
+
+  const canRequestChange = (order: Order) =>
+    user?.userType === 'CLIENT' &&
+    ['PENDING', 'CONFIRMED', 'PREPARING'].includes(order.status) &&
+    !changeRequests.some(request => request.orderId === order.orderId && request.status === 'PENDING');
+
   const getOrderStatusMessage = (order: Order) => {
     switch (order.status) {
       case 'PENDING':
@@ -311,6 +407,8 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
         return 'Your order is being prepared. You will be notified when it\'s ready.';
       case 'READY':
         return 'Your order is ready for delivery. It will be delivered soon.';
+      case 'SHIPPED':
+        return 'Your order is on its way to your address.';
       case 'DELIVERED':
         return 'Your order has been delivered successfully. Thank you for your business!';
       case 'CANCELLED':
@@ -338,10 +436,10 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
       <Paper sx={{ p: 4, textAlign: 'center' }}>
         <ShoppingCartIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
         <Typography variant="h6" color="text.secondary" gutterBottom>
-          No orders yet
+          {emptyMessage ? 'No orders found' : 'No orders yet'}
         </Typography>
         <Typography variant="body2" color="text.secondary">
-          Start exploring businesses and place your first order!
+          {emptyMessage || 'Start exploring businesses and place your first order!'}
         </Typography>
       </Paper>
     );
@@ -353,7 +451,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
       <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
         <Box>
           <Typography variant="h5" component="h2" gutterBottom>
-            Order History ({ordersArray.length} {ordersArray.length === 1 ? 'order' : 'orders'})
+            Order History ({totalCount ?? ordersArray.length} {(totalCount ?? ordersArray.length) === 1 ? 'order' : 'orders'})
           </Typography>
           <Typography variant="body2" color="text.secondary">
             Track all your orders and their current status
@@ -431,7 +529,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
               borderLeft: `4px solid ${
                 order.status === 'DELIVERED' ? '#4caf50' : 
                 order.status === 'CANCELLED' ? '#f44336' : 
-                order.status === 'READY' ? '#2196f3' :
+                order.status === 'READY' || order.status === 'SHIPPED' ? '#2196f3' :
                 order.status === 'PREPARING' ? '#ff9800' :
                 order.status === 'CONFIRMED' ? '#00bcd4' :
                 '#ffc107'
@@ -454,14 +552,15 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
                       Order ID: #{order.orderId}
+                      {order.checkoutId && ` • Checkout: ${order.checkoutId}`}
                     </Typography>
                   </Box>
                 </Box>
                 <Box textAlign="right">
                   <Chip 
-                    label={order.status} 
-                    color={getStatusColor(order.status) as any}
-                    icon={getStatusIcon(order.status)}
+                    label={ORDER_STATUS_LABELS[getRolledUpOrderStatus(order)]} 
+                    color={getStatusColor(getRolledUpOrderStatus(order)) as any}
+                    icon={getStatusIcon(getRolledUpOrderStatus(order))}
                     sx={{ mb: 1 }}
                   />
                   <Typography variant="h5" color="primary" fontWeight="bold">
@@ -509,10 +608,10 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                         <StepLabel 
                           StepIconComponent={() => (
                             <Avatar sx={{ 
-                              bgcolor: step.completed ? 'success.main' : 'grey.300',
+                              bgcolor: step.cancelled ? 'error.main' : step.completed ? 'success.main' : 'grey.300',
                               width: 48,
                               height: 48,
-                              border: step.completed ? '3px solid #4caf50' : '3px solid #e0e0e0',
+                              border: step.cancelled ? '3px solid #f44336' : step.completed ? '3px solid #4caf50' : '3px solid #e0e0e0',
                               boxShadow: step.completed ? '0 2px 8px rgba(76, 175, 80, 0.3)' : 'none'
                             }}>
                               {step.icon}
@@ -522,7 +621,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                             '& .MuiStepLabel-label': {
                               fontSize: '0.875rem',
                               fontWeight: step.completed ? 'bold' : 'normal',
-                              color: step.completed ? 'success.main' : 'text.primary',
+                              color: step.cancelled ? 'error.main' : step.completed ? 'success.main' : 'text.primary',
                               mt: 1
                             }
                           }}
@@ -545,6 +644,15 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                       </Step>
                     ))}
                   </Stepper>
+
+                  {order.status !== 'CANCELLED' && order.orderItems?.length > 1 && (
+                    <>
+                      <Typography variant="subtitle1" gutterBottom>
+                        Item Progress
+                      </Typography>
+                      <OrderItemProgress order={order} />
+                    </>
+                  )}
                 </Grid>
 
                 {/* Order Details */}
@@ -660,23 +768,71 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                     >
                       View Full Details
                     </Button>
-                    {user?.userType === 'CLIENT' && 
-                     order.status !== 'DELIVERED' && 
-                     order.status !== 'CANCELLED' && 
-                     order.status !== 'READY' && (
+                    {canIssueInvoice(order) && (
+                      <Button
+                        variant="outlined"
+                        startIcon={<ReceiptIcon />}
+                        onClick={() => setInvoiceOrder(order)}
+                      >
+                        Invoice
+                      </Button>
+                    )}
+                    {canRequestChange(order) && (
+                      <Button
+                        variant="outlined"
+                        startIcon={<ChangeIcon />}
+                        onClick={() => setChangeOrder(order)}
+                      >
+                        Request Change
+                      </Button>
+                    )}
+                    {user?.userType === 'CLIENT' && canClientCancel(order) && (
                       <Button
                         variant="outlined"
                         color="error"
                         startIcon={<CancelIcon />}
-                        onClick={() => handleCancelOrder(order.orderId.toString())}
-                        disabled={cancellingOrderId === order.orderId.toString()}
+                        onClick={() => setCancelOrder(order)}
                       >
-                        {cancellingOrderId === order.orderId.toString() ? 'Cancelling...' : 'Cancel Order'}
+                        Cancel Order
                       </Button>
                     )}
                   </Box>
                 </Grid>
 
+                {/* Rental Returns */}
+                {hasRentalsOut(order) && (
+                  <Grid item xs={12}>
+                    <Typography variant="h6" gutterBottom>
+                      Rental Returns
+                    </Typography>
+                    <OrderRentalReturns order={order} returns={rentalReturns} />
+                  </Grid>
+                )}
+
+                {/* Change Requests */}
+                {getOrderChangeRequests(order.orderId).length > 0 && (
+                  <Grid item xs={12}>
+                    <Typography variant="h6" gutterBottom>
+                      Change Requests
+                    </Typography>
+                    {getOrderChangeRequests(order.orderId).map(request => (
+                      <OrderChangeRequestSummary
+                        key={request.requestId}
+                        request={request}
+                        actions={request.status === 'PENDING' && (
+                          <Button
+                            size="small"
+                            onClick={() => handleWithdrawChangeRequest(request.requestId)}
+                            disabled={withdrawingRequestId === request.requestId}
+                          >
+                            {withdrawingRequestId === request.requestId ? 'Withdrawing...' : 'Withdraw'}
+                          </Button>
+                        )}
+                      />
+                    ))}
+                  </Grid>
+                )}
+
                 {/* Order Items Summary */}
                 <Grid item xs={12}>
                   <Divider sx={{ my: 2 }} />
@@ -769,6 +925,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                             </TableRow>
                           );
                         })}
+                        {renderDiscountRows(order, order.status === 'DELIVERED' && user?.userType === 'CLIENT' ? 5 : 4)}
                         <TableRow>
                           <TableCell colSpan={order.status === 'DELIVERED' && user?.userType === 'CLIENT' ? 5 : 4} align="right">
                             <Typography variant="h6" color="text.secondary">
@@ -938,10 +1095,10 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                     <StepLabel 
                       StepIconComponent={() => (
                         <Avatar sx={{ 
-                          bgcolor: step.completed ? 'success.main' : 'grey.300',
+                          bgcolor: step.cancelled ? 'error.main' : step.completed ? 'success.main' : 'grey.300',
                           width: 48,
                           height: 48,
-                          border: step.completed ? '3px solid #4caf50' : '3px solid #e0e0e0',
+                          border: step.cancelled ? '3px solid #f44336' : step.completed ? '3px solid #4caf50' : '3px solid #e0e0e0',
                           boxShadow: step.completed ? '0 2px 8px rgba(76, 175, 80, 0.3)' : 'none'
                         }}>
                           {step.icon}
@@ -951,7 +1108,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                         '& .MuiStepLabel-label': {
                           fontSize: '0.875rem',
                           fontWeight: step.completed ? 'bold' : 'normal',
-                          color: step.completed ? 'success.main' : 'text.primary',
+                          color: step.cancelled ? 'error.main' : step.completed ? 'success.main' : 'text.primary',
                           mt: 1
                         }
                       }}
@@ -962,6 +1119,11 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                       <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 0.5 }}>
                         {step.description}
                       </Typography>
+                      {step.reason && (
+                        <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 0.5 }}>
+                          Reason: {step.reason}
+                        </Typography>
+                      )}
                       {step.completed && (
                         <Chip 
                           label="✓" 
@@ -1055,6 +1217,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
                         </TableRow>
                       );
                     })}
+                    {renderDiscountRows(selectedOrder, selectedOrder.status === 'DELIVERED' && user?.userType === 'CLIENT' ? 5 : 4)}
                     <TableRow>
                       <TableCell colSpan={selectedOrder.status === 'DELIVERED' && user?.userType === 'CLIENT' ? 5 : 4} align="right">
                         <Typography variant="h6" color="primary">
@@ -1074,19 +1237,19 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
           )}
         </DialogContent>
         <DialogActions>
-          {user?.userType === 'CLIENT' && 
-           selectedOrder &&
-           selectedOrder.status !== 'DELIVERED' && 
-           selectedOrder.status !== 'CANCELLED' && 
-           selectedOrder.status !== 'READY' && (
+          {user?.userType === 'CLIENT' && selectedOrder && canClientCancel(selectedOrder) && (
             <Button
               variant="outlined"
               color="error"
               startIcon={<CancelIcon />}
-              onClick={() => handleCancelOrder(selectedOrder.orderId.toString())}
-              disabled={cancellingOrderId === selectedOrder.orderId.toString()}
+              onClick={() => setCancelOrder(selectedOrder)}
             >
-              {cancellingOrderId === selectedOrder.orderId.toString() ? 'Cancelling...' : 'Cancel Order'}
+              Cancel Order
+            </Button>
+          )}
+          {selectedOrder && canIssueInvoice(selectedOrder) && (
+            <Button startIcon={<ReceiptIcon />} onClick={() => setInvoiceOrder(selectedOrder)}>
+              Invoice
             </Button>
           )}
           <Button onClick={handleCloseOrderDetail}>
@@ -1095,6 +1258,28 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({
         </DialogActions>
       </Dialog>
 
+      {/* Tax Invoice Dialog */}
+      <InvoiceDialog
+        open={!!invoiceOrder}
+        onClose={() => setInvoiceOrder(null)}
+        order={invoiceOrder}
+      />
+
+      {/* Order Change Request Dialog */}
+      <OrderChangeRequestDialog
+        open={!!changeOrder}
+        onClose={() => setChangeOrder(null)}
+        order={changeOrder}
+        onSubmitted={fetchChangeRequests}
+      />
+
+      <CancelOrderDialog
+        open={!!cancelOrder}
+        onClose={() => setCancelOrder(null)}
+        order={cancelOrder}
+        onCancelled={handleOrderCancelled}
+      />
+
       {/* Rating Dialog */}
       {selectedItemForRating && (
         <RatingComponent
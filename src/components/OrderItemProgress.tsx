@@ -0,0 +1,56 @@
+import React from 'react';
+import { Box, Chip, LinearProgress, Typography } from '@mui/material';
+import { Order } from '../types/cart';
+import {
+  FULFILMENT_STATUS_LABELS,
+  getFulfilmentProgress,
+  getFulfilmentStatusColor,
+  getItemFulfilmentStatus,
+} from '../utils/fulfilmentUtils';
+
+interface OrderItemProgressProps {
+  order: Order;
+}
+
+const OrderItemProgress: React.FC<OrderItemProgressProps> = ({ order }) => {
+  if (order.status === 'CANCELLED' || !order.orderItems || order.orderItems.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box>
+      {order.orderItems.map(item => {
+        const status = getItemFulfilmentStatus(item, order);
+        return (
+          <Box key={item.orderItemId} mb={1.5}>
+            <Box display="flex" justifyContent="space-between" alignItems="center" gap={1} mb={0.5}>
+              <Box>
+                <Typography variant="body2" fontWeight="medium">
+                  {item.itemName}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {item.businessName}
+                  {item.bookingDate && ` · ${new Date(item.bookingDate).toLocaleDateString()}`}
+                  {item.fulfilmentUpdatedAt && ` · Updated ${new Date(item.fulfilmentUpdatedAt).toLocaleString()}`}
+                </Typography>
+              </Box>
+              <Chip
+                label={FULFILMENT_STATUS_LABELS[status]}
+                color={getFulfilmentStatusColor(status) as any}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={getFulfilmentProgress(item, order)}
+              sx={{ height: 6, borderRadius: 3 }}
+            />
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default OrderItemProgress;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Box, Chip, Paper, Typography } from '@mui/material';
+import { Order } from '../types/cart';
+import { RentalReturn } from '../types/rentalReturn';
+import {
+  RENTAL_RETURN_STATE_LABELS,
+  getRentalReturnStateColor,
+  isRentalItem,
+  summarizeRentalReturns,
+} from '../utils/rentalReturnUtils';
+import { roundCurrency } from '../utils/promotionUtils';
+
+interface OrderRentalReturnsProps {
+  order: Order;
+  returns: RentalReturn[];
+}
+
+const OrderRentalReturns: React.FC<OrderRentalReturnsProps> = ({ order, returns }) => {
+  const today = new Date().toISOString().slice(0, 10);
+  const rentalItems = (order.orderItems || []).filter(isRentalItem);
+  const orderReturns = returns.filter(rentalReturn => rentalReturn.orderId === order.orderId);
+  const totalCharges = roundCurrency(orderReturns.reduce((sum, rentalReturn) => sum + rentalReturn.damageCharge, 0));
+
+  return (
+    <Box>
+      {rentalItems.map(item => {
+        const summary = summarizeRentalReturns(item, order, orderReturns, today);
+        const lineReturns = orderReturns.filter(rentalReturn => rentalReturn.orderItemId === item.orderItemId);
+        return (
+          <Paper key={item.orderItemId} variant="outlined" sx={{ p: 2, mb: 1 }}>
+            <Box display="flex" justifyContent="space-between" alignItems="flex-start" flexWrap="wrap" gap={1}>
+              <Box>
+                <Typography variant="subtitle2">{item.itemName}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {summary.state === 'RETURNED'
+                    ? `All ${summary.rented} accounted for`
+                    : `Return due by ${new Date(summary.expectedReturnDate).toLocaleDateString()}`}
+                </Typography>
+              </Box>
+              <Chip
+                label={RENTAL_RETURN_STATE_LABELS[summary.state]}
+                color={getRentalReturnStateColor(summary.state) as any}
+                size="small"
+              />
+            </Box>
+
+            {lineReturns.map(rentalReturn => (
+              <Box key={rentalReturn.returnId} mt={1}>
+                <Typography variant="body2">
+                  {new Date(rentalReturn.returnedDate).toLocaleDateString()}: {rentalReturn.quantityReturned} returned
+                  {rentalReturn.quantityDamaged > 0 && ` · ${rentalReturn.quantityDamaged} damaged`}
+                  {rentalReturn.quantityMissing > 0 && ` · ${rentalReturn.quantityMissing} missing`}
+                  {rentalReturn.damageCharge > 0 && ` · Charge ₹${rentalReturn.damageCharge}`}
+                </Typography>
+                {rentalReturn.notes && (
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {rentalReturn.notes}
+                  </Typography>
+                )}
+                {rentalReturn.photoUrls.length > 0 && (
+                  <Box display="flex" gap={1} flexWrap="wrap" mt={0.5}>
+                    {rentalReturn.photoUrls.map(url => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                        <img src={url} alt="Damage" style={{ width: 64, height: 64, objectFit: 'cover', borderRadius: 4 }} />
+                      </a>
+                    ))}
+                  </Box>
+                )}
+              </Box>
+            ))}
+          </Paper>
+        );
+      })}
+
+      {totalCharges > 0 && (
+        <Box display="flex" justifyContent="space-between" mt={1}>
+          <Typography variant="body2" fontWeight="bold">
+            Damage charges (added to your order total)
+          </Typography>
+          <Typography variant="body2" fontWeight="bold" color="error">
+            ₹{totalCharges}
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default OrderRentalReturns;
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import { Search as SearchIcon, ArrowUpward as AscIcon, ArrowDownward as DescIcon } from '@mui/icons-material';
+import { OrderStatusValue } from '../types/cart';
+import { OrderSearchQuery, OrderSortField } from '../types/orderSearch';
+import { ORDER_STATUS_LABELS } from '../utils/orderStatusUtils';
+import { ORDER_ITEM_TYPES, ORDER_SORT_LABELS, hasOrderSearchFilters } from '../utils/orderSearchUtils';
+
+// Wait for typing to pause before searching
+const TEXT_SEARCH_DELAY_MS = 400;
+
+interface OrderSearchBarProps {
+  query: OrderSearchQuery;
+  onChange: (change: Partial<OrderSearchQuery>) => void;
+  onClear: () => void;
+  vendors?: Array<{ businessId: string; businessName: string }>; // Shown to clients to filter by vendor
+  showCustomer?: boolean; // Shown to vendors to filter by customer
+}
+
+const OrderSearchBar: React.FC<OrderSearchBarProps> = ({ query, onChange, onClear, vendors = [], showCustomer = false }) => {
+  const [itemName, setItemName] = useState(query.itemName || '');
+  const [customer, setCustomer] = useState(query.customer || '');
+
+  // Follow the URL when it changes from outside, e.g. back navigation or clearing
+  useEffect(() => setItemName(query.itemName || ''), [query.itemName]);
+  useEffect(() => setCustomer(query.customer || ''), [query.customer]);
+
+  useEffect(() => {
+    if (itemName.trim() === (query.itemName || '') && customer.trim() === (query.customer || '')) return;
+    const timer = setTimeout(
+      () => onChange({ itemName: itemName.trim() || undefined, customer: customer.trim() || undefined }),
+      TEXT_SEARCH_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [itemName, customer]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const parseAmount = (value: string) => (value === '' ? undefined : Math.max(0, parseFloat(value) || 0));
+
+  return (
+    <Box display="flex" gap={2} flexWrap="wrap" alignItems="center" mb={2}>
+      <TextField
+        label="Item Name"
+        size="small"
+        value={itemName}
+        onChange={(e) => setItemName(e.target.value)}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <SearchIcon fontSize="small" />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ minWidth: 200 }}
+      />
+      {showCustomer && (
+        <TextField
+          label="Customer"
+          size="small"
+          placeholder="Name, phone or email"
+          value={customer}
+          onChange={(e) => setCustomer(e.target.value)}
+          sx={{ minWidth: 200 }}
+        />
+      )}
+      <FormControl size="small" sx={{ minWidth: 180 }}>
+        <InputLabel>Status</InputLabel>
+        <Select
+          multiple
+          value={query.statuses || []}
+          label="Status"
+          onChange={(e) => {
+            const value = e.target.value;
+            const statuses = (typeof value === 'string' ? value.split(',') : value) as OrderStatusValue[];
+            onChange({ statuses: statuses.length > 0 ? statuses : undefined });
+          }}
+          renderValue={(selected) => (selected as OrderStatusValue[]).map(status => ORDER_STATUS_LABELS[status]).join(', ')}
+        >
+          {(Object.keys(ORDER_STATUS_LABELS) as OrderStatusValue[]).map(status => (
+            <MenuItem key={status} value={status}>
+              <Checkbox size="small" checked={!!query.statuses?.includes(status)} />
+              <ListItemText primary={ORDER_STATUS_LABELS[status]} />
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      {vendors.length > 1 && (
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel>Vendor</InputLabel>
+          <Select
+            value={query.businessId || ''}
+            label="Vendor"
+            onChange={(e) => onChange({ businessId: e.target.value || undefined })}
+          >
+            <MenuItem value="">All Vendors</MenuItem>
+            {vendors.map(vendor => (
+              <MenuItem key={vendor.businessId} value={vendor.businessId}>
+                {vendor.businessName}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <InputLabel>Item Type</InputLabel>
+        <Select
+          value={query.itemType || ''}
+          label="Item Type"
+          onChange={(e) => onChange({ itemType: e.target.value || undefined })}
+        >
+          <MenuItem value="">All Types</MenuItem>
+          {ORDER_ITEM_TYPES.map(type => (
+            <MenuItem key={type} value={type} sx={{ textTransform: 'capitalize' }}>
+              {type}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <TextField
+        label="Ordered From"
+        type="date"
+        size="small"
+        value={query.orderFrom || ''}
+        onChange={(e) => onChange({ orderFrom: e.target.value || undefined })}
+        InputLabelProps={{ shrink: true }}
+      />
+      <TextField
+        label="Ordered To"
+        type="date"
+        size="small"
+        value={query.orderTo || ''}
+        onChange={(e) => onChange({ orderTo: e.target.value || undefined })}
+        InputLabelProps={{ shrink: true }}
+      />
+      <TextField
+        label="Booking From"
+        type="date"
+        size="small"
+        value={query.deliveryFrom || ''}
+        onChange={(e) => onChange({ deliveryFrom: e.target.value || undefined })}
+        InputLabelProps={{ shrink: true }}
+      />
+      <TextField
+        label="Booking To"
+        type="date"
+        size="small"
+        value={query.deliveryTo || ''}
+        onChange={(e) => onChange({ deliveryTo: e.target.value || undefined })}
+        InputLabelProps={{ shrink: true }}
+      />
+      <TextField
+        label="Min Amount"
+        type="number"
+        size="small"
+        value={query.minAmount ?? ''}
+        onChange={(e) => onChange({ minAmount: parseAmount(e.target.value) })}
+        sx={{ width: 120 }}
+      />
+      <TextField
+        label="Max Amount"
+        type="number"
+        size="small"
+        value={query.maxAmount ?? ''}
+        onChange={(e) => onChange({ maxAmount: parseAmount(e.target.value) })}
+        sx={{ width: 120 }}
+      />
+      <Box display="flex" alignItems="center">
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Sort By</InputLabel>
+          <Select
+            value={query.sortBy}
+            label="Sort By"
+            onChange={(e) => onChange({ sortBy: e.target.value as OrderSortField })}
+          >
+            {(Object.keys(ORDER_SORT_LABELS) as OrderSortField[]).map(field => (
+              <MenuItem key={field} value={field}>
+                {ORDER_SORT_LABELS[field]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Tooltip title={query.sortDirection === 'asc' ? 'Ascending' : 'Descending'}>
+          <IconButton
+            size="small"
+            onClick={() => onChange({ sortDirection: query.sortDirection === 'asc' ? 'desc' : 'asc' })}
+          >
+            {query.sortDirection === 'asc' ? <AscIcon fontSize="small" /> : <DescIcon fontSize="small" />}
+          </IconButton>
+        </Tooltip>
+      </Box>
+      {hasOrderSearchFilters(query) && (
+        <Button size="small" onClick={onClear}>
+          Clear Filters
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default OrderSearchBar;
@@ -28,51 +28,67 @@ import {
   LocationOn as LocationIcon,
   Phone as PhoneIcon,
   Email as EmailIcon,
+  Payment as PaymentIcon,
 } from '@mui/icons-material';
-import { Order } from '../types/cart';
+import { Order, OrderStatusChange } from '../types/cart';
 import { getOrderDisplayTitle } from '../utils/orderDisplay';
 import { useAuth } from '../contexts/AuthContext';
-import orderService from '../services/orderService';
+import paymentService from '../services/paymentService';
+import { PAYMENT_STATE_LABELS, getPaymentStateColor, summarizePayments } from '../utils/paymentUtils';
+import {
+  ORDER_STATUS_LABELS,
+  canClientCancel,
+  getStatusHistory,
+  getUpcomingStatuses,
+} from '../utils/orderStatusUtils';
+import CancelOrderDialog from './CancelOrderDialog';
+import OrderItemProgress from './OrderItemProgress';
+import { getRolledUpOrderStatus } from '../utils/fulfilmentUtils';
 
 interface OrderStatusTrackerProps {
   order: Order;
   showDetails?: boolean;
   onCancel?: () => void;
+  onPaymentMade?: () => void;
 }
 
 const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
   order,
   showDetails = true,
   onCancel,
+  onPaymentMade,
 }) => {
   const { user } = useAuth();
-  const [cancellingOrderId, setCancellingOrderId] = React.useState<string | null>(null);
+  const [cancelDialogOpen, setCancelDialogOpen] = React.useState(false);
+  const [payingBalance, setPayingBalance] = React.useState(false);
+  const paymentSummary = summarizePayments(order);
 
-  const handleCancelOrder = async () => {
-    if (!window.confirm('Are you sure you want to cancel this order? This action cannot be undone.')) {
+  const handlePayBalance = async () => {
+    if (!window.confirm(`Pay the remaining balance of ₹${paymentSummary.balance} now?`)) {
       return;
     }
 
-    setCancellingOrderId(order.orderId.toString());
+    setPayingBalance(true);
     try {
-      await orderService.cancelOrder(order.orderId.toString());
-      // Call onCancel callback if provided
-      if (onCancel) {
-        onCancel();
+      await paymentService.payOrder(order, paymentSummary.balance, 'BALANCE');
+      if (onPaymentMade) {
+        onPaymentMade();
       }
     } catch (error: any) {
-      console.error('Error cancelling order:', error);
-      alert(`Failed to cancel order: ${error.message || 'Unknown error'}`);
+      console.error('Error paying balance:', error);
+      alert(`Payment failed: ${error.message || 'Unknown error'}`);
     } finally {
-      setCancellingOrderId(null);
+      setPayingBalance(false);
     }
   };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'PENDING': return 'warning';
       case 'CONFIRMED': return 'info';
       case 'PREPARING': return 'primary';
       case 'READY': return 'success';
+      case 'SHIPPED': return 'secondary';
       case 'DELIVERED': return 'success';
       case 'CANCELLED': return 'error';
       default: return 'default';
@@ -85,64 +101,44 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
       case 'CONFIRMED': return <CheckCircleIcon />;
       case 'PREPARING': return <RefreshIcon />;
       case 'READY': return <ShippingIcon />;
+      case 'SHIPPED': return <ShippingIcon />;
       case 'DELIVERED': return <CheckCircleIcon />;
       case 'CANCELLED': return <CancelIcon />;
       default: return <ShoppingCartIcon />;
     }
   };
 
+  const describeStatusChange = (change: OrderStatusChange) => {
+    const when = change.changedAt ? formatDate(change.changedAt) : 'Time not recorded';
+    const by = change.changedByName || (change.role === 'SYSTEM' ? 'System' : change.role.toLowerCase());
+    return `${when} by ${by}`;
+  };
+
+  // Steps that happened come from the order's audit timeline, followed by the ones still ahead
   const getOrderSteps = () => {
-    const steps = [
-      { 
-        label: 'Order Placed', 
-        completed: true,
-        description: `Order placed on ${new Date(order.orderDate).toLocaleString()}`,
-        icon: <ShoppingCartIcon />,
-        color: 'success'
-      },
-      { 
-        label: 'Order Confirmed', 
-        completed: order.status !== 'PENDING',
-        description: order.status !== 'PENDING' ? 'Order confirmed by vendor' : 'Waiting for confirmation',
-        icon: <CheckCircleIcon />,
-        color: order.status !== 'PENDING' ? 'success' : 'default'
-      },
-      { 
-        label: 'Preparing', 
-        completed: ['PREPARING', 'READY', 'DELIVERED'].includes(order.status),
-        description: ['PREPARING', 'READY', 'DELIVERED'].includes(order.status) ? 'Your order is being prepared' : 'Waiting to start preparation',
-        icon: <RefreshIcon />,
-        color: ['PREPARING', 'READY', 'DELIVERED'].includes(order.status) ? 'primary' : 'default'
-      },
-      { 
-        label: 'Ready for Delivery', 
-        completed: ['READY', 'DELIVERED'].includes(order.status),
-        description: ['READY', 'DELIVERED'].includes(order.status) ? 'Order is ready for delivery' : 'Order is being prepared',
-        icon: <ShippingIcon />,
-        color: ['READY', 'DELIVERED'].includes(order.status) ? 'success' : 'default'
-      },
-      { 
-        label: 'Delivered', 
-        completed: order.status === 'DELIVERED',
-        description: order.status === 'DELIVERED' ? 'Order has been delivered successfully' : 'Order is ready for delivery',
-        icon: <CheckCircleIcon />,
-        color: order.status === 'DELIVERED' ? 'success' : 'default'
-      },
-    ];
-    
-    if (order.status === 'CANCELLED') {
-      return steps.map(step => ({ 
-        ...step, 
-        completed: false, 
-        description: 'Order was cancelled',
-        color: 'error'
-      }));
-    }
-    
-    return steps;
+    const pastSteps = getStatusHistory(order).map(change => ({
+      label: ORDER_STATUS_LABELS[change.toStatus],
+      completed: change.toStatus !== 'CANCELLED',
+      cancelled: change.toStatus === 'CANCELLED',
+      description: describeStatusChange(change),
+      reason: change.reason,
+      icon: getStatusIcon(change.toStatus),
+    }));
+    const upcomingSteps = getUpcomingStatuses(order.status).map(status => ({
+      label: ORDER_STATUS_LABELS[status],
+      completed: false,
+      cancelled: false,
+      description: 'Up next',
+      reason: undefined,
+      icon: getStatusIcon(status),
+    }));
+    return [...pastSteps, ...upcomingSteps];
   };
 
   const getOrderProgress = () => {
+    if (order.status === 'CANCELLED') {
+      return 0;
+    }
     const steps = getOrderSteps();
     const completedSteps = steps.filter(step => step.completed).length;
     return (completedSteps / steps.length) * 100;
@@ -174,6 +170,12 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
           title: 'Order Ready',
           message: 'Your order is ready for delivery. It will be delivered to your address soon.'
         };
+      case 'SHIPPED':
+        return {
+          severity: 'info' as const,
+          title: 'Out for Delivery',
+          message: 'Your order is on its way to your address.'
+        };
       case 'DELIVERED':
         return {
           severity: 'success' as const,
@@ -209,6 +211,7 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
   const firstIncompleteStepIndex = steps.findIndex(step => !step.completed);
   const progress = getOrderProgress();
   const statusMessage = getOrderStatusMessage();
+  const rolledUpStatus = getRolledUpOrderStatus(order);
 
   return (
     <Box>
@@ -230,24 +233,28 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
               </Box>
             </Box>
             <Box display="flex" flexDirection="column" alignItems="flex-end" gap={1}>
-              <Chip 
-                label={order.status} 
-                color={getStatusColor(order.status) as any}
-                icon={getStatusIcon(order.status)}
-              />
-              {user?.userType === 'CLIENT' && 
-               order.status !== 'DELIVERED' && 
-               order.status !== 'CANCELLED' && 
-               order.status !== 'READY' && (
+              <Box display="flex" gap={1}>
+                <Chip 
+                  label={ORDER_STATUS_LABELS[rolledUpStatus]} 
+                  color={getStatusColor(rolledUpStatus) as any}
+                  icon={getStatusIcon(rolledUpStatus)}
+                />
+                <Chip
+                  label={PAYMENT_STATE_LABELS[paymentSummary.state]}
+                  color={getPaymentStateColor(paymentSummary.state)}
+                  icon={<PaymentIcon />}
+                  variant="outlined"
+                />
+              </Box>
+              {user?.userType === 'CLIENT' && canClientCancel(order) && (
                 <Button
                   variant="outlined"
                   color="error"
                   size="small"
                   startIcon={<CancelIcon />}
-                  onClick={handleCancelOrder}
-                  disabled={cancellingOrderId === order.orderId.toString()}
+                  onClick={() => setCancelDialogOpen(true)}
                 >
-                  {cancellingOrderId === order.orderId.toString() ? 'Cancelling...' : 'Cancel Order'}
+                  Cancel Order
                 </Button>
               )}
             </Box>
@@ -258,6 +265,28 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
             {statusMessage.message}
           </Alert>
 
+          {(paymentSummary.paid > 0 || paymentSummary.refunded > 0) && (
+            <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={1} sx={{ mb: 2 }}>
+              <Typography variant="body2" color="text.secondary">
+                Paid ₹{paymentSummary.paid}
+                {paymentSummary.refunded > 0 && ` · Refunded ₹${paymentSummary.refunded}`}
+                {paymentSummary.balance > 0 && ` · Balance ₹${paymentSummary.balance}`}
+                {paymentSummary.balanceDueDate && ` due by ${new Date(paymentSummary.balanceDueDate).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`}
+              </Typography>
+              {user?.userType === 'CLIENT' && paymentSummary.balance > 0 && (
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<PaymentIcon />}
+                  onClick={handlePayBalance}
+                  disabled={payingBalance}
+                >
+                  {payingBalance ? 'Paying...' : `Pay Balance ₹${paymentSummary.balance}`}
+                </Button>
+              )}
+            </Box>
+          )}
+
           <Box sx={{ mb: 2 }}>
             <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
               <Typography variant="body2" color="text.secondary">
@@ -306,10 +335,10 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
                   StepIconComponent={() => (
                     <Avatar
                       sx={{
-                        bgcolor: step.completed ? 'success.main' : 'grey.300',
+                        bgcolor: step.cancelled ? 'error.main' : step.completed ? 'success.main' : 'grey.300',
                         width: 48,
                         height: 48,
-                        border: step.completed ? '3px solid #4caf50' : '3px solid #e0e0e0',
+                        border: step.cancelled ? '3px solid #f44336' : step.completed ? '3px solid #4caf50' : '3px solid #e0e0e0',
                         boxShadow: step.completed ? '0 2px 8px rgba(76, 175, 80, 0.3)' : 'none'
                       }}
                     >
@@ -320,7 +349,7 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
                     '& .MuiStepLabel-label': {
                       fontSize: '0.875rem',
                       fontWeight: step.completed ? 'bold' : 'normal',
-                      color: step.completed ? 'success.main' : 'text.primary',
+                      color: step.cancelled ? 'error.main' : step.completed ? 'success.main' : 'text.primary',
                       mt: 1
                     }
                   }}
@@ -331,6 +360,11 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
                   <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 0.5 }}>
                     {step.description}
                   </Typography>
+                  {step.reason && (
+                    <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 0.5 }}>
+                      Reason: {step.reason}
+                    </Typography>
+                  )}
                   {step.completed && (
                     <Chip
                       label="✓"
@@ -346,6 +380,18 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
         </CardContent>
       </Card>
 
+      {/* Item Progress */}
+      {order.status !== 'CANCELLED' && order.orderItems?.length > 1 && (
+        <Card sx={{ mt: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Item Progress
+            </Typography>
+            <OrderItemProgress order={order} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Order Details */}
       {showDetails && (
         <Card sx={{ mt: 3 }}>
@@ -409,6 +455,27 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
               </Grid>
             </Grid>
 
+            {order.payments && order.payments.length > 0 && (
+              <>
+                <Divider sx={{ my: 2 }} />
+                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                  Payments
+                </Typography>
+                {order.payments.map(payment => (
+                  <Box key={payment.paymentId} display="flex" justifyContent="space-between" alignItems="center" mb={0.5}>
+                    <Typography variant="body2">
+                      {payment.type === 'DEPOSIT' ? 'Deposit' : payment.type === 'BALANCE' ? 'Balance' : 'Refund'}
+                      {' · '}
+                      {formatDate(payment.date)}
+                    </Typography>
+                    <Typography variant="body2" color={payment.type === 'REFUND' ? 'warning.main' : 'text.primary'}>
+                      {payment.type === 'REFUND' ? '-' : ''}₹{payment.amount}
+                    </Typography>
+                  </Box>
+                ))}
+              </>
+            )}
+
             <Divider sx={{ my: 2 }} />
 
             <Box display="flex" justifyContent="space-between" alignItems="center">
@@ -422,6 +489,13 @@ const OrderStatusTracker: React.FC<OrderStatusTrackerProps> = ({
           </CardContent>
         </Card>
       )}
+
+      <CancelOrderDialog
+        open={cancelDialogOpen}
+        onClose={() => setCancelDialogOpen(false)}
+        order={order}
+        onCancelled={() => onCancel?.()}
+      />
     </Box>
   );
 };
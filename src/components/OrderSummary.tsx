@@ -46,6 +46,7 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({ orders }) => {
     const pendingOrders = orders.filter(o => ['PENDING', 'CONFIRMED', 'PREPARING', 'READY'].includes(o.status)).length;
     const cancelledOrders = orders.filter(o => o.status === 'CANCELLED').length;
     const totalSpent = orders.reduce((sum, order) => sum + order.totalAmount, 0);
+    const totalSaved = orders.reduce((sum, order) => sum + (order.discountAmount || 0), 0);
     const averageOrderValue = totalOrders > 0 ? totalSpent / totalOrders : 0;
 
     return {
@@ -54,6 +55,7 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({ orders }) => {
       pendingOrders,
       cancelledOrders,
       totalSpent,
+      totalSaved,
       averageOrderValue,
       deliveryRate: totalOrders > 0 ? (deliveredOrders / totalOrders) * 100 : 0,
     };
@@ -86,6 +88,15 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({ orders }) => {
           });
         }
       });
+
+      // Discounts are recorded per vendor, so charge each business what was actually paid
+      order.discounts?.forEach(discount => {
+        const businessName = order.orderItems?.find(item => item.businessId === discount.businessId)?.businessName;
+        if (businessName && businessMap.has(businessName)) {
+          const existing = businessMap.get(businessName);
+          businessMap.set(businessName, { ...existing, totalSpent: existing.totalSpent - discount.amount });
+        }
+      });
     });
 
     return Array.from(businessMap.values())
@@ -213,6 +224,7 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({ orders }) => {
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 Avg: {formatCurrency(stats.averageOrderValue)}
+                {stats.totalSaved > 0 && ` • Saved ${formatCurrency(stats.totalSaved)}`}
               </Typography>
             </CardContent>
           </Card>
@@ -257,6 +269,12 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({ orders }) => {
                             <Typography variant="body2" color="primary" fontWeight="bold">
                               {formatCurrency(order.totalAmount)}
                             </Typography>
+                            {order.discounts && order.discounts.length > 0 && (
+                              <Typography variant="caption" color="success.main">
+                                Saved {formatCurrency(order.discountAmount || 0)} with{' '}
+                                {order.discounts.map(discount => discount.code).join(', ')}
+                              </Typography>
+                            )}
                           </Box>
                         }
                       />
@@ -25,6 +25,7 @@ import {
 } from '@mui/icons-material';
 import { Plate, Business } from '../types';
 import PlateService from '../services/plateService';
+import { SERVER_BASE_URL } from '../services/apiClient';
 import ImageCarousel from './ImageCarousel';
 import { useCart } from '../contexts/CartContext';
 import RatingDisplay from './RatingDisplay';
@@ -91,17 +92,17 @@ const PlateCard: React.FC<PlateCardProps> = ({
     
     // If it's a relative path starting with /uploads, prepend the backend URL
     if (imagePath.startsWith('/uploads/')) {
-      return `http://localhost:8080${imagePath}`;
+      return `${SERVER_BASE_URL}${imagePath}`;
     }
     
     // If it's just a filename or path without leading slash, construct the full path
     if (imagePath.includes('uploads/') || imagePath.includes('plates/')) {
       const normalizedPath = imagePath.startsWith('/') ? imagePath : `/${imagePath}`;
-      return `http://localhost:8080${normalizedPath}`;
+      return `${SERVER_BASE_URL}${normalizedPath}`;
     }
     
     // Default: assume it's a relative path in uploads/plates
-    return `http://localhost:8080/uploads/plates/${imagePath}`;
+    return `${SERVER_BASE_URL}/uploads/plates/${imagePath}`;
   };
 
   const handleCartToggle = (event?: React.MouseEvent) => {
@@ -26,6 +26,9 @@ interface PlateDishSelectorProps {
   onConfirm: (selectedDishes: Array<{ dishId: string; dishName: string; dishPrice: number; quantity: number }>) => void;
   plate: Plate;
   business: Business;
+  // Dishes already on the plate, e.g. when changing a placed order
+  initialDishes?: SelectedDish[];
+  confirmLabel?: string;
 }
 
 interface SelectedDish {
@@ -41,6 +44,8 @@ const PlateDishSelector: React.FC<PlateDishSelectorProps> = ({
   onConfirm,
   plate,
   business,
+  initialDishes,
+  confirmLabel = 'Add to Cart',
 }) => {
   const [dishes, setDishes] = useState<Dish[]>([]);
   const [loading, setLoading] = useState(false);
@@ -53,6 +58,12 @@ const PlateDishSelector: React.FC<PlateDishSelectorProps> = ({
     }
   }, [open, business.businessId]);
 
+  useEffect(() => {
+    if (open && initialDishes) {
+      setSelectedDishes(new Map(initialDishes.map(dish => [dish.dishId, dish])));
+    }
+  }, [open, initialDishes]);
+
   const fetchDishes = async () => {
     try {
       setLoading(true);
@@ -234,7 +245,7 @@ const PlateDishSelector: React.FC<PlateDishSelectorProps> = ({
           variant="contained"
           disabled={loading}
         >
-          Add to Cart
+          {confirmLabel}
         </Button>
       </DialogActions>
     </Dialog>
@@ -208,7 +208,7 @@ const PlateManagementForm: React.FC<PlateManagementFormProps> = ({
       onSuccess(updatedPlate);
       onClose();
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to save plate');
+      setError(err.message || 'Failed to save plate');
       console.error('Error saving plate:', err);
     } finally {
       setLoading(false);
@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Grid,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { format, parseISO } from 'date-fns';
+import { Business } from '../types';
+import { Order } from '../types/cart';
+import { RatingStats } from '../types/rating';
+import { BusinessLocationCluster, BusinessSegment, DateRange, OrderStatistics, VendorPerformance } from '../types/analytics';
+import orderService from '../services/orderService';
+import { ratingService } from '../services/ratingService';
+import MetricCard from './MetricCard';
+import RevenueChart from './RevenueChart';
+import AnalyticsRangePicker from './AnalyticsRangePicker';
+import { formatIndianNumber } from '../utils/orderExportUtils';
+import { getChange, getPreviousRange, getRecentRange } from '../utils/salesAnalyticsUtils';
+import { buildPlatformAnalytics } from '../utils/platformAnalyticsUtils';
+
+const MAP_WIDTH = 400;
+const MAP_HEIGHT = 300;
+
+const SEGMENT_LABELS: Record<BusinessSegment, string> = {
+  tent: 'Tent House',
+  catering: 'Catering',
+};
+
+const formatCurrency = (value: number) => `₹${formatIndianNumber(value, 0)}`;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const getRate = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+interface LocationMapProps {
+  clusters: BusinessLocationCluster[];
+}
+
+// Businesses plotted by latitude and longitude; bigger dots are places with more businesses
+const LocationMap: React.FC<LocationMapProps> = ({ clusters }) => {
+  if (clusters.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No businesses have a location yet
+      </Typography>
+    );
+  }
+
+  const latitudes = clusters.map(cluster => cluster.latitude);
+  const longitudes = clusters.map(cluster => cluster.longitude);
+  // Pad the bounds so a single place, or places in a line, still get a sensible scale
+  const minLat = Math.min(...latitudes) - 0.5;
+  const maxLat = Math.max(...latitudes) + 0.5;
+  const minLng = Math.min(...longitudes) - 0.5;
+  const maxLng = Math.max(...longitudes) + 0.5;
+  const maxCount = Math.max(...clusters.map(cluster => cluster.businessCount));
+
+  return (
+    <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} width="100%" height={MAP_HEIGHT} role="img" aria-label="Business locations">
+      <rect x={0} y={0} width={MAP_WIDTH} height={MAP_HEIGHT} fill="#f5f5f5" />
+      {clusters.map(cluster => (
+        <Tooltip
+          key={`${cluster.latitude}:${cluster.longitude}`}
+          title={`${cluster.businessCount} · ${cluster.businessNames.join(', ')}`}
+        >
+          <circle
+            cx={((cluster.longitude - minLng) / (maxLng - minLng)) * MAP_WIDTH}
+            cy={((maxLat - cluster.latitude) / (maxLat - minLat)) * MAP_HEIGHT}
+            r={4 + 12 * Math.sqrt(cluster.businessCount / maxCount)}
+            fill="#2e7d32"
+            fillOpacity={0.6}
+          />
+        </Tooltip>
+      ))}
+    </svg>
+  );
+};
+
+interface VendorTableProps {
+  vendors: VendorPerformance[];
+  emptyMessage: string;
+}
+
+const VendorTable: React.FC<VendorTableProps> = ({ vendors, emptyMessage }) =>
+  vendors.length === 0 ? (
+    <Typography variant="body2" color="text.secondary">
+      {emptyMessage}
+    </Typography>
+  ) : (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Vendor</TableCell>
+          <TableCell align="right">Revenue</TableCell>
+          <TableCell align="right">Orders</TableCell>
+          <TableCell align="right">Rating</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {vendors.map(vendor => (
+          <TableRow key={vendor.businessId}>
+            <TableCell>{vendor.businessName}</TableCell>
+            <TableCell align="right">{formatCurrency(vendor.revenue)}</TableCell>
+            <TableCell align="right">{vendor.orderCount}</TableCell>
+            <TableCell align="right">
+              {vendor.averageRating !== undefined ? `${vendor.averageRating.toFixed(1)} ★ (${vendor.ratingCount})` : '-'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+interface PlatformAnalyticsProps {
+  businesses: Business[];
+}
+
+const PlatformAnalytics: React.FC<PlatformAnalyticsProps> = ({ businesses }) => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [ratingStats, setRatingStats] = useState<Record<string, RatingStats>>({});
+  const [statistics, setStatistics] = useState<OrderStatistics | null>(null);
+  const [previousStatistics, setPreviousStatistics] = useState<OrderStatistics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<DateRange>(getRecentRange(30));
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [allOrders, stats] = await Promise.all([
+          orderService.getOrders(),
+          // A vendor whose ratings fail to load is shown as unrated rather than failing the page
+          Promise.allSettled(businesses.map(business => ratingService.getBusinessRatingStats(business.businessId))),
+        ]);
+        setOrders(Array.isArray(allOrders) ? allOrders : []);
+        const statsByBusiness: Record<string, RatingStats> = {};
+        stats.forEach((result, index) => {
+          if (result.status === 'fulfilled' && result.value) {
+            statsByBusiness[businesses[index].businessId] = result.value;
+          }
+        });
+        setRatingStats(statsByBusiness);
+      } catch (err: any) {
+        console.error('Error loading platform analytics:', err);
+        setError('Failed to load analytics: ' + err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadAnalytics();
+  }, [businesses]);
+
+  // Cart conversion and disputes are only known to the server
+  useEffect(() => {
+    if (range.from > range.to) return;
+    let cancelled = false;
+    Promise.all([orderService.getOrderStatistics(range), orderService.getOrderStatistics(getPreviousRange(range))])
+      .then(([current, previous]) => {
+        if (cancelled) return;
+        setStatistics(current);
+        setPreviousStatistics(previous);
+      })
+      .catch(err => {
+        console.error('Error fetching order statistics:', err);
+        if (cancelled) return;
+        setStatistics(null);
+        setPreviousStatistics(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const analytics = useMemo(
+    () => (range.from <= range.to ? buildPlatformAnalytics(orders, businesses, ratingStats, range) : null),
+    [orders, businesses, ratingStats, range]
+  );
+
+  const conversionRate = statistics ? getRate(statistics.cartsConverted, statistics.cartsCreated) : null;
+  const previousConversionRate = previousStatistics
+    ? getRate(previousStatistics.cartsConverted, previousStatistics.cartsCreated)
+    : null;
+  const disputeRate = statistics ? getRate(statistics.disputedOrders, statistics.totalOrders) : null;
+  const previousDisputeRate = previousStatistics
+    ? getRate(previousStatistics.disputedOrders, previousStatistics.totalOrders)
+    : null;
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2} mb={3}>
+        <Typography variant="h6">Platform Analytics</Typography>
+        <AnalyticsRangePicker range={range} onChange={setRange} initialPreset={30} />
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={4}>
+          <CircularProgress />
+        </Box>
+      ) : error ? (
+        <Alert severity="error">{error}</Alert>
+      ) : !analytics ? (
+        <Alert severity="warning">The start date must be on or before the end date.</Alert>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            Compared with {format(parseISO(analytics.previousRange.from), 'd MMM yyyy')} –{' '}
+            {format(parseISO(analytics.previousRange.to), 'd MMM yyyy')}
+          </Typography>
+
+          <Grid container spacing={2} mb={3}>
+            <Grid item xs={6} md={3}>
+              <MetricCard
+                label="GMV"
+                value={formatCurrency(analytics.summary.revenue)}
+                change={getChange(analytics.summary.revenue, analytics.previousSummary.revenue)}
+              />
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <MetricCard
+                label="Orders"
+                value={String(analytics.summary.orderCount)}
+                change={getChange(analytics.summary.orderCount, analytics.previousSummary.orderCount)}
+              />
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <MetricCard
+                label="Active Vendors"
+                value={String(analytics.activeVendors)}
+                change={getChange(analytics.activeVendors, analytics.previousActiveVendors)}
+              />
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <MetricCard
+                label="New Vendors"
+                value={String(analytics.newVendors)}
+                change={getChange(analytics.newVendors, analytics.previousNewVendors)}
+              />
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <MetricCard
+                label="Cart to Order"
+                value={conversionRate !== null ? formatPercent(conversionRate) : '-'}
+                change={
+                  conversionRate !== null && previousConversionRate !== null
+                    ? getChange(conversionRate, previousConversionRate)
+                    : null
+                }
+              />
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <MetricCard
+                label="Cancellation Rate"
+                value={formatPercent(analytics.summary.cancellationRate)}
+                change={getChange(analytics.summary.cancellationRate, analytics.previousSummary.cancellationRate)}
+                lowerIsBetter
+              />
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <MetricCard
+                label="Dispute Rate"
+                value={disputeRate !== null ? formatPercent(disputeRate) : '-'}
+                change={disputeRate !== null && previousDisputeRate !== null ? getChange(disputeRate, previousDisputeRate) : null}
+                lowerIsBetter
+              />
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <MetricCard
+                label="Average Order Value"
+                value={formatCurrency(analytics.summary.averageOrderValue)}
+                change={getChange(analytics.summary.averageOrderValue, analytics.previousSummary.averageOrderValue)}
+              />
+            </Grid>
+          </Grid>
+
+          <Grid container spacing={3}>
+            <Grid item xs={12} md={8}>
+              <Typography variant="subtitle1" gutterBottom>
+                GMV Over Time
+              </Typography>
+              <RevenueChart current={analytics.gmvSeries} previous={analytics.previousGmvSeries} label="GMV over time" />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <Typography variant="subtitle1" gutterBottom>
+                Orders by Category
+              </Typography>
+              {(Object.keys(SEGMENT_LABELS) as BusinessSegment[]).map(segment => (
+                <Box key={segment} display="flex" justifyContent="space-between" mb={1}>
+                  <Typography variant="body2">{SEGMENT_LABELS[segment]}</Typography>
+                  <Typography variant="body2">
+                    {analytics.salesBySegment[segment].orderCount} orders ·{' '}
+                    {formatCurrency(analytics.salesBySegment[segment].revenue)}
+                  </Typography>
+                </Box>
+              ))}
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <Typography variant="subtitle1" gutterBottom>
+                Top Vendors by Revenue
+              </Typography>
+              <VendorTable vendors={analytics.topVendorsByRevenue} emptyMessage="No sales in this period" />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <Typography variant="subtitle1" gutterBottom>
+                Top Vendors by Rating
+              </Typography>
+              <VendorTable vendors={analytics.topVendorsByRating} emptyMessage="No vendors have been rated yet" />
+            </Grid>
+
+            <Grid item xs={12} md={7}>
+              <Typography variant="subtitle1" gutterBottom>
+                Where Businesses Are
+              </Typography>
+              <LocationMap clusters={analytics.locations} />
+              {analytics.unlocatedBusinesses > 0 && (
+                <Typography variant="caption" color="text.secondary">
+                  {analytics.unlocatedBusinesses} businesses have no location
+                </Typography>
+              )}
+            </Grid>
+            <Grid item xs={12} md={5}>
+              <Typography variant="subtitle1" gutterBottom>
+                Busiest Areas
+              </Typography>
+              {analytics.locations.slice(0, 8).map(cluster => (
+                <Box key={`${cluster.latitude}:${cluster.longitude}`} display="flex" justifyContent="space-between" gap={1}>
+                  <Link
+                    href={`https://www.google.com/maps/search/?api=1&query=${cluster.latitude},${cluster.longitude}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    variant="body2"
+                    noWrap
+                  >
+                    {cluster.businessNames.slice(0, 2).join(', ')}
+                    {cluster.businessNames.length > 2 ? ` +${cluster.businessNames.length - 2}` : ''}
+                  </Link>
+                  <Typography variant="body2">{cluster.businessCount}</Typography>
+                </Box>
+              ))}
+            </Grid>
+          </Grid>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default PlatformAnalytics;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+  IconButton,
+  Paper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  LocalOffer as OfferIcon,
+} from '@mui/icons-material';
+import { Plate } from '../types';
+import { Promotion } from '../types/promotion';
+import promotionService from '../services/promotionService';
+import { describePromotion } from '../utils/promotionUtils';
+import { useAuth } from '../contexts/AuthContext';
+import PromotionManagementForm from './PromotionManagementForm';
+
+interface PromotionManagementProps {
+  businessId: string;
+  plates?: Plate[];
+}
+
+const PromotionManagement: React.FC<PromotionManagementProps> = ({ businessId, plates }) => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const { user } = useAuth();
+
+  const fetchPromotions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await promotionService.getPromotionsByBusinessId(businessId);
+      setPromotions(data);
+    } catch (err: any) {
+      console.error('Error fetching promotions:', err);
+      setError(err.message || 'Failed to fetch promotions');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    fetchPromotions();
+  }, [fetchPromotions]);
+
+  const handleSuccess = (savedPromotion: Promotion) => {
+    setPromotions(prev => {
+      const exists = prev.some(promotion => promotion.promotionId === savedPromotion.promotionId);
+      return exists
+        ? prev.map(promotion => (promotion.promotionId === savedPromotion.promotionId ? savedPromotion : promotion))
+        : [...prev, savedPromotion];
+    });
+  };
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    try {
+      const { promotionId, createdAt, updatedAt, ...formData } = promotion;
+      const updated = await promotionService.updatePromotion(
+        promotionId,
+        { ...formData, isActive: !promotion.isActive },
+        user?.phoneNumber
+      );
+      handleSuccess(updated);
+    } catch (err: any) {
+      console.error('Error updating promotion:', err);
+      setError(err.message || 'Failed to update promotion');
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!window.confirm(`Delete promotion ${promotion.code}?`)) {
+      return;
+    }
+    try {
+      await promotionService.deletePromotion(promotion.promotionId, user?.phoneNumber);
+      setPromotions(prev => prev.filter(p => p.promotionId !== promotion.promotionId));
+    } catch (err: any) {
+      console.error('Error deleting promotion:', err);
+      setError(err.message || 'Failed to delete promotion');
+    }
+  };
+
+  const formatValidity = (promotion: Promotion) => {
+    if (!promotion.validFrom && !promotion.validUntil) return 'Always';
+    return `${promotion.validFrom || '…'} to ${promotion.validUntil || '…'}`;
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box>
+          <Typography variant="h5">Promotions</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Coupon codes customers can apply to your items in their cart
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => {
+            setEditingPromotion(null);
+            setFormOpen(true);
+          }}
+        >
+          Add Promotion
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={4}>
+          <CircularProgress />
+        </Box>
+      ) : promotions.length === 0 ? (
+        <Paper sx={{ p: 4, textAlign: 'center' }}>
+          <OfferIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 1 }} />
+          <Typography variant="body1" color="text.secondary">
+            No promotions yet. Add one to offer discounts to your customers.
+          </Typography>
+        </Paper>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Code</TableCell>
+                <TableCell>Offer</TableCell>
+                <TableCell>Valid</TableCell>
+                <TableCell align="center">Active</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {promotions.map(promotion => (
+                <TableRow key={promotion.promotionId}>
+                  <TableCell>
+                    <Chip label={promotion.code} color="primary" size="small" />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight="bold">
+                      {promotion.title}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {describePromotion(promotion)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{formatValidity(promotion)}</TableCell>
+                  <TableCell align="center">
+                    <Switch checked={promotion.isActive} onChange={() => handleToggleActive(promotion)} size="small" />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Edit">
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          setEditingPromotion(promotion);
+                          setFormOpen(true);
+                        }}
+                      >
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" color="error" onClick={() => handleDelete(promotion)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <PromotionManagementForm
+        open={formOpen}
+        onClose={() => {
+          setFormOpen(false);
+          setEditingPromotion(null);
+        }}
+        promotion={editingPromotion}
+        businessId={businessId}
+        plates={plates}
+        onSuccess={handleSuccess}
+      />
+    </Box>
+  );
+};
+
+export default PromotionManagement;
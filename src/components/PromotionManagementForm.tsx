@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  CircularProgress,
+  Box,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Typography,
+} from '@mui/material';
+import { Plate } from '../types';
+import { Promotion, PromotionFormData, PromotionType } from '../types/promotion';
+import promotionService from '../services/promotionService';
+import { describePromotion } from '../utils/promotionUtils';
+import { useAuth } from '../contexts/AuthContext';
+
+interface PromotionManagementFormProps {
+  open: boolean;
+  onClose: () => void;
+  promotion: Promotion | null;
+  businessId: string;
+  plates?: Plate[]; // Offered for buy-X-get-Y promotions of caterers
+  onSuccess: (promotion: Promotion) => void;
+}
+
+const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  PERCENTAGE: 'Percentage off',
+  FLAT_ABOVE_MIN: 'Flat amount off above a minimum',
+  BUY_X_GET_Y: 'Buy X get Y free (plates)',
+  FIRST_ORDER: 'First order discount',
+};
+
+const emptyForm = (businessId: string): PromotionFormData => ({
+  code: '',
+  title: '',
+  description: '',
+  scope: 'VENDOR',
+  businessId,
+  type: 'PERCENTAGE',
+  isActive: true,
+});
+
+const PromotionManagementForm: React.FC<PromotionManagementFormProps> = ({
+  open,
+  onClose,
+  promotion,
+  businessId,
+  plates = [],
+  onSuccess,
+}) => {
+  const [formData, setFormData] = useState<PromotionFormData>(emptyForm(businessId));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (open) {
+      if (promotion) {
+        const { promotionId, createdAt, updatedAt, ...rest } = promotion;
+        setFormData(rest);
+      } else {
+        setFormData(emptyForm(businessId));
+      }
+      setError(null);
+    }
+  }, [promotion, businessId, open]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'code' ? value.toUpperCase().replace(/\s/g, '') : value,
+    }));
+  };
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value === '' ? undefined : parseFloat(value),
+    }));
+  };
+
+  // Check the fields each promotion type needs
+  const validate = (): string | null => {
+    if (!formData.code || !formData.title) {
+      return 'Please enter a coupon code and a title';
+    }
+    switch (formData.type) {
+      case 'PERCENTAGE':
+        if (!formData.percentOff || formData.percentOff <= 0 || formData.percentOff > 100) {
+          return 'Percentage must be between 1 and 100';
+        }
+        break;
+      case 'FLAT_ABOVE_MIN':
+        if (!formData.flatAmount || formData.flatAmount <= 0) {
+          return 'Please enter the discount amount';
+        }
+        if (!formData.minOrderAmount || formData.minOrderAmount <= formData.flatAmount) {
+          return 'Minimum order amount must be greater than the discount';
+        }
+        break;
+      case 'BUY_X_GET_Y':
+        if (!formData.buyQuantity || formData.buyQuantity < 1 || !formData.getQuantity || formData.getQuantity < 1) {
+          return 'Please enter how many plates to buy and how many are free';
+        }
+        break;
+      case 'FIRST_ORDER':
+        if (!formData.percentOff && !formData.flatAmount) {
+          return 'Please enter a percentage or a flat amount';
+        }
+        break;
+    }
+    if (formData.validFrom && formData.validUntil && formData.validUntil < formData.validFrom) {
+      return 'End date must be on or after the start date';
+    }
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const savedPromotion = promotion
+        ? await promotionService.updatePromotion(promotion.promotionId, formData, user?.phoneNumber)
+        : await promotionService.createPromotion(formData, user?.phoneNumber);
+
+      onSuccess(savedPromotion);
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving promotion:', err);
+      setError(err.message || 'Failed to save promotion');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showPercent = formData.type === 'PERCENTAGE' || formData.type === 'FIRST_ORDER';
+  const showFlat = formData.type === 'FLAT_ABOVE_MIN' || formData.type === 'FIRST_ORDER';
+  const showMinimum = formData.type !== 'BUY_X_GET_Y';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{promotion ? 'Edit Promotion' : 'Add Promotion'}</DialogTitle>
+      <DialogContent>
+        <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1 }}>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Grid container spacing={2}>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Coupon Code"
+                name="code"
+                value={formData.code}
+                onChange={handleInputChange}
+                required
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth>
+                <InputLabel>Promotion Type</InputLabel>
+                <Select
+                  value={formData.type}
+                  label="Promotion Type"
+                  onChange={(e) => setFormData(prev => ({ ...prev, type: e.target.value as PromotionType }))}
+                >
+                  {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(type => (
+                    <MenuItem key={type} value={type}>
+                      {PROMOTION_TYPE_LABELS[type]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label="Title"
+                name="title"
+                value={formData.title}
+                onChange={handleInputChange}
+                required
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label="Description"
+                name="description"
+                value={formData.description || ''}
+                onChange={handleInputChange}
+                multiline
+                rows={2}
+              />
+            </Grid>
+
+            {showPercent && (
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Percent Off"
+                  name="percentOff"
+                  type="number"
+                  value={formData.percentOff ?? ''}
+                  onChange={handleNumberChange}
+                  inputProps={{ min: 1, max: 100 }}
+                />
+              </Grid>
+            )}
+            {showPercent && (
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Maximum Discount (₹)"
+                  name="maxDiscount"
+                  type="number"
+                  value={formData.maxDiscount ?? ''}
+                  onChange={handleNumberChange}
+                  inputProps={{ min: 0 }}
+                />
+              </Grid>
+            )}
+            {showFlat && (
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Flat Amount Off (₹)"
+                  name="flatAmount"
+                  type="number"
+                  value={formData.flatAmount ?? ''}
+                  onChange={handleNumberChange}
+                  inputProps={{ min: 0 }}
+                />
+              </Grid>
+            )}
+            {showMinimum && (
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Minimum Order Amount (₹)"
+                  name="minOrderAmount"
+                  type="number"
+                  value={formData.minOrderAmount ?? ''}
+                  onChange={handleNumberChange}
+                  inputProps={{ min: 0 }}
+                />
+              </Grid>
+            )}
+            {formData.type === 'BUY_X_GET_Y' && (
+              <>
+                <Grid item xs={6} sm={3}>
+                  <TextField
+                    fullWidth
+                    label="Buy"
+                    name="buyQuantity"
+                    type="number"
+                    value={formData.buyQuantity ?? ''}
+                    onChange={handleNumberChange}
+                    inputProps={{ min: 1 }}
+                  />
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <TextField
+                    fullWidth
+                    label="Get Free"
+                    name="getQuantity"
+                    type="number"
+                    value={formData.getQuantity ?? ''}
+                    onChange={handleNumberChange}
+                    inputProps={{ min: 1 }}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormControl fullWidth>
+                    <InputLabel>Plate</InputLabel>
+                    <Select
+                      value={formData.plateId || ''}
+                      label="Plate"
+                      onChange={(e) => setFormData(prev => ({ ...prev, plateId: e.target.value || undefined }))}
+                    >
+                      <MenuItem value="">All plates</MenuItem>
+                      {plates.map(plate => (
+                        <MenuItem key={plate.plateId} value={plate.plateId}>
+                          {plate.dishName}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+              </>
+            )}
+
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Valid From"
+                name="validFrom"
+                type="date"
+                value={formData.validFrom || ''}
+                onChange={handleInputChange}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Valid Until"
+                name="validUntil"
+                type="date"
+                value={formData.validUntil || ''}
+                onChange={handleInputChange}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                    color="primary"
+                  />
+                }
+                label="Active"
+              />
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                Customers will see: {describePromotion({ ...formData, promotionId: promotion?.promotionId || '' })}
+              </Typography>
+            </Grid>
+          </Grid>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={loading}
+          startIcon={loading ? <CircularProgress size={20} /> : null}
+        >
+          {loading ? 'Saving...' : (promotion ? 'Update Promotion' : 'Add Promotion')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PromotionManagementForm;
@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  Grid,
+  IconButton,
+  Typography,
+  InputAdornment,
+} from '@mui/material';
+import { PhotoCamera as PhotoIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { Order, OrderItemResponse } from '../types/cart';
+import { RentalReturn } from '../types/rentalReturn';
+import rentalReturnService from '../services/rentalReturnService';
+import { useAuth } from '../contexts/AuthContext';
+import { getOrderActor } from '../utils/orderStatusUtils';
+import { summarizeRentalReturns } from '../utils/rentalReturnUtils';
+
+interface RentalReturnDialogProps {
+  open: boolean;
+  onClose: () => void;
+  order: Order | null;
+  item: OrderItemResponse | null;
+  returns: RentalReturn[];
+  onRecorded?: () => void;
+}
+
+const RentalReturnDialog: React.FC<RentalReturnDialogProps> = ({ open, onClose, order, item, returns, onRecorded }) => {
+  const { user } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [expectedReturnDate, setExpectedReturnDate] = useState('');
+  const [returnedDate, setReturnedDate] = useState(today);
+  const [quantityReturned, setQuantityReturned] = useState(0);
+  const [quantityDamaged, setQuantityDamaged] = useState(0);
+  const [quantityMissing, setQuantityMissing] = useState(0);
+  const [damageCharge, setDamageCharge] = useState(0);
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [savingDate, setSavingDate] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const summary = order && item ? summarizeRentalReturns(item, order, returns, today) : null;
+
+  useEffect(() => {
+    if (open && summary) {
+      setExpectedReturnDate(summary.expectedReturnDate);
+      setReturnedDate(today);
+      setQuantityReturned(summary.outstanding);
+      setQuantityDamaged(0);
+      setQuantityMissing(0);
+      setDamageCharge(0);
+      setPhotoUrls([]);
+      setNotes('');
+      setError(null);
+    }
+  }, [open, item?.orderItemId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!order || !item || !summary) {
+    return null;
+  }
+
+  const handlePhotoSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).filter(file => file.type.startsWith('image/'));
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const urls = await Promise.all(files.map(file => rentalReturnService.uploadDamagePhoto(file, item.orderItemId)));
+      setPhotoUrls(prev => [...prev, ...urls]);
+    } catch (err: any) {
+      console.error('Error uploading damage photos:', err);
+      setError(err.message || 'Failed to upload photos');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSaveExpectedDate = async () => {
+    setSavingDate(true);
+    setError(null);
+    try {
+      await rentalReturnService.setExpectedReturnDate(order, item.orderItemId, expectedReturnDate, user?.phoneNumber);
+      onRecorded?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving expected return date:', err);
+      setError(err.message || 'Failed to save the return date');
+    } finally {
+      setSavingDate(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await rentalReturnService.recordReturn(
+        order,
+        item,
+        { returnedDate, quantityReturned, quantityDamaged, quantityMissing, damageCharge, photoUrls, notes },
+        getOrderActor(user),
+        returns
+      );
+      onRecorded?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error recording return:', err);
+      setError(err.message || 'Failed to record the return');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const parseCount = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Record Return: {item.itemName}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Rented {summary.rented} · Returned {summary.returned} · Damaged {summary.damaged} · Missing {summary.missing} ·
+          Still out {summary.outstanding}
+        </Typography>
+
+        <Box display="flex" alignItems="center" gap={1} mt={2}>
+          <TextField
+            label="Expected Return Date"
+            type="date"
+            size="small"
+            value={expectedReturnDate}
+            onChange={(e) => setExpectedReturnDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button
+            size="small"
+            onClick={handleSaveExpectedDate}
+            disabled={savingDate || !expectedReturnDate || expectedReturnDate === summary.expectedReturnDate}
+          >
+            {savingDate ? 'Saving...' : 'Save Date'}
+          </Button>
+        </Box>
+
+        {summary.outstanding > 0 && (
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label="Returned On"
+                type="date"
+                value={returnedDate}
+                onChange={(e) => setReturnedDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ max: today }}
+              />
+            </Grid>
+            <Grid item xs={4}>
+              <TextField
+                fullWidth
+                label="Returned OK"
+                type="number"
+                value={quantityReturned}
+                onChange={(e) => setQuantityReturned(parseCount(e.target.value))}
+                inputProps={{ min: 0, max: summary.outstanding }}
+              />
+            </Grid>
+            <Grid item xs={4}>
+              <TextField
+                fullWidth
+                label="Damaged"
+                type="number"
+                value={quantityDamaged}
+                onChange={(e) => setQuantityDamaged(parseCount(e.target.value))}
+                inputProps={{ min: 0, max: summary.outstanding }}
+              />
+            </Grid>
+            <Grid item xs={4}>
+              <TextField
+                fullWidth
+                label="Missing"
+                type="number"
+                value={quantityMissing}
+                onChange={(e) => setQuantityMissing(parseCount(e.target.value))}
+                inputProps={{ min: 0, max: summary.outstanding }}
+              />
+            </Grid>
+            {(quantityDamaged > 0 || quantityMissing > 0) && (
+              <>
+                <Grid item xs={12}>
+                  <TextField
+                    fullWidth
+                    label="Damage Charge"
+                    type="number"
+                    value={damageCharge}
+                    onChange={(e) => setDamageCharge(Math.max(0, parseFloat(e.target.value) || 0))}
+                    InputProps={{ startAdornment: <InputAdornment position="start">₹</InputAdornment> }}
+                    helperText="Added to the customer's order total"
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    hidden
+                    onChange={handlePhotoSelect}
+                  />
+                  <Button
+                    variant="outlined"
+                    startIcon={uploading ? <CircularProgress size={16} /> : <PhotoIcon />}
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploading}
+                  >
+                    {uploading ? 'Uploading...' : 'Add Photos'}
+                  </Button>
+                  <Box display="flex" gap={1} flexWrap="wrap" mt={1}>
+                    {photoUrls.map(url => (
+                      <Box key={url} position="relative">
+                        <img src={url} alt="Damage" style={{ width: 80, height: 80, objectFit: 'cover', borderRadius: 4 }} />
+                        <IconButton
+                          size="small"
+                          onClick={() => setPhotoUrls(prev => prev.filter(existing => existing !== url))}
+                          sx={{ position: 'absolute', top: 0, right: 0, bgcolor: 'background.paper' }}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Box>
+                    ))}
+                  </Box>
+                </Grid>
+              </>
+            )}
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label="Notes (Optional)"
+                multiline
+                rows={2}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </Grid>
+          </Grid>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          Close
+        </Button>
+        {summary.outstanding > 0 && (
+          <Button
+            variant="contained"
+            onClick={handleSubmit}
+            disabled={submitting || uploading}
+            startIcon={submitting ? <CircularProgress size={20} /> : null}
+          >
+            {submitting ? 'Recording...' : 'Record Return'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RentalReturnDialog;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { RevenuePoint } from '../types/analytics';
+import { formatIndianNumber } from '../utils/orderExportUtils';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+
+interface RevenueChartProps {
+  current: RevenuePoint[];
+  previous: RevenuePoint[];
+  label?: string;
+}
+
+// Line chart of revenue per bucket, with the previous period dashed behind it
+const RevenueChart: React.FC<RevenueChartProps> = ({ current, previous, label = 'Revenue over time' }) => {
+  const max = Math.max(1, ...current.map(point => point.revenue), ...previous.map(point => point.revenue));
+  const toPoints = (series: RevenuePoint[]) =>
+    series
+      .map((point, index) => {
+        const x = series.length > 1 ? (index / (series.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2;
+        const y = CHART_HEIGHT - (point.revenue / max) * CHART_HEIGHT;
+        return `${x},${y}`;
+      })
+      .join(' ');
+
+  return (
+    <Box>
+      <svg
+        viewBox={`-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}`}
+        width="100%"
+        height={CHART_HEIGHT}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={label}
+      >
+        <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} stroke="#ddd" />
+        <polyline points={toPoints(previous)} fill="none" stroke="#bbb" strokeWidth={2} strokeDasharray="6 4" />
+        <polyline points={toPoints(current)} fill="none" stroke="#1976d2" strokeWidth={2} />
+      </svg>
+      <Box display="flex" justifyContent="space-between">
+        <Typography variant="caption" color="text.secondary">
+          {current[0]?.label}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Peak ₹{formatIndianNumber(max, 0)}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {current[current.length - 1]?.label}
+        </Typography>
+      </Box>
+      <Box display="flex" gap={2} mt={1}>
+        <Typography variant="caption" sx={{ color: '#1976d2' }}>
+          ━ This period
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          ┅ Previous period
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
+
+export default RevenueChart;
@@ -84,7 +84,7 @@ const Signup: React.FC = () => {
           : '/explore'
       );
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Signup failed. Please try again.');
+      setError(err.message || 'Signup failed. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  CircularProgress,
+  Box,
+  Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material';
+import { Business } from '../types';
+import { GstCategory, TaxSettings } from '../types/invoice';
+import invoiceService from '../services/invoiceService';
+import VendorService from '../services/vendorService';
+import { NotFoundError } from '../services/apiErrors';
+import {
+  DEFAULT_GST_CATEGORY_RATES,
+  GST_CATEGORY_LABELS,
+  GST_STATE_CODES,
+  getStateCodeFromGstin,
+  isValidGstin,
+} from '../utils/gstUtils';
+import { useAuth } from '../contexts/AuthContext';
+
+interface TaxSettingsFormProps {
+  open: boolean;
+  onClose: () => void;
+  business: Business;
+  onSuccess?: (settings: TaxSettings) => void;
+}
+
+const defaultSettings = (businessId: string): TaxSettings => ({
+  businessId,
+  gstin: '',
+  registrationNumber: '',
+  legalName: '',
+  stateCode: '',
+  invoicePrefix: 'INV',
+  categoryRates: { ...DEFAULT_GST_CATEGORY_RATES },
+});
+
+const TaxSettingsForm: React.FC<TaxSettingsFormProps> = ({ open, onClose, business, onSuccess }) => {
+  const [settings, setSettings] = useState<TaxSettings>(defaultSettings(business.businessId));
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadSettings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const saved = await invoiceService.getTaxSettings(business.businessId);
+        if (saved) {
+          setSettings({
+            ...saved,
+            categoryRates: { ...DEFAULT_GST_CATEGORY_RATES, ...saved.categoryRates },
+          });
+          return;
+        }
+
+        // First time: start from the GSTIN and registration number on the vendor profile
+        let vendor = null;
+        try {
+          vendor = user?.phoneNumber ? await VendorService.getVendorByPhoneNumber(user.phoneNumber) : null;
+        } catch (err) {
+          if (!(err instanceof NotFoundError)) throw err;
+        }
+        setSettings({
+          ...defaultSettings(business.businessId),
+          gstin: vendor?.taxId || '',
+          registrationNumber: vendor?.registrationNumber || '',
+        });
+      } catch (err: any) {
+        console.error('Error loading tax settings:', err);
+        setError(err.message || 'Failed to load tax settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [open, business.businessId, user?.phoneNumber]);
+
+  const handleRateChange = (category: GstCategory, field: 'rate' | 'hsnSac', value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      categoryRates: {
+        ...prev.categoryRates,
+        [category]: {
+          ...prev.categoryRates[category],
+          [field]: field === 'rate' ? parseFloat(value) || 0 : value,
+        },
+      },
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const gstin = (settings.gstin || '').trim().toUpperCase();
+    if (!gstin || !isValidGstin(gstin)) {
+      setError('Please enter a valid 15 character GSTIN');
+      return;
+    }
+    if (!settings.invoicePrefix.trim()) {
+      setError('Please enter an invoice number prefix');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      // GSTIN and registration number live on the vendor profile
+      if (user?.phoneNumber) {
+        await VendorService.updateVendor(user.phoneNumber, {
+          taxId: gstin,
+          registrationNumber: settings.registrationNumber || undefined,
+        });
+      }
+
+      const saved = await invoiceService.saveTaxSettings(
+        {
+          ...settings,
+          gstin,
+          stateCode: settings.stateCode || getStateCodeFromGstin(gstin),
+          invoicePrefix: settings.invoicePrefix.trim().toUpperCase(),
+        },
+        user?.phoneNumber
+      );
+      onSuccess?.(saved);
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving tax settings:', err);
+      setError(err.message || 'Failed to save tax settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Tax & Invoice Settings</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2, mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ mt: 1 }}>
+            <Grid container spacing={2}>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="GSTIN"
+                  value={settings.gstin || ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, gstin: e.target.value.toUpperCase() }))}
+                  inputProps={{ maxLength: 15 }}
+                  required
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Registration Number"
+                  value={settings.registrationNumber || ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, registrationNumber: e.target.value }))}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Legal Name"
+                  value={settings.legalName || ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, legalName: e.target.value }))}
+                  helperText={`Leave empty to use "${business.businessName}"`}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <FormControl fullWidth>
+                  <InputLabel>State</InputLabel>
+                  <Select
+                    value={settings.stateCode || ''}
+                    label="State"
+                    onChange={(e) => setSettings(prev => ({ ...prev, stateCode: e.target.value }))}
+                  >
+                    <MenuItem value="">From GSTIN</MenuItem>
+                    {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                      <MenuItem key={code} value={code}>
+                        {code} - {name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Invoice Number Prefix"
+                  value={settings.invoicePrefix}
+                  onChange={(e) => setSettings(prev => ({ ...prev, invoicePrefix: e.target.value }))}
+                  helperText="Invoices are numbered in sequence, e.g. INV/2026-27/0001"
+                  required
+                />
+              </Grid>
+            </Grid>
+
+            <Divider sx={{ my: 3 }} />
+            <Typography variant="h6" gutterBottom>
+              GST Rates
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Your prices are treated as GST inclusive; the tax is shown separately on invoices.
+            </Typography>
+            <Grid container spacing={2}>
+              {(Object.keys(GST_CATEGORY_LABELS) as GstCategory[]).map(category => (
+                <React.Fragment key={category}>
+                  <Grid item xs={12} sm={4}>
+                    <Typography variant="body1" sx={{ mt: 2 }}>
+                      {GST_CATEGORY_LABELS[category]}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={6} sm={4}>
+                    <TextField
+                      fullWidth
+                      label="GST Rate (%)"
+                      type="number"
+                      value={settings.categoryRates[category].rate}
+                      onChange={(e) => handleRateChange(category, 'rate', e.target.value)}
+                      inputProps={{ min: 0, max: 28, step: 0.5 }}
+                    />
+                  </Grid>
+                  <Grid item xs={6} sm={4}>
+                    <TextField
+                      fullWidth
+                      label="HSN/SAC"
+                      value={settings.categoryRates[category].hsnSac}
+                      onChange={(e) => handleRateChange(category, 'hsnSac', e.target.value)}
+                    />
+                  </Grid>
+                </React.Fragment>
+              ))}
+            </Grid>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={saving || loading}
+          startIcon={saving ? <CircularProgress size={20} /> : null}
+        >
+          {saving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TaxSettingsForm;
@@ -97,7 +97,7 @@ const ThemeManagement: React.FC<ThemeManagementProps> = ({
         setActiveTab(0);
       }
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to delete theme');
+      setError(err.message || 'Failed to delete theme');
       console.error('Error deleting theme:', err);
     } finally {
       setLoading(false);
@@ -233,7 +233,7 @@ const ThemeManagementForm: React.FC<ThemeManagementFormProps> = ({
       onSuccess(updatedTheme);
       onClose();
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to save theme');
+      setError(err.message || 'Failed to save theme');
       console.error('Error saving theme:', err);
     } finally {
       setLoading(false);
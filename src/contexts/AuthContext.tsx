@@ -1,6 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { AuthContextType, AuthUser, SignupRequest } from '../types';
 import AuthService from '../services/authService';
+import { onTokenRefreshed, setUnauthorizedHandler, TOKEN_REFRESH_MARGIN_MS } from '../services/apiClient';
+import { subscribeToSessionChanges, syncSessionSnapshot } from '../services/sessionChannel';
+import { getTokenExpiry } from '../utils/jwtUtils';
+
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_DELAY_MS = 2147483647;
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -21,17 +27,25 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       if (storedUser && storedToken) {
         // Validate token before restoring session
-        const isTokenValid = AuthService.validateStoredToken();
+        const isTokenValid = AuthService.isTokenValid(storedToken);
         
         if (isTokenValid) {
           // Token is valid, restore user session
           setUser(storedUser);
           setToken(storedToken);
         } else {
-          // Token is expired or invalid, clear storage
-          AuthService.logout();
-          setUser(null);
-          setToken(null);
+          // Token is expired, try to refresh it before giving up on the session
+          try {
+            const refreshedToken = await AuthService.refreshToken();
+            setUser(storedUser);
+            setToken(refreshedToken);
+          } catch (error) {
+            console.error('Stored session could not be refreshed:', error);
+            AuthService.logout();
+            syncSessionSnapshot();
+            setUser(null);
+            setToken(null);
+          }
         }
       }
       setLoading(false);
@@ -40,9 +54,76 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
+  // Keep the session in sync with the API client: pick up refreshed tokens
+  // and end the session only when a refresh has failed
+  useEffect(() => {
+    const unsubscribe = onTokenRefreshed((newToken) => {
+      syncSessionSnapshot();
+      setToken(newToken);
+    });
+    const restoreHandler = setUnauthorizedHandler(() => {
+      AuthService.logout();
+      syncSessionSnapshot();
+      setUser(null);
+      setToken(null);
+    });
+    return () => {
+      unsubscribe();
+      restoreHandler();
+    };
+  }, []);
+
+  // Follow logins, logouts, refreshes and user switches made in other tabs
+  useEffect(() => {
+    return subscribeToSessionChanges((event) => {
+      switch (event.type) {
+        case 'logout':
+          setUser(null);
+          setToken(null);
+          break;
+        case 'login':
+        case 'user-switched':
+          setUser(event.user);
+          setToken(event.token);
+          break;
+        case 'token-refreshed':
+          setToken(event.token);
+          break;
+      }
+    });
+  }, []);
+
+  // Refresh the token shortly before it expires so long-running pages keep working
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    const expiry = getTokenExpiry(token);
+    if (expiry === null) {
+      return;
+    }
+
+    const delay = Math.max(expiry - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+    if (delay > MAX_TIMER_DELAY_MS) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      AuthService.refreshToken().catch((error) => {
+        console.error('Scheduled token refresh failed:', error);
+        AuthService.logout();
+        syncSessionSnapshot();
+        setUser(null);
+        setToken(null);
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [token]);
+
   const login = async (phoneNumber: string, password: string): Promise<AuthUser> => {
     try {
       const response = await AuthService.login({ phoneNumber, password });
+      syncSessionSnapshot();
       const userData: AuthUser = {
         userId: response.userId,
         phoneNumber: response.phoneNumber,
@@ -75,6 +156,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = (): void => {
     AuthService.logout();
+    syncSessionSnapshot();
     setUser(null);
     setToken(null);
   };
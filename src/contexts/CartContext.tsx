@@ -1,6 +1,29 @@
-import React, { createContext, useContext, useReducer, ReactNode, useMemo } from 'react';
+import React, { createContext, useContext, useReducer, ReactNode, useMemo, useEffect, useRef } from 'react';
 import { CartItem, Cart, Order, OrderFormData } from '../types/cart';
 import { Theme, Inventory, Plate, Dish, Business } from '../types';
+import { useAuth } from './AuthContext';
+import { useUserChange } from '../hooks/useUserChange';
+import cartService from '../services/cartService';
+import availabilityService from '../services/availabilityService';
+import orderService from '../services/orderService';
+import promotionService from '../services/promotionService';
+import { CartPricing, Promotion } from '../types/promotion';
+import { AvailabilityHold, CartHold } from '../types/availability';
+import { calculateCartPricing, getPromotionIneligibilityReason } from '../utils/promotionUtils';
+import { format } from 'date-fns';
+import {
+  GUEST_CART_OWNER,
+  clearStoredCart,
+  getCartItemKey,
+  loadStoredCart,
+  mergeCartItems,
+  pickLatestCart,
+  saveStoredCart,
+} from '../utils/cartUtils';
+import { getCartHolderId, resetCartHolderId } from '../utils/holdUtils';
+
+// Wait for the cart to settle before pushing it to the server
+const SERVER_SYNC_DELAY_MS = 1500;
 
 interface CartContextType {
   cart: Cart;
@@ -13,6 +36,7 @@ interface CartContextType {
   removeFromCart: (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish') => void;
   updateQuantity: (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish', quantity: number) => void;
   updateBookingDate: (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish', bookingDate: string | undefined) => void;
+  acceptPriceChange: (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish') => void;
   clearCart: () => void;
   getCartItemCount: () => number;
   getCartTotal: () => number;
@@ -20,6 +44,16 @@ interface CartContextType {
   openCart: () => void;
   closeCart: () => void;
   isCartOpen: boolean;
+  isRestoringCart: boolean;
+  appliedPromotions: Promotion[];
+  // Throws with a customer-facing message if the coupon cannot be used
+  applyCoupon: (code: string) => Promise<void>;
+  removeCoupon: (promotionId: string) => void;
+  pricing: CartPricing;
+  // Checkout holds of dated lines, by cart item key
+  holds: Record<string, CartHold>;
+  // Hold a line again after its hold expired or could not be placed
+  renewHold: (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish') => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -33,6 +67,8 @@ type CartAction =
   | { type: 'REMOVE_FROM_CART'; payload: { id: string; type: 'theme' | 'inventory' | 'plate' | 'dish' } }
   | { type: 'UPDATE_QUANTITY'; payload: { id: string; type: 'theme' | 'inventory' | 'plate' | 'dish'; quantity: number } }
   | { type: 'UPDATE_BOOKING_DATE'; payload: { id: string; type: 'theme' | 'inventory' | 'plate' | 'dish'; bookingDate: string | undefined } }
+  | { type: 'ACCEPT_PRICE_CHANGE'; payload: { id: string; type: 'theme' | 'inventory' | 'plate' | 'dish' } }
+  | { type: 'RESTORE_CART'; payload: CartItem[] }
   | { type: 'CLEAR_CART' };
 
 const cartReducer = (state: CartState, action: CartAction): CartState => {
@@ -94,12 +130,38 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
       return {
         items: state.items.map(item =>
           item.id === action.payload.id && item.type === action.payload.type
-            ? { ...item, bookingDate: action.payload.bookingDate }
+            ? {
+                ...item,
+                bookingDate: action.payload.bookingDate,
+                // A newly picked date has been checked by the date picker
+                flags: item.flags ? { ...item.flags, dateUnavailable: undefined } : undefined,
+              }
             : item
         )
       };
     }
 
+    case 'ACCEPT_PRICE_CHANGE': {
+      return {
+        items: state.items.map(item => {
+          if (item.id !== action.payload.id || item.type !== action.payload.type || !item.flags?.priceChanged) {
+            return item;
+          }
+          const { currentPrice, currentSelectedDishes } = item.flags.priceChanged;
+          return {
+            ...item,
+            price: currentPrice,
+            selectedDishes: currentSelectedDishes || item.selectedDishes,
+            flags: { ...item.flags, priceChanged: undefined },
+          };
+        })
+      };
+    }
+
+    case 'RESTORE_CART': {
+      return { items: action.payload };
+    }
+
     case 'CLEAR_CART': {
       console.log('🛒 CLEAR_CART action received - clearing cart');
       const newState = { items: [] };
@@ -119,7 +181,233 @@ interface CartProviderProps {
 export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(cartReducer, { items: [] });
   const [isCartOpen, setIsCartOpen] = React.useState(false);
+
+  const [isRestoringCart, setIsRestoringCart] = React.useState(false);
+  const { user, loading: authLoading } = useAuth();
+  const cartOwner = user?.phoneNumber || GUEST_CART_OWNER;
+  // Owner whose saved cart is currently loaded; nothing is persisted until it is set
+  const hydratedOwnerRef = useRef<string | null>(null);
+
+  // Coupons applied to the current cart
+  const [appliedPromotions, setAppliedPromotions] = React.useState<Promotion[]>([]);
+  const [isFirstOrder, setIsFirstOrder] = React.useState(false);
+
+  const [holds, setHolds] = React.useState<Record<string, CartHold>>({});
+  // Latest holds, for requests that finish after the cart has moved on
+  const holdsRef = useRef(holds);
+  holdsRef.current = holds;
+
+  // A cart belongs to the user who filled it - drop it on logout or account switch
+  useUserChange(() => {
+    // Give back everything this cart was holding; the next user starts with a new holder
+    availabilityService.releaseHolderHolds(getCartHolderId()).catch(error => {
+      console.error('🛒 Error releasing checkout holds:', error);
+    });
+    resetCartHolderId();
+    setHolds({});
+    dispatch({ type: 'CLEAR_CART' });
+    setAppliedPromotions([]);
+    setIsFirstOrder(false);
+    setIsCartOpen(false);
+  });
+
+  // Restore the saved cart for the current user (or guest), merging in any guest cart on login
+  useEffect(() => {
+    if (authLoading) {
+      return;
+    }
+
+    let cancelled = false;
+    hydratedOwnerRef.current = null;
+
+    const restoreCart = async () => {
+      setIsRestoringCart(true);
+      try {
+        let items: CartItem[];
+        if (cartOwner === GUEST_CART_OWNER) {
+          items = loadStoredCart(GUEST_CART_OWNER)?.items || [];
+        } else {
+          let serverCart = null;
+          try {
+            serverCart = await cartService.getSavedCart(cartOwner);
+          } catch (error) {
+            console.error('🛒 Could not load saved cart from server, using local copy:', error);
+          }
+          const savedCart = pickLatestCart(loadStoredCart(cartOwner), serverCart);
+          const guestCart = loadStoredCart(GUEST_CART_OWNER);
+          items = mergeCartItems(savedCart?.items || [], guestCart?.items || []);
+          if (guestCart) {
+            clearStoredCart(GUEST_CART_OWNER);
+          }
+        }
+
+        // Prices and availability may have changed since the cart was saved
+        const revalidated = items.length > 0 ? await cartService.revalidateItems(items) : items;
+        if (cancelled) return;
+
+        hydratedOwnerRef.current = cartOwner;
+        dispatch({ type: 'RESTORE_CART', payload: revalidated });
+      } catch (error) {
+        console.error('🛒 Error restoring cart:', error);
+        if (!cancelled) {
+          hydratedOwnerRef.current = cartOwner;
+        }
+      } finally {
+        if (!cancelled) {
+          setIsRestoringCart(false);
+        }
+      }
+    };
+
+    restoreCart();
+    return () => {
+      cancelled = true;
+    };
+  }, [cartOwner, authLoading]);
+
+  // Persist every change locally and, for logged-in users, on the server
+  useEffect(() => {
+    const owner = hydratedOwnerRef.current;
+    if (!owner) {
+      return;
+    }
+
+    const savedCart = saveStoredCart(owner, state.items);
+    if (owner === GUEST_CART_OWNER) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      cartService.saveCart(owner, savedCart).catch(error => {
+        console.error('🛒 Error syncing cart to server:', error);
+      });
+    }, SERVER_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state.items]);
   
+  const releaseHold = (hold: AvailabilityHold) => {
+    availabilityService.releaseHold(hold.holdId).catch(error => {
+      console.error('🛒 Error releasing checkout hold:', error);
+    });
+  };
+
+  // Hold a dated line's units so another client cannot book them while this one checks out.
+  // The server replaces the cart's hold on the same item and date, so re-placing for a new quantity
+  // or renewing needs no release; releasing it here could remove the replacement. Only a hold on
+  // another date is given back.
+  const placeHold = (item: CartItem) => {
+    const key = getCartItemKey(item);
+    const date = item.bookingDate!;
+    const quantity = item.quantity;
+    const previous = holdsRef.current[key]?.hold;
+    if (previous && previous.holdDate !== date) {
+      releaseHold(previous);
+    }
+    const isStale = () => {
+      const current = holdsRef.current[key];
+      return !current || current.date !== date || current.quantity !== quantity;
+    };
+
+    setHolds(prev => ({ ...prev, [key]: { status: 'placing', date, quantity } }));
+    availabilityService
+      .placeHold({
+        holderId: getCartHolderId(),
+        itemId: item.id,
+        itemType: item.type as AvailabilityHold['itemType'],
+        businessId: item.businessId,
+        holdDate: date,
+        quantity,
+      })
+      .then(hold => {
+        if (isStale()) {
+          // A newer hold for the same date replaces this one; otherwise nothing wants it any more
+          if (holdsRef.current[key]?.date !== date) {
+            releaseHold(hold);
+          }
+          return;
+        }
+        setHolds(prev => ({ ...prev, [key]: { status: 'held', date, quantity, hold } }));
+      })
+      .catch(error => {
+        console.error('🛒 Error placing checkout hold:', error);
+        if (isStale()) return;
+        setHolds(prev => ({
+          ...prev,
+          [key]: { status: 'failed', date, quantity, message: error.message || 'Could not hold this item' },
+        }));
+      });
+  };
+
+  // Keep one hold per dated line: place new ones, re-place on date or quantity changes, release removed ones
+  useEffect(() => {
+    if (!hydratedOwnerRef.current) {
+      return;
+    }
+
+    const datedItems = new Map(
+      state.items
+        .filter(item => item.bookingDate && item.type !== 'dish')
+        .map(item => [getCartItemKey(item), item])
+    );
+    const current = holdsRef.current;
+
+    const released = Object.keys(current).filter(key => !datedItems.has(key));
+    released.forEach(key => {
+      const hold = current[key].hold;
+      if (hold) {
+        releaseHold(hold);
+      }
+    });
+    if (released.length > 0) {
+      setHolds(prev => {
+        const next = { ...prev };
+        released.forEach(key => delete next[key]);
+        return next;
+      });
+    }
+
+    datedItems.forEach((item, key) => {
+      const cartHold = current[key];
+      if (!cartHold || cartHold.date !== item.bookingDate || cartHold.quantity !== item.quantity) {
+        placeHold(item);
+      }
+    });
+  }, [state.items]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Mark holds expired when their time runs out; the server has already given the units back
+  useEffect(() => {
+    const expiries = Object.values(holds)
+      .filter(cartHold => cartHold.status === 'held' && cartHold.hold)
+      .map(cartHold => new Date(cartHold.hold!.expiresAt).getTime());
+    if (expiries.length === 0) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      // Allow for timers firing a little early
+      const now = Date.now() + 100;
+      setHolds(prev => {
+        const expired = Object.keys(prev).filter(
+          key => prev[key].status === 'held' && new Date(prev[key].hold!.expiresAt).getTime() <= now
+        );
+        if (expired.length === 0) return prev;
+        const next = { ...prev };
+        expired.forEach(key => {
+          next[key] = { status: 'expired', date: prev[key].date, quantity: prev[key].quantity };
+        });
+        return next;
+      });
+    }, Math.max(0, Math.min(...expiries) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [holds]);
+
+  const renewHold = (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish') => {
+    const item = state.items.find(cartItem => cartItem.id === itemId && cartItem.type === itemType);
+    if (item?.bookingDate && item.type !== 'dish') {
+      placeHold(item);
+    }
+  };
+
   // Debug: Log state changes
   React.useEffect(() => {
     console.log('🛒 CartProvider state changed:', {
@@ -275,12 +563,71 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     dispatch({ type: 'UPDATE_BOOKING_DATE', payload: { id: itemId, type: itemType, bookingDate } });
   };
 
+  const acceptPriceChange = (itemId: string, itemType: 'theme' | 'inventory' | 'plate' | 'dish') => {
+    dispatch({ type: 'ACCEPT_PRICE_CHANGE', payload: { id: itemId, type: itemType } });
+  };
+
   const clearCart = () => {
     console.log('🛒 clearCart() called - clearing cart with', state.items.length, 'items');
     dispatch({ type: 'CLEAR_CART' });
+    setAppliedPromotions([]);
     console.log('🛒 clearCart() dispatch sent');
   };
 
+  const applyCoupon = async (code: string) => {
+    const normalizedCode = code.trim().toUpperCase();
+    if (!normalizedCode) {
+      throw new Error('Please enter a coupon code');
+    }
+    if (appliedPromotions.some(promotion => promotion.code === normalizedCode)) {
+      throw new Error(`Coupon ${normalizedCode} is already applied`);
+    }
+
+    const promotion = await promotionService.getPromotionByCode(normalizedCode);
+    if (!promotion) {
+      throw new Error(`Coupon ${normalizedCode} is not valid`);
+    }
+
+    // At most one coupon per vendor and one platform-wide coupon
+    if (promotion.scope === 'VENDOR') {
+      if (!state.items.some(item => item.businessId === promotion.businessId)) {
+        throw new Error(`Coupon ${normalizedCode} does not apply to any item in your cart`);
+      }
+      const existing = appliedPromotions.find(
+        applied => applied.scope === 'VENDOR' && applied.businessId === promotion.businessId
+      );
+      if (existing) {
+        throw new Error(`Only one coupon per vendor - remove ${existing.code} first`);
+      }
+    } else if (appliedPromotions.some(applied => applied.scope === 'PLATFORM')) {
+      throw new Error('Only one platform coupon can be used per order');
+    }
+
+    let firstOrder = isFirstOrder;
+    if (promotion.type === 'FIRST_ORDER') {
+      if (!user?.phoneNumber) {
+        throw new Error('Please log in to use a first-order coupon');
+      }
+      const previousOrders = await orderService.getOrdersByUserId(user.phoneNumber);
+      firstOrder = !previousOrders.some(order => order.status !== 'CANCELLED');
+      setIsFirstOrder(firstOrder);
+    }
+
+    const reason = getPromotionIneligibilityReason(promotion, {
+      isFirstOrder: firstOrder,
+      today: format(new Date(), 'yyyy-MM-dd'),
+    });
+    if (reason) {
+      throw new Error(reason);
+    }
+
+    setAppliedPromotions(prev => [...prev, promotion]);
+  };
+
+  const removeCoupon = (promotionId: string) => {
+    setAppliedPromotions(prev => prev.filter(promotion => promotion.promotionId !== promotionId));
+  };
+
   const getCartItemCount = () => {
     const count = state.items.reduce((total, item) => total + item.quantity, 0);
     console.log('🛒 getCartItemCount called, returning:', count, 'from', state.items.length, 'items');
@@ -331,6 +678,15 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     return cartObj;
   }, [state.items]);
   
+  // Discounts are recomputed whenever the cart or the applied coupons change
+  const pricing: CartPricing = useMemo(
+    () => calculateCartPricing(state.items, appliedPromotions, {
+      isFirstOrder,
+      today: format(new Date(), 'yyyy-MM-dd'),
+    }),
+    [state.items, appliedPromotions, isFirstOrder]
+  );
+
   // Debug: Log cart whenever it changes
   React.useEffect(() => {
     console.log('🛒 Cart useEffect triggered:', {
@@ -347,13 +703,21 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     removeFromCart,
     updateQuantity,
     updateBookingDate,
+    acceptPriceChange,
     clearCart,
     getCartItemCount,
     getCartTotal,
     isInCart,
     openCart,
     closeCart,
-    isCartOpen
+    isCartOpen,
+    isRestoringCart,
+    appliedPromotions,
+    applyCoupon,
+    removeCoupon,
+    pricing,
+    holds,
+    renewHold
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from './AuthContext';
+import { useUserChange } from '../hooks/useUserChange';
 import clientNotificationService from '../services/clientNotificationService';
 import { Notification } from '../types/notification';
 
@@ -24,6 +25,14 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
   // Track notifications that have been optimistically marked as read (using ref to avoid dependency issues)
   const pendingReadNotificationsRef = useRef<Set<number>>(new Set());
 
+  // Never show the previous account's notifications after a logout or account switch
+  useUserChange(() => {
+    setNotifications([]);
+    setUnreadCount(0);
+    setError(null);
+    pendingReadNotificationsRef.current.clear();
+  });
+
   // Only provide notifications for CLIENT users
   const isClient = user?.userType === 'CLIENT';
 
@@ -38,24 +47,8 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
       setLoading(true);
       setError(null);
       
-            // Use the optimized endpoint that returns both notifications and count
-            const response = await fetch(
-              `http://localhost:8080/api/client-notifications/client/${user.phoneNumber}/with-count`,
-              {
-                method: 'GET',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${localStorage.getItem('token')}`,
-                },
-                cache: 'no-cache', // Ensure fresh data on every request
-              }
-            );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      // Use the optimized endpoint that returns both notifications and count
+      const data = await clientNotificationService.getNotificationsWithCount(user.phoneNumber);
       const serverNotifications = data.notifications || [];
       
       // Debug: Log what we receive from server
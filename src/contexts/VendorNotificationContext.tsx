@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from './AuthContext';
+import { useUserChange } from '../hooks/useUserChange';
 import notificationService from '../services/notificationService';
 import { Notification } from '../types/notification';
 
@@ -24,6 +25,14 @@ export const VendorNotificationProvider: React.FC<{ children: React.ReactNode }>
   // Track notifications that have been optimistically marked as read
   const pendingReadNotificationsRef = useRef<Set<number>>(new Set());
 
+  // Never show the previous account's notifications after a logout or account switch
+  useUserChange(() => {
+    setNotifications([]);
+    setUnreadCount(0);
+    setError(null);
+    pendingReadNotificationsRef.current.clear();
+  });
+
   // Only provide notifications for VENDOR users
   const isVendor = user?.userType === 'VENDOR';
 
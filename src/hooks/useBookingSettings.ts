@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import availabilityService from '../services/availabilityService';
+import { BookingSettings } from '../types/availability';
+
+/**
+ * Booking settings of some businesses, loaded as the list changes.
+ * Businesses whose settings could not be loaded are left out, so nothing is enforced for them until they load.
+ * @param businessIds Businesses to load; order and duplicates do not matter
+ * @returns Settings by business ID; null for businesses that have none
+ */
+export const useBookingSettings = (businessIds: string[]) => {
+  const [settings, setSettings] = useState<Record<string, BookingSettings | null>>({});
+  const idsKey = Array.from(new Set(businessIds.filter(Boolean))).sort().join(',');
+
+  useEffect(() => {
+    const missing = idsKey.split(',').filter(businessId => businessId && !(businessId in settings));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      missing.map(businessId =>
+        availabilityService.getBookingSettings(businessId).then(
+          saved => [businessId, saved] as const,
+          error => {
+            console.error('Error loading booking settings:', error);
+            return null;
+          }
+        )
+      )
+    ).then(results => {
+      if (cancelled) return;
+      const loaded = results.filter((result): result is readonly [string, BookingSettings | null] => result !== null);
+      if (loaded.length > 0) {
+        setSettings(prev => ({ ...prev, ...Object.fromEntries(loaded) }));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return settings;
+};
+
+export default useBookingSettings;
@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { OrderSearchQuery } from '../types/orderSearch';
+import { DEFAULT_ORDER_SEARCH, parseOrderSearchParams, toOrderSearchParams } from '../utils/orderSearchUtils';
+
+/**
+ * Order search kept in the URL, so filtered views can be bookmarked and shared.
+ * Any change other than the page goes back to the first page.
+ * @returns The current search, a key that changes with it, and setters
+ */
+export const useOrderSearchParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseOrderSearchParams(searchParams), [searchParams]);
+  const searchKey = toOrderSearchParams(query).toString();
+
+  const updateQuery = useCallback(
+    (change: Partial<OrderSearchQuery>) => {
+      setSearchParams(toOrderSearchParams({ ...query, ...change, page: change.page ?? 0 }, searchParams));
+    },
+    [query, searchParams, setSearchParams]
+  );
+
+  const clearFilters = useCallback(() => {
+    const { sortBy, sortDirection, size } = query;
+    setSearchParams(toOrderSearchParams({ ...DEFAULT_ORDER_SEARCH, sortBy, sortDirection, size }, searchParams));
+  }, [query, searchParams, setSearchParams]);
+
+  return { query, searchKey, updateQuery, clearFilters };
+};
+
+export default useOrderSearchParams;
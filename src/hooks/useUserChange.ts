@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Run a callback whenever the logged-in phone number changes
+ * (logout, or another account logging in - possibly from another tab).
+ * Does not fire for the initial login of the session.
+ * @param onChange Called with the previous and the new phone number
+ */
+export const useUserChange = (onChange: (previousPhone: string, nextPhone: string | null) => void) => {
+  const { user } = useAuth();
+  const phoneNumber = user?.phoneNumber ?? null;
+  const previousPhoneRef = useRef<string | null>(phoneNumber);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const previousPhone = previousPhoneRef.current;
+    if (previousPhone === phoneNumber) {
+      return;
+    }
+    previousPhoneRef.current = phoneNumber;
+    if (previousPhone !== null) {
+      onChangeRef.current(previousPhone, phoneNumber);
+    }
+  }, [phoneNumber]);
+};
+
+export default useUserChange;
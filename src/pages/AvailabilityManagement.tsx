@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Typography,
@@ -20,18 +20,25 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   Add as AddIcon,
   Delete as DeleteIcon,
+  Edit as EditIcon,
+  Repeat as RuleIcon,
+  EventBusy as ImportCalendarIcon,
   CalendarToday as CalendarIcon,
+  ViewList as ItemViewIcon,
+  GridOn as GridViewIcon,
 } from '@mui/icons-material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay } from 'date-fns';
 import availabilityService from '../services/availabilityService';
-import { Availability, AvailabilityRequest } from '../types/availability';
+import { Availability, AvailabilityItem, AvailabilityRequest, AvailabilityRule } from '../types/availability';
 import { useAuth } from '../contexts/AuthContext';
 import BusinessService from '../services/businessService';
 import { Business } from '../types';
@@ -39,14 +46,23 @@ import themeService from '../services/themeService';
 import inventoryService from '../services/inventoryService';
 import plateService from '../services/plateService';
 import { Theme, Inventory, Plate } from '../types';
+import AvailabilityRuleDialog from '../components/AvailabilityRuleDialog';
+import AvailabilityCalendarGrid from '../components/AvailabilityCalendarGrid';
+import CalendarImportDialog from '../components/CalendarImportDialog';
+import { describeRuleDates } from '../utils/availabilityRuleUtils';
 
 const AvailabilityManagement: React.FC = () => {
   const { user } = useAuth();
   const [businesses, setBusinesses] = useState<Business[]>([]);
   const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
-  const [items, setItems] = useState<Array<{ id: string; name: string; type: 'theme' | 'inventory' | 'plate' }>>([]);
-  const [selectedItem, setSelectedItem] = useState<{ id: string; name: string; type: 'theme' | 'inventory' | 'plate' } | null>(null);
+  const [items, setItems] = useState<AvailabilityItem[]>([]);
+  const [selectedItem, setSelectedItem] = useState<AvailabilityItem | null>(null);
+  const [viewMode, setViewMode] = useState<'item' | 'calendar'>('item');
   const [availabilities, setAvailabilities] = useState<Availability[]>([]);
+  const [rules, setRules] = useState<AvailabilityRule[]>([]);
+  const [ruleDialogOpen, setRuleDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AvailabilityRule | null>(null);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -94,7 +110,7 @@ const AvailabilityManagement: React.FC = () => {
 
     try {
       setLoading(true);
-      const allItems: Array<{ id: string; name: string; type: 'theme' | 'inventory' | 'plate' }> = [];
+      const allItems: AvailabilityItem[] = [];
 
       // Fetch themes
       try {
@@ -148,6 +164,41 @@ const AvailabilityManagement: React.FC = () => {
     }
   };
 
+  const fetchRules = useCallback(async () => {
+    if (!selectedItem) return;
+
+    try {
+      setRules(await availabilityService.getRulesForItem(selectedItem.id, selectedItem.type));
+    } catch (err: any) {
+      setError('Failed to fetch availability rules: ' + err.message);
+    }
+  }, [selectedItem]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleOpenRule = (rule: AvailabilityRule | null) => {
+    setEditingRule(rule);
+    setRuleDialogOpen(true);
+  };
+
+  const handleDeleteRule = async (rule: AvailabilityRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Dates it has already set stay as they are.`)) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await availabilityService.deleteRule(rule.ruleId);
+      fetchRules();
+    } catch (err: any) {
+      setError('Failed to delete rule: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAddAvailability = () => {
     if (!selectedItem || !selectedBusiness) {
       setError('Please select an item first');
@@ -262,6 +313,28 @@ const AvailabilityManagement: React.FC = () => {
         </Paper>
 
         {selectedBusiness && (
+          <Box display="flex" justifyContent="flex-end" mb={2}>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={viewMode}
+              onChange={(_, value) => value && setViewMode(value)}
+            >
+              <ToggleButton value="item">
+                <ItemViewIcon sx={{ mr: 1 }} /> By Item
+              </ToggleButton>
+              <ToggleButton value="calendar">
+                <GridViewIcon sx={{ mr: 1 }} /> All Items
+              </ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+        )}
+
+        {selectedBusiness && viewMode === 'calendar' && (
+          <AvailabilityCalendarGrid business={selectedBusiness} items={items} />
+        )}
+
+        {selectedBusiness && viewMode === 'item' && (
           <>
             {/* Item Selection */}
             <Paper sx={{ p: 2, mb: 3 }}>
@@ -288,15 +361,79 @@ const AvailabilityManagement: React.FC = () => {
                   <Typography variant="h6">
                     Availability for: {selectedItem.name}
                   </Typography>
-                  <Button
-                    variant="contained"
-                    startIcon={<AddIcon />}
-                    onClick={handleAddAvailability}
-                  >
-                    Add Availability
-                  </Button>
+                  <Box display="flex" gap={1}>
+                    <Button
+                      variant="outlined"
+                      startIcon={<RuleIcon />}
+                      onClick={() => handleOpenRule(null)}
+                    >
+                      Add Rule
+                    </Button>
+                    <Button
+                      variant="outlined"
+                      startIcon={<ImportCalendarIcon />}
+                      onClick={() => setImportDialogOpen(true)}
+                    >
+                      Import .ics
+                    </Button>
+                    <Button
+                      variant="contained"
+                      startIcon={<AddIcon />}
+                      onClick={handleAddAvailability}
+                    >
+                      Add Availability
+                    </Button>
+                  </Box>
                 </Box>
 
+                {/* Rules */}
+                {rules.length > 0 && (
+                  <Paper sx={{ p: 2, mb: 3 }}>
+                    <Typography variant="h6" gutterBottom>
+                      Rules
+                    </Typography>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Name</TableCell>
+                          <TableCell>Type</TableCell>
+                          <TableCell>Dates</TableCell>
+                          <TableCell>Quantity</TableCell>
+                          <TableCell>Price Override</TableCell>
+                          <TableCell>Actions</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {rules.map((rule) => (
+                          <TableRow key={rule.ruleId}>
+                            <TableCell>{rule.name}</TableCell>
+                            <TableCell>
+                              <Chip
+                                label={rule.kind === 'OPEN' ? 'Open' : 'Blackout'}
+                                color={rule.kind === 'OPEN' ? 'success' : 'error'}
+                                size="small"
+                              />
+                            </TableCell>
+                            <TableCell>{describeRuleDates(rule)}</TableCell>
+                            <TableCell>{rule.kind === 'OPEN' ? rule.availableQuantity : '-'}</TableCell>
+                            <TableCell>
+                              {rule.kind === 'OPEN' && rule.priceOverride ? `₹${rule.priceOverride}` : '-'}
+                            </TableCell>
+                            <TableCell>
+                              <IconButton size="small" onClick={() => handleOpenRule(rule)}>
+                                <EditIcon />
+                              </IconButton>
+                              <IconButton size="small" color="error" onClick={() => handleDeleteRule(rule)}>
+                                <DeleteIcon />
+                              </IconButton>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </Paper>
+                )}
+
                 {/* Calendar View */}
                 <Paper sx={{ p: 2, mb: 3 }}>
                   <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
@@ -422,6 +559,35 @@ const AvailabilityManagement: React.FC = () => {
           </>
         )}
 
+        {selectedItem && selectedBusiness && (
+          <AvailabilityRuleDialog
+            open={ruleDialogOpen}
+            onClose={() => setRuleDialogOpen(false)}
+            itemId={selectedItem.id}
+            itemType={selectedItem.type}
+            itemName={selectedItem.name}
+            businessId={selectedBusiness.businessId}
+            rule={editingRule}
+            otherRules={rules.filter(rule => rule.ruleId !== editingRule?.ruleId)}
+            availabilities={availabilities}
+            onApplied={() => {
+              fetchAvailabilities();
+              fetchRules();
+            }}
+          />
+        )}
+
+        {selectedItem && selectedBusiness && (
+          <CalendarImportDialog
+            open={importDialogOpen}
+            onClose={() => setImportDialogOpen(false)}
+            item={selectedItem}
+            businessId={selectedBusiness.businessId}
+            availabilities={availabilities}
+            onImported={fetchAvailabilities}
+          />
+        )}
+
         {/* Add/Edit Availability Dialog */}
         <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
           <DialogTitle>
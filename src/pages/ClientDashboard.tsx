@@ -27,6 +27,7 @@ import {
   Stepper,
   Step,
   StepLabel,
+  TablePagination,
 } from '@mui/material';
 import {
   ShoppingCart as ShoppingCartIcon,
@@ -44,8 +45,12 @@ import orderService from '../services/orderService';
 import OrderHistory from '../components/OrderHistory';
 import OrderStatusTracker from '../components/OrderStatusTracker';
 import OrderSummary from '../components/OrderSummary';
+import OrderSearchBar from '../components/OrderSearchBar';
 import { Order } from '../types/cart';
+import { PagedResult } from '../types/orderSearch';
 import { getOrderDisplayTitle } from '../utils/orderDisplay';
+import { ORDER_PAGE_SIZES, getOrderBusinesses, hasOrderSearchFilters } from '../utils/orderSearchUtils';
+import { useOrderSearchParams } from '../hooks/useOrderSearchParams';
 import { Notification } from '../types/notification';
 
 interface TabPanelProps {
@@ -74,8 +79,12 @@ const ClientDashboard: React.FC = () => {
   const { user } = useAuth();
   const location = useLocation();
   const { notifications, unreadCount: unreadNotificationCount, markAsRead, markAllAsRead, refreshNotifications } = useNotifications();
-  const [activeTab, setActiveTab] = useState(0);
+  const { query, searchKey, updateQuery, clearFilters } = useOrderSearchParams();
+  // A link with an order search opens straight on My Orders
+  const [activeTab, setActiveTab] = useState(searchKey ? 1 : 0);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [orderPage, setOrderPage] = useState<PagedResult<Order> | null>(null);
+  const [loadingOrderPage, setLoadingOrderPage] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
@@ -110,6 +119,12 @@ const ClientDashboard: React.FC = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (user?.phoneNumber) {
+      fetchOrderPage();
+    }
+  }, [user, searchKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // NotificationContext handles all notification fetching and syncing
   // No need for separate useEffect hooks here
 
@@ -142,6 +157,22 @@ const ClientDashboard: React.FC = () => {
     }
   };
 
+  // The order history is searched and paged on the server; the overview and live status use every order
+  const fetchOrderPage = async () => {
+    if (!user?.phoneNumber) return;
+
+    try {
+      setLoadingOrderPage(true);
+      setOrderPage(await orderService.searchOrders(query, { userId: user.phoneNumber }));
+    } catch (err: any) {
+      console.error('Error searching orders:', err);
+      setError(err.message || 'Failed to search orders');
+      setOrderPage(null);
+    } finally {
+      setLoadingOrderPage(false);
+    }
+  };
+
   const handleNotificationClick = async (notification: Notification) => {
     // Always mark as read when notification is clicked/opened
     // The backend will handle if it's already read
@@ -349,6 +380,7 @@ const ClientDashboard: React.FC = () => {
                       fetchOrders();
                       refreshNotifications();
                     }}
+                    onPaymentMade={fetchOrders}
                   />
                 </Grid>
               ))}
@@ -356,15 +388,35 @@ const ClientDashboard: React.FC = () => {
             <Divider sx={{ my: 4 }} />
           </Box>
         )}
+        <OrderSearchBar
+          query={query}
+          onChange={updateQuery}
+          onClear={clearFilters}
+          vendors={getOrderBusinesses(ordersArray)}
+        />
         <OrderHistory 
-          orders={ordersArray}
-          loading={loading}
+          orders={orderPage?.content || []}
+          totalCount={orderPage?.totalElements}
+          loading={loadingOrderPage}
+          emptyMessage={hasOrderSearchFilters(query) ? 'No orders match your filters.' : undefined}
           onRefresh={() => {
             fetchOrders();
+            fetchOrderPage();
             refreshNotifications();
           }}
           onViewOrder={handleViewOrder}
         />
+        {orderPage && orderPage.totalElements > 0 && (
+          <TablePagination
+            component="div"
+            count={orderPage.totalElements}
+            page={query.page}
+            onPageChange={(_, page) => updateQuery({ page })}
+            rowsPerPage={query.size}
+            rowsPerPageOptions={ORDER_PAGE_SIZES}
+            onRowsPerPageChange={(e) => updateQuery({ size: parseInt(e.target.value, 10) })}
+          />
+        )}
       </TabPanel>
 
       {/* Notifications Tab (Separate) */}
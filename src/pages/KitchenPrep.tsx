@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  TextField,
+  Alert,
+  CircularProgress,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { Download as DownloadIcon, Warning as WarningIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import BusinessService from '../services/businessService';
+import orderService from '../services/orderService';
+import plateService from '../services/plateService';
+import dishService from '../services/dishService';
+import { Business, Dish, Plate } from '../types';
+import { Order } from '../types/cart';
+import { buildKitchenPrep, kitchenPrepToCsv } from '../utils/kitchenPrepUtils';
+import { downloadCsv, toFileNamePart } from '../utils/csvUtils';
+
+const KitchenPrep: React.FC = () => {
+  const { user } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [plates, setPlates] = useState<Plate[]>([]);
+  const [dishes, setDishes] = useState<Dish[]>([]);
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user?.userType === 'VENDOR' && user.phoneNumber) {
+      fetchBusinesses();
+    }
+  }, [user]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      fetchPrepData(selectedBusiness);
+    }
+  }, [selectedBusiness]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchBusinesses = async () => {
+    try {
+      setLoading(true);
+      const vendorBusinesses = await BusinessService.getBusinessesByVendorPhoneNumber(user!.phoneNumber);
+      setBusinesses(vendorBusinesses);
+      if (vendorBusinesses.length > 0) {
+        setSelectedBusiness(vendorBusinesses[0]);
+      }
+    } catch (err: any) {
+      setError('Failed to load businesses: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPrepData = async (business: Business) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [businessOrders, businessPlates, businessDishes] = await Promise.all([
+        orderService.getOrdersByBusinessId(business.businessId),
+        plateService.getPlatesByBusinessId(business.businessId),
+        dishService.getDishesByBusinessId(business.businessId),
+      ]);
+      setOrders(businessOrders);
+      setPlates(businessPlates);
+      setDishes(businessDishes);
+    } catch (err: any) {
+      setError('Failed to load prep data: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const days = useMemo(() => {
+    if (!selectedBusiness) return [];
+    return buildKitchenPrep(orders, selectedBusiness.businessId, plates, dishes).filter(
+      day => day.date >= fromDate && (!toDate || day.date <= toDate)
+    );
+  }, [orders, plates, dishes, selectedBusiness, fromDate, toDate]);
+
+  const handleExport = () => {
+    if (!selectedBusiness) return;
+    const fileName = `kitchen-prep-${toFileNamePart(selectedBusiness.businessName)}-${fromDate}.csv`;
+    downloadCsv(kitchenPrepToCsv(days), fileName);
+  };
+
+  if (!user || user.userType !== 'VENDOR') {
+    return (
+      <Box p={3}>
+        <Alert severity="error">This page is only accessible to vendors.</Alert>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h4" component="h1">
+            Kitchen Prep
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Dish portions needed for confirmed plate orders
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleExport} disabled={days.length === 0}>
+          Export CSV
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={2} flexWrap="wrap" alignItems="center" mb={3}>
+        {businesses.length > 1 && (
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Business</InputLabel>
+            <Select
+              value={selectedBusiness?.businessId || ''}
+              label="Business"
+              onChange={(e) => setSelectedBusiness(businesses.find(b => b.businessId === e.target.value) || null)}
+            >
+              {businesses.map(business => (
+                <MenuItem key={business.businessId} value={business.businessId}>
+                  {business.businessName}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : days.length === 0 ? (
+        <Alert severity="info">No confirmed plate orders in this period.</Alert>
+      ) : (
+        days.map(day => {
+          const shortDishes = day.dishes.filter(dish => dish.shortfall > 0);
+          return (
+            <Paper key={day.date} variant="outlined" sx={{ p: 2, mb: 3 }}>
+              <Box display="flex" alignItems="center" gap={1} flexWrap="wrap" mb={2}>
+                <Typography variant="h6" sx={{ mr: 1 }}>
+                  {format(new Date(`${day.date}T00:00:00`), 'EEEE, d MMMM yyyy')}
+                </Typography>
+                <Chip label={`${day.orderCount} ${day.orderCount === 1 ? 'order' : 'orders'}`} size="small" />
+                <Chip label={`${day.vegPlates} veg plates`} size="small" color="success" variant="outlined" />
+                <Chip label={`${day.nonVegPlates} non-veg plates`} size="small" color="error" variant="outlined" />
+                {shortDishes.length > 0 && (
+                  <Chip
+                    icon={<WarningIcon />}
+                    label={`${shortDishes.length} short`}
+                    size="small"
+                    color="warning"
+                  />
+                )}
+              </Box>
+
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Dish</TableCell>
+                      <TableCell align="right">Veg</TableCell>
+                      <TableCell align="right">Non-Veg</TableCell>
+                      <TableCell align="right">Total</TableCell>
+                      <TableCell align="right">In Stock</TableCell>
+                      <TableCell align="right">Shortfall</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {day.dishes.map(dish => (
+                      <TableRow key={dish.dishId} sx={{ bgcolor: dish.shortfall > 0 ? 'warning.light' : undefined }}>
+                        <TableCell>{dish.dishName}</TableCell>
+                        <TableCell align="right">{dish.vegQuantity}</TableCell>
+                        <TableCell align="right">{dish.nonVegQuantity}</TableCell>
+                        <TableCell align="right">
+                          <strong>{dish.totalQuantity}</strong>
+                        </TableCell>
+                        <TableCell align="right">{dish.stock ?? '—'}</TableCell>
+                        <TableCell align="right">
+                          {dish.shortfall > 0 ? (
+                            <Typography variant="body2" color="error" fontWeight="bold">
+                              {dish.shortfall}
+                            </Typography>
+                          ) : (
+                            '—'
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          );
+        })
+      )}
+    </Box>
+  );
+};
+
+export default KitchenPrep;
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Grid,
+  TextField,
+  Alert,
+  CircularProgress,
+  Chip,
+  Checkbox,
+  Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+} from '@mui/material';
+import {
+  Print as PrintIcon,
+  Phone as PhoneIcon,
+  Email as EmailIcon,
+  Directions as DirectionsIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import BusinessService from '../services/businessService';
+import orderService from '../services/orderService';
+import { Business } from '../types';
+import { Order } from '../types/cart';
+import { Coordinates, RunSheetTotal } from '../types/runSheet';
+import { buildRunSheet } from '../utils/runSheetUtils';
+import { formatDistance } from '../utils/distanceUtils';
+import { getOrderDisplayTitle } from '../utils/orderDisplay';
+
+const CHECKED_STORAGE_KEY = 'runSheetChecked';
+
+const RunSheet: React.FC = () => {
+  const { user } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [locations, setLocations] = useState<Record<string, Coordinates>>({});
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState('');
+  const [checked, setChecked] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user?.userType === 'VENDOR' && user.phoneNumber) {
+      fetchBusinesses();
+    }
+  }, [user]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (selectedBusiness) {
+      fetchOrders(selectedBusiness);
+      const saved = localStorage.getItem(`${CHECKED_STORAGE_KEY}_${selectedBusiness.businessId}`);
+      setChecked(saved ? JSON.parse(saved) : {});
+    }
+  }, [selectedBusiness]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchBusinesses = async () => {
+    try {
+      setLoading(true);
+      const vendorBusinesses = await BusinessService.getBusinessesByVendorPhoneNumber(user!.phoneNumber);
+      setBusinesses(vendorBusinesses);
+      if (vendorBusinesses.length > 0) {
+        setSelectedBusiness(vendorBusinesses[0]);
+      }
+    } catch (err: any) {
+      setError('Failed to load businesses: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOrders = async (business: Business) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const businessOrders = await orderService.getOrdersByBusinessId(business.businessId);
+      setOrders(businessOrders);
+      setLocations(await BusinessService.geocodeAddresses(businessOrders.map(order => order.deliveryAddress)));
+    } catch (err: any) {
+      setError('Failed to load orders: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleChecked = (key: string) => {
+    if (!selectedBusiness) return;
+    setChecked(prev => {
+      const next = { ...prev, [key]: !prev[key] };
+      localStorage.setItem(`${CHECKED_STORAGE_KEY}_${selectedBusiness.businessId}`, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const days = useMemo(() => {
+    if (!selectedBusiness) return [];
+    return buildRunSheet(orders, selectedBusiness, locations).filter(
+      day => day.date >= fromDate && (!toDate || day.date <= toDate)
+    );
+  }, [orders, selectedBusiness, locations, fromDate, toDate]);
+
+  const renderTotals = (title: string, date: string, totals: RunSheetTotal[], emptyText: string) => (
+    <Paper variant="outlined" sx={{ p: 2, height: '100%' }}>
+      <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+        {title}
+      </Typography>
+      {totals.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {emptyText}
+        </Typography>
+      ) : (
+        totals.map(total => {
+          const key = `${date}_${title}_${total.id}`;
+          return (
+            <Box key={total.id} display="flex" alignItems="center">
+              <Checkbox size="small" checked={!!checked[key]} onChange={() => toggleChecked(key)} sx={{ p: 0.5 }} />
+              <Typography variant="body2" sx={{ flex: 1, textDecoration: checked[key] ? 'line-through' : 'none' }}>
+                {total.name}
+              </Typography>
+              <Typography variant="body2" fontWeight="bold">
+                × {total.quantity}
+              </Typography>
+            </Box>
+          );
+        })
+      )}
+    </Paper>
+  );
+
+  if (!user || user.userType !== 'VENDOR') {
+    return (
+      <Box p={3}>
+        <Alert severity="error">This page is only accessible to vendors.</Alert>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3, '@media print': { p: 0 } }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h4" component="h1">
+            Run Sheet
+          </Typography>
+          {selectedBusiness && (
+            <Typography variant="body1" color="text.secondary">
+              {selectedBusiness.businessName}
+            </Typography>
+          )}
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<PrintIcon />}
+          onClick={() => window.print()}
+          disabled={days.length === 0}
+          sx={{ displayPrint: 'none' }}
+        >
+          Print
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2, displayPrint: 'none' }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" gap={2} flexWrap="wrap" alignItems="center" mb={3} sx={{ displayPrint: 'none' }}>
+        {businesses.length > 1 && (
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Business</InputLabel>
+            <Select
+              value={selectedBusiness?.businessId || ''}
+              label="Business"
+              onChange={(e) => setSelectedBusiness(businesses.find(b => b.businessId === e.target.value) || null)}
+            >
+              {businesses.map(business => (
+                <MenuItem key={business.businessId} value={business.businessId}>
+                  {business.businessName}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : days.length === 0 ? (
+        <Alert severity="info">No deliveries in this period.</Alert>
+      ) : (
+        days.map(day => (
+          <Box key={day.date} mb={4} sx={{ '@media print': { breakAfter: 'page' } }}>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <Typography variant="h5">{format(new Date(`${day.date}T00:00:00`), 'EEEE, d MMMM yyyy')}</Typography>
+              <Chip label={`${day.stops.length} ${day.stops.length === 1 ? 'stop' : 'stops'}`} size="small" />
+            </Box>
+
+            {day.stops.map((stop, index) => {
+              const { order } = stop;
+              const key = `${day.date}_stop_${order.orderId}`;
+              return (
+                <Paper key={order.orderId} variant="outlined" sx={{ p: 2, mb: 1.5, breakInside: 'avoid' }}>
+                  <Box display="flex" alignItems="flex-start" gap={1}>
+                    <Checkbox checked={!!checked[key]} onChange={() => toggleChecked(key)} sx={{ p: 0.5 }} />
+                    <Box flex={1}>
+                      <Box display="flex" justifyContent="space-between" flexWrap="wrap" gap={1}>
+                        <Typography variant="subtitle1" fontWeight="bold">
+                          {index + 1}. {getOrderDisplayTitle(order)}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          {stop.distanceKm !== null ? formatDistance(stop.distanceKm) : 'Distance unknown'}
+                        </Typography>
+                      </Box>
+                      <Typography variant="body2">
+                        {order.customerName} · {order.customerPhone}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {order.deliveryAddress}
+                      </Typography>
+                      {order.specialNotes && (
+                        <Typography variant="body2" sx={{ mt: 0.5, fontStyle: 'italic' }}>
+                          Note: {order.specialNotes}
+                        </Typography>
+                      )}
+                      <Box mt={1}>
+                        {stop.items.map(item => (
+                          <Typography key={item.orderItemId} variant="body2">
+                            • {item.itemName} × {item.quantity}
+                          </Typography>
+                        ))}
+                      </Box>
+                      <Box display="flex" gap={1} mt={1} flexWrap="wrap" sx={{ displayPrint: 'none' }}>
+                        <Button size="small" variant="outlined" startIcon={<PhoneIcon />} href={`tel:${order.customerPhone}`}>
+                          Call
+                        </Button>
+                        {order.customerEmail && (
+                          <Button size="small" variant="outlined" startIcon={<EmailIcon />} href={`mailto:${order.customerEmail}`}>
+                            Email
+                          </Button>
+                        )}
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          startIcon={<DirectionsIcon />}
+                          href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(order.deliveryAddress)}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          Directions
+                        </Button>
+                      </Box>
+                    </Box>
+                  </Box>
+                </Paper>
+              );
+            })}
+
+            <Divider sx={{ my: 2 }} />
+            <Grid container spacing={2}>
+              <Grid item xs={12} md={6}>
+                {renderTotals('Load List', day.date, day.inventoryTotals, 'No inventory to load')}
+              </Grid>
+              <Grid item xs={12} md={6}>
+                {renderTotals('Kitchen Prep', day.date, day.dishTotals, 'No dishes to prepare')}
+              </Grid>
+            </Grid>
+          </Box>
+        ))
+      )}
+    </Box>
+  );
+};
+
+export default RunSheet;
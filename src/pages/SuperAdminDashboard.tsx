@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Grid,
   Card,
@@ -40,8 +40,16 @@ import BusinessService from '../services/businessService';
 import ThemeService from '../services/themeService';
 import InventoryService from '../services/inventoryService';
 import PlateService from '../services/plateService';
+import orderService from '../services/orderService';
 import { useAuth } from '../contexts/AuthContext';
 import { User, Business, Theme, Inventory, Plate } from '../types';
+import { Order, OrderFilters } from '../types/cart';
+import OrderFilterBar from '../components/OrderFilterBar';
+import OrderExportMenu from '../components/OrderExportMenu';
+import PlatformAnalytics from '../components/PlatformAnalytics';
+import { filterOrders, getOrderItemTypes } from '../utils/orderFilterUtils';
+import { ORDER_STATUS_LABELS } from '../utils/orderStatusUtils';
+import { getOrderDisplayTitle } from '../utils/orderDisplay';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -64,6 +72,9 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
+const ORDERS_TAB = 5;
+const ANALYTICS_TAB = 6;
+
 const SuperAdminDashboard: React.FC = () => {
   const { user } = useAuth();
   const [tabValue, setTabValue] = useState(0);
@@ -76,6 +87,10 @@ const SuperAdminDashboard: React.FC = () => {
   const [themes, setThemes] = useState<Theme[]>([]);
   const [inventory, setInventory] = useState<Inventory[]>([]);
   const [plates, setPlates] = useState<Plate[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [ordersLoading, setOrdersLoading] = useState(false);
+  const [ordersError, setOrdersError] = useState<string | null>(null);
+  const [orderFilters, setOrderFilters] = useState<OrderFilters>({});
   
   // Stats
   const [stats, setStats] = useState({
@@ -117,15 +132,35 @@ const SuperAdminDashboard: React.FC = () => {
         plates: platesData.length,
       });
     } catch (err: any) {
-      setError('Failed to fetch data: ' + (err.response?.data?.message || err.message));
+      setError('Failed to fetch data: ' + err.message);
       console.error('Error fetching data:', err);
     } finally {
       setLoading(false);
     }
   };
 
+  // Orders are only loaded when their tab is opened; there can be many
+  const fetchOrders = async () => {
+    try {
+      setOrdersLoading(true);
+      setOrdersError(null);
+      setOrders(await orderService.getOrders());
+    } catch (err: any) {
+      setOrdersError('Failed to fetch orders: ' + err.message);
+      console.error('Error fetching orders:', err);
+    } finally {
+      setOrdersLoading(false);
+    }
+  };
+
+  const filteredOrders = useMemo(() => filterOrders(orders, orderFilters), [orders, orderFilters]);
+  const orderItemTypes = useMemo(() => getOrderItemTypes(orders), [orders]);
+
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
+    if (newValue === ORDERS_TAB && orders.length === 0) {
+      fetchOrders();
+    }
   };
 
   if (loading) {
@@ -240,6 +275,8 @@ const SuperAdminDashboard: React.FC = () => {
           <Tab label="Themes" />
           <Tab label="Inventory" />
           <Tab label="Plates" />
+          <Tab label="Orders" />
+          <Tab label="Analytics" />
         </Tabs>
 
         <TabPanel value={tabValue} index={0}>
@@ -425,6 +462,72 @@ const SuperAdminDashboard: React.FC = () => {
             </Table>
           </TableContainer>
         </TabPanel>
+
+        <TabPanel value={tabValue} index={ORDERS_TAB}>
+          {ordersError && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setOrdersError(null)}>
+              {ordersError}
+            </Alert>
+          )}
+          <Box display="flex" justifyContent="space-between" alignItems="flex-start" gap={2}>
+            <OrderFilterBar
+              filters={orderFilters}
+              onChange={setOrderFilters}
+              businesses={businesses}
+              itemTypes={orderItemTypes}
+            />
+            <Box display="flex" gap={1}>
+              <OrderExportMenu
+                getOrders={() => filteredOrders}
+                fileNamePrefix="platform"
+                disabled={filteredOrders.length === 0}
+              />
+              <Button variant="outlined" onClick={fetchOrders} disabled={ordersLoading}>
+                Refresh
+              </Button>
+            </Box>
+          </Box>
+          {ordersLoading ? (
+            <Box display="flex" justifyContent="center" p={4}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <TableContainer component={Paper}>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Order</TableCell>
+                    <TableCell>Customer</TableCell>
+                    <TableCell>Vendor</TableCell>
+                    <TableCell>Booking Date</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Total</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {filteredOrders.map((order) => (
+                    <TableRow key={order.orderId}>
+                      <TableCell>{getOrderDisplayTitle(order)}</TableCell>
+                      <TableCell>{order.customerName}</TableCell>
+                      <TableCell>
+                        {Array.from(new Set((order.orderItems || []).map(item => item.businessName))).join(', ')}
+                      </TableCell>
+                      <TableCell>{order.deliveryDate ? new Date(order.deliveryDate).toLocaleDateString('en-IN') : '-'}</TableCell>
+                      <TableCell>
+                        <Chip label={ORDER_STATUS_LABELS[order.status] || order.status} size="small" />
+                      </TableCell>
+                      <TableCell align="right">₹{order.totalAmount.toLocaleString('en-IN')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={ANALYTICS_TAB}>
+          <PlatformAnalytics businesses={businesses} />
+        </TabPanel>
       </Paper>
     </Box>
   );
@@ -13,6 +13,8 @@ import {
   Button,
   Tabs,
   Tab,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   Business as BusinessIcon,
@@ -27,6 +29,11 @@ import {
   Notifications as NotificationIcon,
   ArrowForward as ArrowForwardIcon,
   Inventory as InventoryIcon,
+  Receipt as ReceiptIcon,
+  AccountBalanceWallet as DepositIcon,
+  EventAvailable as BookingRulesIcon,
+  ViewList as ListViewIcon,
+  ViewKanban as BoardViewIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import BusinessService from '../services/businessService';
@@ -48,9 +55,22 @@ import PlateManagementForm from '../components/PlateManagementForm';
 import PlateCard from '../components/PlateCard';
 import DishManagementForm from '../components/DishManagementForm';
 import DishCard from '../components/DishCard';
+import PromotionManagement from '../components/PromotionManagement';
+import TaxSettingsForm from '../components/TaxSettingsForm';
+import DepositSettingsForm from '../components/DepositSettingsForm';
+import BookingSettingsForm from '../components/BookingSettingsForm';
+import InvoiceDialog from '../components/InvoiceDialog';
+import CancelOrderDialog from '../components/CancelOrderDialog';
+import OrderBoard from '../components/OrderBoard';
+import OrderExportMenu from '../components/OrderExportMenu';
+import BusinessAnalytics from '../components/BusinessAnalytics';
+import { toFileNamePart } from '../utils/csvUtils';
+import { ORDER_STATUS_ACTIONS, getAllowedTransitions, getOrderActor, requiresReason } from '../utils/orderStatusUtils';
+import { canIssueInvoice } from '../utils/gstUtils';
 import orderService from '../services/orderService';
 import notificationService from '../services/notificationService';
 import chatService from '../services/chatService';
+import { ForbiddenError, NotFoundError } from '../services/apiErrors';
 import { useNavigate, useLocation } from 'react-router-dom';
 
 const VendorDashboard: React.FC = () => {
@@ -68,6 +88,11 @@ const VendorDashboard: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState((location.state as any)?.activeTab ?? 0);
   const [businessFormOpen, setBusinessFormOpen] = useState(false);
+  const [taxSettingsOpen, setTaxSettingsOpen] = useState(false);
+  const [depositSettingsOpen, setDepositSettingsOpen] = useState(false);
+  const [bookingSettingsOpen, setBookingSettingsOpen] = useState(false);
+  const [invoiceOrder, setInvoiceOrder] = useState<Order | null>(null);
+  const [cancelOrder, setCancelOrder] = useState<Order | null>(null);
   const [inventoryFormOpen, setInventoryFormOpen] = useState(false);
   const [editingInventory, setEditingInventory] = useState<Inventory | null>(null);
   const [inventoryImagesOpen, setInventoryImagesOpen] = useState(false);
@@ -81,6 +106,7 @@ const VendorDashboard: React.FC = () => {
   // Order management state
   const [orders, setOrders] = useState<Order[]>([]);
   const [ordersLoading, setOrdersLoading] = useState(false);
+  const [ordersView, setOrdersView] = useState<'list' | 'board'>('list');
   const [ordersError, setOrdersError] = useState<string | null>(null);
   const [orderToScrollTo, setOrderToScrollTo] = useState<string | null>(null);
   const [savedScrollPosition, setSavedScrollPosition] = useState<number | null>(null);
@@ -228,12 +254,12 @@ const VendorDashboard: React.FC = () => {
         }
         
       } catch (err: any) {
-        if (err.response?.status === 404) {
+        if (err instanceof NotFoundError) {
           // 404 is expected for new vendors - no business profile exists yet
           setBusinesses([]);
           setSelectedBusiness(null);
           setThemes([]);
-        } else if (err.response?.status === 403) {
+        } else if (err instanceof ForbiddenError) {
           setError('Access denied. Please ensure you are logged in and have the correct permissions.');
         } else {
           setError('Failed to fetch business data. Please try again later.');
@@ -587,26 +613,29 @@ const VendorDashboard: React.FC = () => {
     let index = 0; // Overview is always first
     
     if (isTentBusiness(selectedBusiness)) {
-      // Tent: Overview(0), Theme(1), Inventory(2), Explore(3)
+      // Tent: Overview(0), Theme(1), Inventory(2), Promotions(3), Explore(4)
       if (tabLabel === 'Overview') return 0;
       if (tabLabel === 'Theme') return 1;
       if (tabLabel === 'Inventory') return 2;
-      if (tabLabel === 'Explore') return 3;
+      if (tabLabel === 'Promotions') return 3;
+      if (tabLabel === 'Explore') return 4;
     } else if (selectedBusiness.businessCategory === 'caters') {
-      // Catering: Overview(0), Plate(1), Dish(2), Orders(3), Notifications(4), Explore(5)
+      // Catering: Overview(0), Plate(1), Dish(2), Orders(3), Notifications(4), Promotions(5), Explore(6)
       if (tabLabel === 'Overview') return 0;
       if (tabLabel === 'Plate') return 1;
       if (tabLabel === 'Dish') return 2;
       if (tabLabel === 'Orders') return 3;
       if (tabLabel === 'Notifications') return 4;
-      if (tabLabel === 'Explore') return 5;
+      if (tabLabel === 'Promotions') return 5;
+      if (tabLabel === 'Explore') return 6;
     } else {
-      // Non-catering: Overview(0), Themes(1), Inventory(2), Orders(3), Notifications(4)
+      // Non-catering: Overview(0), Themes(1), Inventory(2), Orders(3), Notifications(4), Promotions(5)
       if (tabLabel === 'Overview') return 0;
       if (tabLabel === 'Themes') return 1;
       if (tabLabel === 'Inventory') return 2;
       if (tabLabel === 'Orders') return 3;
       if (tabLabel === 'Notifications') return 4;
+      if (tabLabel === 'Promotions') return 5;
     }
     
     return -1;
@@ -631,11 +660,11 @@ const VendorDashboard: React.FC = () => {
     let tabLabels: string[] = ['Overview'];
     
     if (isTentBusiness(selectedBusiness)) {
-      tabLabels.push('Theme', 'Inventory', 'Explore');
+      tabLabels.push('Theme', 'Inventory', 'Promotions', 'Explore');
     } else if (selectedBusiness?.businessCategory === 'caters') {
-      tabLabels.push('Plate', 'Dish', 'Orders', 'Notifications', 'Explore');
+      tabLabels.push('Plate', 'Dish', 'Orders', 'Notifications', 'Promotions', 'Explore');
     } else {
-      tabLabels.push('Themes', 'Inventory', 'Orders', 'Notifications');
+      tabLabels.push('Themes', 'Inventory', 'Orders', 'Notifications', 'Promotions');
     }
     
     console.log('🔵 Tab labels in order:', tabLabels);
@@ -754,7 +783,14 @@ const VendorDashboard: React.FC = () => {
     }
   }, [orders, ordersLoading, orderToScrollTo, savedScrollPosition]);
 
-  const handleOrderStatusUpdate = async (orderId: string, newStatus: Order['status']) => {
+  const handleOrderStatusUpdate = async (order: Order, newStatus: Order['status']) => {
+    // Cancelling needs a reason, which the cancel dialog asks for
+    if (requiresReason(newStatus)) {
+      setCancelOrder(order);
+      return;
+    }
+
+    const orderId = order.orderId.toString();
     try {
       // Get the order element's position BEFORE updating
       const orderElement = document.getElementById(`order-${orderId}`);
@@ -771,7 +807,7 @@ const VendorDashboard: React.FC = () => {
       
       // Store the order ID to scroll to after refresh
       setOrderToScrollTo(orderId);
-      await orderService.updateOrderStatus(orderId, newStatus);
+      await orderService.updateOrderStatus(order, newStatus, getOrderActor(user));
       // Refresh orders after status update
       await fetchOrdersForBusiness();
       // The useEffect will handle scrolling to the order after orders are loaded
@@ -1066,6 +1102,7 @@ const VendorDashboard: React.FC = () => {
                   />
                 </>
               )}
+              <Tab label="Promotions" />
               {(isTentBusiness(selectedBusiness) || selectedBusiness.businessCategory === 'caters') && (
                 <Tab 
                   label="Explore"
@@ -1112,6 +1149,30 @@ const VendorDashboard: React.FC = () => {
                   >
                     Edit
                   </Button>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<ReceiptIcon />}
+                    onClick={() => setTaxSettingsOpen(true)}
+                  >
+                    Tax Settings
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<DepositIcon />}
+                    onClick={() => setDepositSettingsOpen(true)}
+                  >
+                    Deposits
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<BookingRulesIcon />}
+                    onClick={() => setBookingSettingsOpen(true)}
+                  >
+                    Booking Rules
+                  </Button>
                 </Box>
               </Box>
               
@@ -1281,6 +1342,8 @@ const VendorDashboard: React.FC = () => {
         </Grid>
       </Grid>
 
+          <BusinessAnalytics business={selectedBusiness} />
+
           {/* Quick Access Section for Catering Vendors - Orders & Notifications */}
           {selectedBusiness && selectedBusiness.businessCategory === 'caters' && (
             <Box sx={{ mt: 4 }}>
@@ -1588,10 +1651,17 @@ const VendorDashboard: React.FC = () => {
             </Box>
           )}
 
+          {/* Promotions Tab */}
+          {isTabActive('Promotions') && (
+            <PromotionManagement
+              businessId={selectedBusiness.businessId}
+              plates={selectedBusiness.businessCategory === 'caters' ? plates : undefined}
+            />
+          )}
+
           {/* Explore Tab - For tent businesses and catering businesses */}
-          {/* Only show Explore content if activeTab matches Explore tab index (3 for tent, 5 for caters) */}
-          {((isTentBusiness(selectedBusiness) && activeTab === 3) || 
-            (selectedBusiness.businessCategory === 'caters' && activeTab === 5)) && (
+          {/* Only show Explore content if activeTab matches the Explore tab index */}
+          {isTabActive('Explore') && (
             <Box sx={{ textAlign: 'center', py: 4 }}>
               <Typography variant="h5" gutterBottom>
                 Explore Marketplace
@@ -1770,13 +1840,35 @@ const VendorDashboard: React.FC = () => {
                 <Typography variant="body1" color="text.secondary">
                   Manage and track all orders from your customers
                 </Typography>
-                <Button 
-                  variant="outlined" 
-                  onClick={fetchOrdersForBusiness}
-                  disabled={ordersLoading}
-                >
-                  Refresh Orders
-                </Button>
+                <Box display="flex" alignItems="center" gap={2}>
+                  <ToggleButtonGroup
+                    value={ordersView}
+                    exclusive
+                    size="small"
+                    onChange={(_, view) => view && setOrdersView(view)}
+                  >
+                    <ToggleButton value="list">
+                      <ListViewIcon sx={{ mr: 0.5 }} /> List
+                    </ToggleButton>
+                    <ToggleButton value="board">
+                      <BoardViewIcon sx={{ mr: 0.5 }} /> Board
+                    </ToggleButton>
+                  </ToggleButtonGroup>
+                  {ordersView === 'list' && (
+                    <OrderExportMenu
+                      getOrders={() => orders}
+                      fileNamePrefix={toFileNamePart(selectedBusiness.businessName)}
+                      disabled={orders.length === 0}
+                    />
+                  )}
+                  <Button 
+                    variant="outlined" 
+                    onClick={fetchOrdersForBusiness}
+                    disabled={ordersLoading}
+                  >
+                    Refresh Orders
+                  </Button>
+                </Box>
               </Box>
 
               {ordersError && (
@@ -1798,6 +1890,12 @@ const VendorDashboard: React.FC = () => {
                     Orders from customers will appear here once they place them.
                   </Typography>
                 </Paper>
+              ) : ordersView === 'board' ? (
+                <OrderBoard
+                  orders={orders}
+                  onOrdersChanged={fetchOrdersForBusiness}
+                  exportFileName={toFileNamePart(selectedBusiness.businessName)}
+                />
               ) : (
                 <Grid container spacing={3}>
                   {orders.map((order) => (
@@ -1838,6 +1936,7 @@ const VendorDashboard: React.FC = () => {
                                   order.status === 'CONFIRMED' ? 'info' :
                                   order.status === 'PREPARING' ? 'primary' :
                                   order.status === 'READY' ? 'success' :
+                                  order.status === 'SHIPPED' ? 'secondary' :
                                   order.status === 'DELIVERED' ? 'success' :
                                   'error'
                                 }
@@ -1889,56 +1988,27 @@ const VendorDashboard: React.FC = () => {
                               )}
                             </Box>
                             <Box display="flex" gap={1}>
-                              {order.status === 'PENDING' && (
+                              {canIssueInvoice(order) && (
                                 <Button
-                                  variant="contained"
-                                  color="success"
-                                  size="small"
-                                  onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'CONFIRMED')}
-                                >
-                                  Confirm Order
-                                </Button>
-                              )}
-                              {order.status === 'CONFIRMED' && (
-                                <Button
-                                  variant="contained"
-                                  color="primary"
-                                  size="small"
-                                  onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'PREPARING')}
-                                >
-                                  Start Preparing
-                                </Button>
-                              )}
-                              {order.status === 'PREPARING' && (
-                                <Button
-                                  variant="contained"
-                                  color="info"
-                                  size="small"
-                                  onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'READY')}
-                                >
-                                  Mark Ready
-                                </Button>
-                              )}
-                              {order.status === 'READY' && (
-                                <Button
-                                  variant="contained"
-                                  color="success"
+                                  variant="outlined"
                                   size="small"
-                                  onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'DELIVERED')}
+                                  startIcon={<ReceiptIcon />}
+                                  onClick={() => setInvoiceOrder(order)}
                                 >
-                                  Mark Delivered
+                                  Invoice
                                 </Button>
                               )}
-                              {order.status !== 'DELIVERED' && order.status !== 'CANCELLED' && (
+                              {getAllowedTransitions(order.status, 'VENDOR').map(status => (
                                 <Button
-                                  variant="outlined"
-                                  color="error"
+                                  key={status}
+                                  variant={status === 'CANCELLED' ? 'outlined' : 'contained'}
+                                  color={status === 'CANCELLED' ? 'error' : 'primary'}
                                   size="small"
-                                  onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'CANCELLED')}
+                                  onClick={() => handleOrderStatusUpdate(order, status)}
                                 >
-                                  Cancel
+                                  {ORDER_STATUS_ACTIONS[status]}
                                 </Button>
-                              )}
+                              ))}
                             </Box>
                           </Box>
                         </CardContent>
@@ -2092,6 +2162,60 @@ const VendorDashboard: React.FC = () => {
         onSuccess={handleBusinessSuccess}
       />
 
+      {/* Tax & Invoice Settings */}
+      {selectedBusiness && (
+        <TaxSettingsForm
+          open={taxSettingsOpen}
+          onClose={() => setTaxSettingsOpen(false)}
+          business={selectedBusiness}
+        />
+      )}
+
+      {/* Deposit Settings */}
+      {selectedBusiness && (
+        <DepositSettingsForm
+          open={depositSettingsOpen}
+          onClose={() => setDepositSettingsOpen(false)}
+          business={selectedBusiness}
+          items={[
+            ...themes.map(theme => ({ id: theme.themeId, type: 'theme' as const, name: theme.themeName })),
+            ...inventory.map(item => ({ id: item.inventoryId, type: 'inventory' as const, name: item.inventoryName })),
+            ...plates.map(plate => ({ id: plate.plateId, type: 'plate' as const, name: plate.dishName })),
+            ...dishes.map(dish => ({ id: dish.dishId, type: 'dish' as const, name: dish.dishName })),
+          ]}
+        />
+      )}
+
+      {/* Booking Rules */}
+      {selectedBusiness && (
+        <BookingSettingsForm
+          open={bookingSettingsOpen}
+          onClose={() => setBookingSettingsOpen(false)}
+          business={selectedBusiness}
+          items={[
+            ...themes.map(theme => ({ id: theme.themeId, type: 'theme' as const, name: theme.themeName })),
+            ...inventory.map(item => ({ id: item.inventoryId, type: 'inventory' as const, name: item.inventoryName })),
+            ...plates.map(plate => ({ id: plate.plateId, type: 'plate' as const, name: plate.dishName })),
+            ...dishes.map(dish => ({ id: dish.dishId, type: 'dish' as const, name: dish.dishName })),
+          ]}
+        />
+      )}
+
+      {/* Tax Invoice Dialog */}
+      <InvoiceDialog
+        open={!!invoiceOrder}
+        onClose={() => setInvoiceOrder(null)}
+        order={invoiceOrder}
+        businessId={selectedBusiness?.businessId}
+      />
+
+      <CancelOrderDialog
+        open={!!cancelOrder}
+        onClose={() => setCancelOrder(null)}
+        order={cancelOrder}
+        onCancelled={() => fetchOrdersForBusiness()}
+      />
+
       {/* Inventory Management Form */}
       {selectedBusiness && (
         <InventoryManagementForm
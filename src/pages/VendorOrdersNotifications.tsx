@@ -19,21 +19,58 @@ import {
   Avatar,
   Tabs,
   Tab,
+  ToggleButton,
+  ToggleButtonGroup,
+  TablePagination,
 } from '@mui/material';
 import {
   Notifications as NotificationIcon,
   ShoppingCart as ShoppingCartIcon,
   Refresh as RefreshIcon,
+  Receipt as ReceiptIcon,
+  ViewList as ListViewIcon,
+  ViewKanban as BoardViewIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import { useVendorNotifications } from '../contexts/VendorNotificationContext';
 import { useNavigate, useLocation } from 'react-router-dom';
 import orderService from '../services/orderService';
 import { BusinessService } from '../services/businessService';
-import { Order } from '../types/cart';
+import { ItemFulfilmentStatus, Order, OrderItemResponse } from '../types/cart';
 import { Notification } from '../types/notification';
 import { Business } from '../types';
 import { getOrderDisplayTitle } from '../utils/orderDisplay';
+import { canIssueInvoice } from '../utils/gstUtils';
+import InvoiceDialog from '../components/InvoiceDialog';
+import CancelOrderDialog from '../components/CancelOrderDialog';
+import RentalReturnDialog from '../components/RentalReturnDialog';
+import OrderBoard from '../components/OrderBoard';
+import OrderSearchBar from '../components/OrderSearchBar';
+import OrderExportMenu from '../components/OrderExportMenu';
+import CalendarExportButton from '../components/CalendarExportButton';
+import { toFileNamePart } from '../utils/csvUtils';
+import { useOrderSearchParams } from '../hooks/useOrderSearchParams';
+import { ORDER_PAGE_SIZES, hasOrderSearchFilters } from '../utils/orderSearchUtils';
+import rentalReturnService from '../services/rentalReturnService';
+import { RentalReturn } from '../types/rentalReturn';
+import {
+  RENTAL_RETURN_STATE_LABELS,
+  getRentalReturnStateColor,
+  isRentalItem,
+  summarizeRentalReturns,
+} from '../utils/rentalReturnUtils';
+import { ORDER_STATUS_ACTIONS, getAllowedTransitions, getOrderActor, requiresReason } from '../utils/orderStatusUtils';
+import {
+  FULFILMENT_STATUS_ACTIONS,
+  FULFILMENT_STATUS_LABELS,
+  getFulfilmentStatusColor,
+  getItemFulfilmentStatus,
+  getNextFulfilmentStatus,
+} from '../utils/fulfilmentUtils';
+import OrderChangeRequestSummary from '../components/OrderChangeRequestSummary';
+import orderChangeService from '../services/orderChangeService';
+import { OrderChangeRequest } from '../types/orderChange';
+import { roundCurrency } from '../utils/promotionUtils';
 import { Select, MenuItem, FormControl, InputLabel } from '@mui/material';
 
 const VendorOrdersNotifications: React.FC = () => {
@@ -48,17 +85,29 @@ const VendorOrdersNotifications: React.FC = () => {
   } = useVendorNotifications();
   const navigate = useNavigate();
   const location = useLocation();
+  const { query, searchKey, updateQuery, clearFilters } = useOrderSearchParams();
   const [orders, setOrders] = useState<Order[]>([]);
+  const [orderTotal, setOrderTotal] = useState(0);
   const [loading, setLoading] = useState(true);
   const [loadingOrders, setLoadingOrders] = useState(false);
+  const [ordersView, setOrdersView] = useState<'list' | 'board'>('list');
+  const [boardOrders, setBoardOrders] = useState<Order[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [businessId, setBusinessId] = useState<string | null>(null);
   const [businesses, setBusinesses] = useState<Business[]>([]);
   const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
-  const [activeTab, setActiveTab] = useState(0); // 0 = Notifications, 1 = Orders
+  // 0 = Notifications, 1 = Orders; a link with an order search opens straight on Orders
+  const [activeTab, setActiveTab] = useState(searchKey ? 1 : 0);
   const [highlightedNotificationId, setHighlightedNotificationId] = useState<number | null>(null);
   const [orderToScrollTo, setOrderToScrollTo] = useState<string | null>(null);
   const [savedScrollPosition, setSavedScrollPosition] = useState<number | null>(null);
+  const [invoiceOrder, setInvoiceOrder] = useState<Order | null>(null);
+  const [cancelOrder, setCancelOrder] = useState<Order | null>(null);
+  const [updatingItemId, setUpdatingItemId] = useState<number | null>(null);
+  const [rentalReturns, setRentalReturns] = useState<RentalReturn[]>([]);
+  const [returnLine, setReturnLine] = useState<{ order: Order; item: OrderItemResponse } | null>(null);
+  const [changeRequests, setChangeRequests] = useState<OrderChangeRequest[]>([]);
+  const [respondingRequestId, setRespondingRequestId] = useState<string | null>(null);
 
   useEffect(() => {
     if (user?.phoneNumber) {
@@ -196,9 +245,35 @@ const VendorOrdersNotifications: React.FC = () => {
     try {
       setLoadingOrders(true);
       setError(null);
-      const ordersData = await orderService.getOrdersByBusinessId(businessIdParam);
-      setOrders(ordersData);
+      const orderPage = await orderService.searchOrders(query, { businessId: businessIdParam });
+      setOrders(orderPage.content);
+      setOrderTotal(orderPage.totalElements);
       setBusinessId(businessIdParam);
+      await fetchChangeRequests(businessIdParam);
+      await fetchRentalReturns(businessIdParam);
+    } catch (err: any) {
+      console.error('Error fetching orders:', err);
+      setError(err.message || 'Failed to fetch orders');
+    } finally {
+      setLoadingOrders(false);
+    }
+  };
+
+  useEffect(() => {
+    if (businessId && ordersView === 'list') {
+      fetchOrders(businessId);
+    }
+  }, [searchKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // The board shows the orders of every business, so they can be filtered by business
+  const fetchBoardOrders = async () => {
+    try {
+      setLoadingOrders(true);
+      setError(null);
+      const ordersByBusiness = await Promise.all(
+        businesses.map(business => orderService.getOrdersByBusinessId(business.businessId))
+      );
+      setBoardOrders(ordersByBusiness.flat());
     } catch (err: any) {
       console.error('Error fetching orders:', err);
       setError(err.message || 'Failed to fetch orders');
@@ -207,6 +282,57 @@ const VendorOrdersNotifications: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    if (ordersView === 'board' && businesses.length > 0) {
+      fetchBoardOrders();
+    }
+  }, [ordersView, businesses]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchChangeRequests = async (businessIdParam: string) => {
+    try {
+      const requests = await orderChangeService.getChangeRequestsByBusinessId(businessIdParam, user?.phoneNumber);
+      setChangeRequests(requests.filter(request => request.status === 'PENDING'));
+    } catch (err: any) {
+      // Orders are still usable without their change requests
+      console.error('Error fetching change requests:', err);
+      setChangeRequests([]);
+    }
+  };
+
+  const fetchRentalReturns = async (businessIdParam: string) => {
+    try {
+      setRentalReturns(await rentalReturnService.getReturnsByBusinessId(businessIdParam, user?.phoneNumber));
+    } catch (err: any) {
+      // Orders are still usable without their rental returns
+      console.error('Error fetching rental returns:', err);
+      setRentalReturns([]);
+    }
+  };
+
+  const handleChangeRequestResponse = async (request: OrderChangeRequest, status: 'APPROVED' | 'REJECTED') => {
+    let vendorNote: string | undefined;
+    if (status === 'REJECTED') {
+      const note = window.prompt('Let the customer know why the change was rejected (optional):');
+      if (note === null) {
+        return;
+      }
+      vendorNote = note.trim() || undefined;
+    }
+
+    setRespondingRequestId(request.requestId);
+    try {
+      await orderChangeService.respondToChangeRequest(request, status, vendorNote, user?.phoneNumber);
+      if (businessId) {
+        await fetchOrders(businessId);
+      }
+    } catch (err: any) {
+      console.error('Error responding to change request:', err);
+      setError(err.message || 'Failed to respond to the change request');
+    } finally {
+      setRespondingRequestId(null);
+    }
+  };
+
   const handleMarkNotificationAsRead = async (notificationId: number) => {
     try {
       await markNotificationAsRead(notificationId);
@@ -223,7 +349,14 @@ const VendorOrdersNotifications: React.FC = () => {
     }
   };
 
-  const handleOrderStatusUpdate = async (orderId: string, newStatus: Order['status']) => {
+  const handleOrderStatusUpdate = async (order: Order, newStatus: Order['status']) => {
+    // Cancelling needs a reason, which the cancel dialog asks for
+    if (requiresReason(newStatus)) {
+      setCancelOrder(order);
+      return;
+    }
+
+    const orderId = order.orderId.toString();
     try {
       // Get the order element's position BEFORE updating
       const orderElement = document.getElementById(`order-${orderId}`);
@@ -240,7 +373,7 @@ const VendorOrdersNotifications: React.FC = () => {
       
       // Store the order ID to scroll to after refresh
       setOrderToScrollTo(orderId);
-      await orderService.updateOrderStatus(orderId, newStatus);
+      await orderService.updateOrderStatus(order, newStatus, getOrderActor(user));
       if (businessId) {
         await fetchOrders(businessId);
         // The useEffect will handle scrolling to the order after orders are loaded
@@ -253,12 +386,28 @@ const VendorOrdersNotifications: React.FC = () => {
     }
   };
 
+  const handleItemFulfilmentUpdate = async (order: Order, item: OrderItemResponse, status: ItemFulfilmentStatus) => {
+    setUpdatingItemId(item.orderItemId);
+    try {
+      await orderService.updateItemFulfilment(order, item.orderItemId, status, getOrderActor(user));
+      if (businessId) {
+        await fetchOrders(businessId);
+      }
+    } catch (err: any) {
+      console.error('Error updating item fulfilment:', err);
+      setError(err.message || 'Failed to update item progress');
+    } finally {
+      setUpdatingItemId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'PENDING': return 'warning';
       case 'CONFIRMED': return 'info';
       case 'PREPARING': return 'primary';
       case 'READY': return 'success';
+      case 'SHIPPED': return 'secondary';
       case 'DELIVERED': return 'success';
       case 'CANCELLED': return 'error';
       default: return 'default';
@@ -479,7 +628,7 @@ const VendorOrdersNotifications: React.FC = () => {
             <Typography variant="h5" component="h2">
               Orders
             </Typography>
-            {businesses.length > 1 && (
+            {businesses.length > 1 && ordersView === 'list' && (
               <FormControl size="small" sx={{ minWidth: 200 }}>
                 <InputLabel>Select Business</InputLabel>
                 <Select
@@ -502,24 +651,64 @@ const VendorOrdersNotifications: React.FC = () => {
                 </Select>
               </FormControl>
             )}
-            {selectedBusiness && (
+            {selectedBusiness && ordersView === 'list' && (
               <Typography variant="body2" color="text.secondary">
                 {selectedBusiness.businessName}
               </Typography>
             )}
           </Box>
-          {businessId && (
-            <Button 
-              variant="outlined" 
-              onClick={() => fetchOrders(businessId)}
-              disabled={loadingOrders}
+          <Box display="flex" alignItems="center" gap={2}>
+            <ToggleButtonGroup
+              value={ordersView}
+              exclusive
+              size="small"
+              onChange={(_, view) => view && setOrdersView(view)}
             >
-              Refresh Orders
-            </Button>
-          )}
+              <ToggleButton value="list">
+                <ListViewIcon sx={{ mr: 0.5 }} /> List
+              </ToggleButton>
+              <ToggleButton value="board">
+                <BoardViewIcon sx={{ mr: 0.5 }} /> Board
+              </ToggleButton>
+            </ToggleButtonGroup>
+            {ordersView === 'board' && businesses.length > 0 ? (
+              <Button variant="outlined" onClick={fetchBoardOrders} disabled={loadingOrders}>
+                Refresh Orders
+              </Button>
+            ) : businessId && (
+              <>
+                <OrderExportMenu
+                  getOrders={() => orderService.searchAllOrders(query, { businessId })}
+                  fileNamePrefix={toFileNamePart(selectedBusiness?.businessName || 'orders')}
+                  disabled={orderTotal === 0}
+                />
+                {selectedBusiness && <CalendarExportButton business={selectedBusiness} />}
+                <Button 
+                  variant="outlined" 
+                  onClick={() => fetchOrders(businessId)}
+                  disabled={loadingOrders}
+                >
+                  Refresh Orders
+                </Button>
+              </>
+            )}
+          </Box>
         </Box>
 
-        {!businessId ? (
+        {ordersView === 'board' && businesses.length > 0 ? (
+          loadingOrders && boardOrders.length === 0 ? (
+            <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+              <CircularProgress />
+            </Box>
+          ) : (
+            <OrderBoard
+              orders={boardOrders}
+              businesses={businesses}
+              onOrdersChanged={fetchBoardOrders}
+              exportFileName="all-businesses"
+            />
+          )
+        ) : !businessId ? (
           <Paper sx={{ p: 4, textAlign: 'center' }}>
             <ShoppingCartIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
             <Typography variant="h6" color="text.secondary" gutterBottom>
@@ -543,162 +732,258 @@ const VendorOrdersNotifications: React.FC = () => {
               </Button>
             )}
           </Paper>
-        ) : loadingOrders ? (
-          <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
-            <CircularProgress />
-          </Box>
-        ) : orders.length === 0 ? (
-          <Paper sx={{ p: 4, textAlign: 'center' }}>
-            <Typography variant="h6" color="text.secondary" gutterBottom>
-              No orders yet
-            </Typography>
-            <Typography variant="body2" color="text.secondary">
-              Orders from customers will appear here once they place them.
-            </Typography>
-          </Paper>
         ) : (
-          <Grid container spacing={3}>
-            {orders.map((order) => (
-              <Grid item xs={12} key={order.orderId} id={`order-${order.orderId}`}>
-                <Card>
-                  <CardContent>
-                    <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
-                      <Box>
-                        <Box display="flex" alignItems="center" gap={1} mb={1}>
-                          <Typography variant="h6">
-                            {getOrderDisplayTitle(order)}
-                          </Typography>
-                          {new Date(order.orderDate).getTime() > Date.now() - 24 * 60 * 60 * 1000 && (
-                            <Chip 
-                              label="NEW" 
-                              color="primary" 
-                              size="small"
-                              sx={{ fontWeight: 'bold' }}
-                            />
-                          )}
-                        </Box>
-                        <Typography variant="body2" color="text.secondary">
-                          Customer: {order.customerName}
-                        </Typography>
-                        <Typography variant="body2" color="text.secondary">
-                          Email: {order.customerEmail}
-                        </Typography>
-                        <Typography variant="body2" color="text.secondary">
-                          Phone: {order.customerPhone}
-                        </Typography>
-                      </Box>
-                      <Box textAlign="right">
-                        <Chip 
-                          label={order.status} 
-                          color={getStatusColor(order.status) as any}
-                          sx={{ mb: 1 }}
-                        />
-                        <Typography variant="h6" color="primary">
-                          ₹{order.totalAmount}
-                        </Typography>
-                      </Box>
-                    </Box>
-
-                    <Divider sx={{ my: 2 }} />
-
-                    <Typography variant="subtitle2" gutterBottom>
-                      Order Items:
-                    </Typography>
-                    {order.orderItems?.map((item, index) => (
-                      <Box key={index} display="flex" justifyContent="space-between" alignItems="center" mb={1}>
-                        <Box>
-                          <Typography variant="body2">
-                            {item.itemName} ({item.itemType})
-                          </Typography>
-                          <Typography variant="caption" color="text.secondary">
-                            Qty: {item.quantity} × ₹{item.itemPrice}
-                          </Typography>
-                        </Box>
-                        <Typography variant="body2" fontWeight="bold">
-                          ₹{item.itemPrice * item.quantity}
-                        </Typography>
-                      </Box>
-                    ))}
+          <>
+            <OrderSearchBar query={query} onChange={updateQuery} onClear={clearFilters} showCustomer />
+            {loadingOrders ? (
+              <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+                <CircularProgress />
+              </Box>
+            ) : orders.length === 0 ? (
+              <Paper sx={{ p: 4, textAlign: 'center' }}>
+                <Typography variant="h6" color="text.secondary" gutterBottom>
+                  {hasOrderSearchFilters(query) ? 'No orders found' : 'No orders yet'}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {hasOrderSearchFilters(query)
+                    ? 'No orders match your filters.'
+                    : 'Orders from customers will appear here once they place them.'}
+                </Typography>
+              </Paper>
+            ) : (
+              <>
+                <Grid container spacing={3}>
+                  {orders.map((order) => (
+                    <Grid item xs={12} key={order.orderId} id={`order-${order.orderId}`}>
+                      <Card>
+                        <CardContent>
+                          <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
+                            <Box>
+                              <Box display="flex" alignItems="center" gap={1} mb={1}>
+                                <Typography variant="h6">
+                                  {getOrderDisplayTitle(order)}
+                                </Typography>
+                                {new Date(order.orderDate).getTime() > Date.now() - 24 * 60 * 60 * 1000 && (
+                                  <Chip 
+                                    label="NEW" 
+                                    color="primary" 
+                                    size="small"
+                                    sx={{ fontWeight: 'bold' }}
+                                  />
+                                )}
+                                {changeRequests.some(request => request.orderId === order.orderId) && (
+                                  <Chip label="CHANGE REQUESTED" color="warning" size="small" />
+                                )}
+                              </Box>
+                              <Typography variant="body2" color="text.secondary">
+                                Customer: {order.customerName}
+                              </Typography>
+                              <Typography variant="body2" color="text.secondary">
+                                Email: {order.customerEmail}
+                              </Typography>
+                              <Typography variant="body2" color="text.secondary">
+                                Phone: {order.customerPhone}
+                              </Typography>
+                            </Box>
+                            <Box textAlign="right">
+                              <Chip 
+                                label={order.status} 
+                                color={getStatusColor(order.status) as any}
+                                sx={{ mb: 1 }}
+                              />
+                              <Typography variant="h6" color="primary">
+                                ₹{order.totalAmount}
+                              </Typography>
+                            </Box>
+                          </Box>
 
-                    <Divider sx={{ my: 2 }} />
+                          <Divider sx={{ my: 2 }} />
 
-                    <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
-                      <Box>
-                        <Typography variant="body2" color="text.secondary">
-                          Order Date: {new Date(order.orderDate).toLocaleString()}
-                        </Typography>
-                        {order.deliveryDate && (
-                          <Typography variant="body2" color="text.secondary">
-                            Delivery Date: {new Date(order.deliveryDate).toLocaleDateString()}
+                          <Typography variant="subtitle2" gutterBottom>
+                            Order Items:
                           </Typography>
-                        )}
-                        {order.specialNotes && (
-                          <Typography variant="body2" color="text.secondary">
-                            Notes: {order.specialNotes}
-                          </Typography>
-                        )}
-                      </Box>
-                      <Box display="flex" gap={1}>
-                        {order.status === 'PENDING' && (
-                          <Button
-                            variant="contained"
-                            color="success"
-                            size="small"
-                            onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'CONFIRMED')}
-                          >
-                            Confirm Order
-                          </Button>
-                        )}
-                        {order.status === 'CONFIRMED' && (
-                          <Button
-                            variant="contained"
-                            color="primary"
-                            size="small"
-                            onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'PREPARING')}
-                          >
-                            Start Preparing
-                          </Button>
-                        )}
-                        {order.status === 'PREPARING' && (
-                          <Button
-                            variant="contained"
-                            color="info"
-                            size="small"
-                            onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'READY')}
-                          >
-                            Mark Ready
-                          </Button>
-                        )}
-                        {order.status === 'READY' && (
-                          <Button
-                            variant="contained"
-                            color="success"
-                            size="small"
-                            onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'DELIVERED')}
-                          >
-                            Mark Delivered
-                          </Button>
-                        )}
-                        {order.status !== 'DELIVERED' && order.status !== 'CANCELLED' && (
-                          <Button
-                            variant="outlined"
-                            color="error"
-                            size="small"
-                            onClick={() => handleOrderStatusUpdate(order.orderId.toString(), 'CANCELLED')}
-                          >
-                            Cancel
-                          </Button>
-                        )}
-                      </Box>
-                    </Box>
-                  </CardContent>
-                </Card>
-              </Grid>
-            ))}
-          </Grid>
+                          {order.orderItems?.map((item, index) => {
+                            const fulfilmentStatus = getItemFulfilmentStatus(item, order);
+                            const nextStatus = getNextFulfilmentStatus(item, order);
+                            const returnSummary = isRentalItem(item) && order.status !== 'CANCELLED'
+                              ? summarizeRentalReturns(item, order, rentalReturns, new Date().toISOString().slice(0, 10))
+                              : null;
+                            return (
+                              <Box key={index} display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                                <Box>
+                                  <Typography variant="body2">
+                                    {item.itemName} ({item.itemType})
+                                  </Typography>
+                                  <Typography variant="caption" color="text.secondary">
+                                    Qty: {item.quantity} × ₹{item.itemPrice}
+                                    {item.bookingDate && ` · ${new Date(item.bookingDate).toLocaleDateString()}`}
+                                  </Typography>
+                                </Box>
+                                <Box display="flex" alignItems="center" gap={1}>
+                                  {order.status !== 'CANCELLED' && (
+                                    <Chip
+                                      label={FULFILMENT_STATUS_LABELS[fulfilmentStatus]}
+                                      color={getFulfilmentStatusColor(fulfilmentStatus) as any}
+                                      size="small"
+                                      variant="outlined"
+                                    />
+                                  )}
+                                  {returnSummary && returnSummary.state !== 'NOT_DUE' && (
+                                    <Chip
+                                      label={
+                                        returnSummary.state === 'RETURNED'
+                                          ? RENTAL_RETURN_STATE_LABELS.RETURNED
+                                          : `${RENTAL_RETURN_STATE_LABELS[returnSummary.state]} · due ${new Date(returnSummary.expectedReturnDate).toLocaleDateString()}`
+                                      }
+                                      color={getRentalReturnStateColor(returnSummary.state) as any}
+                                      size="small"
+                                      onClick={() => setReturnLine({ order, item })}
+                                    />
+                                  )}
+                                  {returnSummary && ['OUT', 'OVERDUE', 'PARTIALLY_RETURNED'].includes(returnSummary.state) && (
+                                    <Button size="small" onClick={() => setReturnLine({ order, item })}>
+                                      Record Return
+                                    </Button>
+                                  )}
+                                  {/* Rentals are marked returned by recording the return */}
+                                  {nextStatus && !(returnSummary && nextStatus === 'RETURNED') && (
+                                    <Button
+                                      size="small"
+                                      onClick={() => handleItemFulfilmentUpdate(order, item, nextStatus)}
+                                      disabled={updatingItemId === item.orderItemId}
+                                    >
+                                      {updatingItemId === item.orderItemId ? 'Updating...' : FULFILMENT_STATUS_ACTIONS[nextStatus]}
+                                    </Button>
+                                  )}
+                                  <Typography variant="body2" fontWeight="bold">
+                                    ₹{item.itemPrice * item.quantity}
+                                  </Typography>
+                                </Box>
+                              </Box>
+                            );
+                          })}
+
+                          {changeRequests
+                            .filter(request => request.orderId === order.orderId)
+                            .map(request => (
+                              <Box key={request.requestId} mt={2}>
+                                <OrderChangeRequestSummary
+                                  request={request}
+                                  actions={
+                                    <>
+                                      <Button
+                                        variant="contained"
+                                        color="success"
+                                        size="small"
+                                        onClick={() => handleChangeRequestResponse(request, 'APPROVED')}
+                                        disabled={respondingRequestId === request.requestId}
+                                      >
+                                        Approve
+                                      </Button>
+                                      <Button
+                                        variant="outlined"
+                                        color="error"
+                                        size="small"
+                                        onClick={() => handleChangeRequestResponse(request, 'REJECTED')}
+                                        disabled={respondingRequestId === request.requestId}
+                                      >
+                                        Reject
+                                      </Button>
+                                    </>
+                                  }
+                                />
+                                <Typography variant="caption" color="text.secondary">
+                                  New total if approved: ₹{roundCurrency(order.totalAmount + request.priceDifference)}
+                                </Typography>
+                              </Box>
+                            ))}
+
+                          <Divider sx={{ my: 2 }} />
+
+                          <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+                            <Box>
+                              <Typography variant="body2" color="text.secondary">
+                                Order Date: {new Date(order.orderDate).toLocaleString()}
+                              </Typography>
+                              {order.deliveryDate && (
+                                <Typography variant="body2" color="text.secondary">
+                                  Delivery Date: {new Date(order.deliveryDate).toLocaleDateString()}
+                                </Typography>
+                              )}
+                              {order.specialNotes && (
+                                <Typography variant="body2" color="text.secondary">
+                                  Notes: {order.specialNotes}
+                                </Typography>
+                              )}
+                            </Box>
+                            <Box display="flex" gap={1}>
+                              {canIssueInvoice(order) && (
+                                <Button
+                                  variant="outlined"
+                                  size="small"
+                                  startIcon={<ReceiptIcon />}
+                                  onClick={() => setInvoiceOrder(order)}
+                                >
+                                  Invoice
+                                </Button>
+                              )}
+                              {getAllowedTransitions(order.status, 'VENDOR').map(status => (
+                                <Button
+                                  key={status}
+                                  variant={status === 'CANCELLED' ? 'outlined' : 'contained'}
+                                  color={getStatusColor(status) as any}
+                                  size="small"
+                                  onClick={() => handleOrderStatusUpdate(order, status)}
+                                >
+                                  {ORDER_STATUS_ACTIONS[status]}
+                                </Button>
+                              ))}
+                            </Box>
+                          </Box>
+                        </CardContent>
+                      </Card>
+                    </Grid>
+                  ))}
+                </Grid>
+                <TablePagination
+                  component="div"
+                  count={orderTotal}
+                  page={query.page}
+                  onPageChange={(_, page) => updateQuery({ page })}
+                  rowsPerPage={query.size}
+                  rowsPerPageOptions={ORDER_PAGE_SIZES}
+                  onRowsPerPageChange={(e) => updateQuery({ size: parseInt(e.target.value, 10) })}
+                />
+              </>
+            )}
+          </>
         )}
         </Box>
       )}
+
+      {/* Tax Invoice Dialog */}
+      <InvoiceDialog
+        open={!!invoiceOrder}
+        onClose={() => setInvoiceOrder(null)}
+        order={invoiceOrder}
+        businessId={businessId || undefined}
+      />
+
+      <RentalReturnDialog
+        open={!!returnLine}
+        onClose={() => setReturnLine(null)}
+        order={returnLine?.order || null}
+        item={returnLine?.item || null}
+        returns={rentalReturns}
+        onRecorded={() => businessId && fetchOrders(businessId)}
+      />
+
+      <CancelOrderDialog
+        open={!!cancelOrder}
+        onClose={() => setCancelOrder(null)}
+        order={cancelOrder}
+        onCancelled={() => businessId && fetchOrders(businessId)}
+      />
     </Box>
   );
 };
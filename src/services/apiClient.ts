@@ -0,0 +1,154 @@
+import axios, { AxiosError } from 'axios';
+import { AuthError, createApiError } from './apiErrors';
+import { isTokenExpiringWithin } from '../utils/jwtUtils';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Do not try to refresh the token or apply the 401 policy for this request
+    skipAuthRefresh?: boolean;
+    // Set once a request has been replayed after a token refresh
+    _retry?: boolean;
+  }
+}
+
+// Base URL of the REST API, e.g. http://localhost:8080/api
+export const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:8080/api';
+
+// Origin of the backend, used to build URLs for uploaded files (/uploads/...)
+export const SERVER_BASE_URL = API_BASE_URL.replace(/\/api\/?$/, '');
+
+// Refresh proactively when the token has less than this left
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+const PUBLIC_PATHS = ['/login', '/signup'];
+
+type UnauthorizedHandler = (error: AuthError) => void;
+type TokenRefreshedListener = (token: string) => void;
+
+// Default 401 policy: drop the stored session and send the user to the login page
+const defaultUnauthorizedHandler: UnauthorizedHandler = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('user');
+  if (!PUBLIC_PATHS.includes(window.location.pathname)) {
+    window.location.href = '/login';
+  }
+};
+
+let unauthorizedHandler: UnauthorizedHandler = defaultUnauthorizedHandler;
+const tokenRefreshedListeners = new Set<TokenRefreshedListener>();
+
+// Single in-flight refresh shared by every request waiting on a new token
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Override what happens when the session can no longer be recovered (401 and refresh failed).
+ * Returns a function that restores the default policy.
+ */
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler): (() => void) => {
+  unauthorizedHandler = handler;
+  return () => {
+    if (unauthorizedHandler === handler) {
+      unauthorizedHandler = defaultUnauthorizedHandler;
+    }
+  };
+};
+
+/**
+ * Subscribe to token refreshes. Returns an unsubscribe function.
+ */
+export const onTokenRefreshed = (listener: TokenRefreshedListener): (() => void) => {
+  tokenRefreshedListeners.add(listener);
+  return () => {
+    tokenRefreshedListeners.delete(listener);
+  };
+};
+
+// Shared axios instance used by every service
+const apiClient = axios.create({
+  baseURL: API_BASE_URL,
+});
+
+/**
+ * Exchange the current token for a new one.
+ * Concurrent callers share the same request, so the token is refreshed only once.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = apiClient
+      .post('/auth/refresh', null, { skipAuthRefresh: true })
+      .then((response) => {
+        const newToken: string = response.data.token;
+        localStorage.setItem('token', newToken);
+        tokenRefreshedListeners.forEach((listener) => listener(newToken));
+        return newToken;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+const endSession = (error: AuthError) => {
+  unauthorizedHandler(error);
+};
+
+// Attach JWT to every request, refreshing it first if it is about to expire
+apiClient.interceptors.request.use(
+  async (config) => {
+    if (!config.skipAuthRefresh) {
+      const currentToken = localStorage.getItem('token');
+      if (refreshPromise) {
+        // A refresh is already running - wait for it instead of sending a stale token
+        await refreshPromise.catch(() => undefined);
+      } else if (currentToken && isTokenExpiringWithin(currentToken, TOKEN_REFRESH_MARGIN_MS)) {
+        try {
+          await refreshAccessToken();
+        } catch (refreshError) {
+          console.error('Proactive token refresh failed:', refreshError);
+        }
+      }
+    }
+
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => Promise.reject(error)
+);
+
+// Map failures into the ApiError hierarchy; on 401 refresh once and replay the request
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    if (axios.isCancel(error)) {
+      return Promise.reject(error);
+    }
+
+    const apiError = createApiError(error.response?.status, error.response?.data);
+    const config = error.config;
+
+    if (!(apiError instanceof AuthError) || config?.skipAuthRefresh) {
+      return Promise.reject(apiError);
+    }
+
+    if (config && !config._retry && localStorage.getItem('token')) {
+      config._retry = true;
+      try {
+        await refreshAccessToken();
+      } catch (refreshError) {
+        console.error('Token refresh failed, ending session:', refreshError);
+        endSession(apiError);
+        return Promise.reject(apiError);
+      }
+      return apiClient(config);
+    }
+
+    endSession(apiError);
+    return Promise.reject(apiError);
+  }
+);
+
+export default apiClient;
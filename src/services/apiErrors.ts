@@ -0,0 +1,121 @@
+/**
+ * Typed errors raised by the shared API client.
+ * Every failed request is mapped into one of these so callers can branch
+ * with `instanceof` instead of digging through axios/fetch responses.
+ */
+
+export class ApiError extends Error {
+  status?: number;
+  data?: unknown;
+
+  constructor(message: string, status?: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// 401 - missing, invalid or expired token
+export class AuthError extends ApiError {
+  constructor(message = 'Your session has expired. Please log in again.', data?: unknown) {
+    super(message, 401, data);
+    this.name = 'AuthError';
+  }
+}
+
+// 403 - authenticated but not allowed to perform the action
+export class ForbiddenError extends ApiError {
+  constructor(message = 'You are not authorized to perform this action.', data?: unknown) {
+    super(message, 403, data);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// 404 - resource does not exist
+export class NotFoundError extends ApiError {
+  constructor(message = 'The requested resource was not found.', data?: unknown) {
+    super(message, 404, data);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 400 / 422 - request rejected by server-side validation
+export class ValidationError extends ApiError {
+  fieldErrors?: Record<string, string>;
+
+  constructor(message: string, status = 400, data?: unknown, fieldErrors?: Record<string, string>) {
+    super(message, status, data);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// 409 - request conflicts with current server state (e.g. already booked)
+export class ConflictError extends ApiError {
+  constructor(message: string, data?: unknown) {
+    super(message, 409, data);
+    this.name = 'ConflictError';
+  }
+}
+
+// No response at all - server down, CORS or offline
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the server. Please check your connection and try again.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Extract a human readable message from an error response body.
+ * The backend returns either a plain string, `{ error }` or `{ message }`.
+ */
+export const extractErrorMessage = (data: unknown, status?: number): string => {
+  if (typeof data === 'string' && data.trim() !== '') {
+    return data;
+  }
+  if (data && typeof data === 'object') {
+    const body = data as { error?: unknown; message?: unknown };
+    if (typeof body.error === 'string' && body.error) {
+      return body.error;
+    }
+    if (typeof body.message === 'string' && body.message) {
+      return body.message;
+    }
+  }
+  return status ? `HTTP error! status: ${status}` : 'Request failed';
+};
+
+/**
+ * Build the matching ApiError subclass for an HTTP status and response body.
+ */
+export const createApiError = (status: number | undefined, data?: unknown): ApiError => {
+  if (status === undefined) {
+    return new NetworkError();
+  }
+
+  const message = extractErrorMessage(data, status);
+
+  switch (status) {
+    case 400:
+    case 422: {
+      const fieldErrors = data && typeof data === 'object' && 'errors' in data
+        ? ((data as { errors?: Record<string, string> }).errors)
+        : undefined;
+      return new ValidationError(message, status, data, fieldErrors);
+    }
+    case 401:
+      return new AuthError(message, data);
+    case 403:
+      return new ForbiddenError(message, data);
+    case 404:
+      return new NotFoundError(message, data);
+    case 409:
+      return new ConflictError(message, data);
+    default:
+      return new ApiError(message, status, data);
+  }
+};
@@ -1,50 +1,11 @@
-import axios from 'axios';
 import { LoginRequest, SignupRequest, JwtResponse, AuthUser } from '../types';
-
-const API_BASE_URL = 'http://localhost:8080/api';
-
-// Create axios instance with default config
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add request interceptor to include auth token
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-// Add response interceptor to handle token expiration
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token is invalid or expired, clear storage
-      AuthService.logout();
-      // Only redirect if not already on login page
-      if (window.location.pathname !== '/login' && window.location.pathname !== '/signup') {
-        window.location.href = '/login';
-      }
-    }
-    return Promise.reject(error);
-  }
-);
+import apiClient, { refreshAccessToken } from './apiClient';
+import { decodeJwt } from '../utils/jwtUtils';
 
 export class AuthService {
   // Login user
   static async login(loginData: LoginRequest): Promise<JwtResponse> {
-    const response = await apiClient.post('/auth/signin', loginData);
+    const response = await apiClient.post('/auth/signin', loginData, { skipAuthRefresh: true });
     const jwtResponse = response.data;
     
     // Store token and user data in localStorage (persists across sessions)
@@ -64,7 +25,7 @@ export class AuthService {
 
   // Register user
   static async signup(signupData: SignupRequest): Promise<any> {
-    const response = await apiClient.post('/auth/signup', signupData);
+    const response = await apiClient.post('/auth/signup', signupData, { skipAuthRefresh: true });
     return response.data;
   }
 
@@ -97,27 +58,16 @@ export class AuthService {
 
   // Validate token by checking if it's expired
   static isTokenValid(token: string): boolean {
-    try {
-      // Decode JWT token to check expiration
-      const base64Url = token.split('.')[1];
-      const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-      const jsonPayload = decodeURIComponent(
-        atob(base64)
-          .split('')
-          .map((c) => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
-          .join('')
-      );
-      const decoded = JSON.parse(jsonPayload);
-      
-      // Check if token is expired
-      if (decoded.exp && decoded.exp * 1000 < Date.now()) {
-        return false; // Token is expired
-      }
-      return true; // Token is valid
-    } catch (error) {
-      console.error('Error validating token:', error);
+    const decoded = decodeJwt(token);
+    if (!decoded) {
       return false; // Invalid token format
     }
+
+    // Check if token is expired
+    if (decoded.exp && decoded.exp * 1000 < Date.now()) {
+      return false; // Token is expired
+    }
+    return true; // Token is valid
   }
 
   // Validate current stored token
@@ -147,12 +97,9 @@ export class AuthService {
     return response.data.exists;
   }
 
-  // Refresh token (if needed in future)
+  // Exchange the stored token for a fresh one (shared with the API client's 401 handling)
   static async refreshToken(): Promise<string> {
-    const response = await apiClient.post('/auth/refresh');
-    const newToken = response.data.token;
-    localStorage.setItem('token', newToken);
-    return newToken;
+    return refreshAccessToken();
   }
 }
 
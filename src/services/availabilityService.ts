@@ -1,68 +1,63 @@
-import { Availability, AvailabilityRequest, CheckAvailabilityRequest, AvailabilityCheckResponse, AvailableQuantityResponse } from '../types/availability';
-
-const API_BASE_URL = 'http://localhost:8080/api/availability';
+import {
+  Availability,
+  AvailabilityHold,
+  AvailabilityHoldRequest,
+  AvailabilityRequest,
+  AvailabilityRule,
+  AvailabilityRuleRequest,
+  CheckAvailabilityRequest,
+  AvailabilityCheckResponse,
+  AvailableQuantityResponse,
+  BookingSettings,
+} from '../types/availability';
+import apiClient from './apiClient';
+import { NotFoundError } from './apiErrors';
+import { getCartHolderId } from '../utils/holdUtils';
+
+const AVAILABILITY_PATH = '/availability';
+const AVAILABILITY_RULES_PATH = `${AVAILABILITY_PATH}/rules`;
+const AVAILABILITY_HOLDS_PATH = `${AVAILABILITY_PATH}/holds`;
+const BOOKING_SETTINGS_PATH = `${AVAILABILITY_PATH}/booking-settings`;
 
 class AvailabilityService {
-  private getAuthHeaders(): HeadersInit {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
-
   /**
    * Create or update availability for an item
    */
   async createOrUpdateAvailability(request: AvailabilityRequest): Promise<Availability> {
-    const response = await fetch(API_BASE_URL, {
-      method: 'POST',
-      headers: this.getAuthHeaders(),
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to create/update availability');
-    }
+    const response = await apiClient.post(AVAILABILITY_PATH, request);
+    return response.data;
+  }
 
-    return response.json();
+  /**
+   * Create or update availability for many dates in one request
+   */
+  async bulkCreateOrUpdateAvailability(requests: AvailabilityRequest[]): Promise<Availability[]> {
+    if (requests.length === 0) return [];
+    const response = await apiClient.post(`${AVAILABILITY_PATH}/bulk`, requests);
+    return response.data;
   }
 
   /**
    * Get availability for an item on a specific date
    */
   async getAvailability(itemId: string, itemType: string, date: string): Promise<Availability | null> {
-    const response = await fetch(`${API_BASE_URL}/item/${itemId}/type/${itemType}/date/${date}`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (response.status === 404) {
-      return null;
-    }
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to get availability');
+    try {
+      const response = await apiClient.get(`${AVAILABILITY_PATH}/item/${itemId}/type/${itemType}/date/${date}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
     }
-
-    return response.json();
   }
 
   /**
    * Get all availabilities for an item
    */
   async getAvailabilitiesForItem(itemId: string, itemType: string): Promise<Availability[]> {
-    const response = await fetch(`${API_BASE_URL}/item/${itemId}/type/${itemType}`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to get availabilities');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${AVAILABILITY_PATH}/item/${itemId}/type/${itemType}`);
+    return response.data;
   }
 
   /**
@@ -74,103 +69,150 @@ class AvailabilityService {
     startDate: string,
     endDate: string
   ): Promise<Availability[]> {
-    const response = await fetch(
-      `${API_BASE_URL}/item/${itemId}/type/${itemType}/range?startDate=${startDate}&endDate=${endDate}`,
-      {
-        headers: this.getAuthHeaders(),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to get availabilities');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${AVAILABILITY_PATH}/item/${itemId}/type/${itemType}/range`, {
+      params: { startDate, endDate },
+    });
+    return response.data;
   }
 
   /**
    * Get all availabilities for a business
    */
   async getAvailabilitiesForBusiness(businessId: string): Promise<Availability[]> {
-    const response = await fetch(`${API_BASE_URL}/business/${businessId}`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to get availabilities');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${AVAILABILITY_PATH}/business/${businessId}`);
+    return response.data;
   }
 
   /**
-   * Check if an item is available on a specific date
+   * Check if an item is available on a specific date.
+   * Other carts' holds count against it; this cart's own holds do not.
    */
   async checkAvailability(request: CheckAvailabilityRequest): Promise<boolean> {
-    const response = await fetch(`${API_BASE_URL}/check`, {
-      method: 'POST',
-      headers: this.getAuthHeaders(),
-      body: JSON.stringify(request),
+    const response = await apiClient.post<AvailabilityCheckResponse>(`${AVAILABILITY_PATH}/check`, {
+      holderId: getCartHolderId(),
+      ...request,
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to check availability');
-    }
-
-    const data: AvailabilityCheckResponse = await response.json();
-    return data.isAvailable;
+    return response.data.isAvailable;
   }
 
   /**
-   * Get available quantity for an item on a specific date
+   * Get available quantity for an item on a specific date, less what other carts are holding
    */
   async getAvailableQuantity(itemId: string, itemType: string, date: string): Promise<number> {
-    const response = await fetch(`${API_BASE_URL}/item/${itemId}/type/${itemType}/date/${date}/quantity`, {
-      headers: this.getAuthHeaders(),
-    });
+    const response = await apiClient.get<AvailableQuantityResponse>(
+      `${AVAILABILITY_PATH}/item/${itemId}/type/${itemType}/date/${date}/quantity`,
+      { params: { holderId: getCartHolderId() } }
+    );
+    return response.data.availableQuantity;
+  }
+
+  /**
+   * Hold units of an item on a date for a cart while it checks out.
+   * Replaces the holder's existing hold on the same item and date, so a changed quantity or a renewal
+   * is placed again without releasing the old hold first.
+   * Fails with a ConflictError when not enough are left.
+   */
+  async placeHold(request: AvailabilityHoldRequest): Promise<AvailabilityHold> {
+    const response = await apiClient.post(AVAILABILITY_HOLDS_PATH, request);
+    return response.data;
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to get available quantity');
+  /**
+   * Give held units back before the hold expires
+   */
+  async releaseHold(holdId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${AVAILABILITY_HOLDS_PATH}/${holdId}`);
+    } catch (error) {
+      // Already expired or used by an order
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
     }
+  }
 
-    const data: AvailableQuantityResponse = await response.json();
-    return data.availableQuantity;
+  /**
+   * Give back every hold of a cart, e.g. on logout
+   */
+  async releaseHolderHolds(holderId: string): Promise<void> {
+    await apiClient.delete(`${AVAILABILITY_HOLDS_PATH}/holder/${holderId}`);
   }
 
   /**
    * Delete availability for an item on a specific date
    */
   async deleteAvailability(itemId: string, itemType: string, date: string): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/item/${itemId}/type/${itemType}/date/${date}`, {
-      method: 'DELETE',
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to delete availability');
-    }
+    await apiClient.delete(`${AVAILABILITY_PATH}/item/${itemId}/type/${itemType}/date/${date}`);
   }
 
   /**
    * Delete all availabilities for an item
    */
   async deleteAllAvailabilitiesForItem(itemId: string, itemType: string): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/item/${itemId}/type/${itemType}`, {
-      method: 'DELETE',
-      headers: this.getAuthHeaders(),
-    });
+    await apiClient.delete(`${AVAILABILITY_PATH}/item/${itemId}/type/${itemType}`);
+  }
+
+  /**
+   * Get the availability rules kept for an item
+   */
+  async getRulesForItem(itemId: string, itemType: string): Promise<AvailabilityRule[]> {
+    try {
+      const response = await apiClient.get(`${AVAILABILITY_RULES_PATH}/item/${itemId}/type/${itemType}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Keep a new availability rule; this does not apply it to any dates
+   */
+  async createRule(request: AvailabilityRuleRequest): Promise<AvailabilityRule> {
+    const response = await apiClient.post(AVAILABILITY_RULES_PATH, request);
+    return response.data;
+  }
+
+  /**
+   * Update a kept availability rule; this does not apply it to any dates
+   */
+  async updateRule(ruleId: string, request: AvailabilityRuleRequest): Promise<AvailabilityRule> {
+    const response = await apiClient.put(`${AVAILABILITY_RULES_PATH}/${ruleId}`, request);
+    return response.data;
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to delete availabilities');
+  /**
+   * Delete an availability rule; dates it has already set are left as they are
+   */
+  async deleteRule(ruleId: string): Promise<void> {
+    await apiClient.delete(`${AVAILABILITY_RULES_PATH}/${ruleId}`);
+  }
+
+  /**
+   * Get the booking constraints of a business.
+   * Returns null if the vendor has not set any, meaning only past dates are refused.
+   */
+  async getBookingSettings(businessId: string): Promise<BookingSettings | null> {
+    try {
+      const response = await apiClient.get(`${BOOKING_SETTINGS_PATH}/${businessId}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
     }
   }
+
+  /**
+   * Save the booking constraints of a business; the server enforces them when orders are placed
+   */
+  async saveBookingSettings(settings: BookingSettings): Promise<BookingSettings> {
+    const response = await apiClient.put(`${BOOKING_SETTINGS_PATH}/${settings.businessId}`, settings);
+    return response.data;
+  }
 }
 
 export default new AvailabilityService();
-
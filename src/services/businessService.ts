@@ -1,27 +1,5 @@
-import axios from 'axios';
 import { Business, BusinessFormData } from '../types';
-
-const API_BASE_URL = 'http://localhost:8080/api';
-
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Attach JWT to every request
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers = config.headers || {};
-      (config.headers as any).Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => Promise.reject(error)
-);
+import apiClient from './apiClient';
 
 // Business Service
 export class BusinessService {
@@ -125,6 +103,21 @@ export class BusinessService {
     const response = await apiClient.post('/businesses/geocode', { address });
     return response.data;
   }
+
+  // Geocode several addresses; addresses that cannot be located are left out
+  static async geocodeAddresses(addresses: string[]): Promise<Record<string, { latitude: number; longitude: number }>> {
+    const uniqueAddresses = Array.from(new Set(addresses.filter(address => address && address.trim())));
+    const results = await Promise.allSettled(uniqueAddresses.map(address => this.geocodeAddress(address)));
+    const locations: Record<string, { latitude: number; longitude: number }> = {};
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        locations[uniqueAddresses[index]] = { latitude: result.value.latitude, longitude: result.value.longitude };
+      } else {
+        console.warn(`Could not locate address "${uniqueAddresses[index]}":`, result.reason);
+      }
+    });
+    return locations;
+  }
 }
 
 export default BusinessService;
@@ -0,0 +1,272 @@
+import { format } from 'date-fns';
+import { CartItem, CartItemFlags, CartLineIssue, SavedCart } from '../types/cart';
+import apiClient from './apiClient';
+import { NotFoundError } from './apiErrors';
+import ThemeService from './themeService';
+import InventoryService from './inventoryService';
+import plateService from './plateService';
+import dishService from './dishService';
+import availabilityService from './availabilityService';
+import { BookingConstraints, BookingSettings } from '../types/availability';
+import { getDateViolation, getItemBookingConstraints, getQuantityViolation } from '../utils/bookingRuleUtils';
+
+const CARTS_PATH = '/carts';
+
+class CartService {
+  /**
+   * Get the cart saved on the server for a user
+   */
+  async getSavedCart(userId: string): Promise<SavedCart | null> {
+    try {
+      const response = await apiClient.get(`${CARTS_PATH}/${userId}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save the cart for a user on the server
+   */
+  async saveCart(userId: string, cart: SavedCart): Promise<void> {
+    await apiClient.put(`${CARTS_PATH}/${userId}`, cart);
+  }
+
+  /**
+   * Re-check restored cart items against current prices and availability.
+   * Items whose price changed, whose booking date can no longer be served,
+   * or that were removed by the vendor come back with `flags` set.
+   */
+  async revalidateItems(items: CartItem[]): Promise<CartItem[]> {
+    return Promise.all(items.map(item => this.revalidateItem(item)));
+  }
+
+  /**
+   * Validate every cart line against the vendors' booking constraints, live availability and stock right before checkout.
+   * Returns the problems found; an empty list means the cart can be ordered as-is.
+   */
+  async validateForCheckout(items: CartItem[]): Promise<CartLineIssue[]> {
+    const settings = await this.getBookingSettings(items);
+    const results = await Promise.all(
+      items.map(item => this.validateLine(item, getItemBookingConstraints(settings[item.businessId], item.id, item.type)))
+    );
+    return results.filter((issue): issue is CartLineIssue => issue !== null);
+  }
+
+  /**
+   * Validate lines against live availability and stock only, e.g. the extra units of an order change.
+   * Returns the problems found; an empty list means the lines can be served.
+   */
+  async validateAvailability(items: CartItem[]): Promise<CartLineIssue[]> {
+    const results = await Promise.all(items.map(item => this.validateLine(item)));
+    return results.filter((issue): issue is CartLineIssue => issue !== null);
+  }
+
+  /**
+   * Booking settings of the vendors of some lines. Settings that fail to load are skipped; the server enforces them too.
+   */
+  async getBookingSettings(items: CartItem[]): Promise<Record<string, BookingSettings | null>> {
+    const businessIds = Array.from(new Set(items.map(item => item.businessId)));
+    const settings = await Promise.all(
+      businessIds.map(businessId =>
+        availabilityService.getBookingSettings(businessId).catch(error => {
+          console.error('Error loading booking settings:', error);
+          return null;
+        })
+      )
+    );
+    return Object.fromEntries(businessIds.map((businessId, index) => [businessId, settings[index]]));
+  }
+
+  // Booking constraints are checked only when given
+  private async validateLine(item: CartItem, constraints?: BookingConstraints): Promise<CartLineIssue | null> {
+    const issue = (
+      code: CartLineIssue['code'],
+      message: string,
+      maxQuantity?: number,
+      minQuantity?: number
+    ): CartLineIssue => ({
+      itemId: item.id,
+      itemType: item.type,
+      code,
+      message,
+      maxQuantity,
+      minQuantity,
+    });
+
+    // Notice, advance window and order size set by the vendor
+    const dateViolation =
+      constraints && item.bookingDate ? getDateViolation(constraints, item.bookingDate, item.name) : null;
+    if (dateViolation) {
+      return issue('BOOKING_DATE_NOT_ALLOWED', dateViolation.message);
+    }
+    const quantityViolation = constraints ? getQuantityViolation(constraints, item.quantity, item.name) : null;
+    if (quantityViolation) {
+      return quantityViolation.code === 'BELOW_MIN_QUANTITY'
+        ? issue('QUANTITY_NOT_ALLOWED', quantityViolation.message, undefined, quantityViolation.quantity)
+        : issue('QUANTITY_NOT_ALLOWED', quantityViolation.message, quantityViolation.quantity);
+    }
+
+    // Date-wise availability set by the vendor
+    if (item.bookingDate && item.type !== 'dish') {
+      const isAvailable = await availabilityService.checkAvailability({
+        itemId: item.id,
+        itemType: item.type,
+        date: item.bookingDate,
+        quantity: item.quantity,
+      });
+      if (!isAvailable) {
+        const availableQuantity = await availabilityService.getAvailableQuantity(item.id, item.type, item.bookingDate);
+        if (availableQuantity <= 0) {
+          return issue('DATE_UNAVAILABLE', `${item.name} is not available on ${item.bookingDate}. Please pick another date.`);
+        }
+        return issue(
+          'INSUFFICIENT_AVAILABILITY',
+          `Only ${availableQuantity} of ${item.name} available on ${item.bookingDate}.`,
+          availableQuantity
+        );
+      }
+    }
+
+    // Overall stock of the item
+    const stock = await this.getStockQuantity(item);
+    if (stock === null) {
+      return issue('ITEM_UNAVAILABLE', `${item.name} is no longer available from the vendor.`);
+    }
+    if (stock !== undefined && stock < item.quantity) {
+      return stock > 0
+        ? issue('INSUFFICIENT_STOCK', `Only ${stock} of ${item.name} left in stock.`, stock)
+        : issue('INSUFFICIENT_STOCK', `${item.name} is out of stock.`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Current stock of an item: null if the item is gone, undefined if the vendor does not track stock
+   */
+  private async getStockQuantity(item: CartItem): Promise<number | null | undefined> {
+    try {
+      switch (item.type) {
+        case 'theme': {
+          const theme = await ThemeService.getThemeById(item.id);
+          return theme.isActive === false ? null : theme.quantity ?? undefined;
+        }
+        case 'inventory': {
+          const inventory = await InventoryService.getInventoryById(item.id);
+          return inventory.isActive === false ? null : inventory.quantity ?? undefined;
+        }
+        case 'plate': {
+          const plate = await plateService.getPlateById(item.id);
+          return plate.isActive === false ? null : plate.quantity ?? undefined;
+        }
+        case 'dish': {
+          const dish = await dishService.getDishById(item.id);
+          return dish.isAvailable === false ? null : dish.quantity ?? undefined;
+        }
+        default:
+          return undefined;
+      }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async revalidateItem(item: CartItem): Promise<CartItem> {
+    const flags: CartItemFlags = {};
+
+    try {
+      const current = await this.getCurrentPrice(item);
+      if (current === null) {
+        flags.itemUnavailable = true;
+      } else if (Math.abs(current.price - item.price) > 0.005) {
+        flags.priceChanged = {
+          previousPrice: item.price,
+          currentPrice: current.price,
+          currentSelectedDishes: current.selectedDishes,
+        };
+      }
+    } catch (error) {
+      // Could not verify - keep the item as it is rather than flag it wrongly
+      console.error(`Error re-checking price for ${item.type} ${item.id}:`, error);
+    }
+
+    if (item.bookingDate && !flags.itemUnavailable) {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      if (item.bookingDate < today) {
+        flags.dateUnavailable = true;
+      } else if (item.type !== 'dish') {
+        try {
+          const isAvailable = await availabilityService.checkAvailability({
+            itemId: item.id,
+            itemType: item.type,
+            date: item.bookingDate,
+            quantity: item.quantity,
+          });
+          if (!isAvailable) {
+            flags.dateUnavailable = true;
+          }
+        } catch (error) {
+          console.error(`Error re-checking availability for ${item.type} ${item.id}:`, error);
+        }
+      }
+    }
+
+    const { flags: _previousFlags, ...rest } = item;
+    return Object.keys(flags).length > 0 ? { ...rest, flags } : rest;
+  }
+
+  /**
+   * Look up the current unit price of a cart item.
+   * Returns null if the item no longer exists or is inactive.
+   */
+  private async getCurrentPrice(item: CartItem): Promise<{ price: number; selectedDishes?: CartItem['selectedDishes'] } | null> {
+    try {
+      switch (item.type) {
+        case 'theme': {
+          const theme = await ThemeService.getThemeById(item.id);
+          if (theme.isActive === false) return null;
+          return { price: parseFloat(theme.priceRange.replace(/[^\d.]/g, '')) || 0 };
+        }
+        case 'inventory': {
+          const inventory = await InventoryService.getInventoryById(item.id);
+          if (inventory.isActive === false) return null;
+          return { price: inventory.price };
+        }
+        case 'dish': {
+          const dish = await dishService.getDishById(item.id);
+          if (dish.isAvailable === false) return null;
+          return { price: dish.price };
+        }
+        case 'plate': {
+          const plate = await plateService.getPlateById(item.id);
+          if (plate.isActive === false) return null;
+          const selectedDishes = await Promise.all(
+            (item.selectedDishes || []).map(async selected => {
+              const dish = await dishService.getDishById(selected.dishId);
+              return { ...selected, dishPrice: dish.price };
+            })
+          );
+          const dishesTotal = selectedDishes.reduce((sum, dish) => sum + dish.dishPrice * dish.quantity, 0);
+          return { price: plate.price + dishesTotal, selectedDishes };
+        }
+        default:
+          return null;
+      }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+const cartService = new CartService();
+export default cartService;
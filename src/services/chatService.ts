@@ -1,16 +1,9 @@
 import { Chat, ChatMessage, SendMessageRequest } from '../types/chat';
+import apiClient from './apiClient';
 
-const API_BASE_URL = 'http://localhost:8080/api/chat';
+const CHAT_PATH = '/chat';
 
 class ChatService {
-  private getAuthHeaders() {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
-
   async createOrGetChat(
     clientPhone: string,
     vendorPhone: string,
@@ -18,158 +11,78 @@ class ChatService {
     businessName: string,
     orderId?: number
   ): Promise<Chat> {
-    const params = new URLSearchParams({
+    const params: Record<string, string> = {
       clientPhone,
       vendorPhone,
       businessId,
       businessName,
-    });
-    
-    if (orderId) {
-      params.append('orderId', orderId.toString());
-    }
-
-    const response = await fetch(`${API_BASE_URL}/create?${params}`, {
-      method: 'POST',
-      headers: this.getAuthHeaders(),
-    });
+    };
 
-    if (!response.ok) {
-      throw new Error('Failed to create or get chat');
+    if (orderId) {
+      params.orderId = orderId.toString();
     }
 
-    return response.json();
+    const response = await apiClient.post(`${CHAT_PATH}/create`, null, { params });
+    return response.data;
   }
 
   async getChatsByUser(phoneNumber: string): Promise<Chat[]> {
-    const response = await fetch(`${API_BASE_URL}/user/${phoneNumber}`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch chats');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${CHAT_PATH}/user/${phoneNumber}`);
+    return response.data;
   }
 
   async getChatsByClient(clientPhone: string): Promise<Chat[]> {
-    const response = await fetch(`${API_BASE_URL}/client/${clientPhone}`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch client chats');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${CHAT_PATH}/client/${clientPhone}`);
+    return response.data;
   }
 
   async getChatsByVendor(vendorPhone: string): Promise<Chat[]> {
-    const response = await fetch(`${API_BASE_URL}/vendor/${vendorPhone}`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch vendor chats');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${CHAT_PATH}/vendor/${vendorPhone}`);
+    return response.data;
   }
 
   async getChatsByBusiness(businessId: string): Promise<Chat[]> {
-    const response = await fetch(`${API_BASE_URL}/business/${businessId}`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch business chats');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${CHAT_PATH}/business/${businessId}`);
+    return response.data;
   }
 
   async sendMessage(request: SendMessageRequest, senderPhone: string): Promise<ChatMessage> {
-    const params = new URLSearchParams({ senderPhone });
-    
-    const response = await fetch(`${API_BASE_URL}/message?${params}`, {
-      method: 'POST',
-      headers: this.getAuthHeaders(),
-      body: JSON.stringify(request),
+    const response = await apiClient.post(`${CHAT_PATH}/message`, request, {
+      params: { senderPhone },
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to send message');
-    }
-
-    return response.json();
+    return response.data;
   }
 
   async getMessages(chatId: number, phoneNumber: string): Promise<ChatMessage[]> {
-    const params = new URLSearchParams({ phoneNumber });
-    
-    const response = await fetch(`${API_BASE_URL}/${chatId}/messages?${params}`, {
-      headers: this.getAuthHeaders(),
+    const response = await apiClient.get(`${CHAT_PATH}/${chatId}/messages`, {
+      params: { phoneNumber },
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch messages');
-    }
-
-    return response.json();
+    return response.data;
   }
 
   async markMessagesAsRead(chatId: number, phoneNumber: string): Promise<void> {
-    const params = new URLSearchParams({ phoneNumber });
-    
-    const response = await fetch(`${API_BASE_URL}/${chatId}/read?${params}`, {
-      method: 'POST',
-      headers: this.getAuthHeaders(),
+    await apiClient.post(`${CHAT_PATH}/${chatId}/read`, null, {
+      params: { phoneNumber },
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to mark messages as read');
-    }
   }
 
   async getUnreadCount(chatId: number, phoneNumber: string): Promise<number> {
-    const params = new URLSearchParams({ phoneNumber });
-    
-    const response = await fetch(`${API_BASE_URL}/${chatId}/unread-count?${params}`, {
-      headers: this.getAuthHeaders(),
+    const response = await apiClient.get(`${CHAT_PATH}/${chatId}/unread-count`, {
+      params: { phoneNumber },
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get unread count');
-    }
-
-    return response.json();
+    return response.data;
   }
 
   async getTotalUnreadCount(phoneNumber: string): Promise<number> {
-    const response = await fetch(`${API_BASE_URL}/user/${phoneNumber}/total-unread`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to get total unread count');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${CHAT_PATH}/user/${phoneNumber}/total-unread`);
+    return response.data;
   }
 
   async canVendorSendMessage(chatId: number, vendorPhone: string): Promise<boolean> {
-    const params = new URLSearchParams({ vendorPhone });
-    
-    const response = await fetch(`${API_BASE_URL}/${chatId}/can-vendor-send?${params}`, {
-      headers: this.getAuthHeaders(),
+    const response = await apiClient.get(`${CHAT_PATH}/${chatId}/can-vendor-send`, {
+      params: { vendorPhone },
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to check vendor send permission');
-    }
-
-    return response.json();
+    return response.data;
   }
 }
 
@@ -1,47 +1,33 @@
 import { Notification } from '../types/notification';
+import apiClient from './apiClient';
 
-const API_BASE_URL = 'http://localhost:8080/api/client-notifications';
+const CLIENT_NOTIFICATIONS_PATH = '/client-notifications';
 
 class ClientNotificationService {
-  private getAuthHeaders(): HeadersInit {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
-
   async getNotificationsByClient(clientPhone: string): Promise<Notification[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/client/${clientPhone}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-        cache: 'no-cache', // Ensure fresh data
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${CLIENT_NOTIFICATIONS_PATH}/client/${clientPhone}`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching client notifications:', error);
       throw error;
     }
   }
 
-  async getNotificationCount(clientPhone: string): Promise<number> {
+  async getNotificationsWithCount(clientPhone: string): Promise<{ notifications: Notification[]; unreadCount: number }> {
     try {
-      const response = await fetch(`${API_BASE_URL}/client/${clientPhone}/unread-count`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      const response = await apiClient.get(`${CLIENT_NOTIFICATIONS_PATH}/client/${clientPhone}/with-count`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching client notifications with count:', error);
+      throw error;
+    }
+  }
 
-      return await response.json();
+  async getNotificationCount(clientPhone: string): Promise<number> {
+    try {
+      const response = await apiClient.get(`${CLIENT_NOTIFICATIONS_PATH}/client/${clientPhone}/unread-count`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching unread notification count:', error);
       throw error;
@@ -50,14 +36,7 @@ class ClientNotificationService {
 
   async markNotificationAsRead(notificationId: number): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/${notificationId}/mark-read`, {
-        method: 'PUT',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      await apiClient.put(`${CLIENT_NOTIFICATIONS_PATH}/${notificationId}/mark-read`);
     } catch (error) {
       console.error('Error marking notification as read:', error);
       throw error;
@@ -66,14 +45,7 @@ class ClientNotificationService {
 
   async markAllAsRead(clientPhone: string): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/client/${clientPhone}/mark-all-read`, {
-        method: 'PUT',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      await apiClient.put(`${CLIENT_NOTIFICATIONS_PATH}/client/${clientPhone}/mark-all-read`);
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
       throw error;
@@ -82,14 +54,7 @@ class ClientNotificationService {
 
   async deleteNotification(notificationId: number): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/${notificationId}`, {
-        method: 'DELETE',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      await apiClient.delete(`${CLIENT_NOTIFICATIONS_PATH}/${notificationId}`);
     } catch (error) {
       console.error('Error deleting notification:', error);
       throw error;
@@ -98,16 +63,8 @@ class ClientNotificationService {
 
   async getRecentNotifications(clientPhone: string): Promise<Notification[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/client/${clientPhone}/recent`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${CLIENT_NOTIFICATIONS_PATH}/client/${clientPhone}/recent`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching recent notifications:', error);
       throw error;
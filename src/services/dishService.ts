@@ -1,62 +1,33 @@
 import { Dish, DishFormData } from '../types';
+import apiClient from './apiClient';
+import { ForbiddenError } from './apiErrors';
 
-const API_BASE_URL = 'http://localhost:8080/api/dishes';
+const DISHES_PATH = '/dishes';
 
 class DishService {
-  private getAuthHeaders(): HeadersInit {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
+  private getVendorHeaders(vendorPhone?: string): Record<string, string> {
+    return vendorPhone ? { 'X-Vendor-Phone': vendorPhone } : {};
   }
 
   async getAllDishes(): Promise<Dish[]> {
-    const response = await fetch(API_BASE_URL, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    return response.json();
+    const response = await apiClient.get(DISHES_PATH);
+    return response.data;
   }
 
   async getDishById(dishId: string): Promise<Dish> {
-    const response = await fetch(`${API_BASE_URL}/${dishId}`, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${DISHES_PATH}/${dishId}`);
+    return response.data;
   }
 
   async getDishesByBusinessId(businessId: string): Promise<Dish[]> {
     try {
       console.log('🌐 DishService: Fetching dishes for business:', businessId);
-      const response = await fetch(`${API_BASE_URL}/business/${businessId}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      console.log('🌐 DishService: Response status:', response.status, response.statusText);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ DishService: HTTP error! status:', response.status, 'body:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      const response = await apiClient.get(`${DISHES_PATH}/business/${businessId}`);
 
-      const data = await response.json();
+      const data = response.data;
       console.log('✅ DishService: Received', Array.isArray(data) ? data.length : 'non-array', 'dishes');
       if (Array.isArray(data) && data.length > 0) {
-        console.log('📋 DishService: Dishes:', data.map(d => d.dishName || d.dishId));
+        console.log('📋 DishService: Dishes:', data.map((d: Dish) => d.dishName || d.dishId));
       }
       return Array.isArray(data) ? data : [];
     } catch (error) {
@@ -66,85 +37,46 @@ class DishService {
   }
 
   async createDish(dishData: DishFormData, vendorPhone?: string): Promise<Dish> {
-    const headers: HeadersInit = this.getAuthHeaders();
-    if (vendorPhone) {
-      (headers as any)['X-Vendor-Phone'] = vendorPhone;
-    }
-
-    const response = await fetch(API_BASE_URL, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(dishData),
-    });
-
-    if (!response.ok) {
-      if (response.status === 403) {
-        throw new Error('You are not authorized to create dishes.');
-      }
-      const errorText = await response.text();
-      let errorMessage = `HTTP error! status: ${response.status}`;
-      try {
-        const errorJson = JSON.parse(errorText);
-        errorMessage = errorJson.error || errorJson.message || errorMessage;
-      } catch {
-        errorMessage = errorText || errorMessage;
+    try {
+      const response = await apiClient.post(DISHES_PATH, dishData, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+      return response.data;
+    } catch (error) {
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to create dishes.');
       }
-      throw new Error(errorMessage);
+      throw error;
     }
-
-    return response.json();
   }
 
   async updateDish(dishId: string, dishData: DishFormData, vendorPhone?: string): Promise<Dish> {
-    const headers: HeadersInit = this.getAuthHeaders();
-    if (vendorPhone) {
-      (headers as any)['X-Vendor-Phone'] = vendorPhone;
-    }
-
-    const response = await fetch(`${API_BASE_URL}/${dishId}`, {
-      method: 'PUT',
-      headers,
-      body: JSON.stringify(dishData),
-    });
-
-    if (!response.ok) {
-      if (response.status === 403) {
-        throw new Error('You are not authorized to update this dish.');
-      }
-      const errorText = await response.text();
-      let errorMessage = `HTTP error! status: ${response.status}`;
-      try {
-        const errorJson = JSON.parse(errorText);
-        errorMessage = errorJson.error || errorJson.message || errorMessage;
-      } catch {
-        errorMessage = errorText || errorMessage;
+    try {
+      const response = await apiClient.put(`${DISHES_PATH}/${dishId}`, dishData, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+      return response.data;
+    } catch (error) {
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to update this dish.');
       }
-      throw new Error(errorMessage);
+      throw error;
     }
-
-    return response.json();
   }
 
   async deleteDish(dishId: string, vendorPhone?: string): Promise<void> {
-    const headers: HeadersInit = this.getAuthHeaders();
-    if (vendorPhone) {
-      (headers as any)['X-Vendor-Phone'] = vendorPhone;
-    }
-
-    const response = await fetch(`${API_BASE_URL}/${dishId}`, {
-      method: 'DELETE',
-      headers,
-    });
-
-    if (!response.ok) {
-      if (response.status === 403) {
-        throw new Error('You are not authorized to delete this dish.');
+    try {
+      await apiClient.delete(`${DISHES_PATH}/${dishId}`, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+    } catch (error) {
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to delete this dish.');
       }
-      throw new Error(`HTTP error! status: ${response.status}`);
+      throw error;
     }
   }
 }
 
 const dishService = new DishService();
 export default dishService;
-
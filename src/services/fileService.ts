@@ -0,0 +1,31 @@
+import apiClient from './apiClient';
+import { ApiError } from './apiErrors';
+
+export interface FileUploadResponse {
+  success: boolean;
+  filePath: string;
+  message?: string;
+}
+
+// File Service
+export class FileService {
+  // Upload a file to the backend file store
+  static async uploadFile(file: File, category: string, itemId: string): Promise<FileUploadResponse> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('category', category);
+    formData.append('itemId', itemId);
+
+    const response = await apiClient.post<FileUploadResponse>('/files/upload', formData);
+    const uploadResult = response.data;
+
+    if (!uploadResult.success) {
+      console.error('Upload error response:', uploadResult);
+      throw new ApiError(uploadResult.message || 'File upload failed', response.status, uploadResult);
+    }
+
+    return uploadResult;
+  }
+}
+
+export default FileService;
@@ -1,27 +1,6 @@
-import axios from 'axios';
 import { Image, ImageFormData } from '../types';
-
-const API_BASE_URL = 'http://localhost:8080/api';
-
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Attach JWT to every request
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers = config.headers || {};
-      (config.headers as any).Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => Promise.reject(error)
-);
+import apiClient from './apiClient';
+import { ForbiddenError } from './apiErrors';
 
 // Image Service
 export class ImageService {
@@ -37,8 +16,8 @@ export class ImageService {
       const response = await apiClient.post('/images', imageData, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to upload images. Only vendors can upload images.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to upload images. Only vendors can upload images.');
       }
       throw error;
     }
@@ -80,8 +59,8 @@ export class ImageService {
       const response = await apiClient.put(`/images/${imageId}`, imageData, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to update images. Only vendors can update images.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to update images. Only vendors can update images.');
       }
       throw error;
     }
@@ -99,8 +78,8 @@ export class ImageService {
       const response = await apiClient.post(`/images/${imageId}/set-primary`, {}, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to set primary images. Only vendors can set primary images.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to set primary images. Only vendors can set primary images.');
       }
       throw error;
     }
@@ -117,8 +96,8 @@ export class ImageService {
     try {
       await apiClient.delete(`/images/${imageId}`, config);
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to delete images. Only vendors can delete images.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to delete images. Only vendors can delete images.');
       }
       throw error;
     }
@@ -1,27 +1,6 @@
-import axios from 'axios';
-import { Inventory, InventoryFormData, InventoryImage, InventoryImageFormData } from '../types';
-
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:8080/api';
-
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add JWT authentication interceptor
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers = config.headers || {};
-      (config.headers as any).Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => Promise.reject(error)
-);
+import { Inventory, InventoryFormData, InventoryImage, InventoryImageFormData, RentalMovement } from '../types';
+import apiClient from './apiClient';
+import { ForbiddenError, ValidationError } from './apiErrors';
 
 class InventoryService {
   // Inventory CRUD operations
@@ -36,8 +15,8 @@ class InventoryService {
       const response = await apiClient.post('/inventory', inventoryData, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to create products. Only vendors can create products.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to create products. Only vendors can create products.');
       }
       throw error;
     }
@@ -69,8 +48,8 @@ class InventoryService {
       const response = await apiClient.put(`/inventory/${inventoryId}`, inventoryData, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to update this product. You can only update your own products.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to update this product. You can only update your own products.');
       }
       throw error;
     }
@@ -86,13 +65,48 @@ class InventoryService {
     try {
       await apiClient.delete(`/inventory/${inventoryId}`, config);
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to delete this product. Only vendors can delete their own products.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to delete this product. Only vendors can delete their own products.');
       }
       throw error;
     }
   }
 
+  /**
+   * Units of an item in the store now: owned stock less what is out on rent
+   */
+  static getUnitsInStore(inventory: Inventory): number {
+    return inventory.quantity - (inventory.rentedOut || 0);
+  }
+
+  /**
+   * Check a dispatch or return against the stock before anything is written, so the order and the
+   * stock cannot end up out of step
+   * @throws ValidationError when more units would go out than are in the store, come back than are out, or be lost than are owned
+   */
+  static async checkRentalMovement(inventoryId: string, change: RentalMovement): Promise<void> {
+    const { dispatched = 0, returned = 0, lost = 0 } = change;
+    const inventory = await this.getInventoryById(inventoryId);
+    const inStore = Math.max(this.getUnitsInStore(inventory), 0);
+    const rentedOut = inventory.rentedOut || 0;
+
+    if (dispatched > inStore) {
+      throw new ValidationError(
+        `Only ${inStore} of ${inventory.inventoryName} are in the store; ${dispatched - inStore} more are needed to dispatch ${dispatched}.`
+      );
+    }
+    if (returned > rentedOut + dispatched) {
+      throw new ValidationError(
+        `Only ${rentedOut + dispatched} of ${inventory.inventoryName} are out on rent; cannot return ${returned}.`
+      );
+    }
+    if (lost > inventory.quantity) {
+      throw new ValidationError(
+        `Only ${inventory.quantity} of ${inventory.inventoryName} are owned; cannot write off ${lost}.`
+      );
+    }
+  }
+
   static async getInventoryCount(): Promise<number> {
     const response = await apiClient.get('/inventory/count');
     return response.data;
@@ -112,8 +126,8 @@ class InventoryService {
       console.log('Received response:', response.data);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to upload images. Only vendors can upload images.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to upload images. Only vendors can upload images.');
       }
       throw error;
     }
@@ -137,8 +151,8 @@ class InventoryService {
       const response = await apiClient.put(`/inventory/images/${imageId}`, imageData, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to update images. Only vendors can update images.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to update images. Only vendors can update images.');
       }
       throw error;
     }
@@ -154,8 +168,8 @@ class InventoryService {
     try {
       await apiClient.delete(`/inventory/images/${imageId}`, config);
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to delete images. Only vendors can delete images.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to delete images. Only vendors can delete images.');
       }
       throw error;
     }
@@ -172,8 +186,8 @@ class InventoryService {
       const response = await apiClient.put(`/inventory/images/${imageId}/primary`, {}, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to set primary images. Only vendors can set primary images.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to set primary images. Only vendors can set primary images.');
       }
       throw error;
     }
@@ -0,0 +1,145 @@
+import { Order } from '../types/cart';
+import { Invoice, InvoiceDraft, TaxSettings } from '../types/invoice';
+import { RentalReturn } from '../types/rentalReturn';
+import apiClient from './apiClient';
+import { ForbiddenError, NotFoundError } from './apiErrors';
+import BusinessService from './businessService';
+import { buildInvoiceDraft, isInvoiceCurrent } from '../utils/gstUtils';
+
+const INVOICES_PATH = '/invoices';
+const BUSINESSES_PATH = '/businesses';
+
+class InvoiceService {
+  private getVendorHeaders(vendorPhone?: string): Record<string, string> {
+    return vendorPhone ? { 'X-Vendor-Phone': vendorPhone } : {};
+  }
+
+  /**
+   * Get the tax settings of a business.
+   * Returns null if the vendor has not set them up yet.
+   */
+  async getTaxSettings(businessId: string): Promise<TaxSettings | null> {
+    try {
+      const response = await apiClient.get(`${BUSINESSES_PATH}/${businessId}/tax-settings`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      console.error('Error fetching tax settings:', error);
+      throw error;
+    }
+  }
+
+  async saveTaxSettings(settings: TaxSettings, vendorPhone?: string): Promise<TaxSettings> {
+    try {
+      const response = await apiClient.put(`${BUSINESSES_PATH}/${settings.businessId}/tax-settings`, settings, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error saving tax settings:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to change the tax settings of this business.');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Issue the invoice for a vendor's part of an order.
+   * The server assigns the next invoice number of the business; issuing again for the
+   * same order and business returns the invoice already in force, even if the order has changed since.
+   */
+  async issueInvoice(draft: InvoiceDraft): Promise<Invoice> {
+    try {
+      const response = await apiClient.post(INVOICES_PATH, draft);
+      return response.data;
+    } catch (error) {
+      console.error('Error issuing invoice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue the invoice for a vendor's part of an order, reissuing it if the order changed after it was issued
+   */
+  async issueCurrentInvoice(draft: InvoiceDraft): Promise<Invoice> {
+    const issued = await this.issueInvoice(draft);
+    return isInvoiceCurrent(issued, draft) ? issued : this.reissueInvoice(issued, draft);
+  }
+
+  /**
+   * Get the invoice in force for a vendor's part of an order.
+   * Returns null if none has been issued yet.
+   */
+  async getInvoiceForOrder(orderId: number, businessId: string): Promise<Invoice | null> {
+    try {
+      const response = await apiClient.get(`${INVOICES_PATH}/order/${orderId}/business/${businessId}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      console.error('Error fetching invoice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an issued invoice with one for the order as it is now.
+   * The server cancels the old invoice and issues the new one under the next number of the business.
+   */
+  async reissueInvoice(invoice: Invoice, draft: InvoiceDraft): Promise<Invoice> {
+    try {
+      const response = await apiClient.post(`${INVOICES_PATH}/${invoice.invoiceId}/reissue`, draft);
+      return response.data;
+    } catch (error) {
+      console.error('Error reissuing invoice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reissue the invoices already issued for an order whose lines or total changed,
+   * e.g. after an approved change request or a damage charge. Vendors without an invoice are skipped.
+   * @param order Order as it is now
+   * @param rentalReturns Returns recorded for the order, for their damage charges
+   */
+  async reviseIssuedInvoices(order: Order, rentalReturns: RentalReturn[]): Promise<void> {
+    const businessIds = Array.from(new Set((order.orderItems || []).map(item => item.businessId)));
+    await Promise.all(
+      businessIds.map(async businessId => {
+        const invoice = await this.getInvoiceForOrder(order.orderId, businessId);
+        if (!invoice) return;
+        const [business, settings] = await Promise.all([
+          BusinessService.getBusinessById(businessId),
+          this.getTaxSettings(businessId),
+        ]);
+        if (!settings) return;
+        const draft = buildInvoiceDraft(order, business, settings, rentalReturns);
+        if (!isInvoiceCurrent(invoice, draft)) {
+          await this.reissueInvoice(invoice, draft);
+        }
+      })
+    );
+  }
+
+  /**
+   * Download the PDF rendition of an issued invoice
+   */
+  async getInvoicePdf(invoiceId: string): Promise<Blob> {
+    try {
+      const response = await apiClient.get(`${INVOICES_PATH}/${invoiceId}/pdf`, {
+        responseType: 'blob',
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error downloading invoice PDF:', error);
+      throw error;
+    }
+  }
+}
+
+const invoiceService = new InvoiceService();
+export default invoiceService;
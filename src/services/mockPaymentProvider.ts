@@ -0,0 +1,37 @@
+import { PaymentProvider, PaymentRequest, PaymentResult, RefundRequest } from '../types/payment';
+
+const generateTransactionId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+
+/**
+ * Local payment provider for development.
+ * Every charge and refund succeeds after a short delay; nothing leaves the browser.
+ */
+class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+
+  private async settle(prefix: string, amount: number): Promise<PaymentResult> {
+    if (!(amount > 0)) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return {
+      transactionId: generateTransactionId(prefix),
+      amount,
+      processedAt: new Date().toISOString(),
+    };
+  }
+
+  async charge(request: PaymentRequest): Promise<PaymentResult> {
+    console.log(`💳 Mock payment: charging ₹${request.amount} for ${request.reference}`);
+    return this.settle('MOCKPAY', request.amount);
+  }
+
+  async refund(request: RefundRequest): Promise<PaymentResult> {
+    console.log(`💳 Mock payment: refunding ₹${request.amount} of ${request.transactionId}`);
+    return this.settle('MOCKREF', request.amount);
+  }
+}
+
+const mockPaymentProvider = new MockPaymentProvider();
+export default mockPaymentProvider;
@@ -1,29 +1,13 @@
 import { Notification, NotificationCount, NotificationStats } from '../types/notification';
+import apiClient from './apiClient';
 
-const API_BASE_URL = 'http://localhost:8080/api/notifications';
+const NOTIFICATIONS_PATH = '/notifications';
 
 class NotificationService {
-  private getAuthHeaders(): HeadersInit {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
-
   async getNotificationsByVendor(vendorPhone: string): Promise<Notification[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/vendor/${vendorPhone}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-        cache: 'no-cache', // Ensure fresh data on every request
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${NOTIFICATIONS_PATH}/vendor/${vendorPhone}`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching notifications:', error);
       throw error;
@@ -32,16 +16,8 @@ class NotificationService {
 
   async getUnreadNotificationsByVendor(vendorPhone: string): Promise<Notification[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/vendor/${vendorPhone}/unread`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${NOTIFICATIONS_PATH}/vendor/${vendorPhone}/unread`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching unread notifications:', error);
       throw error;
@@ -50,17 +26,8 @@ class NotificationService {
 
   async getNotificationCount(vendorPhone: string): Promise<number> {
     try {
-      const response = await fetch(`${API_BASE_URL}/vendor/${vendorPhone}/count`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-        cache: 'no-cache', // Ensure fresh data on every request
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${NOTIFICATIONS_PATH}/vendor/${vendorPhone}/count`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching notification count:', error);
       throw error;
@@ -69,14 +36,7 @@ class NotificationService {
 
   async markAsRead(notificationId: number): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/${notificationId}/read`, {
-        method: 'PUT',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      await apiClient.put(`${NOTIFICATIONS_PATH}/${notificationId}/read`);
     } catch (error) {
       console.error('Error marking notification as read:', error);
       throw error;
@@ -85,14 +45,7 @@ class NotificationService {
 
   async markAllAsRead(vendorPhone: string): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/vendor/${vendorPhone}/read-all`, {
-        method: 'PUT',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      await apiClient.put(`${NOTIFICATIONS_PATH}/vendor/${vendorPhone}/read-all`);
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
       throw error;
@@ -101,14 +54,7 @@ class NotificationService {
 
   async deleteNotification(notificationId: number): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/${notificationId}`, {
-        method: 'DELETE',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      await apiClient.delete(`${NOTIFICATIONS_PATH}/${notificationId}`);
     } catch (error) {
       console.error('Error deleting notification:', error);
       throw error;
@@ -117,16 +63,8 @@ class NotificationService {
 
   async getNotificationsByBusiness(businessId: string): Promise<Notification[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/business/${businessId}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${NOTIFICATIONS_PATH}/business/${businessId}`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching business notifications:', error);
       throw error;
@@ -135,16 +73,8 @@ class NotificationService {
 
   async getRecentNotifications(vendorPhone: string): Promise<Notification[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/vendor/${vendorPhone}/recent`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${NOTIFICATIONS_PATH}/vendor/${vendorPhone}/recent`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching recent notifications:', error);
       throw error;
@@ -0,0 +1,194 @@
+import { BookingViolation } from '../types/availability';
+import { CartItem, Order } from '../types/cart';
+import { OrderChangeRequest, OrderChangeRequestFormData, OrderLineChange } from '../types/orderChange';
+import apiClient from './apiClient';
+import { ForbiddenError } from './apiErrors';
+import cartService from './cartService';
+import invoiceService from './invoiceService';
+import orderService from './orderService';
+import paymentService from './paymentService';
+import rentalReturnService from './rentalReturnService';
+import { getDateViolation, getItemBookingConstraints, getQuantityViolation } from '../utils/bookingRuleUtils';
+import { summarizePayments } from '../utils/paymentUtils';
+
+const ORDER_CHANGES_PATH = '/order-change-requests';
+
+class OrderChangeService {
+  private getVendorHeaders(vendorPhone?: string): Record<string, string> {
+    return vendorPhone ? { 'X-Vendor-Phone': vendorPhone } : {};
+  }
+
+  /**
+   * Check the requested changes against the vendor's booking constraints, live availability and stock.
+   * A new date or quantity must meet the constraints as a whole line; for stock only what the change adds
+   * is checked, as the quantity already booked stays reserved for the order.
+   * Returns the problems found; an empty list means the vendor can approve the changes.
+   */
+  async validateChanges(order: Order, changes: OrderLineChange[]): Promise<string[]> {
+    const changedLines: { line: CartItem; change: OrderLineChange }[] = [];
+    const linesToCheck: CartItem[] = [];
+
+    changes.forEach(change => {
+      const item = order.orderItems.find(orderItem => orderItem.orderItemId === change.orderItemId);
+      if (!item || change.cancelLine) {
+        return;
+      }
+
+      const line: CartItem = {
+        id: item.itemId,
+        type: item.itemType.toLowerCase() as CartItem['type'],
+        name: item.itemName,
+        description: '',
+        price: item.itemPrice,
+        businessId: item.businessId,
+        businessName: item.businessName,
+        quantity: change.quantity?.to ?? item.quantity,
+        category: '',
+        bookingDate: change.bookingDate?.to ?? item.bookingDate,
+      };
+      changedLines.push({ line, change });
+
+      if (change.bookingDate) {
+        linesToCheck.push(line);
+      } else if (change.quantity && change.quantity.to > change.quantity.from) {
+        linesToCheck.push({ ...line, quantity: change.quantity.to - change.quantity.from });
+      }
+
+      // Dishes added to a plate, or ordered more of, come out of the dish stock
+      change.selectedDishes?.to.forEach(dish => {
+        const before = change.selectedDishes!.from.find(existing => existing.dishId === dish.dishId);
+        const added = dish.quantity * line.quantity - (before ? before.quantity * item.quantity : 0);
+        if (added > 0) {
+          linesToCheck.push({
+            ...line,
+            id: dish.dishId,
+            type: 'dish',
+            name: dish.dishName,
+            price: dish.dishPrice,
+            quantity: added,
+          });
+        }
+      });
+    });
+
+    const settings = await cartService.getBookingSettings(changedLines.map(({ line }) => line));
+    const violations = changedLines.flatMap(({ line, change }) => {
+      const constraints = getItemBookingConstraints(settings[line.businessId], line.id, line.type);
+      return [
+        change.bookingDate ? getDateViolation(constraints, change.bookingDate.to, line.name) : null,
+        change.quantity ? getQuantityViolation(constraints, change.quantity.to, line.name) : null,
+      ].filter((violation): violation is BookingViolation => violation !== null);
+    });
+
+    // The extra units only make up part of a line, so the order size limits were checked above instead
+    const issues = linesToCheck.length > 0 ? await cartService.validateAvailability(linesToCheck) : [];
+    return [...violations.map(violation => violation.message), ...issues.map(issue => issue.message)];
+  }
+
+  async createChangeRequest(requestData: OrderChangeRequestFormData): Promise<OrderChangeRequest> {
+    try {
+      const response = await apiClient.post(ORDER_CHANGES_PATH, requestData);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating order change request:', error);
+      throw error;
+    }
+  }
+
+  async getChangeRequestsByUserId(userId: string): Promise<OrderChangeRequest[]> {
+    try {
+      const response = await apiClient.get(`${ORDER_CHANGES_PATH}/user/${userId}`);
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error) {
+      console.error('Error fetching order change requests:', error);
+      throw error;
+    }
+  }
+
+  async getChangeRequestsByBusinessId(businessId: string, vendorPhone?: string): Promise<OrderChangeRequest[]> {
+    try {
+      const response = await apiClient.get(`${ORDER_CHANGES_PATH}/business/${businessId}`, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error) {
+      console.error('Error fetching business order change requests:', error);
+      throw error;
+    }
+  }
+
+  async withdrawChangeRequest(requestId: string): Promise<OrderChangeRequest> {
+    try {
+      const response = await apiClient.put(`${ORDER_CHANGES_PATH}/${requestId}/status`, {
+        status: 'WITHDRAWN',
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error withdrawing order change request:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject a change request.
+   * Approval re-checks availability first; the server then applies the changes to the order.
+   * If the changed order costs less than what was already paid, the difference is refunded,
+   * and invoices already issued for the order are reissued.
+   */
+  async respondToChangeRequest(
+    request: OrderChangeRequest,
+    status: 'APPROVED' | 'REJECTED',
+    vendorNote?: string,
+    vendorPhone?: string
+  ): Promise<OrderChangeRequest> {
+    if (status === 'APPROVED') {
+      const order = await orderService.getOrderById(request.orderId.toString());
+      const problems = await this.validateChanges(order, request.changes);
+      if (problems.length > 0) {
+        throw new Error(`These changes can no longer be served: ${problems.join(' ')}`);
+      }
+    }
+
+    let updatedRequest: OrderChangeRequest;
+    try {
+      const response = await apiClient.put(
+        `${ORDER_CHANGES_PATH}/${request.requestId}/status`,
+        { status, vendorNote },
+        { headers: this.getVendorHeaders(vendorPhone) }
+      );
+      updatedRequest = response.data;
+    } catch (error) {
+      console.error('Error responding to order change request:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to respond to change requests for this order.');
+      }
+      throw error;
+    }
+
+    if (status === 'APPROVED') {
+      const changedOrder = await orderService.getOrderById(request.orderId.toString());
+      if (request.priceDifference < 0) {
+        const summary = summarizePayments(changedOrder);
+        const overpaid = summary.paid - summary.refunded - changedOrder.totalAmount;
+        if (overpaid > 0) {
+          await paymentService.refundOrder(changedOrder, `Order #${changedOrder.orderId} changed`, overpaid);
+        }
+      }
+      await this.reviseInvoices(changedOrder);
+    }
+
+    return updatedRequest;
+  }
+
+  // The change is already approved, so a failure is only logged; the invoice dialog reissues it when next opened
+  private async reviseInvoices(order: Order): Promise<void> {
+    try {
+      await invoiceService.reviseIssuedInvoices(order, await rentalReturnService.getReturnsByOrderId(order.orderId));
+    } catch (error) {
+      console.error('Error reissuing invoices for changed order:', error);
+    }
+  }
+}
+
+const orderChangeService = new OrderChangeService();
+export default orderChangeService;
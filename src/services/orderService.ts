@@ -1,181 +1,261 @@
-import { Order, OrderFormData, CartItem } from '../types/cart';
+import {
+  Order,
+  OrderFormData,
+  CartItem,
+  CheckoutSession,
+  ItemFulfilmentStatus,
+  OrderActor,
+  OrderStatusValue,
+} from '../types/cart';
+import { CartPricing } from '../types/promotion';
+import { PaymentPlan } from '../types/payment';
+import { OrderSearchQuery, OrderSearchScope, PagedResult } from '../types/orderSearch';
+import { DateRange, OrderStatistics } from '../types/analytics';
+import { RentalMovement } from '../types';
+import apiClient from './apiClient';
+import paymentService from './paymentService';
+import InventoryService from './inventoryService';
+import { ValidationError } from './apiErrors';
+import { ORDER_STATUS_LABELS, canTransition, getNextStatusTowards, requiresReason } from '../utils/orderStatusUtils';
+import { FULFILMENT_STATUS_LABELS, canAdvanceFulfilment, getRolledUpOrderStatus } from '../utils/fulfilmentUtils';
+import { isCheckedOut } from '../utils/rentalReturnUtils';
+import { toOrderSearchRequestParams } from '../utils/orderSearchUtils';
+import { getCartHolderId } from '../utils/holdUtils';
+
+const ORDERS_PATH = '/orders';
+// Page size used when every matching order is needed
+const SEARCH_ALL_PAGE_SIZE = 100;
+
+/**
+ * Raised when a multi-vendor checkout could not be completed.
+ * Orders created before the failure have been cancelled; any that could not be
+ * cancelled are listed in `uncancelledOrderIds` so the customer can be told.
+ */
+export class CheckoutError extends Error {
+  checkoutId: string;
+  failedVendors: { vendor: string; error: string }[];
+  uncancelledOrderIds: number[];
+
+  constructor(
+    message: string,
+    checkoutId: string,
+    failedVendors: { vendor: string; error: string }[],
+    uncancelledOrderIds: number[] = []
+  ) {
+    super(message);
+    this.name = 'CheckoutError';
+    this.checkoutId = checkoutId;
+    this.failedVendors = failedVendors;
+    this.uncancelledOrderIds = uncancelledOrderIds;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
 
-const API_BASE_URL = 'http://localhost:8080/api/orders';
+// Parent reference shared by every vendor order placed in one checkout
+const generateCheckoutId = (): string =>
+  `CHK-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
 
 class OrderService {
-  private getAuthHeaders(): HeadersInit {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
+  /**
+   * Place a cart as one logical purchase.
+   * One order is created per vendor, all linked by the same checkout reference.
+   * If any vendor order fails, the ones already created are cancelled and a CheckoutError is thrown.
+   * When pricing is given, each vendor order carries its own discount lines.
+   * When a payment plan is given, the amount due now is charged per vendor order; a declined
+   * payment rolls the checkout back like a failed order.
+   */
+  async checkout(
+    cartItems: CartItem[],
+    orderData: OrderFormData,
+    userId: string,
+    pricing?: CartPricing,
+    paymentPlan?: PaymentPlan
+  ): Promise<CheckoutSession> {
+    const checkoutId = generateCheckoutId();
+
+    // Group cart items by businessId (vendor)
+    const itemsByVendor = new Map<string, CartItem[]>();
+    cartItems.forEach(item => {
+      const businessId = item.businessId;
+      if (!itemsByVendor.has(businessId)) {
+        itemsByVendor.set(businessId, []);
+      }
+      itemsByVendor.get(businessId)!.push(item);
+    });
+
+    console.log(`Checkout ${checkoutId}: creating ${itemsByVendor.size} order(s) for ${cartItems.length} item(s) grouped by vendor`);
+
+    const vendorGroups = Array.from(itemsByVendor.values());
+    const results = await Promise.allSettled(
+      vendorGroups.map(vendorItems =>
+        apiClient
+          .post<Order>(ORDERS_PATH, this.buildOrderPayload(vendorItems, orderData, userId, checkoutId, pricing, paymentPlan))
+          .then((response) => response.data)
+      )
+    );
+
+    const createdOrders: Order[] = [];
+    const failedVendors: { vendor: string; error: string }[] = [];
+
+    results.forEach((result, index) => {
+      const vendorName = vendorGroups[index][0].businessName || 'Unknown';
+      if (result.status === 'fulfilled') {
+        createdOrders.push(result.value);
+      } else {
+        const errorMessage = result.reason?.message || 'Unknown error';
+        failedVendors.push({ vendor: vendorName, error: errorMessage });
+        console.error(`Checkout ${checkoutId}: failed to create order for ${vendorName}:`, errorMessage);
+      }
+    });
 
-  async createOrder(cartItems: CartItem[], orderData: OrderFormData, userId: string): Promise<Order[]> {
-    try {
-      // Group cart items by businessId (vendor)
-      const itemsByVendor = new Map<string, CartItem[]>();
-      
-      cartItems.forEach(item => {
-        const businessId = item.businessId;
-        if (!itemsByVendor.has(businessId)) {
-          itemsByVendor.set(businessId, []);
-        }
-        itemsByVendor.get(businessId)!.push(item);
-      });
+    if (failedVendors.length === 0 && paymentPlan) {
+      await this.collectPayments(checkoutId, createdOrders, paymentPlan, failedVendors);
+    }
 
-      console.log(`Creating ${itemsByVendor.size} order(s) for ${cartItems.length} item(s) grouped by vendor`);
-
-      // Create an order for each vendor
-      const orderPromises: Promise<Order>[] = [];
-      const vendorNames: string[] = [];
-
-      itemsByVendor.forEach((vendorItems, businessId) => {
-        const businessName = vendorItems[0].businessName;
-        vendorNames.push(businessName);
-
-        // Transform cart items to match backend API structure
-        const orderItems = vendorItems.map(item => {
-          const orderItem: any = {
-            itemId: item.id,
-            itemName: item.name,
-            itemPrice: item.price,
-            quantity: item.quantity,
-            itemType: item.type,
-            businessId: item.businessId,
-            businessName: item.businessName,
-            imageUrl: item.imageUrl || item.image,
-          };
-          
-          // Only include bookingDate if it's provided and not empty
-          if (item.bookingDate && item.bookingDate.trim() !== '') {
-            orderItem.bookingDate = item.bookingDate;
-          }
-          
-          // Include selected dishes for plates
-          if (item.type === 'plate' && item.selectedDishes && item.selectedDishes.length > 0) {
-            orderItem.selectedDishes = JSON.stringify(item.selectedDishes);
-          }
-          
-          return orderItem;
-        });
-
-        const orderPayload = {
-          userId: userId,
-          customerName: orderData.customerName,
-          customerEmail: orderData.customerEmail,
-          customerPhone: orderData.customerPhone,
-          deliveryAddress: orderData.deliveryAddress,
-          deliveryDate: orderData.deliveryDate,
-          specialNotes: orderData.specialNotes || '',
-          items: orderItems
-        };
-
-        console.log(`Creating order for vendor: ${businessName} with ${orderItems.length} item(s)`);
-
-        const orderPromise = fetch(API_BASE_URL, {
-          method: 'POST',
-          headers: this.getAuthHeaders(),
-          body: JSON.stringify(orderPayload),
-        }).then(async (response) => {
-          if (!response.ok) {
-            // Try to parse error response
-            let errorMessage = `HTTP error! status: ${response.status}`;
-            
-            // Clone the response so we can read it multiple times if needed
-            const responseClone = response.clone();
-            
-            try {
-              const errorData = await response.json();
-              console.log('Error response data:', errorData);
-              // Handle different error response formats
-              if (typeof errorData === 'string') {
-                errorMessage = errorData;
-              } else if (errorData.message) {
-                errorMessage = errorData.message;
-              } else if (errorData.error) {
-                errorMessage = errorData.error;
-              }
-            } catch (e) {
-              // If response is not JSON, try to get text from clone
-              try {
-                const errorText = await responseClone.text();
-                console.log('Error response text:', errorText);
-                if (errorText) {
-                  errorMessage = errorText;
-                }
-              } catch (textError) {
-                console.error('Error reading response text:', textError);
-                // Keep default error message
-              }
-            }
-            console.error(`Failed to create order for ${businessName}:`, errorMessage);
-            throw new Error(`Failed to create order for ${businessName}: ${errorMessage}`);
-          }
-
-          return await response.json();
-        });
-
-        orderPromises.push(orderPromise);
-      });
+    if (failedVendors.length === 0) {
+      console.log(`Checkout ${checkoutId}: committed ${createdOrders.length} order(s)`);
+      return {
+        checkoutId,
+        orders: createdOrders,
+        totalAmount: createdOrders.reduce((sum, order) => sum + (order.totalAmount || 0), 0),
+        createdAt: new Date().toISOString(),
+      };
+    }
 
-      // Wait for all orders to be created
-      // Use Promise.allSettled to handle partial success scenarios
-      const results = await Promise.allSettled(orderPromises);
-      
-      const successfulOrders: Order[] = [];
-      const failedOrders: { vendor: string; error: string }[] = [];
-      
-      results.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          successfulOrders.push(result.value);
-        } else {
-          const vendorName = vendorNames[index] || 'Unknown';
-          const errorMessage = result.reason?.message || 'Unknown error';
-          failedOrders.push({ vendor: vendorName, error: errorMessage });
-          console.error(`Failed to create order for ${vendorName}:`, errorMessage);
-        }
-      });
-      
-      // If all orders failed, throw an error
-      if (successfulOrders.length === 0) {
-        const errorMessages = failedOrders.map(f => `${f.vendor}: ${f.error}`).join('; ');
-        throw new Error(`Failed to create any orders: ${errorMessages}`);
-      }
-      
-      // If some orders succeeded, log warnings for failed ones but return successful orders
-      if (failedOrders.length > 0) {
-        console.warn(`Partially successful: ${successfulOrders.length} order(s) created, ${failedOrders.length} failed`);
-        failedOrders.forEach(f => {
-          console.warn(`  - ${f.vendor}: ${f.error}`);
-        });
+    // Roll back: cancel every vendor order that did go through
+    const uncancelledOrderIds = await this.rollbackOrders(checkoutId, createdOrders);
+    const errorMessages = failedVendors.map(f => `${f.vendor}: ${f.error}`).join('; ');
+
+    if (uncancelledOrderIds.length > 0) {
+      throw new CheckoutError(
+        `Checkout failed (${errorMessages}). Some orders could not be cancelled automatically: ` +
+          `${uncancelledOrderIds.map(id => `#${id}`).join(', ')}. Please cancel them from your order history or contact support with reference ${checkoutId}.`,
+        checkoutId,
+        failedVendors,
+        uncancelledOrderIds
+      );
+    }
+
+    throw new CheckoutError(
+      `Checkout failed and no orders were placed (${errorMessages}). Please try again.`,
+      checkoutId,
+      failedVendors
+    );
+  }
+
+  /**
+   * Charge what is due now for each order, replacing the orders with their paid versions.
+   * Stops at the first declined payment and adds it to failedVendors.
+   */
+  private async collectPayments(
+    checkoutId: string,
+    orders: Order[],
+    paymentPlan: PaymentPlan,
+    failedVendors: { vendor: string; error: string }[]
+  ): Promise<void> {
+    for (let index = 0; index < orders.length; index++) {
+      const order = orders[index];
+      const schedule = paymentPlan.vendors.find(vendor => vendor.businessId === order.orderItems?.[0]?.businessId);
+      if (!schedule || schedule.dueNow <= 0) {
+        continue;
       }
-      
-      console.log(`Successfully created ${successfulOrders.length} order(s) for vendor(s): ${successfulOrders.map((o, i) => vendorNames[i]).filter(Boolean).join(', ')}`);
-      
-      return successfulOrders;
-    } catch (error: any) {
-      console.error('Error creating orders:', error);
-      // Re-throw with proper error message
-      if (error instanceof Error) {
-        throw error;
+
+      try {
+        orders[index] = await paymentService.payOrder(order, schedule.dueNow, 'DEPOSIT');
+      } catch (error: any) {
+        const errorMessage = error?.message || 'Payment failed';
+        failedVendors.push({ vendor: schedule.businessName, error: `Payment failed: ${errorMessage}` });
+        console.error(`Checkout ${checkoutId}: payment failed for order #${order.orderId}:`, errorMessage);
+        return;
       }
-      throw new Error(error.message || 'Failed to create orders');
     }
   }
 
-  async getOrders(): Promise<Order[]> {
-    try {
-      const response = await fetch(API_BASE_URL, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
+  /**
+   * Cancel orders created during a failed checkout.
+   * Returns the ids of orders that could not be cancelled.
+   */
+  private async rollbackOrders(checkoutId: string, orders: Order[]): Promise<number[]> {
+    if (orders.length === 0) {
+      return [];
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    console.warn(`Checkout ${checkoutId}: rolling back ${orders.length} order(s)`);
+    const results = await Promise.allSettled(orders.map(order =>
+        this.cancelOrder(order, `Checkout ${checkoutId} could not be completed`, { role: 'SYSTEM' })
+      ));
+
+    const uncancelledOrderIds: number[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        uncancelledOrderIds.push(orders[index].orderId);
+        console.error(`Checkout ${checkoutId}: could not cancel order #${orders[index].orderId}:`, result.reason);
       }
+    });
+    return uncancelledOrderIds;
+  }
 
-      return await response.json();
+  // Transform cart items of one vendor to match backend API structure
+  private buildOrderPayload(
+    vendorItems: CartItem[],
+    orderData: OrderFormData,
+    userId: string,
+    checkoutId: string,
+    pricing?: CartPricing,
+    paymentPlan?: PaymentPlan
+  ) {
+    const orderItems = vendorItems.map(item => {
+      const orderItem: any = {
+        itemId: item.id,
+        itemName: item.name,
+        itemPrice: item.price,
+        quantity: item.quantity,
+        itemType: item.type,
+        businessId: item.businessId,
+        businessName: item.businessName,
+        imageUrl: item.imageUrl || item.image,
+      };
+
+      // Only include bookingDate if it's provided and not empty
+      if (item.bookingDate && item.bookingDate.trim() !== '') {
+        orderItem.bookingDate = item.bookingDate;
+      }
+
+      // Include selected dishes for plates
+      if (item.type === 'plate' && item.selectedDishes && item.selectedDishes.length > 0) {
+        orderItem.selectedDishes = JSON.stringify(item.selectedDishes);
+      }
+
+      return orderItem;
+    });
+
+    const vendorPricing = pricing?.vendors.find(vendor => vendor.businessId === vendorItems[0].businessId);
+    const paymentSchedule = paymentPlan?.vendors.find(vendor => vendor.businessId === vendorItems[0].businessId);
+
+    return {
+      userId: userId,
+      checkoutId: checkoutId,
+      // Lets the server turn this cart's holds into the order's bookings
+      holderId: getCartHolderId(),
+      subtotalAmount: vendorPricing?.subtotal,
+      discountAmount: vendorPricing?.discountTotal || 0,
+      discounts: vendorPricing?.discounts || [],
+      depositAmount: paymentSchedule?.dueNow,
+      balanceDueDate: paymentSchedule?.balanceDueDate,
+      customerName: orderData.customerName,
+      customerEmail: orderData.customerEmail,
+      customerPhone: orderData.customerPhone,
+      deliveryAddress: orderData.deliveryAddress,
+      deliveryDate: orderData.deliveryDate,
+      specialNotes: orderData.specialNotes || '',
+      items: orderItems
+    };
+  }
+
+  async getOrders(): Promise<Order[]> {
+    try {
+      const response = await apiClient.get(ORDERS_PATH);
+      return response.data;
     } catch (error) {
       console.error('Error fetching orders:', error);
       throw error;
@@ -184,65 +264,41 @@ class OrderService {
 
   async getOrderById(orderId: string): Promise<Order> {
     try {
-      const response = await fetch(`${API_BASE_URL}/${orderId}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${ORDERS_PATH}/${orderId}`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching order:', error);
       throw error;
     }
   }
 
-  async updateOrderStatus(orderId: string, status: Order['status']): Promise<Order> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/${orderId}/status?status=${status}`, {
-        method: 'PUT',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        // Try to parse error response
-        let errorMessage = `HTTP error! status: ${response.status}`;
-        
-        // Clone the response so we can read it multiple times if needed
-        const responseClone = response.clone();
-        
-        try {
-          const errorData = await response.json();
-          console.log('Error response data:', errorData);
-          // Handle different error response formats
-          if (typeof errorData === 'string') {
-            errorMessage = errorData;
-          } else if (errorData.message) {
-            errorMessage = errorData.message;
-          } else if (errorData.error) {
-            errorMessage = errorData.error;
-          }
-        } catch (e) {
-          // If response is not JSON, try to get text from clone
-          try {
-            const errorText = await responseClone.text();
-            console.log('Error response text:', errorText);
-            if (errorText) {
-              errorMessage = errorText;
-            }
-          } catch (textError) {
-            console.error('Error reading response text:', textError);
-            // Keep default error message
-          }
-        }
-        console.error('Final error message:', errorMessage);
-        throw new Error(errorMessage);
-      }
+  /**
+   * Move an order to another status.
+   * Only transitions allowed for the actor's role are sent; cancellations need a reason.
+   * The server adds the change, with its timestamp, to the order's audit timeline.
+   */
+  async updateOrderStatus(order: Order, status: OrderStatusValue, actor: OrderActor, reason?: string): Promise<Order> {
+    if (!canTransition(order.status, status, actor.role)) {
+      throw new ValidationError(
+        `An order that is ${ORDER_STATUS_LABELS[order.status].toLowerCase()} cannot be changed to ${ORDER_STATUS_LABELS[status].toLowerCase()}.`
+      );
+    }
+    if (requiresReason(status) && !reason?.trim()) {
+      throw new ValidationError('Please give a reason for cancelling the order.');
+    }
 
-      return await response.json();
+    try {
+      const response = await apiClient.put(
+        `${ORDERS_PATH}/${order.orderId}/status`,
+        {
+          reason: reason?.trim() || undefined,
+          role: actor.role,
+          changedBy: actor.phoneNumber,
+          changedByName: actor.name,
+        },
+        { params: { status } }
+      );
+      return status === 'CANCELLED' ? await this.refundCancelledOrder(response.data) : response.data;
     } catch (error: any) {
       console.error('Error updating order status:', error);
       // Re-throw with proper error message
@@ -253,18 +309,89 @@ class OrderService {
     }
   }
 
-  async getOrdersByBusinessId(businessId: string): Promise<Order[]> {
+  /**
+   * Move several orders to the same status, one after another.
+   * Orders that cannot make the transition are skipped; a failure on one order does not stop the rest.
+   */
+  async bulkUpdateOrderStatus(
+    orders: Order[],
+    status: OrderStatusValue,
+    actor: OrderActor,
+    reason?: string
+  ): Promise<{ updated: Order[]; failed: { order: Order; error: string }[] }> {
+    const updated: Order[] = [];
+    const failed: { order: Order; error: string }[] = [];
+
+    for (const order of orders.filter(candidate => canTransition(candidate.status, status, actor.role))) {
+      try {
+        updated.push(await this.updateOrderStatus(order, status, actor, reason));
+      } catch (error: any) {
+        failed.push({ order, error: error.message || 'Failed to update order status' });
+      }
+    }
+
+    return { updated, failed };
+  }
+
+  /**
+   * Move one line of an order to a fulfilment status.
+   * The order's own status then follows the lines forward, one allowed transition at a time.
+   */
+  async updateItemFulfilment(
+    order: Order,
+    orderItemId: number,
+    status: ItemFulfilmentStatus,
+    actor: OrderActor
+  ): Promise<Order> {
+    const item = order.orderItems.find(orderItem => orderItem.orderItemId === orderItemId);
+    if (!item) {
+      throw new ValidationError(`Item ${orderItemId} is not part of order #${order.orderId}.`);
+    }
+    if (actor.role !== 'VENDOR' && actor.role !== 'ADMIN') {
+      throw new ValidationError('Only the vendor can update the progress of an item.');
+    }
+    if (!canAdvanceFulfilment(item, order, status)) {
+      throw new ValidationError(
+        `${item.itemName} cannot be marked ${FULFILMENT_STATUS_LABELS[status].toLowerCase()} now.`
+      );
+    }
+
+    // Rented units are out of stock from dispatch until the vendor records them as returned
+    const dispatching = !isCheckedOut(item) && isCheckedOut({ ...item, fulfilmentStatus: status }) && status !== 'RETURNED';
+    const stockMovement: RentalMovement | undefined = dispatching ? { dispatched: item.quantity } : undefined;
+    if (stockMovement) {
+      await InventoryService.checkRentalMovement(item.itemId, stockMovement);
+    }
+
+    let updatedOrder: Order;
     try {
-      const response = await fetch(`${API_BASE_URL}/business/${businessId}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
+      const response = await apiClient.put(`${ORDERS_PATH}/${order.orderId}/items/${orderItemId}/fulfilment`, {
+        status,
+        role: actor.role,
+        changedBy: actor.phoneNumber,
+        changedByName: actor.name,
+        // Applied together with the status, so a failed update leaves the stock untouched
+        stockMovement,
       });
+      updatedOrder = response.data;
+    } catch (error) {
+      console.error('Error updating item fulfilment:', error);
+      throw error;
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+    const target = getRolledUpOrderStatus(updatedOrder);
+    let next = getNextStatusTowards(updatedOrder.status, target, actor.role);
+    while (next) {
+      updatedOrder = await this.updateOrderStatus(updatedOrder, next, actor);
+      next = getNextStatusTowards(updatedOrder.status, target, actor.role);
+    }
+    return updatedOrder;
+  }
 
-      return await response.json();
+  async getOrdersByBusinessId(businessId: string): Promise<Order[]> {
+    try {
+      const response = await apiClient.get(`${ORDERS_PATH}/business/${businessId}`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching business orders:', error);
       throw error;
@@ -273,16 +400,8 @@ class OrderService {
 
   async getOrdersByUserId(userId: string): Promise<Order[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/user/${userId}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const response = await apiClient.get(`${ORDERS_PATH}/user/${userId}`);
+      const data = response.data;
       
       // Ensure we always return an array
       // Handle case where backend might return a single object instead of array
@@ -303,36 +422,78 @@ class OrderService {
     }
   }
 
-  async cancelOrder(orderId: string): Promise<Order> {
+  /**
+   * Search the orders of a client or business on the server, one page at a time
+   * @param query Filters, sort and page
+   * @param scope Client or business whose orders are searched
+   */
+  async searchOrders(query: OrderSearchQuery, scope: OrderSearchScope): Promise<PagedResult<Order>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/${orderId}/status?status=CANCELLED`, {
-        method: 'PUT',
-        headers: this.getAuthHeaders(),
+      const response = await apiClient.get(`${ORDERS_PATH}/search`, {
+        params: toOrderSearchRequestParams(query, scope),
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const data = response.data;
+      return {
+        content: Array.isArray(data?.content) ? data.content : [],
+        page: data?.page ?? query.page,
+        size: data?.size ?? query.size,
+        totalElements: data?.totalElements ?? 0,
+        totalPages: data?.totalPages ?? 0,
+      };
     } catch (error) {
-      console.error('Error cancelling order:', error);
+      console.error('Error searching orders:', error);
       throw error;
     }
   }
 
-  async getOrderStatistics(): Promise<any> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/statistics`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
+  /**
+   * Every order matching a search, fetched page by page, e.g. for exports
+   * @param query Filters and sort; the page and page size are ignored
+   * @param scope Client or business whose orders are searched
+   */
+  async searchAllOrders(query: OrderSearchQuery, scope: OrderSearchScope): Promise<Order[]> {
+    const orders: Order[] = [];
+    let page = 0;
+    let totalPages = 1;
+    while (page < totalPages) {
+      const result = await this.searchOrders({ ...query, page, size: SEARCH_ALL_PAGE_SIZE }, scope);
+      orders.push(...result.content);
+      totalPages = result.totalPages;
+      page++;
+    }
+    return orders;
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  async cancelOrder(order: Order, reason: string, actor: OrderActor): Promise<Order> {
+    return this.updateOrderStatus(order, 'CANCELLED', actor, reason);
+  }
+
+  // Give back whatever was paid on an order that has just been cancelled
+  private async refundCancelledOrder(order: Order): Promise<Order> {
+    if (!order?.payments?.length) {
+      return order;
+    }
+    try {
+      return await paymentService.refundOrder(order, 'Order cancelled');
+    } catch (error: any) {
+      console.error(`Error refunding cancelled order #${order.orderId}:`, error);
+      throw new Error(`Order #${order.orderId} was cancelled but the refund failed: ${error.message || 'unknown error'}. Please contact support.`);
+    }
+  }
 
-      return await response.json();
+  async getOrderStatistics(range?: DateRange): Promise<OrderStatistics> {
+    try {
+      const response = await apiClient.get(`${ORDERS_PATH}/statistics`, { params: range });
+      const data = response.data || {};
+      // Counts the server does not report are taken as zero
+      return {
+        totalOrders: Number(data.totalOrders) || 0,
+        totalRevenue: Number(data.totalRevenue) || 0,
+        ordersByStatus: data.ordersByStatus || {},
+        cartsCreated: Number(data.cartsCreated) || 0,
+        cartsConverted: Number(data.cartsConverted) || 0,
+        disputedOrders: Number(data.disputedOrders) || 0,
+      };
     } catch (error) {
       console.error('Error fetching order statistics:', error);
       throw error;
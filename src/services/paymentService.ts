@@ -0,0 +1,129 @@
+import { Order } from '../types/cart';
+import { DepositSettings, PaymentEntry, PaymentEntryType, PaymentProvider } from '../types/payment';
+import apiClient from './apiClient';
+import { ForbiddenError, NotFoundError } from './apiErrors';
+import mockPaymentProvider from './mockPaymentProvider';
+import { roundCurrency } from '../utils/promotionUtils';
+
+const ORDERS_PATH = '/orders';
+const BUSINESSES_PATH = '/businesses';
+
+class PaymentService {
+  private provider: PaymentProvider = mockPaymentProvider;
+
+  private getVendorHeaders(vendorPhone?: string): Record<string, string> {
+    return vendorPhone ? { 'X-Vendor-Phone': vendorPhone } : {};
+  }
+
+  /**
+   * Use another payment gateway for charges and refunds
+   */
+  setProvider(provider: PaymentProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Get the deposit settings of a business.
+   * Returns null if the vendor has not set them up, meaning full payment at checkout.
+   */
+  async getDepositSettings(businessId: string): Promise<DepositSettings | null> {
+    try {
+      const response = await apiClient.get(`${BUSINESSES_PATH}/${businessId}/deposit-settings`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      console.error('Error fetching deposit settings:', error);
+      throw error;
+    }
+  }
+
+  async saveDepositSettings(settings: DepositSettings, vendorPhone?: string): Promise<DepositSettings> {
+    try {
+      const response = await apiClient.put(`${BUSINESSES_PATH}/${settings.businessId}/deposit-settings`, settings, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error saving deposit settings:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to change the deposit settings of this business.');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add an entry to the payment ledger of an order
+   */
+  private async recordPayment(orderId: number, entry: Omit<PaymentEntry, 'paymentId'>): Promise<Order> {
+    const response = await apiClient.post(`${ORDERS_PATH}/${orderId}/payments`, entry);
+    return response.data;
+  }
+
+  /**
+   * Charge the customer for an order and record it in the order's ledger.
+   * If the ledger cannot be updated the charge is refunded.
+   */
+  async payOrder(order: Order, amount: number, type: Exclude<PaymentEntryType, 'REFUND'>): Promise<Order> {
+    const result = await this.provider.charge({
+      amount: roundCurrency(amount),
+      currency: 'INR',
+      reference: order.checkoutId || `ORDER-${order.orderId}`,
+      description: `${type === 'DEPOSIT' ? 'Payment' : 'Balance payment'} for order #${order.orderId}`,
+      customerPhone: order.customerPhone,
+    });
+
+    try {
+      return await this.recordPayment(order.orderId, {
+        type,
+        amount: result.amount,
+        date: result.processedAt,
+        provider: this.provider.name,
+        transactionId: result.transactionId,
+      });
+    } catch (error) {
+      console.error(`Error recording payment for order #${order.orderId}, refunding:`, error);
+      await this.provider.refund({ amount: result.amount, transactionId: result.transactionId, reason: 'Payment could not be recorded' });
+      throw error;
+    }
+  }
+
+  /**
+   * Refund what was paid on an order and has not been refunded yet, or only part of it.
+   * Each payment is refunded against its own transaction, newest first.
+   */
+  async refundOrder(order: Order, reason?: string, maxAmount?: number): Promise<Order> {
+    let updatedOrder = order;
+    const payments = order.payments || [];
+    let remaining = maxAmount ?? Infinity;
+
+    for (const payment of payments.filter(entry => entry.type !== 'REFUND').reverse()) {
+      const alreadyRefunded = payments
+        .filter(entry => entry.type === 'REFUND' && entry.refundOf === payment.transactionId)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+      const amount = roundCurrency(Math.min(remaining, payment.amount - alreadyRefunded));
+      if (amount <= 0) {
+        continue;
+      }
+      remaining -= amount;
+
+      const result = await this.provider.refund({ amount, transactionId: payment.transactionId, reason });
+      updatedOrder = await this.recordPayment(order.orderId, {
+        type: 'REFUND',
+        amount: result.amount,
+        date: result.processedAt,
+        provider: this.provider.name,
+        transactionId: result.transactionId,
+        refundOf: payment.transactionId,
+        note: reason,
+      });
+    }
+
+    return updatedOrder;
+  }
+}
+
+const paymentService = new PaymentService();
+export default paymentService;
@@ -1,28 +1,18 @@
 import { Plate, PlateFormData } from '../types';
+import apiClient from './apiClient';
+import { ForbiddenError } from './apiErrors';
 
-const API_BASE_URL = 'http://localhost:8080/api/plates';
+const PLATES_PATH = '/plates';
 
 class PlateService {
-  private getAuthHeaders(): HeadersInit {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
+  private getVendorHeaders(vendorPhone?: string): Record<string, string> {
+    return vendorPhone ? { 'X-Vendor-Phone': vendorPhone } : {};
   }
 
   async getAllPlates(): Promise<Plate[]> {
     try {
-      const response = await fetch(API_BASE_URL, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(PLATES_PATH);
+      return response.data;
     } catch (error) {
       console.error('Error fetching plates:', error);
       throw error;
@@ -31,16 +21,8 @@ class PlateService {
 
   async getPlateById(plateId: string): Promise<Plate> {
     try {
-      const response = await fetch(`${API_BASE_URL}/${plateId}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      const response = await apiClient.get(`${PLATES_PATH}/${plateId}`);
+      return response.data;
     } catch (error) {
       console.error('Error fetching plate:', error);
       throw error;
@@ -50,20 +32,9 @@ class PlateService {
   async getPlatesByBusinessId(businessId: string): Promise<Plate[]> {
     try {
       console.log('🌐 PlateService: Fetching plates for business:', businessId);
-      const response = await fetch(`${API_BASE_URL}/business/${businessId}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
+      const response = await apiClient.get(`${PLATES_PATH}/business/${businessId}`);
 
-      console.log('🌐 PlateService: Response status:', response.status, response.statusText);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ PlateService: HTTP error! status:', response.status, 'body:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = response.data;
       console.log('✅ PlateService: Received', Array.isArray(data) ? data.length : 'non-array', 'plates');
       return Array.isArray(data) ? data : [];
     } catch (error) {
@@ -74,95 +45,52 @@ class PlateService {
 
   async createPlate(plateData: PlateFormData, vendorPhone?: string): Promise<Plate> {
     try {
-      const headers: HeadersInit = this.getAuthHeaders();
-      if (vendorPhone) {
-        (headers as any)['X-Vendor-Phone'] = vendorPhone;
-      }
-      
-      const response = await fetch(API_BASE_URL, {
-        method: 'POST',
-        headers: headers,
-        body: JSON.stringify(plateData),
+      const response = await apiClient.post(PLATES_PATH, plateData, {
+        headers: this.getVendorHeaders(vendorPhone),
       });
-
-      if (!response.ok) {
-        if (response.status === 403) {
-          throw new Error('You are not authorized to create products. Only vendors can create products.');
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      return response.data;
     } catch (error) {
       console.error('Error creating plate:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to create products. Only vendors can create products.');
+      }
       throw error;
     }
   }
 
   async updatePlate(plateId: string, plateData: PlateFormData, vendorPhone?: string): Promise<Plate> {
     try {
-      const headers: HeadersInit = this.getAuthHeaders();
-      if (vendorPhone) {
-        (headers as any)['X-Vendor-Phone'] = vendorPhone;
-      }
-      
-      const response = await fetch(`${API_BASE_URL}/${plateId}`, {
-        method: 'PUT',
-        headers: headers,
-        body: JSON.stringify(plateData),
+      const response = await apiClient.put(`${PLATES_PATH}/${plateId}`, plateData, {
+        headers: this.getVendorHeaders(vendorPhone),
       });
-
-      if (!response.ok) {
-        if (response.status === 403) {
-          throw new Error('You are not authorized to update this product. You can only update your own products.');
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
+      return response.data;
     } catch (error) {
       console.error('Error updating plate:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to update this product. You can only update your own products.');
+      }
       throw error;
     }
   }
 
   async deletePlate(plateId: string, vendorPhone?: string): Promise<void> {
     try {
-      const headers: HeadersInit = this.getAuthHeaders();
-      if (vendorPhone) {
-        (headers as any)['X-Vendor-Phone'] = vendorPhone;
-      }
-      
-      const response = await fetch(`${API_BASE_URL}/${plateId}`, {
-        method: 'DELETE',
-        headers: headers,
+      await apiClient.delete(`${PLATES_PATH}/${plateId}`, {
+        headers: this.getVendorHeaders(vendorPhone),
       });
-
-      if (!response.ok) {
-        if (response.status === 403) {
-          throw new Error('You are not authorized to delete this product. Only vendors can delete their own products.');
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
     } catch (error) {
       console.error('Error deleting plate:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to delete this product. Only vendors can delete their own products.');
+      }
       throw error;
     }
   }
 
   async getPlateCount(): Promise<number> {
     try {
-      const response = await fetch(`${API_BASE_URL}/count`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      return data.count;
+      const response = await apiClient.get(`${PLATES_PATH}/count`);
+      return response.data.count;
     } catch (error) {
       console.error('Error fetching plate count:', error);
       throw error;
@@ -171,17 +99,8 @@ class PlateService {
 
   async getPlateCountByBusinessId(businessId: string): Promise<number> {
     try {
-      const response = await fetch(`${API_BASE_URL}/business/${businessId}/count`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      return data.count;
+      const response = await apiClient.get(`${PLATES_PATH}/business/${businessId}/count`);
+      return response.data.count;
     } catch (error) {
       console.error('Error fetching plate count by business ID:', error);
       throw error;
@@ -0,0 +1,85 @@
+import { Promotion, PromotionFormData } from '../types/promotion';
+import apiClient from './apiClient';
+import { ForbiddenError, NotFoundError } from './apiErrors';
+
+const PROMOTIONS_PATH = '/promotions';
+
+class PromotionService {
+  private getVendorHeaders(vendorPhone?: string): Record<string, string> {
+    return vendorPhone ? { 'X-Vendor-Phone': vendorPhone } : {};
+  }
+
+  async getPromotionsByBusinessId(businessId: string): Promise<Promotion[]> {
+    try {
+      const response = await apiClient.get(`${PROMOTIONS_PATH}/business/${businessId}`);
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error) {
+      console.error('Error fetching business promotions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Look up a promotion by its coupon code.
+   * Returns null if no promotion uses the code.
+   */
+  async getPromotionByCode(code: string): Promise<Promotion | null> {
+    try {
+      const response = await apiClient.get(`${PROMOTIONS_PATH}/code/${encodeURIComponent(code.trim().toUpperCase())}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      console.error('Error fetching promotion by code:', error);
+      throw error;
+    }
+  }
+
+  async createPromotion(promotionData: PromotionFormData, vendorPhone?: string): Promise<Promotion> {
+    try {
+      const response = await apiClient.post(PROMOTIONS_PATH, promotionData, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to create promotions for this business.');
+      }
+      throw error;
+    }
+  }
+
+  async updatePromotion(promotionId: string, promotionData: PromotionFormData, vendorPhone?: string): Promise<Promotion> {
+    try {
+      const response = await apiClient.put(`${PROMOTIONS_PATH}/${promotionId}`, promotionData, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to update this promotion.');
+      }
+      throw error;
+    }
+  }
+
+  async deletePromotion(promotionId: string, vendorPhone?: string): Promise<void> {
+    try {
+      await apiClient.delete(`${PROMOTIONS_PATH}/${promotionId}`, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+    } catch (error) {
+      console.error('Error deleting promotion:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to delete this promotion.');
+      }
+      throw error;
+    }
+  }
+}
+
+const promotionService = new PromotionService();
+export default promotionService;
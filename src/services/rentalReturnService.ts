@@ -0,0 +1,159 @@
+import { RentalMovement } from '../types';
+import { Order, OrderActor, OrderItemResponse } from '../types/cart';
+import { RentalReturn, RentalReturnFormData } from '../types/rentalReturn';
+import apiClient, { SERVER_BASE_URL } from './apiClient';
+import { ForbiddenError, ValidationError } from './apiErrors';
+import FileService from './fileService';
+import InventoryService from './inventoryService';
+import invoiceService from './invoiceService';
+import orderService from './orderService';
+import { canAdvanceFulfilment } from '../utils/fulfilmentUtils';
+import { isCheckedOut, isRentalItem, summarizeRentalReturns } from '../utils/rentalReturnUtils';
+
+const RENTAL_RETURNS_PATH = '/rental-returns';
+
+class RentalReturnService {
+  private getVendorHeaders(vendorPhone?: string): Record<string, string> {
+    return vendorPhone ? { 'X-Vendor-Phone': vendorPhone } : {};
+  }
+
+  async getReturnsByOrderId(orderId: number): Promise<RentalReturn[]> {
+    try {
+      const response = await apiClient.get(`${RENTAL_RETURNS_PATH}/order/${orderId}`);
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error) {
+      console.error('Error fetching rental returns:', error);
+      throw error;
+    }
+  }
+
+  async getReturnsByBusinessId(businessId: string, vendorPhone?: string): Promise<RentalReturn[]> {
+    try {
+      const response = await apiClient.get(`${RENTAL_RETURNS_PATH}/business/${businessId}`, {
+        headers: this.getVendorHeaders(vendorPhone),
+      });
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error) {
+      console.error('Error fetching business rental returns:', error);
+      throw error;
+    }
+  }
+
+  async setExpectedReturnDate(order: Order, orderItemId: number, expectedReturnDate: string, vendorPhone?: string): Promise<Order> {
+    try {
+      const response = await apiClient.put(
+        `/orders/${order.orderId}/items/${orderItemId}/expected-return-date`,
+        { expectedReturnDate },
+        { headers: this.getVendorHeaders(vendorPhone) }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Error setting expected return date:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to change the return date of this order.');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a photo of damaged or missing rental stock
+   * @returns URL of the uploaded photo
+   */
+  async uploadDamagePhoto(file: File, orderItemId: number): Promise<string> {
+    const uploadResult = await FileService.uploadFile(file, 'rental-returns', orderItemId.toString());
+    return `${SERVER_BASE_URL}${uploadResult.filePath}`;
+  }
+
+  /**
+   * Record rented units coming back after the event.
+   * The server adds the damage charge to the order total and, in the same request, returns units to stock
+   * if they left it at dispatch and writes off damaged and missing units. Invoices already issued for the
+   * order are reissued with the damage charge. Once nothing is outstanding
+   * the line is marked returned.
+   */
+  async recordReturn(
+    order: Order,
+    item: OrderItemResponse,
+    returnData: RentalReturnFormData,
+    actor: OrderActor,
+    existingReturns: RentalReturn[]
+  ): Promise<RentalReturn> {
+    if (!isRentalItem(item)) {
+      throw new ValidationError(`${item.itemName} is not a rental.`);
+    }
+    const { quantityReturned, quantityDamaged, quantityMissing, damageCharge } = returnData;
+    if ([quantityReturned, quantityDamaged, quantityMissing, damageCharge].some(value => value < 0)) {
+      throw new ValidationError('Quantities and charges cannot be negative.');
+    }
+    const counted = quantityReturned + quantityDamaged + quantityMissing;
+    if (counted === 0) {
+      throw new ValidationError('Enter how many units came back, were damaged or are missing.');
+    }
+    const summary = summarizeRentalReturns(item, order, existingReturns, returnData.returnedDate);
+    if (counted > summary.outstanding) {
+      throw new ValidationError(`Only ${summary.outstanding} of ${item.itemName} are still out.`);
+    }
+    if (quantityDamaged > 0 && returnData.photoUrls.length === 0) {
+      throw new ValidationError('Add at least one photo of the damage.');
+    }
+    // Everything counted is no longer out on rent; damaged and missing units also leave the owned stock
+    const stockMovement: RentalMovement = {
+      returned: isCheckedOut(item) ? counted : 0,
+      lost: quantityDamaged + quantityMissing,
+    };
+    await InventoryService.checkRentalMovement(item.itemId, stockMovement);
+
+    let rentalReturn: RentalReturn;
+    try {
+      const response = await apiClient.post(
+        RENTAL_RETURNS_PATH,
+        {
+          ...returnData,
+          orderId: order.orderId,
+          orderItemId: item.orderItemId,
+          inventoryId: item.itemId,
+          businessId: item.businessId,
+          notes: returnData.notes?.trim() || undefined,
+          recordedBy: actor.phoneNumber,
+          // Applied together with the return, so the return and the stock cannot disagree
+          stockMovement,
+        },
+        { headers: this.getVendorHeaders(actor.phoneNumber) }
+      );
+      rentalReturn = response.data;
+    } catch (error) {
+      console.error('Error recording rental return:', error);
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to record returns for this order.');
+      }
+      throw error;
+    }
+
+    if (counted === summary.outstanding && canAdvanceFulfilment(item, order, 'RETURNED')) {
+      await orderService.updateItemFulfilment(order, item.orderItemId, 'RETURNED', actor);
+    }
+
+    if (damageCharge > 0) {
+      await this.reviseInvoices(order.orderId);
+    }
+
+    return rentalReturn;
+  }
+
+  // The return is already recorded, so a failure is only logged; the invoice dialog reissues it when next opened
+  private async reviseInvoices(orderId: number): Promise<void> {
+    try {
+      const [order, rentalReturns] = await Promise.all([
+        orderService.getOrderById(orderId.toString()),
+        this.getReturnsByOrderId(orderId),
+      ]);
+      await invoiceService.reviseIssuedInvoices(order, rentalReturns);
+    } catch (error) {
+      console.error('Error reissuing invoices after damage charge:', error);
+    }
+  }
+}
+
+const rentalReturnService = new RentalReturnService();
+export default rentalReturnService;
@@ -0,0 +1,107 @@
+import { AuthUser } from '../types';
+
+/**
+ * Session changes made in another browser tab.
+ * AuthService keeps the session in localStorage, so the `storage` event
+ * is enough to learn about logins, logouts and token refreshes elsewhere.
+ */
+export type SessionEvent =
+  | { type: 'login'; user: AuthUser; token: string }
+  | { type: 'logout' }
+  | { type: 'token-refreshed'; token: string }
+  | { type: 'user-switched'; user: AuthUser; token: string };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const SESSION_KEYS = ['token', 'user'];
+
+interface SessionSnapshot {
+  token: string | null;
+  user: AuthUser | null;
+}
+
+const readSession = (): SessionSnapshot => {
+  let user: AuthUser | null = null;
+  try {
+    const userStr = localStorage.getItem('user');
+    user = userStr ? JSON.parse(userStr) : null;
+  } catch (error) {
+    console.error('Error reading stored user:', error);
+  }
+  return { token: localStorage.getItem('token'), user };
+};
+
+/**
+ * Compare the previous and current session to work out what happened
+ */
+const diffSession = (previous: SessionSnapshot, current: SessionSnapshot): SessionEvent | null => {
+  const wasLoggedIn = !!(previous.token && previous.user);
+
+  if (!current.token || !current.user) {
+    // A login writes the token before the user; wait for both before reporting it
+    return wasLoggedIn ? { type: 'logout' } : null;
+  }
+
+  if (!wasLoggedIn) {
+    return { type: 'login', user: current.user, token: current.token };
+  }
+
+  if (previous.user?.phoneNumber !== current.user.phoneNumber) {
+    return { type: 'user-switched', user: current.user, token: current.token };
+  }
+
+  if (previous.token !== current.token) {
+    return { type: 'token-refreshed', token: current.token };
+  }
+
+  return null;
+};
+
+// The session as this tab last saw it. Storage events only report other tabs' writes,
+// so this tab's own logins, logouts and refreshes have to be synced in explicitly.
+let snapshot: SessionSnapshot = readSession();
+
+const listeners = new Set<SessionListener>();
+
+const handleStorage = (event: StorageEvent) => {
+  // key is null when another tab called localStorage.clear()
+  if (event.storageArea !== localStorage || (event.key !== null && !SESSION_KEYS.includes(event.key))) {
+    return;
+  }
+
+  const current = readSession();
+  const sessionEvent = diffSession(snapshot, current);
+  // Only advance the snapshot once the session is in a consistent state
+  if (sessionEvent || !current.token === !current.user) {
+    snapshot = current;
+  }
+  if (sessionEvent) {
+    listeners.forEach(listener => listener(sessionEvent));
+  }
+};
+
+/**
+ * Record the stored session as this tab's own, after this tab logged in, logged out or refreshed its token
+ */
+export const syncSessionSnapshot = (): void => {
+  snapshot = readSession();
+};
+
+/**
+ * Listen for session changes made by other tabs.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToSessionChanges = (listener: SessionListener): (() => void) => {
+  if (listeners.size === 0) {
+    syncSessionSnapshot();
+    window.addEventListener('storage', handleStorage);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener('storage', handleStorage);
+    }
+  };
+};
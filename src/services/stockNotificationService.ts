@@ -1,26 +1,4 @@
-import axios from 'axios';
-
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:8080/api';
-
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add JWT authentication interceptor
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers = config.headers || {};
-      (config.headers as any).Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => Promise.reject(error)
-);
+import apiClient from './apiClient';
 
 export interface StockNotification {
   notificationId: number;
@@ -59,7 +37,7 @@ class StockNotificationService {
       return response.data;
     } catch (error: any) {
       console.error('Error subscribing to stock notification:', error);
-      throw new Error(error.response?.data?.error || 'Failed to subscribe to notifications');
+      throw error;
     }
   }
 
@@ -77,7 +55,7 @@ class StockNotificationService {
       });
     } catch (error: any) {
       console.error('Error unsubscribing from stock notification:', error);
-      throw new Error(error.response?.data?.error || 'Failed to unsubscribe from notifications');
+      throw error;
     }
   }
 
@@ -112,7 +90,7 @@ class StockNotificationService {
       return response.data;
     } catch (error: any) {
       console.error('Error fetching user subscriptions:', error);
-      throw new Error(error.response?.data?.error || 'Failed to fetch subscriptions');
+      throw error;
     }
   }
 }
@@ -1,27 +1,6 @@
-import axios from 'axios';
 import { Theme, ThemeFormData, BusinessThemeSummaryDto } from '../types';
-
-const API_BASE_URL = 'http://localhost:8080/api';
-
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Attach JWT to every request
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers = config.headers || {};
-      (config.headers as any).Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => Promise.reject(error)
-);
+import apiClient from './apiClient';
+import { ForbiddenError } from './apiErrors';
 
 // Theme Service
 export class ThemeService {
@@ -37,8 +16,8 @@ export class ThemeService {
       const response = await apiClient.post('/themes', themeData, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to create products. Only vendors can create products.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to create products. Only vendors can create products.');
       }
       throw error;
     }
@@ -86,8 +65,8 @@ export class ThemeService {
       const response = await apiClient.put(`/themes/${themeId}`, themeData, config);
       return response.data;
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to update this product. You can only update your own products.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to update this product. You can only update your own products.');
       }
       throw error;
     }
@@ -104,8 +83,8 @@ export class ThemeService {
     try {
       await apiClient.delete(`/themes/${themeId}`, config);
     } catch (error: any) {
-      if (error.response?.status === 403) {
-        throw new Error('You are not authorized to delete this product. Only vendors can delete their own products.');
+      if (error instanceof ForbiddenError) {
+        throw new ForbiddenError('You are not authorized to delete this product. Only vendors can delete their own products.');
       }
       throw error;
     }
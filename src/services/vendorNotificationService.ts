@@ -1,26 +1,12 @@
 import { Notification } from '../types/notification';
+import apiClient from './apiClient';
 
-const API_BASE_URL = 'http://localhost:8080/api/notifications';
+const NOTIFICATIONS_PATH = '/notifications';
 
 class VendorNotificationService {
-  private getAuthHeaders() {
-    const token = localStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
-
   async getNotificationsByVendor(vendorPhone: string): Promise<Notification[]> {
-    const response = await fetch(`${API_BASE_URL}/vendor/${vendorPhone}`, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch vendor notifications');
-    }
-
-    return response.json();
+    const response = await apiClient.get(`${NOTIFICATIONS_PATH}/vendor/${vendorPhone}`);
+    return response.data;
   }
 
   async getNotificationStats(vendorPhone: string): Promise<{
@@ -45,25 +31,11 @@ class VendorNotificationService {
   }
 
   async markAsRead(notificationId: number): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/${notificationId}/read`, {
-      method: 'PUT',
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to mark notification as read');
-    }
+    await apiClient.put(`${NOTIFICATIONS_PATH}/${notificationId}/read`);
   }
 
   async markAllAsRead(vendorPhone: string): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/vendor/${vendorPhone}/read-all`, {
-      method: 'PUT',
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to mark all notifications as read');
-    }
+    await apiClient.put(`${NOTIFICATIONS_PATH}/vendor/${vendorPhone}/read-all`);
   }
 }
 
@@ -0,0 +1,103 @@
+import { OrderStatusValue } from './cart';
+
+// Inclusive range of days
+export interface DateRange {
+  from: string; // YYYY-MM-DD format
+  to: string; // YYYY-MM-DD format
+}
+
+// Headline numbers for one period; cancelled orders do not count towards revenue
+export interface SalesSummary {
+  revenue: number;
+  orderCount: number; // Including cancelled orders
+  averageOrderValue: number;
+  cancellationRate: number; // 0-1
+  customerCount: number;
+  repeatCustomerShare: number; // 0-1, customers in the period who have ordered more than once
+}
+
+// Revenue of one bucket of a period; buckets are days, weeks or months depending on its length
+export interface RevenuePoint {
+  label: string;
+  start: string; // YYYY-MM-DD format
+  revenue: number;
+  orderCount: number;
+}
+
+export interface TopSellingItem {
+  itemId: string;
+  itemName: string;
+  itemType: string; // Lower case
+  quantity: number;
+  revenue: number;
+}
+
+export interface RatingTrendPoint {
+  month: string; // YYYY-MM format
+  averageRating: number;
+  ratingCount: number;
+}
+
+export interface SalesAnalytics {
+  range: DateRange;
+  previousRange: DateRange; // Same length, immediately before
+  summary: SalesSummary;
+  previousSummary: SalesSummary;
+  revenueSeries: RevenuePoint[];
+  previousRevenueSeries: RevenuePoint[]; // Bucketed the same way, for comparison
+  ordersByStatus: Partial<Record<OrderStatusValue, number>>;
+  topItems: Record<string, TopSellingItem[]>; // By item type
+  bookingsByDate: Record<string, number>; // YYYY-MM-DD -> orders booked for that day
+}
+
+// Order statistics reported by the server for a period; counts the client cannot see, such as carts
+export interface OrderStatistics {
+  totalOrders: number;
+  totalRevenue: number;
+  ordersByStatus: Partial<Record<OrderStatusValue, number>>;
+  cartsCreated: number; // Carts with at least one item
+  cartsConverted: number; // Carts checked out into an order
+  disputedOrders: number; // Orders with a complaint or contested charge
+}
+
+export type BusinessSegment = 'tent' | 'catering';
+
+export interface SegmentSales {
+  orderCount: number;
+  revenue: number;
+}
+
+export interface VendorPerformance {
+  businessId: string;
+  businessName: string;
+  revenue: number;
+  orderCount: number;
+  averageRating?: number;
+  ratingCount: number;
+}
+
+// Businesses close enough together to show as one place on the map
+export interface BusinessLocationCluster {
+  latitude: number;
+  longitude: number;
+  businessCount: number;
+  businessNames: string[];
+}
+
+export interface PlatformAnalytics {
+  range: DateRange;
+  previousRange: DateRange;
+  summary: SalesSummary; // GMV is the revenue
+  previousSummary: SalesSummary;
+  gmvSeries: RevenuePoint[];
+  previousGmvSeries: RevenuePoint[];
+  salesBySegment: Record<BusinessSegment, SegmentSales>;
+  activeVendors: number; // Vendors with at least one order in the period
+  previousActiveVendors: number;
+  newVendors: number; // Businesses created in the period
+  previousNewVendors: number;
+  topVendorsByRevenue: VendorPerformance[];
+  topVendorsByRating: VendorPerformance[];
+  locations: BusinessLocationCluster[];
+  unlocatedBusinesses: number; // Businesses without valid coordinates
+}
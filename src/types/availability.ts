@@ -24,6 +24,7 @@ export interface CheckAvailabilityRequest {
   itemType: 'theme' | 'inventory' | 'plate';
   date: string; // YYYY-MM-DD format
   quantity: number;
+  holderId?: string; // Holds placed by this cart do not count against it
 }
 
 export interface AvailabilityCheckResponse {
@@ -34,3 +35,115 @@ export interface AvailableQuantityResponse {
   availableQuantity: number;
 }
 
+
+// Open sets dates available with the rule's quantity; blackout closes them, and wins over open rules
+export type AvailabilityRuleKind = 'OPEN' | 'BLACKOUT';
+
+// Availability for many dates at once, kept so it can be edited and applied again
+export interface AvailabilityRule {
+  ruleId: string;
+  itemId: string;
+  itemType: 'theme' | 'inventory' | 'plate';
+  businessId: string;
+  name: string;
+  kind: AvailabilityRuleKind;
+  startDate: string; // YYYY-MM-DD format
+  endDate: string; // YYYY-MM-DD format, inclusive
+  weekdays: number[]; // 0 (Sunday) to 6 (Saturday); empty means every day
+  availableQuantity: number; // Ignored for blackouts
+  priceOverride?: number; // Ignored for blackouts
+  exceptions: string[]; // YYYY-MM-DD dates the rule leaves alone
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type AvailabilityRuleRequest = Omit<AvailabilityRule, 'ruleId' | 'createdAt' | 'updatedAt'>;
+
+export type AvailabilityDateChangeType = 'create' | 'update' | 'unchanged' | 'blocked';
+
+// What applying a rule would do to one date
+export interface AvailabilityDateChange {
+  date: string; // YYYY-MM-DD format
+  type: AvailabilityDateChangeType; // Blocked dates are closed by a blackout rule and left alone
+  current?: Availability;
+  request: AvailabilityRequest;
+}
+
+// An item whose availability a vendor manages
+export interface AvailabilityItem {
+  id: string;
+  name: string;
+  type: 'theme' | 'inventory' | 'plate';
+}
+
+// How full a day is for an item, for colouring the calendar
+export type AvailabilityLevel = 'unset' | 'closed' | 'open' | 'filling' | 'full';
+
+// One item on one day: what the vendor set and what has been booked
+export interface AvailabilityCell {
+  item: AvailabilityItem;
+  date: string; // YYYY-MM-DD format
+  availability?: Availability;
+  booked: number;
+  remaining: number; // Set quantity less booked; zero when closed or unset
+  level: AvailabilityLevel;
+}
+
+// Units set aside for a cart while the client checks out; the server drops it at expiresAt
+export interface AvailabilityHold {
+  holdId: string;
+  holderId: string;
+  itemId: string;
+  itemType: 'theme' | 'inventory' | 'plate';
+  businessId: string;
+  holdDate: string; // YYYY-MM-DD format
+  quantity: number;
+  expiresAt: string; // ISO timestamp
+}
+
+// Placing a hold replaces any hold the same holder has on the item for that date
+export type AvailabilityHoldRequest = Omit<AvailabilityHold, 'holdId' | 'expiresAt'>;
+
+export type CartHoldStatus = 'placing' | 'held' | 'expired' | 'failed';
+
+// Hold for one cart line, for the date and quantity it was placed with
+export interface CartHold {
+  status: CartHoldStatus;
+  date: string; // YYYY-MM-DD format
+  quantity: number;
+  hold?: AvailabilityHold; // Set while held
+  message?: string; // Why placing it failed
+}
+
+// Limits on when and how much of an item can be booked; unset limits are not enforced
+export interface BookingConstraints {
+  leadTimeDays?: number; // Days of notice needed; 0 allows same-day bookings
+  maxAdvanceDays?: number; // How far ahead bookings are accepted
+  minQuantity?: number;
+  maxQuantity?: number;
+  sameDayCutoff?: string; // HH:mm; bookings made after this time need a day more notice
+}
+
+// Constraints for one item; limits set here override the business defaults
+export interface ItemBookingConstraints extends BookingConstraints {
+  itemId: string;
+  itemType: 'theme' | 'inventory' | 'plate' | 'dish';
+  itemName: string;
+}
+
+// Per-business booking constraints
+export interface BookingSettings {
+  businessId: string;
+  defaults: BookingConstraints;
+  itemRules: ItemBookingConstraints[];
+  updatedAt?: string;
+}
+
+export type BookingViolationCode = 'LEAD_TIME' | 'TOO_FAR_AHEAD' | 'BELOW_MIN_QUANTITY' | 'ABOVE_MAX_QUANTITY';
+
+// A booking constraint a cart line breaks
+export interface BookingViolation {
+  code: BookingViolationCode;
+  message: string;
+  quantity?: number; // Quantity that fixes a quantity violation
+}
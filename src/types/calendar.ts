@@ -0,0 +1,23 @@
+import { Order, OrderItemResponse } from './cart';
+
+// One event read from an iCalendar (.ics) file
+export interface CalendarEvent {
+  uid?: string;
+  summary: string;
+  startDate: string; // YYYY-MM-DD format
+  endDate: string; // YYYY-MM-DD format, inclusive
+  busy: boolean; // False for events marked free (TRANSP:TRANSPARENT)
+  recurring: boolean; // Only the first occurrence of a recurring event is read
+}
+
+// A day an imported calendar marks busy, with the events that make it so
+export interface CalendarBusyDate {
+  date: string; // YYYY-MM-DD format
+  summaries: string[];
+}
+
+// A booked order line; exported as one calendar event
+export interface CalendarBooking {
+  order: Order;
+  item: OrderItemResponse;
+}
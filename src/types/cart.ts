@@ -1,3 +1,7 @@
+import { DiscountLine } from './promotion';
+import { PaymentEntry } from './payment';
+import { OrderStatus } from './index';
+
 export interface CartItem {
   id: string;
   type: 'theme' | 'inventory' | 'plate' | 'dish';
@@ -31,6 +35,46 @@ export interface CartItem {
     dishPrice: number;
     quantity: number;
   }>;
+  // Problems found when a saved cart was re-checked; flagged items cannot be ordered as-is
+  flags?: CartItemFlags;
+}
+
+export interface CartItemFlags {
+  // Catalogue price differs from the price stored with the cart
+  priceChanged?: {
+    previousPrice: number;
+    currentPrice: number;
+    // Plate dishes re-priced at current dish prices
+    currentSelectedDishes?: CartItem['selectedDishes'];
+  };
+  // Booking date is in the past or no longer has enough stock
+  dateUnavailable?: boolean;
+  // Item was removed or deactivated by the vendor
+  itemUnavailable?: boolean;
+}
+
+// Problem with a cart line found by the pre-checkout validation
+export interface CartLineIssue {
+  itemId: string;
+  itemType: CartItem['type'];
+  code:
+    | 'DATE_UNAVAILABLE'
+    | 'INSUFFICIENT_AVAILABILITY'
+    | 'INSUFFICIENT_STOCK'
+    | 'ITEM_UNAVAILABLE'
+    | 'BOOKING_DATE_NOT_ALLOWED'
+    | 'QUANTITY_NOT_ALLOWED';
+  message: string;
+  // Largest quantity that can still be ordered, when the line can be adjusted down
+  maxQuantity?: number;
+  // Smallest quantity the vendor accepts, when the line must be adjusted up
+  minQuantity?: number;
+}
+
+// Cart as persisted in localStorage and on the server
+export interface SavedCart {
+  items: CartItem[];
+  updatedAt: string; // ISO timestamp
 }
 
 
@@ -44,18 +88,68 @@ export interface Cart {
 export interface Order {
   orderId: number;
   userId: string;
+  checkoutId?: string; // Parent checkout reference shared by orders placed together
   customerName: string;
   customerEmail: string;
   customerPhone: string;
   deliveryAddress: string;
   deliveryDate: string;
   specialNotes?: string;
-  totalAmount: number;
-  status: 'PENDING' | 'CONFIRMED' | 'PREPARING' | 'READY' | 'DELIVERED' | 'CANCELLED';
+  totalAmount: number; // Amount payable after discounts
+  subtotalAmount?: number; // Item total before discounts
+  discountAmount?: number;
+  discounts?: DiscountLine[];
+  depositAmount?: number; // Part of the total due at checkout
+  balanceDueDate?: string; // YYYY-MM-DD format, when the rest must be paid
+  payments?: PaymentEntry[]; // Payment ledger: deposit, balance and refunds
+  damageCharges?: number; // Charges for damaged or missing rentals, included in totalAmount
+  status: OrderStatusValue;
+  statusHistory?: OrderStatusChange[]; // Audit timeline, oldest first
   orderDate: string;
   orderItems: OrderItemResponse[];
 }
 
+// String values of the shared OrderStatus enum
+export type OrderStatusValue = `${OrderStatus}`;
+
+export type OrderActorRole = 'CLIENT' | 'VENDOR' | 'ADMIN' | 'SYSTEM';
+
+// Who is changing an order
+export interface OrderActor {
+  role: OrderActorRole;
+  phoneNumber?: string;
+  name?: string;
+}
+
+// One entry of an order's audit timeline
+export interface OrderStatusChange {
+  fromStatus?: OrderStatusValue; // Not set for the entry recording the order being placed
+  toStatus: OrderStatusValue;
+  changedAt: string; // ISO timestamp
+  changedBy?: string; // Phone number of the user, if any
+  changedByName?: string;
+  role: OrderActorRole;
+  reason?: string; // Required for cancellations
+}
+
+// Filters for vendor order views; unset fields do not filter
+export interface OrderFilters {
+  deliveryFrom?: string; // YYYY-MM-DD format
+  deliveryTo?: string; // YYYY-MM-DD format
+  businessId?: string;
+  itemType?: string; // Lower case, e.g. 'plate'
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+// One logical purchase: the vendor orders created together from a single cart
+export interface CheckoutSession {
+  checkoutId: string;
+  orders: Order[];
+  totalAmount: number;
+  createdAt: string; // ISO timestamp
+}
+
 export interface OrderItemResponse {
   orderItemId: number;
   itemId: string;
@@ -68,8 +162,21 @@ export interface OrderItemResponse {
   imageUrl?: string;
   bookingDate?: string; // Date for which the item is booked (YYYY-MM-DD format)
   selectedDishes?: string; // JSON string storing selected dishes for plates
+  fulfilmentStatus?: ItemFulfilmentStatus; // Not set until the vendor first updates the line
+  fulfilmentUpdatedAt?: string; // ISO timestamp of the last fulfilment update
+  expectedReturnDate?: string; // Rentals only, YYYY-MM-DD format; defaults to the day after the booking
 }
 
+// Delivery progress of a single order line; which steps apply depends on the item type
+export type ItemFulfilmentStatus =
+  | 'PENDING'
+  | 'CONFIRMED'
+  | 'PREPARED'
+  | 'DISPATCHED'
+  | 'SET_UP'
+  | 'PICKED_UP'
+  | 'RETURNED';
+
 export interface OrderFormData {
   customerName: string;
   customerEmail: string;
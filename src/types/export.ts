@@ -0,0 +1,19 @@
+export type ExportFormat = 'csv' | 'xlsx';
+
+// One row per order, or one row per order line
+export type ExportGranularity = 'order' | 'line';
+
+// How a column is formatted: currency and numbers with Indian digit grouping, dates as DD/MM/YYYY
+export type ExportColumnType = 'text' | 'number' | 'currency' | 'date';
+
+export interface ExportColumn {
+  header: string;
+  type: ExportColumnType;
+}
+
+export type ExportValue = string | number | null | undefined; // Dates in YYYY-MM-DD format
+
+export interface ExportTable {
+  columns: ExportColumn[];
+  rows: ExportValue[][];
+}
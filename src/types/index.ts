@@ -99,12 +99,20 @@ export interface Inventory {
   inventoryDescription: string;
   inventoryCategory: string;
   price: number;
-  quantity: number;
+  quantity: number; // Units the vendor owns, including any out on rent
+  rentedOut?: number; // Units dispatched on rent and not yet back; the server counts them against availability
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+// Stock change sent with a dispatch or return; the server applies it in the same request
+export interface RentalMovement {
+  dispatched?: number; // Units going out on rent
+  returned?: number; // Units no longer out: back in good condition, damaged or missing
+  lost?: number; // Damaged or missing units, taken off the owned stock for good
+}
+
 export interface InventoryImage {
   imageId: string;
   inventoryId: string;
@@ -0,0 +1,70 @@
+// GST categories of what vendors sell on the platform
+export type GstCategory = 'THEME' | 'INVENTORY_RENTAL' | 'CATERING';
+
+export interface GstCategoryRate {
+  rate: number; // Total GST percentage, split into CGST+SGST or charged as IGST
+  hsnSac: string; // HSN or SAC code printed on the invoice
+  description: string;
+}
+
+// Per-business tax settings used when issuing invoices
+export interface TaxSettings {
+  businessId: string;
+  gstin?: string; // Defaults to Vendor.taxId
+  registrationNumber?: string; // Defaults to Vendor.registrationNumber
+  legalName?: string; // Registered legal name, if different from the business name
+  stateCode?: string; // 2-digit GST state code; taken from the GSTIN when empty
+  invoicePrefix: string; // e.g. "INV" -> INV/2026-27/0001
+  categoryRates: Record<GstCategory, GstCategoryRate>;
+  updatedAt?: string;
+}
+
+export interface InvoiceParty {
+  name: string;
+  address: string;
+  phone?: string;
+  email?: string;
+  gstin?: string;
+  registrationNumber?: string;
+  stateCode?: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  category: GstCategory;
+  hsnSac: string;
+  quantity: number;
+  unitPrice: number; // Price paid per unit, tax inclusive
+  discount: number;
+  taxableValue: number;
+  gstRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+// Invoice contents computed from an order, before the server assigns a number
+export interface InvoiceDraft {
+  orderId: number;
+  businessId: string;
+  supplier: InvoiceParty;
+  recipient: InvoiceParty;
+  placeOfSupply: string; // State name
+  isInterState: boolean; // IGST instead of CGST+SGST
+  lines: InvoiceLine[];
+  taxableTotal: number;
+  cgstTotal: number;
+  sgstTotal: number;
+  igstTotal: number;
+  discountTotal: number;
+  grandTotal: number;
+}
+
+// Issued invoice; numbers are sequential per business
+export interface Invoice extends InvoiceDraft {
+  invoiceId: string;
+  invoiceNumber: string;
+  issuedAt: string; // ISO timestamp
+  replacesInvoiceNumber?: string; // Set when reissued after the order changed; the replaced invoice is cancelled
+}
@@ -0,0 +1,18 @@
+// Portions of one dish needed on a day, from the plates ordered for it
+export interface KitchenPrepDish {
+  dishId: string;
+  dishName: string;
+  vegQuantity: number; // On veg plates
+  nonVegQuantity: number; // On non-veg plates
+  totalQuantity: number;
+  stock?: number; // Dish.quantity; undefined when the vendor does not track it
+  shortfall: number; // Portions beyond stock, 0 when covered or untracked
+}
+
+export interface KitchenPrepDay {
+  date: string; // YYYY-MM-DD format
+  dishes: KitchenPrepDish[]; // By dish name
+  vegPlates: number;
+  nonVegPlates: number;
+  orderCount: number;
+}
@@ -0,0 +1,42 @@
+import { CartItem } from './cart';
+
+export type SelectedDish = NonNullable<CartItem['selectedDishes']>[number];
+
+export type OrderChangeRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'WITHDRAWN';
+
+// Requested change to one line of an order; only the fields being changed are set
+export interface OrderLineChange {
+  orderItemId: number;
+  itemId: string;
+  itemType: string;
+  itemName: string;
+  cancelLine?: boolean;
+  bookingDate?: { from?: string; to: string }; // YYYY-MM-DD format
+  quantity?: { from: number; to: number };
+  selectedDishes?: { from: SelectedDish[]; to: SelectedDish[] };
+  newUnitPrice?: number; // Set when the dishes change the plate price
+  priceDifference: number; // Positive: customer pays more
+}
+
+export interface OrderChangeRequest {
+  requestId: string;
+  orderId: number;
+  businessId: string;
+  userId: string;
+  changes: OrderLineChange[];
+  priceDifference: number;
+  reason?: string;
+  status: OrderChangeRequestStatus;
+  vendorNote?: string;
+  createdAt: string; // ISO timestamp
+  respondedAt?: string; // ISO timestamp
+}
+
+export interface OrderChangeRequestFormData {
+  orderId: number;
+  businessId: string;
+  userId: string;
+  changes: OrderLineChange[];
+  priceDifference: number;
+  reason?: string;
+}
@@ -0,0 +1,34 @@
+import { OrderFilters, OrderStatusValue } from './cart';
+
+export type OrderSortField = 'orderDate' | 'deliveryDate' | 'totalAmount';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Everything an order list can be narrowed and sorted by; unset fields do not filter
+export interface OrderSearchFilters extends OrderFilters {
+  statuses?: OrderStatusValue[];
+  orderFrom?: string; // YYYY-MM-DD format
+  orderTo?: string; // YYYY-MM-DD format
+  customer?: string; // Matches customer name, phone or email
+  itemName?: string; // Matches any line of the order
+}
+
+// Search as kept in the URL
+export interface OrderSearchQuery extends OrderSearchFilters {
+  sortBy: OrderSortField;
+  sortDirection: SortDirection;
+  page: number; // Zero-based
+  size: number;
+}
+
+// Whose orders to search
+export type OrderSearchScope = { userId: string } | { businessId: string };
+
+// One page of results from the server
+export interface PagedResult<T> {
+  content: T[];
+  page: number; // Zero-based
+  size: number;
+  totalElements: number;
+  totalPages: number;
+}
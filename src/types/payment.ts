@@ -0,0 +1,93 @@
+import { CartItem } from './cart';
+
+export type DepositType = 'PERCENTAGE' | 'FIXED';
+
+export interface DepositRule {
+  type: DepositType;
+  value: number; // Percentage (0-100) or amount in rupees
+}
+
+// Deposit for one item, overriding the business default
+export interface ItemDepositRule extends DepositRule {
+  itemId: string;
+  itemType: CartItem['type'];
+  itemName: string;
+}
+
+// Per-business deposit settings. A FIXED business default is per order, a FIXED item rule per unit.
+export interface DepositSettings {
+  businessId: string;
+  defaultRule?: DepositRule | null; // No rule: the full amount is due at checkout
+  itemRules: ItemDepositRule[];
+  balanceDueDays: number; // Days before the event the balance must be paid
+  updatedAt?: string;
+}
+
+export type PaymentEntryType = 'DEPOSIT' | 'BALANCE' | 'REFUND';
+
+// One line of an order's payment ledger
+export interface PaymentEntry {
+  paymentId: string;
+  type: PaymentEntryType;
+  amount: number; // Always positive; refunds are subtracted
+  date: string; // ISO timestamp
+  provider: string;
+  transactionId: string;
+  refundOf?: string; // Refunds: transaction id of the payment refunded
+  note?: string;
+}
+
+export type PaymentState = 'UNPAID' | 'DEPOSIT_PAID' | 'PAID' | 'PARTIALLY_REFUNDED' | 'REFUNDED';
+
+export interface PaymentSummary {
+  state: PaymentState;
+  paid: number;
+  refunded: number;
+  balance: number; // Still to be paid, 0 once settled
+  balanceDueDate?: string; // YYYY-MM-DD format
+}
+
+// What a vendor order costs now and before the event
+export interface VendorPaymentSchedule {
+  businessId: string;
+  businessName: string;
+  total: number;
+  dueNow: number;
+  dueBeforeEvent: number;
+  balanceDueDate?: string; // YYYY-MM-DD format, set when something is left to pay
+}
+
+export interface PaymentPlan {
+  vendors: VendorPaymentSchedule[];
+  dueNow: number;
+  dueBeforeEvent: number;
+}
+
+export interface PaymentRequest {
+  amount: number;
+  currency: 'INR';
+  reference: string; // Order or checkout reference shown on the customer's statement
+  description: string;
+  customerPhone?: string;
+}
+
+export interface RefundRequest {
+  amount: number;
+  transactionId: string; // Transaction being refunded
+  reason?: string;
+}
+
+export interface PaymentResult {
+  transactionId: string;
+  amount: number;
+  processedAt: string; // ISO timestamp
+}
+
+/**
+ * A payment gateway. Implementations throw when a charge or refund is declined.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+  refund(request: RefundRequest): Promise<PaymentResult>;
+}
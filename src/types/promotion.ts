@@ -0,0 +1,82 @@
+export type PromotionType =
+  | 'PERCENTAGE' // percentOff of the eligible amount, optionally capped by maxDiscount
+  | 'FLAT_ABOVE_MIN' // flatAmount off once the eligible amount reaches minOrderAmount
+  | 'BUY_X_GET_Y' // on plates: for every buyQuantity plates, getQuantity more are free
+  | 'FIRST_ORDER'; // percentOff or flatAmount off the customer's first order
+
+// Vendor promotions apply to that vendor's items only; platform promotions apply to the whole cart
+export type PromotionScope = 'VENDOR' | 'PLATFORM';
+
+export interface Promotion {
+  promotionId: string;
+  code: string; // Coupon code entered by the customer (stored upper-case)
+  title: string;
+  description?: string;
+  scope: PromotionScope;
+  businessId?: string; // Set for vendor promotions
+  type: PromotionType;
+  percentOff?: number;
+  flatAmount?: number;
+  maxDiscount?: number;
+  minOrderAmount?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  plateId?: string; // Limit a buy-X-get-Y offer to one plate
+  validFrom?: string; // YYYY-MM-DD format
+  validUntil?: string; // YYYY-MM-DD format
+  isActive: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface PromotionFormData {
+  code: string;
+  title: string;
+  description?: string;
+  scope: PromotionScope;
+  businessId?: string;
+  type: PromotionType;
+  percentOff?: number;
+  flatAmount?: number;
+  maxDiscount?: number;
+  minOrderAmount?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  plateId?: string;
+  validFrom?: string;
+  validUntil?: string;
+  isActive: boolean;
+}
+
+// Discount granted to one vendor's order by one promotion
+export interface DiscountLine {
+  promotionId: string;
+  code: string;
+  title: string;
+  scope: PromotionScope;
+  businessId: string;
+  amount: number;
+}
+
+export interface VendorPricing {
+  businessId: string;
+  businessName: string;
+  subtotal: number;
+  discounts: DiscountLine[];
+  discountTotal: number;
+  total: number;
+}
+
+export interface CartPricing {
+  vendors: VendorPricing[];
+  subtotal: number;
+  discountTotal: number;
+  total: number;
+  // Applied coupons that currently give no discount, with the reason
+  inapplicable: { promotion: Promotion; reason: string }[];
+}
+
+export interface PromotionContext {
+  isFirstOrder: boolean;
+  today: string; // YYYY-MM-DD format
+}
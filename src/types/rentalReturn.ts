@@ -0,0 +1,41 @@
+export type RentalReturnState = 'NOT_DUE' | 'OUT' | 'OVERDUE' | 'PARTIALLY_RETURNED' | 'RETURNED';
+
+// One return recorded by the vendor for a rented order line; a line can come back over several returns
+export interface RentalReturn {
+  returnId: string;
+  orderId: number;
+  orderItemId: number;
+  inventoryId: string;
+  businessId: string;
+  returnedDate: string; // YYYY-MM-DD format
+  quantityReturned: number; // Back in good condition
+  quantityDamaged: number;
+  quantityMissing: number;
+  damageCharge: number; // Added to the order total by the server
+  photoUrls: string[];
+  notes?: string;
+  recordedBy?: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface RentalReturnFormData {
+  returnedDate: string; // YYYY-MM-DD format
+  quantityReturned: number;
+  quantityDamaged: number;
+  quantityMissing: number;
+  damageCharge: number;
+  photoUrls: string[];
+  notes?: string;
+}
+
+// Where a rented line stands, across all its returns
+export interface RentalReturnSummary {
+  state: RentalReturnState;
+  expectedReturnDate: string;
+  rented: number;
+  returned: number;
+  damaged: number;
+  missing: number;
+  outstanding: number;
+  damageCharges: number;
+}
@@ -0,0 +1,27 @@
+import { Order, OrderItemResponse } from './cart';
+
+// One delivery on a run sheet: the lines of one order due on that day
+export interface RunSheetStop {
+  order: Order;
+  items: OrderItemResponse[];
+  distanceKm: number | null; // From the business; null when either location is unknown
+}
+
+// Quantity of one item or dish needed on a day
+export interface RunSheetTotal {
+  id: string;
+  name: string;
+  quantity: number;
+}
+
+export interface RunSheetDay {
+  date: string; // YYYY-MM-DD format
+  stops: RunSheetStop[]; // Nearest first
+  inventoryTotals: RunSheetTotal[];
+  dishTotals: RunSheetTotal[];
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
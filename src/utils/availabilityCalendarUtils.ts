@@ -0,0 +1,106 @@
+/**
+ * Availability calendar: what each item has set and booked per day, and drag-selections across items and days
+ */
+
+import { Order } from '../types/cart';
+import { Availability, AvailabilityCell, AvailabilityItem, AvailabilityLevel } from '../types/availability';
+import { getItemDeliveryDate } from './runSheetUtils';
+
+// Share of the set quantity booked from which a day counts as filling up
+const FILLING_SHARE = 0.5;
+
+/**
+ * Key for an item; item types are compared without case, as orders and availability spell them differently
+ */
+export function getItemKey(itemType: string, itemId: string): string {
+  return `${itemType.toLowerCase()}:${itemId}`;
+}
+
+/**
+ * Key for an item on a day
+ */
+export function getAvailabilityKey(itemType: string, itemId: string, date: string): string {
+  return `${getItemKey(itemType, itemId)}:${date}`;
+}
+
+/**
+ * Quantity booked of each item per day, from orders that are not cancelled
+ * @param orders Orders of the business
+ * @param businessId Business whose lines count
+ * @returns Availability key -> quantity booked
+ */
+export function getBookedQuantities(orders: Order[], businessId: string): Record<string, number> {
+  const booked: Record<string, number> = {};
+  orders
+    .filter(order => order.status !== 'CANCELLED')
+    .forEach(order =>
+      (order.orderItems || [])
+        .filter(item => item.businessId === businessId)
+        .forEach(item => {
+          const key = getAvailabilityKey(item.itemType, item.itemId, getItemDeliveryDate(item, order));
+          booked[key] = (booked[key] || 0) + item.quantity;
+        })
+    );
+  return booked;
+}
+
+const getLevel = (availability: Availability | undefined, booked: number): AvailabilityLevel => {
+  if (!availability) return 'unset';
+  if (!availability.isAvailable) return 'closed';
+  if (booked >= availability.availableQuantity) return 'full';
+  return booked / availability.availableQuantity >= FILLING_SHARE ? 'filling' : 'open';
+};
+
+/**
+ * Build the calendar cells for items over days
+ * @param items Items, one row each
+ * @param dates YYYY-MM-DD dates, one column each
+ * @param availabilities Availability of the business
+ * @param booked Quantities from getBookedQuantities
+ * @returns Rows of cells, in the order of the items
+ */
+export function buildAvailabilityCells(
+  items: AvailabilityItem[],
+  dates: string[],
+  availabilities: Availability[],
+  booked: Record<string, number>
+): AvailabilityCell[][] {
+  const byKey = new Map(
+    availabilities.map(availability => [
+      getAvailabilityKey(availability.itemType, availability.itemId, availability.availabilityDate),
+      availability,
+    ])
+  );
+
+  return items.map(item =>
+    dates.map(date => {
+      const key = getAvailabilityKey(item.type, item.id, date);
+      const availability = byKey.get(key);
+      const bookedQuantity = booked[key] || 0;
+      return {
+        item,
+        date,
+        availability,
+        booked: bookedQuantity,
+        remaining: availability?.isAvailable ? Math.max(0, availability.availableQuantity - bookedQuantity) : 0,
+        level: getLevel(availability, bookedQuantity),
+      };
+    })
+  );
+}
+
+/**
+ * Cells in the rectangle between two corners of a drag, in either direction
+ * @param cells Calendar rows
+ * @param start Row and column where the drag started
+ * @param end Row and column where it is now
+ */
+export function getSelectedCells(
+  cells: AvailabilityCell[][],
+  start: { row: number; column: number },
+  end: { row: number; column: number }
+): AvailabilityCell[] {
+  const [firstRow, lastRow] = [Math.min(start.row, end.row), Math.max(start.row, end.row)];
+  const [firstColumn, lastColumn] = [Math.min(start.column, end.column), Math.max(start.column, end.column)];
+  return cells.slice(firstRow, lastRow + 1).flatMap(row => row.slice(firstColumn, lastColumn + 1));
+}
@@ -0,0 +1,126 @@
+/**
+ * Availability rules: expanding date ranges and weekday patterns into dates, and previewing what applying them changes
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Availability, AvailabilityDateChange, AvailabilityRequest, AvailabilityRuleRequest } from '../types/availability';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A rule covers at most a year, so one save cannot touch thousands of dates
+export const MAX_RULE_DAYS = 366;
+
+/**
+ * Dates a rule covers: every day of its range on its weekdays, except its exceptions
+ * @param rule Rule to expand
+ * @returns YYYY-MM-DD dates in order; empty when the range is invalid
+ */
+export function getRuleDates(rule: AvailabilityRuleRequest): string[] {
+  if (!rule.startDate || !rule.endDate || rule.startDate > rule.endDate) return [];
+  const start = parseISO(rule.startDate);
+  const days = Math.min(differenceInCalendarDays(parseISO(rule.endDate), start) + 1, MAX_RULE_DAYS);
+  const exceptions = new Set(rule.exceptions);
+
+  const dates: string[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const day = addDays(start, offset);
+    const date = format(day, 'yyyy-MM-dd');
+    if ((rule.weekdays.length === 0 || rule.weekdays.includes(day.getDay())) && !exceptions.has(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Check a rule before it is previewed or saved
+ * @returns Problems to show the vendor; empty when the rule is valid
+ */
+export function validateRule(rule: AvailabilityRuleRequest): string[] {
+  const errors: string[] = [];
+  if (!rule.name.trim()) errors.push('Give the rule a name');
+  if (!rule.startDate || !rule.endDate) {
+    errors.push('Choose a start and end date');
+  } else if (rule.startDate > rule.endDate) {
+    errors.push('The end date must be on or after the start date');
+  } else if (differenceInCalendarDays(parseISO(rule.endDate), parseISO(rule.startDate)) + 1 > MAX_RULE_DAYS) {
+    errors.push(`A rule can cover at most ${MAX_RULE_DAYS} days`);
+  } else if (getRuleDates(rule).length === 0) {
+    errors.push('No dates in the range fall on the chosen days');
+  }
+  if (rule.kind === 'OPEN') {
+    if (rule.availableQuantity < 0) errors.push('Quantity cannot be negative');
+    if (rule.priceOverride !== undefined && rule.priceOverride < 0) errors.push('Price cannot be negative');
+  }
+  return errors;
+}
+
+/**
+ * The availability a rule sets on a date
+ */
+export function getRuleRequest(rule: AvailabilityRuleRequest, date: string): AvailabilityRequest {
+  const open = rule.kind === 'OPEN';
+  return {
+    itemId: rule.itemId,
+    itemType: rule.itemType,
+    businessId: rule.businessId,
+    availabilityDate: date,
+    availableQuantity: open ? rule.availableQuantity : 0,
+    isAvailable: open,
+    priceOverride: open ? rule.priceOverride : undefined,
+  };
+}
+
+const isSameAvailability = (current: Availability, request: AvailabilityRequest): boolean =>
+  current.availableQuantity === request.availableQuantity &&
+  current.isAvailable === request.isAvailable &&
+  (current.priceOverride ?? undefined) === (request.priceOverride ?? undefined);
+
+/**
+ * What applying a rule would do to each of its dates. Past dates are left out.
+ * @param rule Rule being applied
+ * @param otherRules The item's other rules; their blackouts keep an open rule off those dates
+ * @param availabilities The item's current availability
+ * @param today YYYY-MM-DD date before which nothing changes
+ */
+export function previewRule(
+  rule: AvailabilityRuleRequest,
+  otherRules: AvailabilityRuleRequest[],
+  availabilities: Availability[],
+  today = format(new Date(), 'yyyy-MM-dd')
+): AvailabilityDateChange[] {
+  const current = new Map(availabilities.map(availability => [availability.availabilityDate, availability]));
+  const blackedOut = new Set(
+    rule.kind === 'OPEN'
+      ? otherRules.filter(other => other.kind === 'BLACKOUT').flatMap(other => getRuleDates(other))
+      : []
+  );
+
+  return getRuleDates(rule)
+    .filter(date => date >= today)
+    .map(date => {
+      const request = getRuleRequest(rule, date);
+      const existing = current.get(date);
+      const type = blackedOut.has(date)
+        ? 'blocked'
+        : !existing
+        ? 'create'
+        : isSameAvailability(existing, request)
+        ? 'unchanged'
+        : 'update';
+      return { date, type, current: existing, request };
+    });
+}
+
+/**
+ * Describe a rule's dates in a few words, e.g. "Sat, Sun · 1 Nov 2026 – 31 Mar 2027"
+ */
+export function describeRuleDates(rule: AvailabilityRuleRequest): string {
+  const days =
+    rule.weekdays.length === 0 || rule.weekdays.length === 7
+      ? 'Every day'
+      : [...rule.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+  const range = `${format(parseISO(rule.startDate), 'd MMM yyyy')} – ${format(parseISO(rule.endDate), 'd MMM yyyy')}`;
+  const exceptions = rule.exceptions.length > 0 ? ` · ${rule.exceptions.length} excepted` : '';
+  return `${days} · ${range}${exceptions}`;
+}
@@ -0,0 +1,126 @@
+/**
+ * Booking constraints: how much notice an item needs, how far ahead it can be booked, and how many can be ordered
+ */
+
+import { addDays, format, parse, parseISO } from 'date-fns';
+import { BookingConstraints, BookingSettings, BookingViolation, ItemBookingConstraints } from '../types/availability';
+
+const formatDay = (date: string): string => format(parseISO(date), 'MMM dd, yyyy');
+
+const formatCutoff = (cutoff: string): string => format(parse(cutoff, 'HH:mm', new Date()), 'h:mm a');
+
+const isPastCutoff = (constraints: BookingConstraints, now: Date): boolean =>
+  !!constraints.sameDayCutoff && format(now, 'HH:mm') >= constraints.sameDayCutoff;
+
+/**
+ * The constraints that apply to an item: its own limits, falling back to the business defaults
+ * @param settings Booking settings of the item's business; null when the vendor has set none
+ */
+export function getItemBookingConstraints(
+  settings: BookingSettings | null | undefined,
+  itemId: string,
+  itemType: ItemBookingConstraints['itemType']
+): BookingConstraints {
+  if (!settings) return {};
+  const itemRule = (settings.itemRules || []).find(rule => rule.itemId === itemId && rule.itemType === itemType);
+  const pick = <K extends keyof BookingConstraints>(key: K): BookingConstraints[K] =>
+    itemRule?.[key] ?? settings.defaults?.[key] ?? undefined;
+  return {
+    leadTimeDays: pick('leadTimeDays'),
+    maxAdvanceDays: pick('maxAdvanceDays'),
+    minQuantity: pick('minQuantity'),
+    maxQuantity: pick('maxQuantity'),
+    sameDayCutoff: pick('sameDayCutoff'),
+  };
+}
+
+/**
+ * The dates an item can be booked for right now
+ * @param now Current time; the same-day cutoff is checked against it
+ * @returns Earliest and, when there is an advance window, latest YYYY-MM-DD date
+ */
+export function getBookableDateRange(
+  constraints: BookingConstraints,
+  now = new Date()
+): { earliest: string; latest?: string } {
+  const noticeDays = (constraints.leadTimeDays || 0) + (isPastCutoff(constraints, now) ? 1 : 0);
+  return {
+    earliest: format(addDays(now, noticeDays), 'yyyy-MM-dd'),
+    latest:
+      constraints.maxAdvanceDays !== undefined ? format(addDays(now, constraints.maxAdvanceDays), 'yyyy-MM-dd') : undefined,
+  };
+}
+
+/**
+ * Check a booking date against an item's notice and advance window
+ * @param date YYYY-MM-DD date being booked
+ * @param itemName Name used in the message
+ * @returns The broken constraint, or null when the date can be booked
+ */
+export function getDateViolation(
+  constraints: BookingConstraints,
+  date: string,
+  itemName: string,
+  now = new Date()
+): BookingViolation | null {
+  const { earliest, latest } = getBookableDateRange(constraints, now);
+  if (date < earliest) {
+    const leadTimeDays = constraints.leadTimeDays || 0;
+    const withoutCutoff = getBookableDateRange({ ...constraints, sameDayCutoff: undefined }, now).earliest;
+    const message =
+      date >= withoutCutoff
+        ? `Bookings for ${formatDay(date)} closed at ${formatCutoff(constraints.sameDayCutoff!)}. The earliest date for ${itemName} is now ${formatDay(earliest)}.`
+        : leadTimeDays > 0
+        ? `${itemName} needs ${leadTimeDays} day${leadTimeDays !== 1 ? 's' : ''}' notice. The earliest date is ${formatDay(earliest)}.`
+        : `${itemName} cannot be booked for a past date.`;
+    return { code: 'LEAD_TIME', message };
+  }
+  if (latest && date > latest) {
+    return {
+      code: 'TOO_FAR_AHEAD',
+      message: `${itemName} can be booked at most ${constraints.maxAdvanceDays} days ahead, up to ${formatDay(latest)}.`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Check an ordered quantity against an item's minimum and maximum
+ * @returns The broken constraint with the nearest allowed quantity, or null when the quantity is allowed
+ */
+export function getQuantityViolation(
+  constraints: BookingConstraints,
+  quantity: number,
+  itemName: string
+): BookingViolation | null {
+  if (constraints.minQuantity && quantity < constraints.minQuantity) {
+    return {
+      code: 'BELOW_MIN_QUANTITY',
+      message: `The minimum order for ${itemName} is ${constraints.minQuantity}.`,
+      quantity: constraints.minQuantity,
+    };
+  }
+  if (constraints.maxQuantity && quantity > constraints.maxQuantity) {
+    return {
+      code: 'ABOVE_MAX_QUANTITY',
+      message: `At most ${constraints.maxQuantity} of ${itemName} can be ordered at once.`,
+      quantity: constraints.maxQuantity,
+    };
+  }
+  return null;
+}
+
+/**
+ * Describe an item's constraints for customers, e.g. "Needs 3 days' notice"
+ * @returns One short sentence per constraint that is set
+ */
+export function describeBookingConstraints(constraints: BookingConstraints): string[] {
+  const { leadTimeDays, maxAdvanceDays, minQuantity, maxQuantity, sameDayCutoff } = constraints;
+  return [
+    leadTimeDays ? `Needs ${leadTimeDays} day${leadTimeDays !== 1 ? 's' : ''}' notice` : '',
+    sameDayCutoff ? `Orders after ${formatCutoff(sameDayCutoff)} need a day more notice` : '',
+    maxAdvanceDays !== undefined ? `Can be booked up to ${maxAdvanceDays} days ahead` : '',
+    minQuantity ? `Minimum order ${minQuantity}` : '',
+    maxQuantity ? `Maximum order ${maxQuantity}` : '',
+  ].filter(Boolean);
+}
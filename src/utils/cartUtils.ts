@@ -0,0 +1,101 @@
+import { CartItem, SavedCart } from '../types/cart';
+
+/**
+ * Utility functions for persisting and merging carts
+ */
+
+const CART_STORAGE_PREFIX = 'cart_';
+export const GUEST_CART_OWNER = 'guest';
+
+const getStorageKey = (owner: string) => `${CART_STORAGE_PREFIX}${owner}`;
+
+/**
+ * Load a cart saved in localStorage
+ * @param owner Phone number of the user, or GUEST_CART_OWNER
+ * @returns Saved cart, or null if nothing (valid) is stored
+ */
+export function loadStoredCart(owner: string): SavedCart | null {
+  try {
+    const raw = localStorage.getItem(getStorageKey(owner));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!parsed || !Array.isArray(parsed.items)) return null;
+    return parsed;
+  } catch (error) {
+    console.error('Error reading stored cart:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a cart to localStorage
+ * @param owner Phone number of the user, or GUEST_CART_OWNER
+ * @param items Cart items
+ * @returns The saved cart
+ */
+export function saveStoredCart(owner: string, items: CartItem[]): SavedCart {
+  const savedCart: SavedCart = { items, updatedAt: new Date().toISOString() };
+  try {
+    if (items.length === 0) {
+      localStorage.removeItem(getStorageKey(owner));
+    } else {
+      localStorage.setItem(getStorageKey(owner), JSON.stringify(savedCart));
+    }
+  } catch (error) {
+    console.error('Error saving cart:', error);
+  }
+  return savedCart;
+}
+
+/**
+ * Remove a cart from localStorage
+ * @param owner Phone number of the user, or GUEST_CART_OWNER
+ */
+export function clearStoredCart(owner: string): void {
+  localStorage.removeItem(getStorageKey(owner));
+}
+
+/**
+ * Pick the most recently updated of two saved carts
+ */
+export function pickLatestCart(a: SavedCart | null, b: SavedCart | null): SavedCart | null {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(a.updatedAt).getTime() >= new Date(b.updatedAt).getTime() ? a : b;
+}
+
+/**
+ * Merge a second cart into a first one. Lines for the same item are combined
+ * (quantities added), everything else is appended.
+ * @param base Cart items to keep as the primary source
+ * @param incoming Cart items to merge in (e.g. the guest cart)
+ * @returns Merged cart items
+ */
+export function mergeCartItems(base: CartItem[], incoming: CartItem[]): CartItem[] {
+  const merged = base.map(item => ({ ...item }));
+  incoming.forEach(item => {
+    const existing = merged.find(m => m.id === item.id && m.type === item.type);
+    if (existing) {
+      existing.quantity += item.quantity;
+      existing.bookingDate = existing.bookingDate || item.bookingDate;
+    } else {
+      merged.push({ ...item });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Stable key for a cart line (an item appears at most once per type)
+ */
+export function getCartItemKey(item: Pick<CartItem, 'id' | 'type'>): string {
+  return `${item.type}:${item.id}`;
+}
+
+/**
+ * Check whether a cart item has an unresolved problem that blocks checkout
+ */
+export function isCartItemFlagged(item: CartItem): boolean {
+  const flags = item.flags;
+  return !!flags && !!(flags.priceChanged || flags.dateUnavailable || flags.itemUnavailable);
+}
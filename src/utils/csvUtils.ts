@@ -0,0 +1,59 @@
+/**
+ * CSV export and file download helpers
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as a formula (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  // Numbers stay numbers; text such as a customer name is prefixed with ' so it stays text
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Turn rows into CSV text
+ * @param headers Column headings
+ * @param rows One array of values per row, in column order
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Turn a name into something safe to use in a file name
+ * @returns Lower case words joined by hyphens, e.g. "Sharma Caterers" -> "sharma-caterers"
+ */
+export function toFileNamePart(name: string): string {
+  return name.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase();
+}
+
+/**
+ * Save a file in the browser
+ * @param blob File contents
+ * @param fileName File name including the extension
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Save CSV text as a file in the browser
+ * @param csv CSV text
+ * @param fileName File name including the .csv extension
+ */
+export function downloadCsv(csv: string, fileName: string): void {
+  // The byte order mark makes Excel read the file as UTF-8 (₹ and non-Latin names)
+  downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), fileName);
+}
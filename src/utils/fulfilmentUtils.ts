@@ -0,0 +1,149 @@
+/**
+ * Item-level fulfilment: how far each line of an order has got, and the order status it rolls up to
+ */
+
+import { ItemFulfilmentStatus, Order, OrderItemResponse, OrderStatusValue } from '../types/cart';
+
+export const FULFILMENT_STATUS_LABELS: Record<ItemFulfilmentStatus, string> = {
+  PENDING: 'Awaiting Confirmation',
+  CONFIRMED: 'Confirmed',
+  PREPARED: 'Prepared',
+  DISPATCHED: 'Dispatched',
+  SET_UP: 'Set Up',
+  PICKED_UP: 'Picked Up',
+  RETURNED: 'Returned',
+};
+
+// Button labels for moving a line into a status
+export const FULFILMENT_STATUS_ACTIONS: Record<ItemFulfilmentStatus, string> = {
+  PENDING: 'Reopen',
+  CONFIRMED: 'Confirm',
+  PREPARED: 'Mark Prepared',
+  DISPATCHED: 'Mark Dispatched',
+  SET_UP: 'Mark Set Up',
+  PICKED_UP: 'Mark Picked Up',
+  RETURNED: 'Mark Returned',
+};
+
+// Themes are collected by the vendor after the event and rentals come back; food is done once served
+const FULFILMENT_STEPS: Record<string, ItemFulfilmentStatus[]> = {
+  theme: ['PENDING', 'CONFIRMED', 'PREPARED', 'DISPATCHED', 'SET_UP', 'PICKED_UP'],
+  inventory: ['PENDING', 'CONFIRMED', 'PREPARED', 'DISPATCHED', 'SET_UP', 'RETURNED'],
+  food: ['PENDING', 'CONFIRMED', 'PREPARED', 'DISPATCHED', 'SET_UP'],
+};
+
+// Order status a line is at, once it reaches a fulfilment status
+const FULFILMENT_ORDER_STATUS: Record<ItemFulfilmentStatus, OrderStatusValue> = {
+  PENDING: 'PENDING',
+  CONFIRMED: 'CONFIRMED',
+  PREPARED: 'READY',
+  DISPATCHED: 'SHIPPED',
+  SET_UP: 'DELIVERED',
+  PICKED_UP: 'DELIVERED',
+  RETURNED: 'DELIVERED',
+};
+
+// Fulfilment status every line has at least reached, once the whole order is at an order status
+const ORDER_STATUS_FULFILMENT: Partial<Record<OrderStatusValue, ItemFulfilmentStatus>> = {
+  CONFIRMED: 'CONFIRMED',
+  PREPARING: 'CONFIRMED',
+  READY: 'PREPARED',
+  SHIPPED: 'DISPATCHED',
+  DELIVERED: 'SET_UP',
+};
+
+const ROLL_UP_ORDER: OrderStatusValue[] = ['PENDING', 'CONFIRMED', 'PREPARING', 'READY', 'SHIPPED', 'DELIVERED'];
+
+/**
+ * Get the fulfilment steps that apply to an order line
+ * @param item Order line
+ * @returns Statuses in the order the line goes through them
+ */
+export function getFulfilmentSteps(item: OrderItemResponse): ItemFulfilmentStatus[] {
+  const type = item.itemType.toLowerCase();
+  if (type === 'theme' || type === 'inventory') {
+    return FULFILMENT_STEPS[type];
+  }
+  return FULFILMENT_STEPS.food;
+}
+
+/**
+ * Get the fulfilment status of an order line.
+ * Moving the whole order forward also moves its lines, so the later of the two is used.
+ * @param item Order line
+ * @param order Order the line belongs to
+ * @returns Current fulfilment status of the line
+ */
+export function getItemFulfilmentStatus(item: OrderItemResponse, order: Order): ItemFulfilmentStatus {
+  const steps = getFulfilmentSteps(item);
+  const ownStatus = item.fulfilmentStatus && steps.includes(item.fulfilmentStatus) ? item.fulfilmentStatus : 'PENDING';
+  const impliedStatus = ORDER_STATUS_FULFILMENT[order.status] || 'PENDING';
+  return steps.indexOf(impliedStatus) > steps.indexOf(ownStatus) ? impliedStatus : ownStatus;
+}
+
+/**
+ * Get the next fulfilment step of an order line
+ * @param item Order line
+ * @param order Order the line belongs to
+ * @returns Next status, or null when the line is done or the order was cancelled
+ */
+export function getNextFulfilmentStatus(item: OrderItemResponse, order: Order): ItemFulfilmentStatus | null {
+  if (order.status === 'CANCELLED') {
+    return null;
+  }
+  const steps = getFulfilmentSteps(item);
+  const index = steps.indexOf(getItemFulfilmentStatus(item, order));
+  return index < steps.length - 1 ? steps[index + 1] : null;
+}
+
+/**
+ * Whether a line can be moved to a fulfilment status. Lines only move forward.
+ */
+export function canAdvanceFulfilment(item: OrderItemResponse, order: Order, status: ItemFulfilmentStatus): boolean {
+  if (order.status === 'CANCELLED') {
+    return false;
+  }
+  const steps = getFulfilmentSteps(item);
+  return steps.indexOf(status) > steps.indexOf(getItemFulfilmentStatus(item, order));
+}
+
+/**
+ * Get how far a line has got through its steps
+ * @returns Percentage from 0 to 100
+ */
+export function getFulfilmentProgress(item: OrderItemResponse, order: Order): number {
+  const steps = getFulfilmentSteps(item);
+  return (steps.indexOf(getItemFulfilmentStatus(item, order)) / (steps.length - 1)) * 100;
+}
+
+/**
+ * Roll the line statuses up into an order status.
+ * The order is as far as its least advanced line; once some lines are past confirmation it is preparing.
+ * An order the vendor already moved further keeps its own status.
+ * @param order Order
+ * @returns Order status the lines add up to
+ */
+export function getRolledUpOrderStatus(order: Order): OrderStatusValue {
+  if (order.status === 'CANCELLED' || !order.orderItems || order.orderItems.length === 0) {
+    return order.status;
+  }
+
+  const lineStatuses = order.orderItems.map(item => FULFILMENT_ORDER_STATUS[getItemFulfilmentStatus(item, order)]);
+  const ranks = lineStatuses.map(status => ROLL_UP_ORDER.indexOf(status));
+  let rolledUp = ROLL_UP_ORDER[Math.min(...ranks)];
+  if (rolledUp === 'CONFIRMED' && Math.max(...ranks) > ROLL_UP_ORDER.indexOf('CONFIRMED')) {
+    rolledUp = 'PREPARING';
+  }
+  // An order moved forward by hand stays there
+  return ROLL_UP_ORDER.indexOf(order.status) > ROLL_UP_ORDER.indexOf(rolledUp) ? order.status : rolledUp;
+}
+
+export function getFulfilmentStatusColor(status: ItemFulfilmentStatus) {
+  switch (status) {
+    case 'PENDING': return 'warning';
+    case 'CONFIRMED': return 'info';
+    case 'PREPARED': return 'primary';
+    case 'DISPATCHED': return 'secondary';
+    default: return 'success';
+  }
+}
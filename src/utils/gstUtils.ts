@@ -0,0 +1,402 @@
+/**
+ * Utility functions for GST calculation and tax invoices
+ */
+
+import { Business } from '../types';
+import { Order } from '../types/cart';
+import { RentalReturn } from '../types/rentalReturn';
+import {
+  GstCategory,
+  GstCategoryRate,
+  Invoice,
+  InvoiceDraft,
+  InvoiceLine,
+  TaxSettings,
+} from '../types/invoice';
+import { roundCurrency } from './promotionUtils';
+
+// GST state codes as used in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+// Older names still common in addresses
+const STATE_NAME_ALIASES: Record<string, string> = {
+  orissa: '21',
+  pondicherry: '34',
+  'new delhi': '07',
+  uttaranchal: '05',
+};
+
+export const GST_CATEGORY_LABELS: Record<GstCategory, string> = {
+  THEME: 'Themes & decoration',
+  INVENTORY_RENTAL: 'Inventory rental',
+  CATERING: 'Catering',
+};
+
+// Rates vendors start with; they can change them in their tax settings
+export const DEFAULT_GST_CATEGORY_RATES: Record<GstCategory, GstCategoryRate> = {
+  THEME: { rate: 18, hsnSac: '998596', description: 'Event management and decoration services' },
+  INVENTORY_RENTAL: { rate: 18, hsnSac: '997319', description: 'Rental of equipment and goods' },
+  CATERING: { rate: 5, hsnSac: '996337', description: 'Outdoor catering services' },
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/**
+ * Check the format of a GSTIN
+ * @param gstin 15 character GST identification number
+ * @returns true if the GSTIN is well formed
+ */
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+/**
+ * Get the state code a GSTIN is registered in
+ * @param gstin GST identification number
+ * @returns 2-digit state code, or undefined if the GSTIN is missing or malformed
+ */
+export function getStateCodeFromGstin(gstin?: string): string | undefined {
+  if (!gstin || !isValidGstin(gstin)) return undefined;
+  const code = gstin.trim().slice(0, 2);
+  return GST_STATE_CODES[code] ? code : undefined;
+}
+
+/**
+ * Find the state mentioned in a free-text address
+ * @param address Delivery or business address
+ * @returns 2-digit state code, or undefined if no state name is found
+ */
+export function findStateCodeInAddress(address?: string): string | undefined {
+  if (!address) return undefined;
+  const normalized = address.toLowerCase();
+
+  // Longest names first so "Andhra Pradesh" is not mistaken for a shorter match
+  const candidates: [string, string][] = [
+    ...Object.entries(GST_STATE_CODES).map(([code, name]) => [name.toLowerCase(), code] as [string, string]),
+    ...Object.entries(STATE_NAME_ALIASES),
+  ].sort((a, b) => b[0].length - a[0].length);
+
+  const match = candidates.find(([name]) => new RegExp(`\\b${name}\\b`).test(normalized));
+  return match?.[1];
+}
+
+/**
+ * Map an order item type to its GST category
+ */
+export function getGstCategory(itemType: string): GstCategory {
+  switch (itemType.toLowerCase()) {
+    case 'theme':
+      return 'THEME';
+    case 'inventory':
+      return 'INVENTORY_RENTAL';
+    default:
+      // Plates and dishes
+      return 'CATERING';
+  }
+}
+
+/**
+ * Build the invoice for one vendor's part of an order.
+ * Prices customers pay on the platform are tax inclusive, so the taxable value
+ * is backed out of each line after its share of the order discount.
+ * Damage charges for returned rentals are invoiced as lines of their own at the rental rate.
+ * @param order Order to invoice
+ * @param business Supplying business
+ * @param settings Tax settings of the business
+ * @param rentalReturns Returns recorded for the order, for their damage charges
+ * @returns Invoice contents, ready to be issued
+ */
+export function buildInvoiceDraft(
+  order: Order,
+  business: Business,
+  settings: TaxSettings,
+  rentalReturns: RentalReturn[] = []
+): InvoiceDraft {
+  const items = (order.orderItems || []).filter(item => item.businessId === business.businessId);
+
+  const supplierStateCode = settings.stateCode || getStateCodeFromGstin(settings.gstin)
+    || findStateCodeInAddress(business.businessAddress);
+  // Without a recognisable delivery state, treat the supply as intra-state
+  const recipientStateCode = findStateCodeInAddress(order.deliveryAddress) || supplierStateCode;
+  const isInterState = !!supplierStateCode && !!recipientStateCode && supplierStateCode !== recipientStateCode;
+
+  // Spread this vendor's discounts over its lines in proportion to their value
+  const discountTotal = roundCurrency(
+    (order.discounts || [])
+      .filter(discount => discount.businessId === business.businessId)
+      .reduce((sum, discount) => sum + discount.amount, 0)
+  );
+  const grossTotal = items.reduce((sum, item) => sum + item.itemPrice * item.quantity, 0);
+
+  const toLine = (
+    description: string,
+    category: GstCategory,
+    quantity: number,
+    unitPrice: number,
+    discount: number
+  ): InvoiceLine => {
+    const { rate, hsnSac } = settings.categoryRates[category] || DEFAULT_GST_CATEGORY_RATES[category];
+    const total = roundCurrency(unitPrice * quantity - discount);
+    const taxableValue = roundCurrency(total / (1 + rate / 100));
+    const tax = roundCurrency(total - taxableValue);
+    const cgst = isInterState ? 0 : roundCurrency(tax / 2);
+
+    return {
+      description,
+      category,
+      hsnSac,
+      quantity,
+      unitPrice,
+      discount,
+      taxableValue,
+      gstRate: rate,
+      cgst,
+      sgst: isInterState ? 0 : roundCurrency(tax - cgst),
+      igst: isInterState ? tax : 0,
+      total,
+    };
+  };
+
+  let allocatedDiscount = 0;
+  const itemLines = items.map((item, index) => {
+    const gross = item.itemPrice * item.quantity;
+    const discount = index === items.length - 1
+      ? roundCurrency(discountTotal - allocatedDiscount)
+      : roundCurrency(grossTotal > 0 ? (discountTotal * gross) / grossTotal : 0);
+    allocatedDiscount = roundCurrency(allocatedDiscount + discount);
+
+    return toLine(
+      item.bookingDate ? `${item.itemName} (${item.bookingDate})` : item.itemName,
+      getGstCategory(item.itemType),
+      item.quantity,
+      item.itemPrice,
+      discount
+    );
+  });
+
+  const damageLines = rentalReturns
+    .filter(rentalReturn => rentalReturn.businessId === business.businessId && rentalReturn.damageCharge > 0)
+    .map(rentalReturn => {
+      const item = items.find(orderItem => orderItem.orderItemId === rentalReturn.orderItemId);
+      return toLine(
+        `Damage charge: ${item?.itemName || 'Rental item'} (returned ${rentalReturn.returnedDate})`,
+        'INVENTORY_RENTAL',
+        1,
+        rentalReturn.damageCharge,
+        0
+      );
+    });
+  const lines = [...itemLines, ...damageLines];
+
+  const sum = (pick: (line: InvoiceLine) => number) => roundCurrency(lines.reduce((total, line) => total + pick(line), 0));
+
+  return {
+    orderId: order.orderId,
+    businessId: business.businessId,
+    supplier: {
+      name: settings.legalName || business.businessName,
+      address: business.businessAddress,
+      phone: business.businessPhone,
+      email: business.businessEmail,
+      gstin: settings.gstin,
+      registrationNumber: settings.registrationNumber,
+      stateCode: supplierStateCode,
+    },
+    recipient: {
+      name: order.customerName,
+      address: order.deliveryAddress,
+      phone: order.customerPhone,
+      email: order.customerEmail,
+      stateCode: recipientStateCode,
+    },
+    placeOfSupply: recipientStateCode ? `${GST_STATE_CODES[recipientStateCode]} (${recipientStateCode})` : 'Not specified',
+    isInterState,
+    lines,
+    taxableTotal: sum(line => line.taxableValue),
+    cgstTotal: sum(line => line.cgst),
+    sgstTotal: sum(line => line.sgst),
+    igstTotal: sum(line => line.igst),
+    discountTotal,
+    grandTotal: sum(line => line.total),
+  };
+}
+
+const escapeHtml = (value: string | number | undefined): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Render an issued invoice as a standalone printable HTML document
+ * @param invoice Issued invoice
+ * @returns Complete HTML document
+ */
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const { supplier, recipient } = invoice;
+  const taxHeaders = invoice.isInterState
+    ? '<th>IGST</th>'
+    : '<th>CGST</th><th>SGST</th>';
+
+  const rows = invoice.lines.map((line, index) => `
+    <tr>
+      <td>${index + 1}</td>
+      <td>${escapeHtml(line.description)}</td>
+      <td>${escapeHtml(line.hsnSac)}</td>
+      <td class="num">${line.quantity}</td>
+      <td class="num">${formatAmount(line.unitPrice)}</td>
+      <td class="num">${formatAmount(line.discount)}</td>
+      <td class="num">${formatAmount(line.taxableValue)}</td>
+      <td class="num">${line.gstRate}%</td>
+      ${invoice.isInterState
+        ? `<td class="num">${formatAmount(line.igst)}</td>`
+        : `<td class="num">${formatAmount(line.cgst)}</td><td class="num">${formatAmount(line.sgst)}</td>`}
+      <td class="num">${formatAmount(line.total)}</td>
+    </tr>`).join('');
+
+  const taxTotals = invoice.isInterState
+    ? `<td class="num">${formatAmount(invoice.igstTotal)}</td>`
+    : `<td class="num">${formatAmount(invoice.cgstTotal)}</td><td class="num">${formatAmount(invoice.sgstTotal)}</td>`;
+
+  const party = (title: string, details: typeof supplier) => `
+    <div class="party">
+      <h3>${title}</h3>
+      <strong>${escapeHtml(details.name)}</strong><br/>
+      ${escapeHtml(details.address)}<br/>
+      ${details.phone ? `Phone: ${escapeHtml(details.phone)}<br/>` : ''}
+      ${details.email ? `Email: ${escapeHtml(details.email)}<br/>` : ''}
+      ${details.gstin ? `GSTIN: ${escapeHtml(details.gstin)}<br/>` : ''}
+      ${details.registrationNumber ? `Reg. No.: ${escapeHtml(details.registrationNumber)}<br/>` : ''}
+      ${details.stateCode ? `State: ${escapeHtml(GST_STATE_CODES[details.stateCode])} (${escapeHtml(details.stateCode)})` : ''}
+    </div>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Tax Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 12px; color: #222; margin: 24px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    h3 { font-size: 13px; margin: 0 0 6px; text-transform: uppercase; color: #555; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 16px; }
+    .parties { display: flex; gap: 24px; margin-bottom: 16px; }
+    .party { flex: 1; border: 1px solid #ccc; padding: 8px; line-height: 1.5; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+    th { background: #f2f2f2; }
+    .num { text-align: right; }
+    tfoot td { font-weight: bold; }
+    .footer { margin-top: 24px; font-size: 11px; color: #555; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Tax Invoice</h1>
+      Invoice No.: <strong>${escapeHtml(invoice.invoiceNumber)}</strong><br/>
+      ${invoice.replacesInvoiceNumber ? `Revised invoice, replaces ${escapeHtml(invoice.replacesInvoiceNumber)}<br/>` : ''}
+      Date: ${escapeHtml(new Date(invoice.issuedAt).toLocaleDateString('en-IN'))}<br/>
+      Order: #${invoice.orderId}
+    </div>
+    <div style="text-align: right">
+      Place of supply: ${escapeHtml(invoice.placeOfSupply)}<br/>
+      Supply type: ${invoice.isInterState ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}
+    </div>
+  </div>
+  <div class="parties">
+    ${party('Supplier', supplier)}
+    ${party('Bill to', recipient)}
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>#</th><th>Description</th><th>HSN/SAC</th><th>Qty</th><th>Rate</th><th>Discount</th>
+        <th>Taxable value</th><th>GST</th>${taxHeaders}<th>Total</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td colspan="5">Total</td>
+        <td class="num">${formatAmount(invoice.discountTotal)}</td>
+        <td class="num">${formatAmount(invoice.taxableTotal)}</td>
+        <td></td>
+        ${taxTotals}
+        <td class="num">₹${formatAmount(invoice.grandTotal)}</td>
+      </tr>
+    </tfoot>
+  </table>
+  <div class="footer">
+    Prices are inclusive of GST. This is a computer generated invoice.
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Check whether an issued invoice still matches the order, e.g. after an approved change or a damage charge
+ * @param invoice Invoice in force
+ * @param draft Invoice contents built from the order as it is now
+ */
+export function isInvoiceCurrent(invoice: Invoice, draft: InvoiceDraft): boolean {
+  return (
+    invoice.grandTotal === draft.grandTotal &&
+    invoice.lines.length === draft.lines.length &&
+    invoice.lines.every((line, index) => {
+      const drafted = draft.lines[index];
+      return line.description === drafted.description && line.quantity === drafted.quantity && line.total === drafted.total;
+    })
+  );
+}
+
+/**
+ * Check whether an invoice can be issued for an order.
+ * Invoices are issued once the vendor has accepted the order and never for cancelled ones.
+ */
+export function canIssueInvoice(order: Order): boolean {
+  return order.status !== 'PENDING' && order.status !== 'CANCELLED';
+}
@@ -0,0 +1,51 @@
+/**
+ * Checkout holds: who holds stock for this browser's cart, and how long a hold has left
+ */
+
+const CART_HOLDER_STORAGE_KEY = 'cartHolderId';
+
+const createHolderId = (): string =>
+  `cart-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * ID the server uses to tell this cart's holds from everyone else's; kept across reloads
+ */
+export function getCartHolderId(): string {
+  try {
+    const stored = localStorage.getItem(CART_HOLDER_STORAGE_KEY);
+    if (stored) return stored;
+    const holderId = createHolderId();
+    localStorage.setItem(CART_HOLDER_STORAGE_KEY, holderId);
+    return holderId;
+  } catch (error) {
+    console.error('Error reading cart holder ID:', error);
+    return createHolderId();
+  }
+}
+
+/**
+ * Start a new holder, e.g. on logout, so the next user's cart does not inherit holds
+ */
+export function resetCartHolderId(): void {
+  try {
+    localStorage.removeItem(CART_HOLDER_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error resetting cart holder ID:', error);
+  }
+}
+
+/**
+ * Whole seconds until a hold expires; zero once it has
+ * @param expiresAt ISO timestamp of expiry
+ * @param now Current time in milliseconds
+ */
+export function getHoldSecondsLeft(expiresAt: string, now = Date.now()): number {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now) / 1000));
+}
+
+/**
+ * Format seconds as a countdown, e.g. 9:05
+ */
+export function formatHoldCountdown(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
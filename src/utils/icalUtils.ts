@@ -0,0 +1,264 @@
+/**
+ * iCalendar (.ics) files: vendor bookings out to Google Calendar or Outlook, and busy days in as blackout dates
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Business } from '../types';
+import { Order } from '../types/cart';
+import { CalendarBooking, CalendarBusyDate, CalendarEvent } from '../types/calendar';
+import { Availability, AvailabilityDateChange, AvailabilityItem } from '../types/availability';
+import { getItemDeliveryDate } from './runSheetUtils';
+import { parseSelectedDishes } from './orderChangeUtils';
+import { MAX_RULE_DAYS } from './availabilityRuleUtils';
+import { downloadBlob } from './csvUtils';
+
+// Orders in these states are not firm bookings yet, or no longer are
+const UNBOOKED_STATUSES = ['PENDING', 'CANCELLED'];
+
+// Lines longer than this many bytes are folded, as RFC 5545 requires
+const MAX_LINE_OCTETS = 74;
+
+/**
+ * The confirmed order lines of a business that have a delivery date
+ * @param orders Orders of the business
+ * @param businessId Business whose lines to keep
+ * @returns Bookings in date order
+ */
+export function getCalendarBookings(orders: Order[], businessId: string): CalendarBooking[] {
+  return orders
+    .filter(order => !UNBOOKED_STATUSES.includes(order.status))
+    .flatMap(order =>
+      (order.orderItems || []).filter(item => item.businessId === businessId).map(item => ({ order, item }))
+    )
+    .filter(({ order, item }) => !!getItemDeliveryDate(item, order))
+    .sort((a, b) => getItemDeliveryDate(a.item, a.order).localeCompare(getItemDeliveryDate(b.item, b.order)));
+}
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  Array.from(line).forEach(char => {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  });
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string): string => date.replace(/-/g, '');
+
+const toIcsTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const describeBooking = ({ order, item }: CalendarBooking): string => {
+  const dishes = parseSelectedDishes(item);
+  return [
+    `Order #${order.orderId}`,
+    `Customer: ${order.customerName} (${order.customerPhone})`,
+    `Quantity: ${item.quantity}`,
+    dishes.length > 0 ? `Dishes: ${dishes.map(dish => `${dish.dishName} × ${dish.quantity}`).join(', ')}` : '',
+    order.specialNotes ? `Notes: ${order.specialNotes}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Build an iCalendar file with one all-day event per booking
+ * @param bookings Bookings from getCalendarBookings
+ * @param business Business the calendar belongs to, for its name
+ * @param now Time the file is created, for DTSTAMP
+ * @returns .ics text with CRLF line endings
+ */
+export function buildBookingCalendar(bookings: CalendarBooking[], business: Business, now = new Date()): string {
+  const stamp = toIcsTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Record Service//Vendor Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${business.businessName} bookings`)}`,
+    ...bookings.flatMap(booking => {
+      const { order, item } = booking;
+      const date = getItemDeliveryDate(item, order);
+      return [
+        'BEGIN:VEVENT',
+        // Stable per order line, so importing the file again updates events instead of duplicating them
+        `UID:order-${order.orderId}-item-${item.orderItemId}@record-service`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+        `DTEND;VALUE=DATE:${toIcsDate(format(addDays(parseISO(date), 1), 'yyyy-MM-dd'))}`,
+        `SUMMARY:${escapeText(`${item.quantity} × ${item.itemName} – ${order.customerName}`)}`,
+        `LOCATION:${escapeText(order.deliveryAddress)}`,
+        `DESCRIPTION:${escapeText(describeBooking(booking))}`,
+        'STATUS:CONFIRMED',
+        'TRANSP:OPAQUE',
+        'END:VEVENT',
+      ];
+    }),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Save .ics text as a file in the browser
+ * @param content Calendar text
+ * @param fileName File name including the .ics extension
+ */
+export function downloadCalendar(content: string, fileName: string): void {
+  downloadBlob(new Blob([content], { type: 'text/calendar;charset=utf-8' }), fileName);
+}
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Split "NAME;PARAM=VALUE:text" at the first colon outside a quoted parameter value
+const splitProperty = (line: string): { name: string; params: string; value: string } | null => {
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') quoted = !quoted;
+    if (char === ':' && !quoted) {
+      const [name, ...params] = line.slice(0, index).split(';');
+      return { name: name.toUpperCase(), params: params.join(';'), value: line.slice(index + 1) };
+    }
+  }
+  return null;
+};
+
+// Times in UTC are moved to the browser's time zone; times with a TZID or none are taken as written
+const parseIcsDate = (value: string): { date: string; midnight: boolean } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) {
+    return { date: `${year}-${month}-${day}`, midnight: true };
+  }
+  if (utc) {
+    const time = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+    return {
+      date: format(time, 'yyyy-MM-dd'),
+      midnight: time.getHours() === 0 && time.getMinutes() === 0 && time.getSeconds() === 0,
+    };
+  }
+  return { date: `${year}-${month}-${day}`, midnight: hour === '00' && minute === '00' && second === '00' };
+};
+
+const toCalendarEvent = (properties: Record<string, string>): CalendarEvent | null => {
+  const start = properties.DTSTART ? parseIcsDate(properties.DTSTART) : null;
+  if (!start || properties.STATUS?.toUpperCase() === 'CANCELLED') return null;
+
+  const end = properties.DTEND ? parseIcsDate(properties.DTEND) : null;
+  let endDate = end?.date || start.date;
+  // DTEND is exclusive: an event ending at midnight does not take up that day
+  if (end?.midnight && endDate > start.date) {
+    endDate = format(addDays(parseISO(endDate), -1), 'yyyy-MM-dd');
+  }
+
+  return {
+    uid: properties.UID,
+    summary: unescapeText(properties.SUMMARY || '').trim() || 'Busy',
+    startDate: start.date,
+    endDate: endDate < start.date ? start.date : endDate,
+    busy: properties.TRANSP?.toUpperCase() !== 'TRANSPARENT',
+    recurring: !!properties.RRULE,
+  };
+};
+
+/**
+ * Read the events of an iCalendar file. Cancelled events and events without a readable start are left out.
+ * @param content .ics text
+ * @returns Events in the order they appear in the file
+ */
+export function parseCalendar(content: string): CalendarEvent[] {
+  // Folded lines continue on the next line after a single space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let properties: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    const property = splitProperty(line);
+    if (!property) return;
+    const { name, value } = property;
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      properties = {};
+    } else if (name === 'END' && value.toUpperCase() === 'VEVENT' && properties) {
+      const event = toCalendarEvent(properties);
+      if (event) events.push(event);
+      properties = null;
+    } else if (properties && !(name in properties)) {
+      properties[name] = value;
+    }
+  });
+  return events;
+}
+
+/**
+ * The days busy events take up. Each event counts for at most MAX_RULE_DAYS days.
+ * @param events Events from parseCalendar
+ * @param fromDate YYYY-MM-DD date before which days are left out
+ * @returns Busy days in date order
+ */
+export function getBusyDates(events: CalendarEvent[], fromDate = format(new Date(), 'yyyy-MM-dd')): CalendarBusyDate[] {
+  const busyDates = new Map<string, string[]>();
+  events
+    .filter(event => event.busy)
+    .forEach(event => {
+      const start = parseISO(event.startDate);
+      const days = Math.min(differenceInCalendarDays(parseISO(event.endDate), start) + 1, MAX_RULE_DAYS);
+      for (let offset = 0; offset < days; offset++) {
+        const date = format(addDays(start, offset), 'yyyy-MM-dd');
+        if (date >= fromDate) {
+          busyDates.set(date, [...(busyDates.get(date) || []), event.summary]);
+        }
+      }
+    });
+  return Array.from(busyDates.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, summaries]) => ({ date, summaries }));
+}
+
+/**
+ * What blacking out busy days would do to an item's availability. Days already closed are left unchanged.
+ * @param busyDates Days to black out
+ * @param item Item being closed
+ * @param businessId Business of the item
+ * @param availabilities The item's current availability
+ */
+export function previewBlackoutDates(
+  busyDates: CalendarBusyDate[],
+  item: AvailabilityItem,
+  businessId: string,
+  availabilities: Availability[]
+): AvailabilityDateChange[] {
+  const current = new Map(availabilities.map(availability => [availability.availabilityDate, availability]));
+  return busyDates.map(({ date }): AvailabilityDateChange => {
+    const existing = current.get(date);
+    return {
+      date,
+      type: !existing ? 'create' : existing.isAvailable ? 'update' : 'unchanged',
+      current: existing,
+      request: {
+        itemId: item.id,
+        itemType: item.type,
+        businessId,
+        availabilityDate: date,
+        availableQuantity: 0,
+        isAvailable: false,
+      },
+    };
+  });
+}
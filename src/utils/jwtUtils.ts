@@ -0,0 +1,56 @@
+/**
+ * Utility functions for reading JWT claims on the client
+ */
+
+export interface JwtPayload {
+  sub?: string;
+  exp?: number; // Expiry in seconds since epoch
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode the payload of a JWT without verifying its signature
+ * @param token Encoded JWT
+ * @returns Decoded payload, or null if the token is malformed
+ */
+export function decodeJwt(token: string): JwtPayload | null {
+  try {
+    const base64Url = token.split('.')[1];
+    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+    const jsonPayload = decodeURIComponent(
+      atob(base64)
+        .split('')
+        .map((c) => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
+        .join('')
+    );
+    return JSON.parse(jsonPayload);
+  } catch (error) {
+    console.error('Error decoding token:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the expiry time of a JWT
+ * @param token Encoded JWT
+ * @returns Expiry in milliseconds since epoch, or null if the token has no `exp`
+ */
+export function getTokenExpiry(token: string): number | null {
+  const payload = decodeJwt(token);
+  return payload?.exp ? payload.exp * 1000 : null;
+}
+
+/**
+ * Check whether a JWT expires within the given window
+ * @param token Encoded JWT
+ * @param withinMs Window in milliseconds (0 = already expired)
+ * @returns true if the token expires within the window
+ */
+export function isTokenExpiringWithin(token: string, withinMs: number): boolean {
+  const expiry = getTokenExpiry(token);
+  if (expiry === null) {
+    return false;
+  }
+  return expiry - Date.now() <= withinMs;
+}
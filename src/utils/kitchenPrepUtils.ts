@@ -0,0 +1,99 @@
+/**
+ * Kitchen prep: how many portions of each dish caterers need per day, from the plates ordered
+ */
+
+import { Dish, Plate } from '../types';
+import { Order, OrderStatusValue } from '../types/cart';
+import { KitchenPrepDay, KitchenPrepDish } from '../types/kitchenPrep';
+import { parseSelectedDishes } from './orderChangeUtils';
+import { getItemDeliveryDate } from './runSheetUtils';
+import { CsvValue, toCsv } from './csvUtils';
+
+// Orders the vendor has accepted; pending orders may still be declined
+const PREP_STATUSES: OrderStatusValue[] = ['CONFIRMED', 'PREPARING', 'READY', 'SHIPPED', 'DELIVERED'];
+
+/**
+ * Total the dishes on confirmed plates of a business per delivery date.
+ * Each dish counts its quantity on the plate times the plates ordered. Plates that are no longer
+ * listed count towards the total but not the veg/non-veg split; plates without a dish type count as veg.
+ * @param orders Orders of the business
+ * @param businessId Business preparing the food
+ * @param plates Plates of the business, for their dish type
+ * @param dishes Dishes of the business, for their stock
+ * @returns Days in date order
+ */
+export function buildKitchenPrep(orders: Order[], businessId: string, plates: Plate[], dishes: Dish[]): KitchenPrepDay[] {
+  const plateTypes = new Map(plates.map(plate => [plate.plateId, plate.dishType || 'veg']));
+  const dishStock = new Map(dishes.map(dish => [dish.dishId, dish.quantity]));
+  const days = new Map<string, { dishes: Map<string, KitchenPrepDish>; vegPlates: number; nonVegPlates: number; orderIds: Set<number> }>();
+
+  orders
+    .filter(order => PREP_STATUSES.includes(order.status))
+    .forEach(order => {
+      (order.orderItems || [])
+        .filter(item => item.businessId === businessId && item.itemType.toLowerCase() === 'plate')
+        .forEach(item => {
+          const selectedDishes = parseSelectedDishes(item);
+          if (selectedDishes.length === 0) return;
+
+          const date = getItemDeliveryDate(item, order);
+          if (!days.has(date)) {
+            days.set(date, { dishes: new Map(), vegPlates: 0, nonVegPlates: 0, orderIds: new Set() });
+          }
+          const day = days.get(date)!;
+          day.orderIds.add(order.orderId);
+
+          const dishType = plateTypes.get(item.itemId);
+          if (dishType === 'veg') day.vegPlates += item.quantity;
+          if (dishType === 'non-veg') day.nonVegPlates += item.quantity;
+
+          selectedDishes.forEach(selected => {
+            const portions = selected.quantity * item.quantity;
+            const prep = day.dishes.get(selected.dishId) || {
+              dishId: selected.dishId,
+              dishName: selected.dishName,
+              vegQuantity: 0,
+              nonVegQuantity: 0,
+              totalQuantity: 0,
+              stock: dishStock.get(selected.dishId),
+              shortfall: 0,
+            };
+            if (dishType === 'veg') prep.vegQuantity += portions;
+            if (dishType === 'non-veg') prep.nonVegQuantity += portions;
+            prep.totalQuantity += portions;
+            prep.shortfall = prep.stock === undefined ? 0 : Math.max(0, prep.totalQuantity - prep.stock);
+            day.dishes.set(selected.dishId, prep);
+          });
+        });
+    });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      dishes: Array.from(day.dishes.values()).sort((a, b) => a.dishName.localeCompare(b.dishName)),
+      vegPlates: day.vegPlates,
+      nonVegPlates: day.nonVegPlates,
+      orderCount: day.orderIds.size,
+    }));
+}
+
+/**
+ * Kitchen prep report as CSV, one row per dish per day
+ * @param days Prep days to export
+ * @returns CSV text
+ */
+export function kitchenPrepToCsv(days: KitchenPrepDay[]): string {
+  const rows: CsvValue[][] = days.flatMap(day =>
+    day.dishes.map(dish => [
+      day.date,
+      dish.dishName,
+      dish.vegQuantity,
+      dish.nonVegQuantity,
+      dish.totalQuantity,
+      dish.stock,
+      dish.shortfall,
+    ])
+  );
+  return toCsv(['Date', 'Dish', 'Veg Portions', 'Non-Veg Portions', 'Total Portions', 'In Stock', 'Shortfall'], rows);
+}
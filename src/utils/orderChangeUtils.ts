@@ -0,0 +1,131 @@
+/**
+ * Utility functions for change requests on placed orders
+ */
+
+import { OrderItemResponse } from '../types/cart';
+import { OrderLineChange, SelectedDish } from '../types/orderChange';
+import { roundCurrency } from './promotionUtils';
+
+// Changes the customer wants on one order line, as entered in the change request form
+export interface OrderLineChangeDraft {
+  cancelLine: boolean;
+  bookingDate?: string;
+  quantity: number;
+  selectedDishes?: SelectedDish[]; // Dishes with current prices; undefined when unchanged
+}
+
+/**
+ * Read the dishes stored on a plate order line
+ * @param item Order line
+ * @returns Selected dishes, empty when none or unreadable
+ */
+export function parseSelectedDishes(item: OrderItemResponse): SelectedDish[] {
+  if (!item.selectedDishes) {
+    return [];
+  }
+  try {
+    const dishes = JSON.parse(item.selectedDishes);
+    return Array.isArray(dishes) ? dishes : [];
+  } catch (error) {
+    console.error(`Error parsing selected dishes of order item ${item.orderItemId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Price of the dishes added to one plate
+ */
+export function getDishesTotal(dishes: SelectedDish[]): number {
+  return dishes.reduce((sum, dish) => sum + dish.dishPrice * dish.quantity, 0);
+}
+
+const isSameDishes = (a: SelectedDish[], b: SelectedDish[]): boolean =>
+  a.length === b.length &&
+  a.every(dish => b.some(other => other.dishId === dish.dishId && other.quantity === dish.quantity));
+
+/**
+ * Turn the form input for a line into a change with its price difference.
+ * The booked unit price is kept; only dishes added or removed are charged at today's prices.
+ * @param item Order line as placed
+ * @param draft Requested changes
+ * @returns The change, or null when nothing differs from the order
+ */
+export function buildLineChange(item: OrderItemResponse, draft: OrderLineChangeDraft): OrderLineChange | null {
+  const base = {
+    orderItemId: item.orderItemId,
+    itemId: item.itemId,
+    itemType: item.itemType,
+    itemName: item.itemName,
+  };
+  const currentTotal = item.itemPrice * item.quantity;
+
+  if (draft.cancelLine) {
+    return { ...base, cancelLine: true, priceDifference: roundCurrency(-currentTotal) };
+  }
+
+  const change: OrderLineChange = { ...base, priceDifference: 0 };
+  let changed = false;
+
+  if (draft.bookingDate && draft.bookingDate !== item.bookingDate) {
+    change.bookingDate = { from: item.bookingDate, to: draft.bookingDate };
+    changed = true;
+  }
+  if (draft.quantity !== item.quantity) {
+    change.quantity = { from: item.quantity, to: draft.quantity };
+    changed = true;
+  }
+
+  let unitPrice = item.itemPrice;
+  const currentDishes = parseSelectedDishes(item);
+  if (draft.selectedDishes && !isSameDishes(currentDishes, draft.selectedDishes)) {
+    change.selectedDishes = { from: currentDishes, to: draft.selectedDishes };
+    unitPrice = roundCurrency(item.itemPrice - getDishesTotal(currentDishes) + getDishesTotal(draft.selectedDishes));
+    change.newUnitPrice = unitPrice;
+    changed = true;
+  }
+
+  if (!changed) {
+    return null;
+  }
+
+  change.priceDifference = roundCurrency(unitPrice * draft.quantity - currentTotal);
+  return change;
+}
+
+/**
+ * Human readable lines describing a change
+ * @param change Line change
+ * @returns e.g. ["Date: 2026-11-02 → 2026-11-05", "Quantity: 2 → 3"]
+ */
+export function describeLineChange(change: OrderLineChange): string[] {
+  if (change.cancelLine) {
+    return ['Remove from order'];
+  }
+
+  const describeDishes = (dishes: SelectedDish[]) =>
+    dishes.length > 0 ? dishes.map(dish => `${dish.dishName} ×${dish.quantity}`).join(', ') : 'none';
+
+  const lines: string[] = [];
+  if (change.bookingDate) {
+    lines.push(`Date: ${change.bookingDate.from || 'not set'} → ${change.bookingDate.to}`);
+  }
+  if (change.quantity) {
+    lines.push(`Quantity: ${change.quantity.from} → ${change.quantity.to}`);
+  }
+  if (change.selectedDishes) {
+    lines.push(`Dishes: ${describeDishes(change.selectedDishes.from)} → ${describeDishes(change.selectedDishes.to)}`);
+  }
+  return lines;
+}
+
+/**
+ * Format a price difference with its sign
+ * @param amount Difference, positive when the customer pays more
+ * @returns e.g. "+₹500" or "-₹250"
+ */
+export function formatPriceDifference(amount: number): string {
+  if (amount === 0) {
+    return '₹0';
+  }
+  return `${amount > 0 ? '+' : '-'}₹${Math.abs(amount).toLocaleString('en-IN')}`;
+}
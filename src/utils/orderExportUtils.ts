@@ -0,0 +1,179 @@
+/**
+ * Order exports for spreadsheets: one row per order or per order line, as CSV or XLSX
+ */
+
+import { format } from 'date-fns';
+import { Order } from '../types/cart';
+import { ExportColumn, ExportFormat, ExportGranularity, ExportTable, ExportValue } from '../types/export';
+import { ORDER_STATUS_LABELS } from './orderStatusUtils';
+import { FULFILMENT_STATUS_LABELS, getItemFulfilmentStatus } from './fulfilmentUtils';
+import { PAYMENT_STATE_LABELS, summarizePayments } from './paymentUtils';
+import { parseSelectedDishes } from './orderChangeUtils';
+import { getItemDeliveryDate } from './runSheetUtils';
+import { roundCurrency } from './promotionUtils';
+import { downloadBlob, downloadCsv, toCsv } from './csvUtils';
+import { createXlsx } from './xlsxUtils';
+
+const ORDER_COLUMNS: ExportColumn[] = [
+  { header: 'Order ID', type: 'text' },
+  { header: 'Order Date', type: 'date' },
+  { header: 'Booking Date', type: 'date' },
+  { header: 'Status', type: 'text' },
+  { header: 'Customer', type: 'text' },
+  { header: 'Phone', type: 'text' },
+  { header: 'Email', type: 'text' },
+  { header: 'Delivery Address', type: 'text' },
+  { header: 'Vendor', type: 'text' },
+  { header: 'Lines', type: 'number' },
+  { header: 'Subtotal', type: 'currency' },
+  { header: 'Discount', type: 'currency' },
+  { header: 'Damage Charges', type: 'currency' },
+  { header: 'Total', type: 'currency' },
+  { header: 'Paid', type: 'currency' },
+  { header: 'Refunded', type: 'currency' },
+  { header: 'Balance', type: 'currency' },
+  { header: 'Payment Status', type: 'text' },
+];
+
+const LINE_COLUMNS: ExportColumn[] = [
+  { header: 'Order ID', type: 'text' },
+  { header: 'Order Date', type: 'date' },
+  { header: 'Order Status', type: 'text' },
+  { header: 'Customer', type: 'text' },
+  { header: 'Phone', type: 'text' },
+  { header: 'Vendor', type: 'text' },
+  { header: 'Item', type: 'text' },
+  { header: 'Item Type', type: 'text' },
+  { header: 'Booking Date', type: 'date' },
+  { header: 'Quantity', type: 'number' },
+  { header: 'Unit Price', type: 'currency' },
+  { header: 'Line Total', type: 'currency' },
+  { header: 'Dishes', type: 'text' },
+  { header: 'Fulfilment', type: 'text' },
+];
+
+const getVendorNames = (order: Order): string =>
+  Array.from(new Set((order.orderItems || []).map(item => item.businessName))).join(', ');
+
+/**
+ * Build an export table from orders
+ * @param orders Orders to export, in the order they should appear
+ * @param granularity One row per order, or one row per order line
+ * @returns Columns and rows; dates stay YYYY-MM-DD until formatted for the output
+ */
+export function buildOrderExportTable(orders: Order[], granularity: ExportGranularity): ExportTable {
+  if (granularity === 'order') {
+    return {
+      columns: ORDER_COLUMNS,
+      rows: orders.map(order => {
+        const payments = summarizePayments(order);
+        return [
+          order.orderId.toString(),
+          order.orderDate?.slice(0, 10),
+          order.deliveryDate?.slice(0, 10),
+          ORDER_STATUS_LABELS[order.status] || order.status,
+          order.customerName,
+          order.customerPhone,
+          order.customerEmail,
+          order.deliveryAddress,
+          getVendorNames(order),
+          (order.orderItems || []).length,
+          order.subtotalAmount ?? order.totalAmount,
+          order.discountAmount || 0,
+          order.damageCharges || 0,
+          order.totalAmount,
+          payments.paid,
+          payments.refunded,
+          payments.balance,
+          PAYMENT_STATE_LABELS[payments.state],
+        ];
+      }),
+    };
+  }
+
+  return {
+    columns: LINE_COLUMNS,
+    rows: orders.flatMap(order =>
+      (order.orderItems || []).map((item): ExportValue[] => [
+        order.orderId.toString(),
+        order.orderDate?.slice(0, 10),
+        ORDER_STATUS_LABELS[order.status] || order.status,
+        order.customerName,
+        order.customerPhone,
+        item.businessName,
+        item.itemName,
+        item.itemType.toLowerCase(),
+        getItemDeliveryDate(item, order),
+        item.quantity,
+        item.itemPrice,
+        roundCurrency(item.itemPrice * item.quantity),
+        parseSelectedDishes(item)
+          .map(dish => `${dish.dishName} × ${dish.quantity}`)
+          .join('; '),
+        FULFILMENT_STATUS_LABELS[getItemFulfilmentStatus(item, order)],
+      ])
+    ),
+  };
+}
+
+/**
+ * Format a number the Indian way, e.g. 12,34,567.00
+ * @param value Number to format
+ * @param decimals Decimal places to show
+ */
+export function formatIndianNumber(value: number, decimals = 0): string {
+  return value.toLocaleString('en-IN', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+/**
+ * Format a YYYY-MM-DD date as DD/MM/YYYY; anything else is returned unchanged
+ */
+export function formatIndianDate(date: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : date;
+}
+
+/**
+ * Export table as CSV, with dates formatted for Indian readers.
+ * Numbers are written plain (no grouping) so spreadsheets can add them up; the XLSX export shows
+ * them with Indian digit grouping instead.
+ * @param table Table to write
+ * @returns CSV text
+ */
+export function exportTableToCsv(table: ExportTable): string {
+  const rows = table.rows.map(row =>
+    table.columns.map((column, index) => {
+      const value = row[index];
+      if (typeof value === 'number') {
+        return column.type === 'currency' ? roundCurrency(value) : value;
+      }
+      if (column.type === 'date' && typeof value === 'string') {
+        return formatIndianDate(value);
+      }
+      return value;
+    })
+  );
+  return toCsv(table.columns.map(column => column.header), rows);
+}
+
+/**
+ * Download orders as a spreadsheet
+ * @param orders Orders to export, usually the ones the current filters show
+ * @param granularity One row per order, or one row per order line
+ * @param exportFormat CSV or XLSX
+ * @param fileNamePrefix Start of the file name; the date and extension are added
+ */
+export function exportOrders(
+  orders: Order[],
+  granularity: ExportGranularity,
+  exportFormat: ExportFormat,
+  fileNamePrefix: string
+): void {
+  const table = buildOrderExportTable(orders, granularity);
+  const fileName = `${fileNamePrefix}-${granularity === 'line' ? 'lines' : 'orders'}-${format(new Date(), 'yyyy-MM-dd')}`;
+  if (exportFormat === 'xlsx') {
+    downloadBlob(createXlsx(table, granularity === 'line' ? 'Order Lines' : 'Orders'), `${fileName}.xlsx`);
+  } else {
+    downloadCsv(exportTableToCsv(table), `${fileName}.csv`);
+  }
+}
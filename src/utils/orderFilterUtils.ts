@@ -0,0 +1,46 @@
+/**
+ * Filtering vendor order lists by delivery date, business, item type and amount
+ */
+
+import { Order, OrderFilters } from '../types/cart';
+
+/**
+ * Get the orders that match every filter that is set
+ * @param orders Orders to filter
+ * @param filters Filters; unset fields match everything
+ * @returns Matching orders, in their original order
+ */
+export function filterOrders(orders: Order[], filters: OrderFilters): Order[] {
+  return orders.filter(order => {
+    const deliveryDate = order.deliveryDate?.slice(0, 10) || '';
+    if (filters.deliveryFrom && deliveryDate < filters.deliveryFrom) return false;
+    if (filters.deliveryTo && deliveryDate > filters.deliveryTo) return false;
+    if (filters.businessId && !(order.orderItems || []).some(item => item.businessId === filters.businessId)) return false;
+    if (
+      filters.itemType &&
+      !(order.orderItems || []).some(item => item.itemType.toLowerCase() === filters.itemType)
+    ) {
+      return false;
+    }
+    if (filters.minAmount !== undefined && order.totalAmount < filters.minAmount) return false;
+    if (filters.maxAmount !== undefined && order.totalAmount > filters.maxAmount) return false;
+    return true;
+  });
+}
+
+/**
+ * Get the item types that appear in a list of orders
+ * @returns Lower case item types, sorted
+ */
+export function getOrderItemTypes(orders: Order[]): string[] {
+  const types = new Set<string>();
+  orders.forEach(order => (order.orderItems || []).forEach(item => types.add(item.itemType.toLowerCase())));
+  return Array.from(types).sort();
+}
+
+/**
+ * Whether any filter is set
+ */
+export function hasActiveFilters(filters: OrderFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined && value !== '');
+}
@@ -0,0 +1,150 @@
+/**
+ * Order search: reading and writing the search kept in the URL, and the parameters sent to the server
+ */
+
+import { Order, OrderStatusValue } from '../types/cart';
+import { OrderSearchFilters, OrderSearchQuery, OrderSearchScope, OrderSortField, SortDirection } from '../types/orderSearch';
+import { ORDER_STATUS_LABELS } from './orderStatusUtils';
+
+export const ORDER_PAGE_SIZES = [10, 25, 50];
+
+export const DEFAULT_ORDER_SEARCH: OrderSearchQuery = {
+  sortBy: 'orderDate',
+  sortDirection: 'desc',
+  page: 0,
+  size: ORDER_PAGE_SIZES[0],
+};
+
+export const ORDER_SORT_LABELS: Record<OrderSortField, string> = {
+  orderDate: 'Order date',
+  deliveryDate: 'Booking date',
+  totalAmount: 'Amount',
+};
+
+// Lower case, as filterOrders compares them
+export const ORDER_ITEM_TYPES = ['theme', 'inventory', 'plate', 'dish'];
+
+// Filters held as text in the URL under the same name
+const TEXT_FILTERS = ['orderFrom', 'orderTo', 'deliveryFrom', 'deliveryTo', 'businessId', 'itemType', 'customer', 'itemName'] as const;
+
+const AMOUNT_FILTERS = ['minAmount', 'maxAmount'] as const;
+
+// Own keys only, so names like 'constructor' from the URL are not taken for a label
+const hasLabel = (labels: Record<string, string>, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(labels, key);
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value === '') return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Read an order search from URL search parameters; anything missing or invalid falls back to the default
+ * @param params URL search parameters
+ * @returns Search with page and sort always set
+ */
+export function parseOrderSearchParams(params: URLSearchParams): OrderSearchQuery {
+  const query: OrderSearchQuery = { ...DEFAULT_ORDER_SEARCH };
+
+  const statuses = (params.get('status') || '')
+    .split(',')
+    .filter((status): status is OrderStatusValue => hasLabel(ORDER_STATUS_LABELS, status));
+  if (statuses.length > 0) query.statuses = statuses;
+
+  TEXT_FILTERS.forEach(key => {
+    const value = params.get(key);
+    if (value) query[key] = value;
+  });
+  AMOUNT_FILTERS.forEach(key => {
+    const value = parseNumber(params.get(key));
+    if (value !== undefined && value >= 0) query[key] = value;
+  });
+
+  const sortBy = params.get('sort');
+  if (sortBy && hasLabel(ORDER_SORT_LABELS, sortBy)) query.sortBy = sortBy as OrderSortField;
+  const sortDirection = params.get('dir');
+  if (sortDirection === 'asc' || sortDirection === 'desc') query.sortDirection = sortDirection as SortDirection;
+
+  const page = parseNumber(params.get('page'));
+  if (page !== undefined && page >= 1) query.page = Math.floor(page) - 1;
+  const size = parseNumber(params.get('size'));
+  if (size !== undefined && ORDER_PAGE_SIZES.includes(size)) query.size = size;
+
+  return query;
+}
+
+/**
+ * Write an order search into URL search parameters, leaving out defaults so shared links stay short
+ * @param query Search to write
+ * @param params Existing parameters; those that are not part of the search are kept
+ * @returns New parameters
+ */
+export function toOrderSearchParams(query: OrderSearchQuery, params = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params);
+  ['status', ...TEXT_FILTERS, ...AMOUNT_FILTERS, 'sort', 'dir', 'page', 'size'].forEach(key => next.delete(key));
+
+  if (query.statuses?.length) next.set('status', query.statuses.join(','));
+  TEXT_FILTERS.forEach(key => {
+    const value = query[key]?.trim();
+    if (value) next.set(key, value);
+  });
+  AMOUNT_FILTERS.forEach(key => {
+    if (query[key] !== undefined) next.set(key, String(query[key]));
+  });
+  if (query.sortBy !== DEFAULT_ORDER_SEARCH.sortBy) next.set('sort', query.sortBy);
+  if (query.sortDirection !== DEFAULT_ORDER_SEARCH.sortDirection) next.set('dir', query.sortDirection);
+  // One-based in the URL, as people read it
+  if (query.page > 0) next.set('page', String(query.page + 1));
+  if (query.size !== DEFAULT_ORDER_SEARCH.size) next.set('size', String(query.size));
+
+  return next;
+}
+
+/**
+ * Whether any order search filter is set; sort and page do not count
+ */
+export function hasOrderSearchFilters(filters: OrderSearchFilters): boolean {
+  return (
+    !!filters.statuses?.length ||
+    TEXT_FILTERS.some(key => !!filters[key]?.trim()) ||
+    AMOUNT_FILTERS.some(key => filters[key] !== undefined)
+  );
+}
+
+/**
+ * Query parameters for the server-side order search
+ * @param query Search to run
+ * @param scope Client or business whose orders are searched; takes precedence over the business filter
+ * @returns Parameters with empty filters left out
+ */
+export function toOrderSearchRequestParams(query: OrderSearchQuery, scope: OrderSearchScope): Record<string, string | number> {
+  const params: Record<string, string | number> = {
+    page: query.page,
+    size: query.size,
+    sort: `${query.sortBy},${query.sortDirection}`,
+  };
+  if (query.statuses?.length) params.status = query.statuses.join(',');
+  TEXT_FILTERS.forEach(key => {
+    const value = query[key]?.trim();
+    if (value) params[key] = value;
+  });
+  AMOUNT_FILTERS.forEach(key => {
+    if (query[key] !== undefined) params[key] = query[key]!;
+  });
+  return { ...params, ...scope };
+}
+
+/**
+ * Get the businesses that appear in a list of orders, for filtering by vendor
+ * @returns Businesses sorted by name
+ */
+export function getOrderBusinesses(orders: Order[]): Array<{ businessId: string; businessName: string }> {
+  const businesses = new Map<string, string>();
+  orders.forEach(order =>
+    (order.orderItems || []).forEach(item => businesses.set(item.businessId, item.businessName))
+  );
+  return Array.from(businesses.entries())
+    .map(([businessId, businessName]) => ({ businessId, businessName }))
+    .sort((a, b) => a.businessName.localeCompare(b.businessName));
+}
@@ -0,0 +1,170 @@
+/**
+ * Order status transitions: who may move an order from one status to another
+ */
+
+import { AuthUser } from '../types';
+import { Order, OrderActor, OrderActorRole, OrderStatusChange, OrderStatusValue } from '../types/cart';
+
+// Allowed next statuses per current status and role. DELIVERED and CANCELLED are final.
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatusValue, Partial<Record<OrderActorRole, OrderStatusValue[]>>> = {
+  PENDING: {
+    VENDOR: ['CONFIRMED', 'CANCELLED'],
+    CLIENT: ['CANCELLED'],
+    ADMIN: ['CANCELLED'],
+    SYSTEM: ['CANCELLED'],
+  },
+  CONFIRMED: {
+    VENDOR: ['PREPARING', 'CANCELLED'],
+    CLIENT: ['CANCELLED'],
+    ADMIN: ['CANCELLED'],
+    SYSTEM: ['CANCELLED'],
+  },
+  PREPARING: {
+    VENDOR: ['READY', 'CANCELLED'],
+    CLIENT: ['CANCELLED'],
+    ADMIN: ['CANCELLED'],
+  },
+  READY: {
+    VENDOR: ['SHIPPED', 'DELIVERED', 'CANCELLED'],
+    ADMIN: ['CANCELLED'],
+  },
+  SHIPPED: {
+    VENDOR: ['DELIVERED'],
+  },
+  DELIVERED: {},
+  CANCELLED: {},
+};
+
+// Every forward status, including the optional SHIPPED step
+const FORWARD_ORDER: OrderStatusValue[] = ['PENDING', 'CONFIRMED', 'PREPARING', 'READY', 'SHIPPED', 'DELIVERED'];
+
+// Statuses an order normally goes through; SHIPPED only shows up when used
+const ORDER_STATUS_PATH: OrderStatusValue[] = ['PENDING', 'CONFIRMED', 'PREPARING', 'READY', 'DELIVERED'];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatusValue, string> = {
+  PENDING: 'Placed',
+  CONFIRMED: 'Confirmed',
+  PREPARING: 'Preparing',
+  READY: 'Ready for Delivery',
+  SHIPPED: 'Out for Delivery',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled',
+};
+
+// Button labels for moving an order into a status
+export const ORDER_STATUS_ACTIONS: Record<OrderStatusValue, string> = {
+  PENDING: 'Reopen',
+  CONFIRMED: 'Confirm Order',
+  PREPARING: 'Start Preparing',
+  READY: 'Mark Ready',
+  SHIPPED: 'Mark Shipped',
+  DELIVERED: 'Mark Delivered',
+  CANCELLED: 'Cancel',
+};
+
+export const CANCELLATION_REASONS: Record<'CLIENT' | 'VENDOR', string[]> = {
+  CLIENT: ['Event cancelled or postponed', 'Ordered by mistake', 'Found a better option', 'Delivery date no longer suits me'],
+  VENDOR: ['Item no longer available', 'Cannot deliver on the requested date', 'Customer requested cancellation', 'Payment not received'],
+};
+
+/**
+ * Work out the role a user acts in when changing orders
+ * @param user Logged in user
+ * @returns Actor with role, phone number and name
+ */
+export function getOrderActor(user: AuthUser | null | undefined): OrderActor {
+  const role: OrderActorRole =
+    user?.role === 'SUPER_ADMIN' || user?.role === 'ADMIN'
+      ? 'ADMIN'
+      : user?.userType === 'VENDOR'
+        ? 'VENDOR'
+        : 'CLIENT';
+  return {
+    role,
+    phoneNumber: user?.phoneNumber,
+    name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || undefined : undefined,
+  };
+}
+
+/**
+ * Get the statuses a role can move an order to
+ * @param status Current status
+ * @param role Who is changing the order
+ * @returns Allowed next statuses, empty when the order is final
+ */
+export function getAllowedTransitions(status: OrderStatusValue, role: OrderActorRole): OrderStatusValue[] {
+  return ORDER_STATUS_TRANSITIONS[status]?.[role] || [];
+}
+
+export function canTransition(from: OrderStatusValue, to: OrderStatusValue, role: OrderActorRole): boolean {
+  return getAllowedTransitions(from, role).includes(to);
+}
+
+/**
+ * Get the furthest status a role can move an order to without going past a target status
+ * @param from Current status
+ * @param target Status the order should end up in
+ * @param role Who is changing the order
+ * @returns Next status to move to, or null when the order is already there or cannot move forward
+ */
+export function getNextStatusTowards(
+  from: OrderStatusValue,
+  target: OrderStatusValue,
+  role: OrderActorRole
+): OrderStatusValue | null {
+  const rank = (status: OrderStatusValue) => FORWARD_ORDER.indexOf(status);
+  if (rank(from) < 0 || rank(target) <= rank(from)) {
+    return null;
+  }
+  const candidates = getAllowedTransitions(from, role).filter(
+    status => rank(status) > rank(from) && rank(status) <= rank(target)
+  );
+  return candidates.length > 0 ? candidates.sort((a, b) => rank(b) - rank(a))[0] : null;
+}
+
+/**
+ * Whether a reason must be given when moving an order into a status
+ */
+export function requiresReason(status: OrderStatusValue): boolean {
+  return status === 'CANCELLED';
+}
+
+/**
+ * Whether the customer can still cancel the order
+ */
+export function canClientCancel(order: Order): boolean {
+  return canTransition(order.status, 'CANCELLED', 'CLIENT');
+}
+
+/**
+ * The audit timeline of an order.
+ * Orders placed before the timeline was recorded get one reconstructed from the order date and current status.
+ * @param order Order
+ * @returns Status changes, oldest first
+ */
+export function getStatusHistory(order: Order): OrderStatusChange[] {
+  if (order.statusHistory && order.statusHistory.length > 0) {
+    return [...order.statusHistory].sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+  }
+
+  const history: OrderStatusChange[] = [{ toStatus: 'PENDING', changedAt: order.orderDate, role: 'CLIENT' }];
+  if (order.status !== 'PENDING') {
+    history.push({ fromStatus: 'PENDING', toStatus: order.status, changedAt: '', role: 'VENDOR' });
+  }
+  return history;
+}
+
+/**
+ * Statuses still ahead of an order on its normal path
+ * @param status Current status
+ * @returns Upcoming statuses, empty for delivered or cancelled orders
+ */
+export function getUpcomingStatuses(status: OrderStatusValue): OrderStatusValue[] {
+  if (status === 'CANCELLED' || status === 'DELIVERED') {
+    return [];
+  }
+  if (status === 'SHIPPED') {
+    return ['DELIVERED'];
+  }
+  return ORDER_STATUS_PATH.slice(ORDER_STATUS_PATH.indexOf(status) + 1);
+}
@@ -0,0 +1,175 @@
+/**
+ * Utility functions for deposits, payment schedules and order payment ledgers
+ */
+
+import { format, parseISO, subDays } from 'date-fns';
+import { CartItem, Order } from '../types/cart';
+import { CartPricing } from '../types/promotion';
+import {
+  DepositSettings,
+  PaymentPlan,
+  PaymentState,
+  PaymentSummary,
+  VendorPaymentSchedule,
+} from '../types/payment';
+import { roundCurrency } from './promotionUtils';
+
+export const PAYMENT_STATE_LABELS: Record<PaymentState, string> = {
+  UNPAID: 'Unpaid',
+  DEPOSIT_PAID: 'Deposit Paid',
+  PAID: 'Paid',
+  PARTIALLY_REFUNDED: 'Partially Refunded',
+  REFUNDED: 'Refunded',
+};
+
+/**
+ * Get the MUI color of a payment state
+ * @param state Payment state
+ * @returns Chip color
+ */
+export function getPaymentStateColor(state: PaymentState): 'default' | 'warning' | 'success' | 'info' | 'error' {
+  switch (state) {
+    case 'PAID':
+      return 'success';
+    case 'DEPOSIT_PAID':
+      return 'info';
+    case 'PARTIALLY_REFUNDED':
+    case 'REFUNDED':
+      return 'warning';
+    default:
+      return 'default';
+  }
+}
+
+/**
+ * Calculate the deposit of one vendor's part of the cart.
+ * Item rules win over the business default; lines covered by neither are paid in full.
+ */
+function getVendorDeposit(items: CartItem[], settings: DepositSettings): number {
+  let deposit = 0;
+  let defaultRuleAmount = 0;
+
+  items.forEach(item => {
+    const lineAmount = item.price * item.quantity;
+    const itemRule = settings.itemRules.find(rule => rule.itemId === item.id && rule.itemType === item.type);
+    if (itemRule) {
+      deposit += itemRule.type === 'PERCENTAGE'
+        ? (lineAmount * itemRule.value) / 100
+        : Math.min(lineAmount, itemRule.value * item.quantity);
+    } else if (settings.defaultRule) {
+      defaultRuleAmount += lineAmount;
+    } else {
+      deposit += lineAmount;
+    }
+  });
+
+  if (settings.defaultRule && defaultRuleAmount > 0) {
+    deposit += settings.defaultRule.type === 'PERCENTAGE'
+      ? (defaultRuleAmount * settings.defaultRule.value) / 100
+      : Math.min(defaultRuleAmount, settings.defaultRule.value);
+  }
+
+  return deposit;
+}
+
+/**
+ * Split what the cart costs into the amount due at checkout and the balance due before the event.
+ * @param items Cart items
+ * @param pricing Cart pricing after discounts
+ * @param settingsByBusiness Deposit settings per business; missing or null means full payment now
+ * @param eventDate Delivery date, used for vendors without booking dates (YYYY-MM-DD format)
+ * @param today Today's date (YYYY-MM-DD format)
+ * @returns Payment plan per vendor and in total
+ */
+export function buildPaymentPlan(
+  items: CartItem[],
+  pricing: CartPricing,
+  settingsByBusiness: Record<string, DepositSettings | null | undefined>,
+  eventDate: string,
+  today: string
+): PaymentPlan {
+  const vendors: VendorPaymentSchedule[] = pricing.vendors.map(vendorPricing => {
+    const vendorItems = items.filter(item => item.businessId === vendorPricing.businessId);
+    const settings = settingsByBusiness[vendorPricing.businessId];
+    const schedule: VendorPaymentSchedule = {
+      businessId: vendorPricing.businessId,
+      businessName: vendorPricing.businessName,
+      total: vendorPricing.total,
+      dueNow: vendorPricing.total,
+      dueBeforeEvent: 0,
+    };
+
+    if (!settings || vendorPricing.total <= 0 || vendorPricing.subtotal <= 0) {
+      return schedule;
+    }
+
+    // The balance is due a number of days before the vendor's first booking
+    const vendorEventDate = vendorItems
+      .map(item => item.bookingDate)
+      .filter((date): date is string => !!date)
+      .sort()[0] || eventDate;
+    if (!vendorEventDate) {
+      return schedule;
+    }
+    const balanceDueDate = format(subDays(parseISO(vendorEventDate), settings.balanceDueDays || 0), 'yyyy-MM-dd');
+    if (balanceDueDate <= today) {
+      return schedule;
+    }
+
+    // Discounts reduce the deposit in proportion to the items
+    const discountRatio = vendorPricing.total / vendorPricing.subtotal;
+    const dueNow = roundCurrency(Math.min(vendorPricing.total, getVendorDeposit(vendorItems, settings) * discountRatio));
+    const dueBeforeEvent = roundCurrency(vendorPricing.total - dueNow);
+
+    return {
+      ...schedule,
+      dueNow,
+      dueBeforeEvent,
+      balanceDueDate: dueBeforeEvent > 0 ? balanceDueDate : undefined,
+    };
+  });
+
+  return {
+    vendors,
+    dueNow: roundCurrency(vendors.reduce((sum, vendor) => sum + vendor.dueNow, 0)),
+    dueBeforeEvent: roundCurrency(vendors.reduce((sum, vendor) => sum + vendor.dueBeforeEvent, 0)),
+  };
+}
+
+/**
+ * Summarize the payment ledger of an order
+ * @param order Order with its payments
+ * @returns Payment state, amounts paid and refunded, and the balance left to pay
+ */
+export function summarizePayments(order: Order): PaymentSummary {
+  const payments = order.payments || [];
+  const paid = roundCurrency(
+    payments.filter(payment => payment.type !== 'REFUND').reduce((sum, payment) => sum + payment.amount, 0)
+  );
+  const refunded = roundCurrency(
+    payments.filter(payment => payment.type === 'REFUND').reduce((sum, payment) => sum + payment.amount, 0)
+  );
+  // An approved change that lowers the total refunds the overpayment, so refunds count against what was
+  // paid: the reduced order shows as paid rather than partly refunded, and its balance is on the net amount
+  const netPaid = paid - refunded;
+  const balance = order.status === 'CANCELLED' ? 0 : roundCurrency(Math.max(0, order.totalAmount - netPaid));
+
+  let state: PaymentState;
+  if (refunded > 0 && netPaid <= 0) {
+    state = 'REFUNDED';
+  } else if (refunded > 0 && order.status === 'CANCELLED') {
+    state = 'PARTIALLY_REFUNDED';
+  } else if (netPaid <= 0) {
+    state = 'UNPAID';
+  } else {
+    state = balance > 0 ? 'DEPOSIT_PAID' : 'PAID';
+  }
+
+  return {
+    state,
+    paid,
+    refunded,
+    balance,
+    balanceDueDate: balance > 0 ? order.balanceDueDate : undefined,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Platform-wide analytics for the super admin: GMV, segments, vendor activity and where businesses are
+ */
+
+import { Business } from '../types';
+import { Order } from '../types/cart';
+import { RatingStats } from '../types/rating';
+import {
+  BusinessLocationCluster,
+  BusinessSegment,
+  DateRange,
+  PlatformAnalytics,
+  SegmentSales,
+  VendorPerformance,
+} from '../types/analytics';
+import { getPreviousRange, getRevenueSeries, summarizeSales } from './salesAnalyticsUtils';
+import { isValidCoordinates } from './distanceUtils';
+import { roundCurrency } from './promotionUtils';
+
+const TOP_VENDORS = 5;
+
+// Businesses within about 10 km of each other show as one place
+const LOCATION_GRID_DEGREES = 0.1;
+
+const isInRange = (date: string | undefined, range: DateRange): boolean => {
+  const day = (date || '').slice(0, 10);
+  return day >= range.from && day <= range.to;
+};
+
+const getCompletedOrders = (orders: Order[], range: DateRange): Order[] =>
+  orders.filter(order => order.status !== 'CANCELLED' && isInRange(order.orderDate, range));
+
+/**
+ * Whether a business rents tents or does catering, from its category
+ */
+export function getBusinessSegment(business: Business): BusinessSegment {
+  const category = business.businessCategory?.toLowerCase() || '';
+  return category === 'tent_house' || category === 'tent' || (category.includes('tent') && !category.includes('cater'))
+    ? 'tent'
+    : 'catering';
+}
+
+/**
+ * Orders and revenue per segment. An order with lines from both segments counts once in each;
+ * revenue is the line totals, before order-level discounts and charges.
+ * @param orders Orders on the platform
+ * @param businesses Businesses, to find the segment of each line
+ * @param range Period, by order date
+ */
+export function getSalesBySegment(
+  orders: Order[],
+  businesses: Business[],
+  range: DateRange
+): Record<BusinessSegment, SegmentSales> {
+  const segments = new Map(businesses.map(business => [business.businessId, getBusinessSegment(business)]));
+  const sales: Record<BusinessSegment, SegmentSales> = {
+    tent: { orderCount: 0, revenue: 0 },
+    catering: { orderCount: 0, revenue: 0 },
+  };
+
+  getCompletedOrders(orders, range).forEach(order => {
+    const orderSegments = new Set<BusinessSegment>();
+    (order.orderItems || []).forEach(item => {
+      const segment = segments.get(item.businessId) || 'catering';
+      orderSegments.add(segment);
+      sales[segment].revenue = roundCurrency(sales[segment].revenue + item.itemPrice * item.quantity);
+    });
+    orderSegments.forEach(segment => {
+      sales[segment].orderCount += 1;
+    });
+  });
+  return sales;
+}
+
+/**
+ * Revenue, order count and rating of every business that sold something or has been rated
+ * @param orders Orders on the platform
+ * @param businesses Businesses, for their names
+ * @param ratingStats Rating stats by business ID
+ * @param range Period, by order date
+ */
+export function getVendorPerformance(
+  orders: Order[],
+  businesses: Business[],
+  ratingStats: Record<string, RatingStats>,
+  range: DateRange
+): VendorPerformance[] {
+  const vendors = new Map<string, VendorPerformance>();
+  const getVendor = (businessId: string, businessName: string) => {
+    const vendor = vendors.get(businessId) || { businessId, businessName, revenue: 0, orderCount: 0, ratingCount: 0 };
+    vendors.set(businessId, vendor);
+    return vendor;
+  };
+
+  getCompletedOrders(orders, range).forEach(order => {
+    const orderVendors = new Set<string>();
+    (order.orderItems || []).forEach(item => {
+      const vendor = getVendor(item.businessId, item.businessName);
+      vendor.revenue = roundCurrency(vendor.revenue + item.itemPrice * item.quantity);
+      orderVendors.add(item.businessId);
+    });
+    orderVendors.forEach(businessId => {
+      vendors.get(businessId)!.orderCount += 1;
+    });
+  });
+
+  businesses.forEach(business => {
+    const stats = ratingStats[business.businessId];
+    if (stats && stats.totalRatings > 0) {
+      const vendor = getVendor(business.businessId, business.businessName);
+      vendor.averageRating = stats.averageRating;
+      vendor.ratingCount = stats.totalRatings;
+    }
+  });
+
+  return Array.from(vendors.values());
+}
+
+/**
+ * Group businesses that are close together, for a map of where vendors are
+ * @param businesses Businesses; those without valid coordinates are left out
+ * @returns Clusters, largest first, placed at the average position of their businesses
+ */
+export function clusterBusinessLocations(businesses: Business[]): BusinessLocationCluster[] {
+  const cells = new Map<string, Business[]>();
+  businesses
+    .filter(business => isValidCoordinates(business.latitude, business.longitude))
+    .forEach(business => {
+      const key = [business.latitude!, business.longitude!]
+        .map(value => Math.round(value / LOCATION_GRID_DEGREES))
+        .join(':');
+      cells.set(key, [...(cells.get(key) || []), business]);
+    });
+
+  return Array.from(cells.values())
+    .map(members => ({
+      latitude: members.reduce((sum, business) => sum + business.latitude!, 0) / members.length,
+      longitude: members.reduce((sum, business) => sum + business.longitude!, 0) / members.length,
+      businessCount: members.length,
+      businessNames: members.map(business => business.businessName).sort(),
+    }))
+    .sort((a, b) => b.businessCount - a.businessCount);
+}
+
+const countActiveVendors = (orders: Order[], range: DateRange): number =>
+  new Set(
+    getCompletedOrders(orders, range).flatMap(order => (order.orderItems || []).map(item => item.businessId))
+  ).size;
+
+const countNewVendors = (businesses: Business[], range: DateRange): number =>
+  businesses.filter(business => isInRange(business.createdAt, range)).length;
+
+/**
+ * Everything the platform analytics view shows for a range, with the previous period for comparison
+ * @param orders Every order on the platform
+ * @param businesses Every business on the platform
+ * @param ratingStats Rating stats by business ID; businesses missing from it count as unrated
+ * @param range Period to analyse
+ */
+export function buildPlatformAnalytics(
+  orders: Order[],
+  businesses: Business[],
+  ratingStats: Record<string, RatingStats>,
+  range: DateRange
+): PlatformAnalytics {
+  const previousRange = getPreviousRange(range);
+  const vendors = getVendorPerformance(orders, businesses, ratingStats, range);
+  const locations = clusterBusinessLocations(businesses);
+
+  return {
+    range,
+    previousRange,
+    summary: summarizeSales(orders, range),
+    previousSummary: summarizeSales(orders, previousRange),
+    // The previous range has the same length, so both are bucketed the same way
+    gmvSeries: getRevenueSeries(orders, range),
+    previousGmvSeries: getRevenueSeries(orders, previousRange),
+    salesBySegment: getSalesBySegment(orders, businesses, range),
+    activeVendors: countActiveVendors(orders, range),
+    previousActiveVendors: countActiveVendors(orders, previousRange),
+    newVendors: countNewVendors(businesses, range),
+    previousNewVendors: countNewVendors(businesses, previousRange),
+    topVendorsByRevenue: vendors
+      .filter(vendor => vendor.revenue > 0)
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, TOP_VENDORS),
+    topVendorsByRating: vendors
+      .filter(vendor => vendor.averageRating !== undefined)
+      .sort((a, b) => b.averageRating! - a.averageRating! || b.ratingCount - a.ratingCount)
+      .slice(0, TOP_VENDORS),
+    locations,
+    unlocatedBusinesses: businesses.length - locations.reduce((sum, cluster) => sum + cluster.businessCount, 0),
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Utility functions for applying promotions to cart pricing
+ */
+
+import { CartItem } from '../types/cart';
+import {
+  CartPricing,
+  DiscountLine,
+  Promotion,
+  PromotionContext,
+  VendorPricing,
+} from '../types/promotion';
+import { formatPrice } from './priceUtils';
+
+/**
+ * Round an amount to paise
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Short human readable summary of what a promotion gives
+ * @param promotion Promotion to describe
+ * @returns e.g. "20% off up to ₹500" or "Buy 10 get 1 free on plates"
+ */
+export function describePromotion(promotion: Promotion): string {
+  const minimum = promotion.minOrderAmount ? ` on orders above ${formatPrice(promotion.minOrderAmount)}` : '';
+  const cap = promotion.maxDiscount ? ` up to ${formatPrice(promotion.maxDiscount)}` : '';
+
+  switch (promotion.type) {
+    case 'PERCENTAGE':
+      return `${promotion.percentOff || 0}% off${cap}${minimum}`;
+    case 'FLAT_ABOVE_MIN':
+      return `${formatPrice(promotion.flatAmount || 0)} off${minimum}`;
+    case 'BUY_X_GET_Y':
+      return `Buy ${promotion.buyQuantity || 0} get ${promotion.getQuantity || 0} free on plates`;
+    case 'FIRST_ORDER':
+      return promotion.percentOff
+        ? `First order: ${promotion.percentOff}% off${cap}${minimum}`
+        : `First order: ${formatPrice(promotion.flatAmount || 0)} off${minimum}`;
+    default:
+      return promotion.title;
+  }
+}
+
+/**
+ * Check the conditions of a promotion that do not depend on the cart contents
+ * @param promotion Promotion to check
+ * @param context Customer and date information
+ * @returns Reason the promotion cannot be used, or null if it can
+ */
+export function getPromotionIneligibilityReason(promotion: Promotion, context: PromotionContext): string | null {
+  if (!promotion.isActive) {
+    return `Coupon ${promotion.code} is no longer active`;
+  }
+  if (promotion.validFrom && context.today < promotion.validFrom) {
+    return `Coupon ${promotion.code} is valid from ${promotion.validFrom}`;
+  }
+  if (promotion.validUntil && context.today > promotion.validUntil) {
+    return `Coupon ${promotion.code} expired on ${promotion.validUntil}`;
+  }
+  if (promotion.type === 'FIRST_ORDER' && !context.isFirstOrder) {
+    return `Coupon ${promotion.code} is only valid on your first order`;
+  }
+  return null;
+}
+
+/**
+ * Discount from free plates of a buy-X-get-Y promotion
+ */
+function getFreePlatesDiscount(promotion: Promotion, items: CartItem[]): number {
+  const buy = promotion.buyQuantity || 0;
+  const get = promotion.getQuantity || 0;
+  if (buy <= 0 || get <= 0) return 0;
+
+  return items
+    .filter(item => item.type === 'plate' && (!promotion.plateId || item.id === promotion.plateId))
+    .reduce((sum, item) => sum + Math.floor(item.quantity / (buy + get)) * get * item.price, 0);
+}
+
+/**
+ * Discount a percentage or flat promotion gives on an amount, before it is split across vendors
+ */
+function getAmountDiscount(promotion: Promotion, amount: number): number {
+  let discount = 0;
+  if (promotion.type === 'PERCENTAGE' || (promotion.type === 'FIRST_ORDER' && promotion.percentOff)) {
+    discount = (amount * (promotion.percentOff || 0)) / 100;
+    if (promotion.maxDiscount) {
+      discount = Math.min(discount, promotion.maxDiscount);
+    }
+  } else if (promotion.type === 'FLAT_ABOVE_MIN' || promotion.type === 'FIRST_ORDER') {
+    discount = promotion.flatAmount || 0;
+  }
+  return Math.min(discount, amount);
+}
+
+/**
+ * Split a discount across vendors in proportion to what each still owes.
+ * The last vendor absorbs the rounding difference.
+ */
+function allocateDiscount(total: number, amounts: number[]): number[] {
+  const base = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (base <= 0) return amounts.map(() => 0);
+
+  let allocated = 0;
+  return amounts.map((amount, index) => {
+    if (index === amounts.length - 1) {
+      return roundCurrency(Math.min(total - allocated, amount));
+    }
+    const share = roundCurrency((total * amount) / base);
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * Price a cart with the given promotions applied.
+ * Vendor promotions are applied to their vendor's items first; platform promotions
+ * are then applied to what remains and split across vendors so every vendor order
+ * carries its own discount lines.
+ * @param items Cart items
+ * @param promotions Promotions the customer applied
+ * @param context Customer and date information
+ * @returns Per-vendor subtotals, discount lines and totals
+ */
+export function calculateCartPricing(items: CartItem[], promotions: Promotion[], context: PromotionContext): CartPricing {
+  const itemsByVendor = new Map<string, CartItem[]>();
+  items.forEach(item => {
+    if (!itemsByVendor.has(item.businessId)) {
+      itemsByVendor.set(item.businessId, []);
+    }
+    itemsByVendor.get(item.businessId)!.push(item);
+  });
+
+  const vendors: VendorPricing[] = Array.from(itemsByVendor.entries()).map(([businessId, vendorItems]) => {
+    const subtotal = roundCurrency(vendorItems.reduce((sum, item) => sum + item.price * item.quantity, 0));
+    return {
+      businessId,
+      businessName: vendorItems[0].businessName,
+      subtotal,
+      discounts: [],
+      discountTotal: 0,
+      total: subtotal,
+    };
+  });
+
+  const inapplicable: CartPricing['inapplicable'] = [];
+
+  const addDiscount = (vendor: VendorPricing, promotion: Promotion, amount: number) => {
+    const applied = roundCurrency(Math.min(amount, vendor.total));
+    if (applied <= 0) return;
+    const line: DiscountLine = {
+      promotionId: promotion.promotionId,
+      code: promotion.code,
+      title: promotion.title,
+      scope: promotion.scope,
+      businessId: vendor.businessId,
+      amount: applied,
+    };
+    vendor.discounts.push(line);
+    vendor.discountTotal = roundCurrency(vendor.discountTotal + applied);
+    vendor.total = roundCurrency(vendor.subtotal - vendor.discountTotal);
+  };
+
+  const isBelowMinimum = (promotion: Promotion, amount: number): boolean => {
+    if (promotion.minOrderAmount && amount < promotion.minOrderAmount) {
+      inapplicable.push({
+        promotion,
+        reason: `Add ${formatPrice(roundCurrency(promotion.minOrderAmount - amount))} more to use ${promotion.code}`,
+      });
+      return true;
+    }
+    return false;
+  };
+
+  // Vendor promotions first, then platform promotions on the remaining amount
+  const ordered = [
+    ...promotions.filter(promotion => promotion.scope === 'VENDOR'),
+    ...promotions.filter(promotion => promotion.scope === 'PLATFORM'),
+  ];
+
+  ordered.forEach(promotion => {
+    const reason = getPromotionIneligibilityReason(promotion, context);
+    if (reason) {
+      inapplicable.push({ promotion, reason });
+      return;
+    }
+
+    const targets = promotion.scope === 'VENDOR'
+      ? vendors.filter(vendor => vendor.businessId === promotion.businessId)
+      : vendors;
+    if (targets.length === 0) {
+      inapplicable.push({ promotion, reason: `Coupon ${promotion.code} does not apply to any item in your cart` });
+      return;
+    }
+
+    const remaining = targets.map(vendor => vendor.total);
+    const remainingTotal = remaining.reduce((sum, amount) => sum + amount, 0);
+    if (isBelowMinimum(promotion, remainingTotal)) {
+      return;
+    }
+
+    let amounts: number[];
+    if (promotion.type === 'BUY_X_GET_Y') {
+      amounts = targets.map(vendor => getFreePlatesDiscount(promotion, itemsByVendor.get(vendor.businessId) || []));
+    } else {
+      amounts = allocateDiscount(getAmountDiscount(promotion, remainingTotal), remaining);
+    }
+
+    if (amounts.every(amount => amount <= 0)) {
+      inapplicable.push({
+        promotion,
+        reason: promotion.type === 'BUY_X_GET_Y'
+          ? `Add more plates to get free ones with ${promotion.code}`
+          : `Coupon ${promotion.code} gives no discount on this cart`,
+      });
+      return;
+    }
+
+    targets.forEach((vendor, index) => addDiscount(vendor, promotion, amounts[index]));
+  });
+
+  const subtotal = roundCurrency(vendors.reduce((sum, vendor) => sum + vendor.subtotal, 0));
+  const discountTotal = roundCurrency(vendors.reduce((sum, vendor) => sum + vendor.discountTotal, 0));
+
+  return {
+    vendors,
+    subtotal,
+    discountTotal,
+    total: roundCurrency(subtotal - discountTotal),
+    inapplicable,
+  };
+}
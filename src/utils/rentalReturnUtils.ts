@@ -0,0 +1,109 @@
+/**
+ * Rental returns: when rented inventory is due back and how much of it has come back
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { ItemFulfilmentStatus, Order, OrderItemResponse } from '../types/cart';
+import { RentalReturn, RentalReturnState, RentalReturnSummary } from '../types/rentalReturn';
+import { getItemFulfilmentStatus } from './fulfilmentUtils';
+import { roundCurrency } from './promotionUtils';
+
+export const RENTAL_RETURN_STATE_LABELS: Record<RentalReturnState, string> = {
+  NOT_DUE: 'Not Yet Out',
+  OUT: 'Out on Rent',
+  OVERDUE: 'Return Overdue',
+  PARTIALLY_RETURNED: 'Partly Returned',
+  RETURNED: 'Returned',
+};
+
+export function getRentalReturnStateColor(state: RentalReturnState) {
+  switch (state) {
+    case 'OUT': return 'info';
+    case 'OVERDUE': return 'error';
+    case 'PARTIALLY_RETURNED': return 'warning';
+    case 'RETURNED': return 'success';
+    default: return 'default';
+  }
+}
+
+/**
+ * Whether an order line is a rental that has to come back
+ */
+export function isRentalItem(item: OrderItemResponse): boolean {
+  return item.itemType.toLowerCase() === 'inventory';
+}
+
+// Line statuses by which rented units have physically left the vendor
+const CHECKED_OUT_STATUSES: ItemFulfilmentStatus[] = ['DISPATCHED', 'SET_UP', 'RETURNED'];
+
+/**
+ * Whether the vendor dispatched a rented line through its own fulfilment steps, which takes the units out of stock.
+ * Lines only moved along by the order status never left stock.
+ */
+export function isCheckedOut(item: OrderItemResponse): boolean {
+  return isRentalItem(item) && !!item.fulfilmentStatus && CHECKED_OUT_STATUSES.includes(item.fulfilmentStatus);
+}
+
+/**
+ * Get the date a rented line is due back
+ * @param item Order line
+ * @param order Order the line belongs to, for its delivery date when the line has no booking date
+ * @returns Date in YYYY-MM-DD format
+ */
+export function getExpectedReturnDate(item: OrderItemResponse, order: Order): string {
+  return item.expectedReturnDate || getDayAfterEvent(item, order);
+}
+
+/**
+ * Get the first day after the event a line was booked for
+ * @returns Date in YYYY-MM-DD format
+ */
+export function getDayAfterEvent(item: OrderItemResponse, order: Order): string {
+  const eventDate = item.bookingDate || order.deliveryDate.slice(0, 10);
+  return format(addDays(parseISO(eventDate), 1), 'yyyy-MM-dd');
+}
+
+/**
+ * Add up the returns recorded for a rented line
+ * @param item Order line
+ * @param order Order the line belongs to
+ * @param returns Returns recorded for the order
+ * @param today Today's date in YYYY-MM-DD format
+ * @returns Quantities, charges and where the line stands
+ */
+export function summarizeRentalReturns(
+  item: OrderItemResponse,
+  order: Order,
+  returns: RentalReturn[],
+  today: string
+): RentalReturnSummary {
+  const lineReturns = returns.filter(rentalReturn => rentalReturn.orderItemId === item.orderItemId);
+  const returned = lineReturns.reduce((sum, rentalReturn) => sum + rentalReturn.quantityReturned, 0);
+  const damaged = lineReturns.reduce((sum, rentalReturn) => sum + rentalReturn.quantityDamaged, 0);
+  const missing = lineReturns.reduce((sum, rentalReturn) => sum + rentalReturn.quantityMissing, 0);
+  const outstanding = Math.max(0, item.quantity - returned - damaged - missing);
+  const expectedReturnDate = getExpectedReturnDate(item, order);
+  const isOut = CHECKED_OUT_STATUSES.includes(getItemFulfilmentStatus(item, order));
+
+  let state: RentalReturnState;
+  if (outstanding === 0) {
+    state = 'RETURNED';
+  } else if (lineReturns.length > 0) {
+    state = 'PARTIALLY_RETURNED';
+  } else if (!isOut) {
+    state = 'NOT_DUE';
+  } else {
+    state = today > expectedReturnDate ? 'OVERDUE' : 'OUT';
+  }
+
+  return {
+    state,
+    expectedReturnDate,
+    rented: item.quantity,
+    returned,
+    damaged,
+    missing,
+    outstanding,
+    damageCharges: roundCurrency(lineReturns.reduce((sum, rentalReturn) => sum + rentalReturn.damageCharge, 0)),
+  };
+}
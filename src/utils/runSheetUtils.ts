@@ -0,0 +1,93 @@
+/**
+ * Run sheets: what a vendor delivers on each day, where, and how much of each item to load or prepare
+ */
+
+import { Business } from '../types';
+import { Order, OrderItemResponse } from '../types/cart';
+import { Coordinates, RunSheetDay, RunSheetStop, RunSheetTotal } from '../types/runSheet';
+import { calculateDistance, isValidCoordinates } from './distanceUtils';
+import { parseSelectedDishes } from './orderChangeUtils';
+
+/**
+ * Get the day an order line is delivered on
+ * @returns Date in YYYY-MM-DD format
+ */
+export function getItemDeliveryDate(item: OrderItemResponse, order: Order): string {
+  return item.bookingDate || order.deliveryDate.slice(0, 10);
+}
+
+const addToTotals = (totals: Map<string, RunSheetTotal>, id: string, name: string, quantity: number) => {
+  const existing = totals.get(id);
+  totals.set(id, { id, name, quantity: (existing?.quantity || 0) + quantity });
+};
+
+const sortTotals = (totals: Map<string, RunSheetTotal>) =>
+  Array.from(totals.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Build the run sheet of a business, one day per delivery date.
+ * Cancelled orders are left out. Dish totals count dishes on plates times the plates ordered, plus dishes ordered on their own.
+ * @param orders Orders of the business
+ * @param business Business delivering, for its location
+ * @param locations Coordinates of delivery addresses that could be located
+ * @returns Days in date order, each with its stops nearest first
+ */
+export function buildRunSheet(
+  orders: Order[],
+  business: Business,
+  locations: Record<string, Coordinates>
+): RunSheetDay[] {
+  const hasBusinessLocation = isValidCoordinates(business.latitude, business.longitude);
+  const days = new Map<string, { stops: RunSheetStop[]; inventory: Map<string, RunSheetTotal>; dishes: Map<string, RunSheetTotal> }>();
+
+  orders
+    .filter(order => order.status !== 'CANCELLED')
+    .forEach(order => {
+      const location = locations[order.deliveryAddress];
+      const distanceKm =
+        hasBusinessLocation && location
+          ? calculateDistance(business.latitude!, business.longitude!, location.latitude, location.longitude)
+          : null;
+
+      (order.orderItems || [])
+        .filter(item => item.businessId === business.businessId)
+        .forEach(item => {
+          const date = getItemDeliveryDate(item, order);
+          if (!days.has(date)) {
+            days.set(date, { stops: [], inventory: new Map(), dishes: new Map() });
+          }
+          const day = days.get(date)!;
+
+          let stop = day.stops.find(existing => existing.order.orderId === order.orderId);
+          if (!stop) {
+            stop = { order, items: [], distanceKm };
+            day.stops.push(stop);
+          }
+          stop.items.push(item);
+
+          const type = item.itemType.toLowerCase();
+          if (type === 'inventory') {
+            addToTotals(day.inventory, item.itemId, item.itemName, item.quantity);
+          } else if (type === 'dish') {
+            addToTotals(day.dishes, item.itemId, item.itemName, item.quantity);
+          } else if (type === 'plate') {
+            parseSelectedDishes(item).forEach(dish =>
+              addToTotals(day.dishes, dish.dishId, dish.dishName, dish.quantity * item.quantity)
+            );
+          }
+        });
+    });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      stops: day.stops.sort((a, b) => {
+        if (a.distanceKm === null) return b.distanceKm === null ? 0 : 1;
+        if (b.distanceKm === null) return -1;
+        return a.distanceKm - b.distanceKm;
+      }),
+      inventoryTotals: sortTotals(day.inventory),
+      dishTotals: sortTotals(day.dishes),
+    }));
+}
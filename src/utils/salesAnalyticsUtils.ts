@@ -0,0 +1,259 @@
+/**
+ * Sales analytics for a business: revenue, order mix, top sellers and bookings over a date range
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { Order, OrderStatusValue } from '../types/cart';
+import { Rating } from '../types/rating';
+import {
+  DateRange,
+  RatingTrendPoint,
+  RevenuePoint,
+  SalesAnalytics,
+  SalesSummary,
+  TopSellingItem,
+} from '../types/analytics';
+import { parseSelectedDishes } from './orderChangeUtils';
+import { getItemDeliveryDate } from './runSheetUtils';
+import { roundCurrency } from './promotionUtils';
+
+const TOP_ITEMS_PER_TYPE = 5;
+
+// Preset ranges in days, ending today
+export const ANALYTICS_RANGE_PRESETS = [7, 30, 90, 365];
+
+type BucketSize = 'day' | 'week' | 'month';
+
+const getOrderDay = (order: Order): string => order.orderDate.slice(0, 10);
+
+const isInRange = (date: string, range: DateRange): boolean => date >= range.from && date <= range.to;
+
+/**
+ * The last few days, ending today
+ * @param days Length of the range, including today
+ */
+export function getRecentRange(days: number): DateRange {
+  return {
+    from: format(subDays(new Date(), days - 1), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * The period of the same length that ends the day before a range starts
+ */
+export function getPreviousRange(range: DateRange): DateRange {
+  const from = parseISO(range.from);
+  const days = differenceInCalendarDays(parseISO(range.to), from) + 1;
+  return {
+    from: format(subDays(from, days), 'yyyy-MM-dd'),
+    to: format(subDays(from, 1), 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Headline numbers for the orders placed in a range
+ * @param orders Every order of the business, so repeat customers can be recognised
+ * @param range Period to summarise, by order date
+ */
+export function summarizeSales(orders: Order[], range: DateRange): SalesSummary {
+  const periodOrders = orders.filter(order => isInRange(getOrderDay(order), range));
+  const completedOrders = periodOrders.filter(order => order.status !== 'CANCELLED');
+  const revenue = roundCurrency(completedOrders.reduce((sum, order) => sum + order.totalAmount, 0));
+  const cancelled = periodOrders.length - completedOrders.length;
+
+  // A customer is a repeat customer once they have placed a second order by the end of the period
+  const ordersToDate = new Map<string, number>();
+  orders
+    .filter(order => order.status !== 'CANCELLED' && getOrderDay(order) <= range.to)
+    .forEach(order => ordersToDate.set(order.userId, (ordersToDate.get(order.userId) || 0) + 1));
+  const customers = new Set(completedOrders.map(order => order.userId));
+  const repeatCustomers = Array.from(customers).filter(userId => (ordersToDate.get(userId) || 0) > 1).length;
+
+  return {
+    revenue,
+    orderCount: periodOrders.length,
+    averageOrderValue: completedOrders.length > 0 ? roundCurrency(revenue / completedOrders.length) : 0,
+    cancellationRate: periodOrders.length > 0 ? cancelled / periodOrders.length : 0,
+    customerCount: customers.size,
+    repeatCustomerShare: customers.size > 0 ? repeatCustomers / customers.size : 0,
+  };
+}
+
+const getBucketSize = (range: DateRange): BucketSize => {
+  const days = differenceInCalendarDays(parseISO(range.to), parseISO(range.from)) + 1;
+  if (days <= 31) return 'day';
+  if (days <= 120) return 'week';
+  return 'month';
+};
+
+const getBucketStart = (date: Date, size: BucketSize): Date => {
+  if (size === 'week') return startOfWeek(date, { weekStartsOn: 1 });
+  if (size === 'month') return startOfMonth(date);
+  return date;
+};
+
+/**
+ * Revenue per day, week or month of a range, with empty buckets included
+ * @param orders Orders of the business
+ * @param range Period to chart, by order date
+ * @param size Bucket size; chosen from the length of the range when not given
+ */
+export function getRevenueSeries(orders: Order[], range: DateRange, size: BucketSize = getBucketSize(range)): RevenuePoint[] {
+  const labelFormat = size === 'month' ? 'MMM yyyy' : 'd MMM';
+  const points = new Map<string, RevenuePoint>();
+  const end = parseISO(range.to);
+  for (let day = parseISO(range.from); day <= end; day = addDays(day, 1)) {
+    const start = format(getBucketStart(day, size), 'yyyy-MM-dd');
+    if (!points.has(start)) {
+      points.set(start, { label: format(getBucketStart(day, size), labelFormat), start, revenue: 0, orderCount: 0 });
+    }
+  }
+
+  orders
+    .filter(order => order.status !== 'CANCELLED' && isInRange(getOrderDay(order), range))
+    .forEach(order => {
+      const start = format(getBucketStart(parseISO(getOrderDay(order)), size), 'yyyy-MM-dd');
+      const point = points.get(start);
+      if (point) {
+        point.revenue = roundCurrency(point.revenue + order.totalAmount);
+        point.orderCount += 1;
+      }
+    });
+
+  return Array.from(points.values());
+}
+
+/**
+ * Best sellers by revenue for each item type. Dishes include those chosen on plates.
+ * @param orders Orders of the business
+ * @param businessId Business whose lines count
+ * @param range Period, by order date
+ */
+export function getTopSellingItems(orders: Order[], businessId: string, range: DateRange): Record<string, TopSellingItem[]> {
+  const items = new Map<string, TopSellingItem>();
+  const add = (itemId: string, itemName: string, itemType: string, quantity: number, revenue: number) => {
+    const key = `${itemType}:${itemId}`;
+    const item = items.get(key) || { itemId, itemName, itemType, quantity: 0, revenue: 0 };
+    item.quantity += quantity;
+    item.revenue = roundCurrency(item.revenue + revenue);
+    items.set(key, item);
+  };
+
+  orders
+    .filter(order => order.status !== 'CANCELLED' && isInRange(getOrderDay(order), range))
+    .forEach(order =>
+      (order.orderItems || [])
+        .filter(item => item.businessId === businessId)
+        .forEach(item => {
+          const itemType = item.itemType.toLowerCase();
+          add(item.itemId, item.itemName, itemType, item.quantity, item.itemPrice * item.quantity);
+          if (itemType === 'plate') {
+            parseSelectedDishes(item).forEach(dish =>
+              add(dish.dishId, dish.dishName, 'dish', dish.quantity * item.quantity, dish.dishPrice * dish.quantity * item.quantity)
+            );
+          }
+        })
+    );
+
+  const byType: Record<string, TopSellingItem[]> = {};
+  items.forEach(item => {
+    byType[item.itemType] = [...(byType[item.itemType] || []), item];
+  });
+  Object.keys(byType).forEach(type => {
+    byType[type] = byType[type].sort((a, b) => b.revenue - a.revenue).slice(0, TOP_ITEMS_PER_TYPE);
+  });
+  return byType;
+}
+
+/**
+ * Orders booked for each day of a range, by booking date rather than order date
+ * @returns YYYY-MM-DD -> number of orders with a line booked that day
+ */
+export function getBookingsByDate(orders: Order[], businessId: string, range: DateRange): Record<string, number> {
+  const bookings: Record<string, number> = {};
+  orders
+    .filter(order => order.status !== 'CANCELLED')
+    .forEach(order => {
+      const dates = new Set(
+        (order.orderItems || [])
+          .filter(item => item.businessId === businessId)
+          .map(item => getItemDeliveryDate(item, order))
+          .filter(date => isInRange(date, range))
+      );
+      dates.forEach(date => {
+        bookings[date] = (bookings[date] || 0) + 1;
+      });
+    });
+  return bookings;
+}
+
+/**
+ * Average rating per month, oldest first
+ * @param ratings Ratings of the business
+ */
+export function getRatingTrend(ratings: Rating[]): RatingTrendPoint[] {
+  const months = new Map<string, { total: number; count: number }>();
+  ratings
+    .filter(rating => rating.isActive !== false && rating.createdAt)
+    .forEach(rating => {
+      const month = rating.createdAt.slice(0, 7);
+      const entry = months.get(month) || { total: 0, count: 0 };
+      entry.total += rating.rating;
+      entry.count += 1;
+      months.set(month, entry);
+    });
+  return Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, { total, count }]) => ({
+      month,
+      averageRating: Math.round((total / count) * 10) / 10,
+      ratingCount: count,
+    }));
+}
+
+/**
+ * Everything the analytics view shows for a range, with the previous period for comparison
+ * @param orders Every order of the business
+ * @param businessId Business being analysed
+ * @param range Period to analyse
+ */
+export function buildSalesAnalytics(orders: Order[], businessId: string, range: DateRange): SalesAnalytics {
+  const previousRange = getPreviousRange(range);
+  const bucketSize = getBucketSize(range);
+  const ordersByStatus: Partial<Record<OrderStatusValue, number>> = {};
+  orders
+    .filter(order => isInRange(getOrderDay(order), range))
+    .forEach(order => {
+      ordersByStatus[order.status] = (ordersByStatus[order.status] || 0) + 1;
+    });
+
+  return {
+    range,
+    previousRange,
+    summary: summarizeSales(orders, range),
+    previousSummary: summarizeSales(orders, previousRange),
+    revenueSeries: getRevenueSeries(orders, range, bucketSize),
+    previousRevenueSeries: getRevenueSeries(orders, previousRange, bucketSize),
+    ordersByStatus,
+    topItems: getTopSellingItems(orders, businessId, range),
+    bookingsByDate: getBookingsByDate(orders, businessId, range),
+  };
+}
+
+/**
+ * Change from one value to another as a fraction, e.g. 0.25 for a 25% rise
+ * @returns null when there is nothing to compare with
+ */
+export function getChange(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return (current - previous) / previous;
+}